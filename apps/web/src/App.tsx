@@ -3,12 +3,50 @@
  *
  * Thin wrapper that renders the TaggingPageContainer.
  * All business logic, state management, and layout are delegated to sub-components.
+ *
+ * Waits for the workspace (IndexedDB projects) to load the active project;
+ * the container remounts after every project switch. Tab sync starts first
+ * so other tabs' changes to the same project are picked up. If the project
+ * list cannot be read, the error is shown instead of the app.
  */
 
+import { useEffect } from 'react';
+import { Alert, Center, Loader } from '@mantine/core';
 import { TaggingPageContainer } from './pages/TaggingPageContainer';
+import { useWorkspaceStore, useSettingsStore, startTabSync } from './store';
 
 function App() {
-  return <TaggingPageContainer />;
+  const isReady = useWorkspaceStore((state) => state.isReady);
+  const activeProjectId = useWorkspaceStore((state) => state.activeProjectId);
+  const loadError = useWorkspaceStore((state) => state.loadError);
+  const uiLanguage = useSettingsStore((state) => state.uiLanguage);
+
+  useEffect(() => {
+    startTabSync();
+    void useWorkspaceStore.getState().init();
+  }, []);
+
+  if (loadError) {
+    return (
+      <Center h="100vh" p="md">
+        <Alert color="red" maw={560} title={uiLanguage === 'zh' ? '无法读取项目列表' : 'Cannot read the project list'}>
+          {uiLanguage === 'zh'
+            ? `项目数据未作任何修改。请刷新页面重试。（${loadError}）`
+            : `Your projects were left untouched. Reload the page to try again. (${loadError})`}
+        </Alert>
+      </Center>
+    );
+  }
+
+  if (!isReady) {
+    return (
+      <Center h="100vh">
+        <Loader />
+      </Center>
+    );
+  }
+
+  return <TaggingPageContainer key={activeProjectId} />;
 }
 
 export default App;
@@ -0,0 +1,200 @@
+/**
+ * BatchPanel
+ *
+ * Thumbnail strip for batch captioning (shown above the selection while a
+ * dataset folder is open).
+ *
+ * - Click a thumbnail: make it the active image (its tags load into the picker)
+ * - Checkbox: target the image for bulk apply
+ * - Bulk apply: add / remove the picker's current tags on all checked images
+ * - Import captions: .txt / .xmp files reverse-mapped onto images with the same name
+ * - Export: ZIP of kohya-style "<image>.txt" captions, or of "<image>.xmp" sidecars
+ *   (images sharing a stem keep their extension: "shot.jpg.txt")
+ */
+
+import { Badge, Button, Checkbox, Group, ScrollArea, Text, Tooltip, UnstyledButton } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { Download, FileText, X } from 'lucide-react';
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import { useBatchStore, useSettingsStore } from '../../store';
+import { downloadFile } from '../../utils/download';
+import { pickFiles, importCaptionFiles, buildCaptionZip, buildXmpZip, countRenamedSidecars } from './batchUtils';
+import styles from './BatchPanel.module.css';
+
+interface BatchPanelProps {
+  index: TaxonomyIndex;
+  /** The active image's selection (from useSelectionStore) */
+  selectedIds: Set<NodeId>;
+}
+
+export function BatchPanel({ index, selectedIds }: BatchPanelProps) {
+  const { uiLanguage, exportFormatterId, exportLabelMode } = useSettingsStore();
+  const {
+    images,
+    selections,
+    activeId,
+    checkedIds,
+    setActive,
+    toggleChecked,
+    setChecked,
+    bulkApply,
+    setSelections,
+    getAllSelections,
+    closeBatch,
+  } = useBatchStore();
+
+  const i18n = {
+    title: uiLanguage === 'zh' ? '批量标注' : 'Batch captioning',
+    images: uiLanguage === 'zh' ? '张图片' : ' images',
+    checked: uiLanguage === 'zh' ? '已勾选' : 'checked',
+    all: uiLanguage === 'zh' ? '全选' : 'All',
+    none: uiLanguage === 'zh' ? '取消' : 'None',
+    add: uiLanguage === 'zh' ? '添加当前标签到勾选' : 'Add current tags to checked',
+    remove: uiLanguage === 'zh' ? '从勾选中移除当前标签' : 'Remove current tags from checked',
+    importCaptions: uiLanguage === 'zh' ? '导入标注' : 'Import captions',
+    exportZip: uiLanguage === 'zh' ? '导出标注 (.zip)' : 'Export captions (.zip)',
+    exportXmp: uiLanguage === 'zh' ? '下载 .xmp (.zip)' : 'Download .xmp (.zip)',
+    close: uiLanguage === 'zh' ? '退出批量模式' : 'Exit batch mode',
+    imported: (files: number, skipped: number) =>
+      uiLanguage === 'zh'
+        ? `已为 ${files} 张图片导入标注${skipped > 0 ? `，${skipped} 个词未匹配` : ''}`
+        : `Imported captions for ${files} images${skipped > 0 ? `, ${skipped} tokens not matched` : ''}`,
+    exported: uiLanguage === 'zh' ? '标注已导出' : 'Captions exported',
+    renamed: (count: number) =>
+      uiLanguage === 'zh'
+        ? `标注已导出；${count} 张图片文件名相同（扩展名不同），其标注文件名保留了图片扩展名`
+        : `Captions exported; ${count} images share a name, so their files keep the image extension (e.g. shot.jpg.txt)`,
+    exportFailed: uiLanguage === 'zh' ? '导出失败' : 'Export failed',
+    tags: uiLanguage === 'zh' ? '个标签' : ' tags',
+  };
+
+  const tagCount = (imageId: string) =>
+    imageId === activeId ? selectedIds.size : (selections[imageId]?.selectedIds.length ?? 0);
+
+  const handleImportCaptions = async () => {
+    const files = await pickFiles({ accept: '.txt,.xmp' });
+    if (files.length === 0) return;
+    const result = await importCaptionFiles(index, images, files);
+    setSelections(result.selections);
+    notifications.show({
+      message: i18n.imported(result.matchedFiles, result.unmatchedTokens),
+      color: result.matchedFiles > 0 ? 'green' : 'yellow',
+      autoClose: 3000,
+    });
+  };
+
+  /** Download a sidecar ZIP, reporting renamed sidecars and errors */
+  const exportZip = (prefix: string, build: () => Uint8Array<ArrayBuffer>) => {
+    try {
+      const zip = build();
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+      downloadFile(zip, `${prefix}-${timestamp}.zip`, 'application/zip');
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      notifications.show({ message: `${i18n.exportFailed}: ${message}`, color: 'red', autoClose: 4000 });
+      return;
+    }
+    const renamed = countRenamedSidecars(images);
+    notifications.show(
+      renamed > 0
+        ? { message: i18n.renamed(renamed), color: 'yellow', autoClose: 6000 }
+        : { message: i18n.exported, color: 'green', autoClose: 2000 }
+    );
+  };
+
+  const handleExport = () =>
+    exportZip('captions', () =>
+      buildCaptionZip(index, images, getAllSelections(), exportFormatterId, exportLabelMode)
+    );
+
+  const handleExportXmp = () =>
+    exportZip('xmp', () => buildXmpZip(index, images, getAllSelections(), exportLabelMode));
+
+  const currentTags = Array.from(selectedIds);
+
+  return (
+    <div className={styles.container}>
+      <Group justify="space-between" wrap="nowrap" gap="xs">
+        <Group gap="xs" wrap="nowrap">
+          <Text size="sm" fw={600}>
+            {i18n.title}
+          </Text>
+          <Badge size="sm" variant="light">
+            {images.length}
+            {i18n.images}
+          </Badge>
+          {checkedIds.length > 0 && (
+            <Badge size="sm" variant="light" color="orange">
+              {checkedIds.length} {i18n.checked}
+            </Badge>
+          )}
+        </Group>
+        <Group gap={4} wrap="nowrap">
+          <Button size="compact-xs" variant="subtle" onClick={() => setChecked(images.map((img) => img.id))}>
+            {i18n.all}
+          </Button>
+          <Button size="compact-xs" variant="subtle" onClick={() => setChecked([])} disabled={checkedIds.length === 0}>
+            {i18n.none}
+          </Button>
+          <Button
+            size="compact-xs"
+            variant="light"
+            onClick={() => bulkApply(currentTags, 'add')}
+            disabled={checkedIds.length === 0 || currentTags.length === 0}
+          >
+            {i18n.add}
+          </Button>
+          <Button
+            size="compact-xs"
+            variant="light"
+            color="red"
+            onClick={() => bulkApply(currentTags, 'remove')}
+            disabled={checkedIds.length === 0 || currentTags.length === 0}
+          >
+            {i18n.remove}
+          </Button>
+          <Button size="compact-xs" variant="light" leftSection={<FileText size={12} />} onClick={handleImportCaptions}>
+            {i18n.importCaptions}
+          </Button>
+          <Button size="compact-xs" leftSection={<Download size={12} />} onClick={handleExport}>
+            {i18n.exportZip}
+          </Button>
+          <Button size="compact-xs" variant="light" leftSection={<Download size={12} />} onClick={handleExportXmp}>
+            {i18n.exportXmp}
+          </Button>
+          <Tooltip label={i18n.close}>
+            <Button size="compact-xs" variant="subtle" color="gray" onClick={closeBatch} aria-label={i18n.close}>
+              <X size={14} />
+            </Button>
+          </Tooltip>
+        </Group>
+      </Group>
+
+      <ScrollArea type="auto" offsetScrollbars>
+        <div className={styles.strip}>
+          {images.map((image) => (
+            <div
+              key={image.id}
+              className={`${styles.thumb} ${image.id === activeId ? styles.active : ''}`}
+            >
+              <UnstyledButton onClick={() => setActive(image.id)} className={styles.thumbButton} title={image.id}>
+                <img src={image.url} alt={image.name} className={styles.image} loading="lazy" />
+              </UnstyledButton>
+              <Checkbox
+                size="xs"
+                className={styles.check}
+                checked={checkedIds.includes(image.id)}
+                onChange={() => toggleChecked(image.id)}
+                aria-label={image.name}
+              />
+              <Text size="xs" truncate className={styles.caption}>
+                {image.name} · {tagCount(image.id)}
+                {i18n.tags}
+              </Text>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
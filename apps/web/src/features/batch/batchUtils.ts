@@ -0,0 +1,202 @@
+/**
+ * Batch Captioning Utilities
+ *
+ * - Pick a dataset folder / caption files with a transient file input
+ * - Pair images with existing captions in the same folder
+ * - Reverse-map caption text / XMP sidecars into an image selection
+ * - Build the caption / XMP sidecar ZIPs with the export pipeline settings
+ */
+
+import {
+  parseKeywords,
+  exportCaptionZip,
+  exportXmpZip,
+  importXmp,
+  isCaptionImage,
+  sidecarFileNames,
+  stripExtension,
+  getFormatter,
+  DEFAULT_FORMATTER_ID,
+} from '@tagselector/tag-core';
+import type { NodeId, TaxonomyIndex, CaptionEntry } from '@tagselector/tag-core';
+import { getPromptWeights, getNegativeIds } from '../../store';
+import type { BatchImage, ImageSelection, ExportLabelMode, TagPromptOptions } from '../../store';
+import { exportLabelOf } from '../../utils/exportLabel';
+
+export interface CaptionImportResult {
+  selections: Record<string, ImageSelection>;
+  /** Images that got a selection from a caption or sidecar file */
+  matchedFiles: number;
+  /** Tokens that matched no tag (or several), over all files */
+  unmatchedTokens: number;
+}
+
+/**
+ * Open a file picker and resolve with the chosen files (empty if cancelled).
+ */
+export function pickFiles(options: { directory?: boolean; accept?: string }): Promise<File[]> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.multiple = true;
+    if (options.accept) input.accept = options.accept;
+    if (options.directory) input.setAttribute('webkitdirectory', '');
+    input.onchange = () => resolve(Array.from(input.files ?? []));
+    input.oncancel = () => resolve([]);
+    input.click();
+  });
+}
+
+/** Path of a file inside the picked folder (falls back to its name) */
+function relativePath(file: File): string {
+  return file.webkitRelativePath || file.name;
+}
+
+/** Key used to pair an image with its caption file */
+function pairKey(path: string): string {
+  return stripExtension(path).toLowerCase();
+}
+
+/**
+ * Images of a picked folder, sorted by path, with object URLs.
+ */
+export function toBatchImages(files: File[]): BatchImage[] {
+  return files
+    .filter((file) => isCaptionImage(file.name))
+    .sort((a, b) => relativePath(a).localeCompare(relativePath(b), undefined, { numeric: true }))
+    .map((file) => ({ id: relativePath(file), name: file.name, url: URL.createObjectURL(file) }));
+}
+
+/**
+ * Reverse-map caption text into a selection.
+ * Prompt weights are kept; ambiguous and unknown tokens are skipped.
+ */
+export function captionToSelection(
+  index: TaxonomyIndex,
+  text: string
+): { selection: ImageSelection; skipped: number } {
+  const result = parseKeywords(index, text);
+  const tagOptions: Record<NodeId, TagPromptOptions> = {};
+  for (const match of result.matched) {
+    if (match.weight !== undefined) tagOptions[match.nodeId] = { weight: match.weight };
+  }
+  return {
+    selection: { selectedIds: result.nodeIds, tagOptions },
+    skipped: result.ambiguous.length + result.unmatched.length,
+  };
+}
+
+/**
+ * Reverse-map an XMP sidecar into a selection (no prompt weights).
+ */
+export function xmpToSelection(
+  index: TaxonomyIndex,
+  xml: string
+): { selection: ImageSelection; skipped: number } {
+  const result = importXmp(index, xml);
+  return {
+    selection: { selectedIds: result.nodeIds, tagOptions: {} },
+    skipped: result.unmatched.length,
+  };
+}
+
+/**
+ * Read caption (.txt) and XMP sidecar (.xmp) files and map them onto images
+ * with the same name. A caption wins over a sidecar for the same image.
+ * Files in the same folder pair first; otherwise the file name alone is used.
+ * "<image>.<ext>.txt" (written for images sharing a stem) pairs before "<stem>.txt".
+ */
+export async function importCaptionFiles(
+  index: TaxonomyIndex,
+  images: BatchImage[],
+  files: File[]
+): Promise<CaptionImportResult> {
+  const byFullPath = new Map(images.map((image) => [image.id.toLowerCase(), image.id]));
+  const byPath = new Map(images.map((image) => [pairKey(image.id), image.id]));
+  const byName = new Map(images.map((image) => [pairKey(image.name), image.id]));
+  const result: CaptionImportResult = { selections: {}, matchedFiles: 0, unmatchedTokens: 0 };
+
+  const isXmp = (file: File) => file.name.toLowerCase().endsWith('.xmp');
+  const isCaption = (file: File) => file.name.toLowerCase().endsWith('.txt');
+  // Sidecars first so captions overwrite them
+  const ordered = [...files.filter(isXmp), ...files.filter(isCaption)];
+
+  for (const file of ordered) {
+    const path = relativePath(file);
+    const imageId = byFullPath.get(pairKey(path)) ?? byPath.get(pairKey(path)) ?? byName.get(pairKey(file.name));
+    if (!imageId) continue;
+    const text = await file.text();
+    const { selection, skipped } = isXmp(file) ? xmpToSelection(index, text) : captionToSelection(index, text);
+    if (!result.selections[imageId]) result.matchedFiles++;
+    result.selections[imageId] = selection;
+    result.unmatchedTokens += skipped;
+  }
+
+  return result;
+}
+
+/**
+ * Images of a picked dataset folder, with selections from the caption files
+ * that sit next to them.
+ */
+export async function loadBatchFolder(
+  index: TaxonomyIndex,
+  files: File[]
+): Promise<{ images: BatchImage[]; captions: CaptionImportResult }> {
+  const images = toBatchImages(files);
+  const captions = await importCaptionFiles(index, images, files);
+  return { images, captions };
+}
+
+/** One entry per image; negative-bucket tags are left out */
+function toCaptionEntries(images: BatchImage[], selections: Record<string, ImageSelection>): CaptionEntry[] {
+  return images.map((image) => {
+    const { selectedIds, tagOptions } = selections[image.id] ?? { selectedIds: [], tagOptions: {} };
+    const negative = getNegativeIds(tagOptions);
+    return {
+      imageName: image.id,
+      selectedIds: selectedIds.filter((id) => !negative.has(id)),
+      options: { weights: getPromptWeights(tagOptions) },
+    };
+  });
+}
+
+/**
+ * Images whose sidecar names keep the image extension because another image
+ * shares their stem ("shot.jpg" + "shot.png" -> "shot.jpg.txt", "shot.png.txt").
+ */
+export function countRenamedSidecars(images: BatchImage[]): number {
+  const names = sidecarFileNames(images.map((image) => image.id), '.txt');
+  return names.filter((name, i) => name !== `${stripExtension(images[i].id)}.txt`).length;
+}
+
+/**
+ * Build the caption ZIP for all images with the current export settings.
+ * Negative-bucket tags are left out (captions have no negative prompt).
+ */
+export function buildCaptionZip(
+  index: TaxonomyIndex,
+  images: BatchImage[],
+  selections: Record<string, ImageSelection>,
+  formatterId: string,
+  labelMode: ExportLabelMode
+): Uint8Array<ArrayBuffer> {
+  return exportCaptionZip(
+    index,
+    toCaptionEntries(images, selections),
+    getFormatter(formatterId) ? formatterId : DEFAULT_FORMATTER_ID,
+    { labelOf: exportLabelOf(labelMode) }
+  );
+}
+
+/**
+ * Build a ZIP of "<image>.xmp" keyword sidecars for all images.
+ */
+export function buildXmpZip(
+  index: TaxonomyIndex,
+  images: BatchImage[],
+  selections: Record<string, ImageSelection>,
+  labelMode: ExportLabelMode
+): Uint8Array<ArrayBuffer> {
+  return exportXmpZip(index, toCaptionEntries(images, selections), { labelOf: exportLabelOf(labelMode) });
+}
@@ -0,0 +1,11 @@
+export { BatchPanel } from './BatchPanel';
+export {
+  pickFiles,
+  toBatchImages,
+  importCaptionFiles,
+  captionToSelection,
+  xmpToSelection,
+  loadBatchFolder,
+  buildCaptionZip,
+  buildXmpZip,
+} from './batchUtils';
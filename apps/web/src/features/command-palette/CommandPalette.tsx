@@ -0,0 +1,190 @@
+/**
+ * CommandPalette (Ctrl/Cmd+K)
+ *
+ * One search box over folders (jump to), tags (toggle selection), QuickSet
+ * entries and app commands (see paletteItems).
+ *
+ * - Arrow keys move the highlight, Enter runs it, Escape closes
+ * - Tags stay open after toggling so several can be picked in a row;
+ *   everything else closes the palette
+ * - Each node shows its folder path
+ */
+
+import { useMemo, useState } from 'react';
+import { Modal, TextInput, ScrollArea, Stack, Group, Text, UnstyledButton, Kbd } from '@mantine/core';
+import { Search, Folder, Tag, Layers, Terminal, Check } from 'lucide-react';
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import type { QuickTree } from '../../types/project-pack';
+import { useSettingsStore } from '../../store';
+import { buildPaletteItems } from './paletteItems';
+import type { PaletteCommand, PaletteItem, PaletteSection } from './paletteItems';
+
+interface CommandPaletteProps {
+  opened: boolean;
+  onClose: () => void;
+  index: TaxonomyIndex;
+  quickTrees: QuickTree[];
+  selectedIds: Set<NodeId>;
+  commands: PaletteCommand[];
+  onNavigateToFolder: (folderId: NodeId) => void;
+  onToggleTag: (tagId: NodeId) => void;
+}
+
+const SECTION_ICONS: Record<PaletteSection, typeof Folder> = {
+  command: Terminal,
+  folder: Folder,
+  tag: Tag,
+  quickSet: Layers,
+};
+
+export function CommandPalette({
+  opened,
+  onClose,
+  index,
+  quickTrees,
+  selectedIds,
+  commands,
+  onNavigateToFolder,
+  onToggleTag,
+}: CommandPaletteProps) {
+  const { uiLanguage } = useSettingsStore();
+  const [query, setQuery] = useState('');
+  const [active, setActive] = useState(0);
+
+  const i18n = {
+    placeholder:
+      uiLanguage === 'zh' ? '跳转到文件夹、选择标签或运行命令...' : 'Jump to a folder, toggle a tag or run a command...',
+    empty: uiLanguage === 'zh' ? '没有匹配项' : 'No matches',
+    root: uiLanguage === 'zh' ? '根目录' : 'Root',
+    sections: {
+      command: uiLanguage === 'zh' ? '命令' : 'Commands',
+      folder: uiLanguage === 'zh' ? '文件夹' : 'Folders',
+      tag: uiLanguage === 'zh' ? '标签' : 'Tags',
+      quickSet: uiLanguage === 'zh' ? '快捷分类' : 'Quick sets',
+    } satisfies Record<PaletteSection, string>,
+  };
+
+  const items = useMemo(
+    () => (opened ? buildPaletteItems(index, quickTrees, commands, query) : []),
+    [opened, index, quickTrees, commands, query]
+  );
+  const activeIndex = Math.min(active, Math.max(items.length - 1, 0));
+
+  const handleClose = () => {
+    setQuery('');
+    setActive(0);
+    onClose();
+  };
+
+  const runItem = (item: PaletteItem) => {
+    if (item.command) {
+      handleClose();
+      item.command.run();
+      return;
+    }
+    const node = item.nodeId ? index.byId.get(item.nodeId) : undefined;
+    if (!node) return;
+    if (node.kind === 'folder') {
+      handleClose();
+      onNavigateToFolder(node.id);
+    } else {
+      onToggleTag(node.id);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActive((activeIndex + 1) % Math.max(items.length, 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActive((activeIndex - 1 + items.length) % Math.max(items.length, 1));
+    } else if (e.key === 'Enter' && items[activeIndex]) {
+      e.preventDefault();
+      runItem(items[activeIndex]);
+    }
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={handleClose}
+      withCloseButton={false}
+      size="lg"
+      yOffset="10vh"
+      padding="xs"
+    >
+      <Stack gap="xs">
+        <TextInput
+          value={query}
+          onChange={(e) => {
+            setQuery(e.currentTarget.value);
+            setActive(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder={i18n.placeholder}
+          leftSection={<Search size={16} />}
+          rightSection={<Kbd size="xs">Esc</Kbd>}
+          rightSectionWidth={48}
+          aria-label={i18n.placeholder}
+          data-autofocus
+        />
+        <ScrollArea.Autosize mah="55vh">
+          {items.length === 0 ? (
+            <Text size="sm" c="dimmed" ta="center" py="sm">
+              {i18n.empty}
+            </Text>
+          ) : (
+            <Stack gap={2} role="listbox" aria-label={i18n.placeholder}>
+              {items.map((item, i) => {
+                const Icon = SECTION_ICONS[item.section];
+                const showHeader = i === 0 || items[i - 1].section !== item.section;
+                const isSelected = item.nodeId !== undefined && selectedIds.has(item.nodeId);
+                const detail =
+                  item.section === 'folder' || item.section === 'tag' ? item.detail || i18n.root : item.detail;
+                return (
+                  <div key={item.key}>
+                    {showHeader && (
+                      <Text size="xs" c="dimmed" tt="uppercase" fw={600} px="xs" pt={i === 0 ? 0 : 'xs'}>
+                        {i18n.sections[item.section]}
+                      </Text>
+                    )}
+                    <UnstyledButton
+                      role="option"
+                      aria-selected={i === activeIndex}
+                      onClick={() => runItem(item)}
+                      onMouseEnter={() => setActive(i)}
+                      px="xs"
+                      py={6}
+                      style={{
+                        width: '100%',
+                        borderRadius: 'var(--mantine-radius-sm)',
+                        backgroundColor: i === activeIndex ? 'var(--mantine-color-blue-light)' : undefined,
+                      }}
+                    >
+                      <Group gap="xs" wrap="nowrap">
+                        <Icon size={14} />
+                        <Text size="sm" style={{ flex: 1 }} truncate>
+                          {item.label}
+                        </Text>
+                        {detail &&
+                          (item.section === 'command' ? (
+                            <Kbd size="xs">{detail}</Kbd>
+                          ) : (
+                            <Text size="xs" c="dimmed" truncate maw="50%">
+                              {detail}
+                            </Text>
+                          ))}
+                        {isSelected && item.section !== 'folder' && <Check size={14} color="var(--mantine-color-blue-6)" />}
+                      </Group>
+                    </UnstyledButton>
+                  </div>
+                );
+              })}
+            </Stack>
+          )}
+        </ScrollArea.Autosize>
+      </Stack>
+    </Modal>
+  );
+}
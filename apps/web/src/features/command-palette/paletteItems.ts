@@ -0,0 +1,165 @@
+/**
+ * Command Palette Items
+ *
+ * Builds the ranked result list for a query:
+ * - Folders (jump to) and tags (toggle) from tag-core's rankedSearch,
+ *   so pinyin, alias and fuzzy matches work as in the search bar
+ * - QuickSet entries and app commands by fuzzy match on their label
+ *
+ * Each node result carries its folder path from the index ancestry.
+ */
+
+import { rankedSearch } from '@tagselector/tag-core';
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import type { QuickTree, QuickTreeNode } from '../../types/project-pack';
+import { getTagDisplayLabel } from '../../utils/searchMatch';
+import { toPinyin } from '../../utils/pinyin';
+
+export type PaletteSection = 'command' | 'folder' | 'tag' | 'quickSet';
+
+/** An app command offered by the page */
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  /** Extra words to match, e.g. the other UI language */
+  keywords?: string;
+  /** Shortcut hint shown next to the label */
+  shortcut?: string;
+  disabled?: boolean;
+  run: () => void;
+}
+
+export interface PaletteItem {
+  key: string;
+  section: PaletteSection;
+  label: string;
+  /** Folder path, QuickSet name or shortcut */
+  detail?: string;
+  /** Node for folder / tag / QuickSet results */
+  nodeId?: NodeId;
+  command?: PaletteCommand;
+}
+
+/** Results per section */
+const SECTION_LIMIT = 8;
+
+/**
+ * Ancestor labels of a node, e.g. "Clothing / Tops" ('' at root level).
+ */
+export function folderPathOf(index: TaxonomyIndex, nodeId: NodeId): string {
+  const parts: string[] = [];
+  let parentId = index.byId.get(nodeId)?.parentId ?? null;
+  while (parentId !== null) {
+    const parent = index.byId.get(parentId);
+    if (!parent) break;
+    parts.unshift(parent.label);
+    parentId = parent.parentId;
+  }
+  return parts.join(' / ');
+}
+
+/**
+ * Fuzzy score of text for a query, or null when it does not match.
+ * Substring matches (earlier is better) beat in-order character matches
+ * (tighter is better).
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.toLowerCase();
+  const t = text.toLowerCase();
+  if (q === '') return 0;
+  const at = t.indexOf(q);
+  if (at >= 0) return 1000 - at;
+
+  let pos = 0;
+  let first = -1;
+  for (const ch of q) {
+    const found = t.indexOf(ch, pos);
+    if (found < 0) return null;
+    if (first < 0) first = found;
+    pos = found + 1;
+  }
+  return 500 - (pos - first - q.length);
+}
+
+/** Ranked items of one section by fuzzy label (+ keywords) match */
+function rankByFuzzy<T>(entries: T[], query: string, textOf: (entry: T) => string): T[] {
+  return entries
+    .map((entry) => ({ entry, score: fuzzyScore(query, textOf(entry)) }))
+    .filter((r): r is { entry: T; score: number } => r.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((r) => r.entry);
+}
+
+/** Ref entries of the QuickSets, with the QuickSet / group path */
+function quickSetEntries(index: TaxonomyIndex, quickTrees: QuickTree[]): PaletteItem[] {
+  const items: PaletteItem[] = [];
+  const walk = (nodes: QuickTreeNode[], tree: QuickTree, path: string[]) => {
+    for (const node of nodes) {
+      if (node.type === 'group') {
+        walk(node.children, tree, [...path, node.label]);
+        continue;
+      }
+      const target = index.byId.get(node.refId);
+      if (!target) continue;
+      items.push({
+        key: `quickSet:${tree.id}:${path.join('/')}:${node.refId}`,
+        section: 'quickSet',
+        label: target.kind === 'tag' ? getTagDisplayLabel(target) : target.label,
+        detail: path.join(' / '),
+        nodeId: target.id,
+      });
+    }
+  };
+  for (const tree of quickTrees) walk(tree.roots, tree, [tree.name]);
+  return items;
+}
+
+/**
+ * Palette results for a query, in display order: commands, folders, tags,
+ * QuickSets. An empty query lists the commands and QuickSets.
+ */
+export function buildPaletteItems(
+  index: TaxonomyIndex,
+  quickTrees: QuickTree[],
+  commands: PaletteCommand[],
+  query: string
+): PaletteItem[] {
+  const q = query.trim();
+
+  const commandItems = rankByFuzzy(
+    commands.filter((c) => !c.disabled),
+    q,
+    (c) => `${c.label} ${c.keywords ?? ''}`
+  ).map<PaletteItem>((command) => ({
+    key: `command:${command.id}`,
+    section: 'command',
+    label: command.label,
+    detail: command.shortcut,
+    command,
+  }));
+
+  const quickSetItems = rankByFuzzy(quickSetEntries(index, quickTrees), q, (item) => `${item.label} ${item.detail ?? ''}`);
+
+  const nodeItems: PaletteItem[] = [];
+  if (q !== '') {
+    const counts = { folder: 0, tag: 0 };
+    for (const { node } of rankedSearch(index, q, { pinyin: toPinyin })) {
+      if (counts[node.kind] >= SECTION_LIMIT) continue;
+      counts[node.kind]++;
+      nodeItems.push({
+        key: `${node.kind}:${node.id}`,
+        section: node.kind,
+        label: node.kind === 'tag' ? getTagDisplayLabel(node) : node.label,
+        detail: folderPathOf(index, node.id),
+        nodeId: node.id,
+      });
+    }
+  }
+
+  return [
+    ...commandItems.slice(0, SECTION_LIMIT),
+    ...nodeItems.filter((item) => item.section === 'folder'),
+    ...nodeItems.filter((item) => item.section === 'tag'),
+    ...quickSetItems.slice(0, SECTION_LIMIT),
+  ];
+}
@@ -0,0 +1,369 @@
+/**
+ * BulkEditBar
+ *
+ * Toolbar for the nodes multi-selected in CurrentLevelView (editing mode).
+ *
+ * Actions (each is one store transaction, so one undo step):
+ * - Set / clear color (tags)
+ * - Add / remove aliases (tags)
+ * - Set the export override (default / always / never)
+ * - Move to a folder
+ * - Add recommended tags (tags)
+ * - Delete, with one confirmation listing the descendants that go too
+ */
+
+import { useMemo, useState } from 'react';
+import { Group, Text, Button, Popover, Stack, ColorInput, TextInput, Select, MultiSelect, Menu } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { Palette, AtSign, FileOutput, FolderInput, Sparkles, Trash2 } from 'lucide-react';
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import { useTaxonomyStore, useSelectionStore, useSettingsStore, useRulesStore, collectSubtreeIds } from '../../store';
+import { PRESET_TAG_COLORS } from '../../utils/tagColor';
+import { getTagDisplayLabel } from '../../utils/searchMatch';
+
+interface BulkEditBarProps {
+  index: TaxonomyIndex;
+  /** Multi-selected nodes, in display order */
+  nodeIds: NodeId[];
+  /** Number of selectable items at this level */
+  totalCount: number;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+}
+
+const ROOT_VALUE = '__root__';
+
+/** Descendants listed in the delete confirmation */
+const MAX_LISTED_DESCENDANTS = 20;
+
+/**
+ * Folder path of a node, e.g. "Hair / Color".
+ */
+function pathOf(index: TaxonomyIndex, nodeId: NodeId | null): string {
+  const parts: string[] = [];
+  let current = nodeId;
+  while (current !== null) {
+    const node = index.byId.get(current);
+    if (!node) break;
+    parts.unshift(node.label);
+    current = node.parentId;
+  }
+  return parts.join(' / ');
+}
+
+/** Split comma-separated input into trimmed, non-empty values */
+function splitList(text: string): string[] {
+  return text
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => value.length > 0);
+}
+
+export function BulkEditBar({ index, nodeIds, totalCount, onSelectAll, onClearSelection }: BulkEditBarProps) {
+  const { bulkUpdateNodes, moveNodes, deleteNodes } = useTaxonomyStore();
+  const { cleanupInvalidSelection } = useSelectionStore();
+  const { cleanupInvalidRules } = useRulesStore();
+  const { uiLanguage } = useSettingsStore();
+  const [color, setColor] = useState('');
+  const [aliasesText, setAliasesText] = useState('');
+  const [targetFolder, setTargetFolder] = useState<string | null>(null);
+  const [recommendedIds, setRecommendedIds] = useState<string[]>([]);
+
+  const i18n = {
+    selected: (count: number) => (uiLanguage === 'zh' ? `已选 ${count} 项` : `${count} selected`),
+    hint: uiLanguage === 'zh' ? 'Shift / Ctrl + 点击可多选' : 'Shift / Ctrl + click to select several',
+    selectAll: uiLanguage === 'zh' ? '全选' : 'Select all',
+    clear: uiLanguage === 'zh' ? '取消选择' : 'Clear',
+    color: uiLanguage === 'zh' ? '颜色' : 'Color',
+    apply: uiLanguage === 'zh' ? '应用' : 'Apply',
+    clearColor: uiLanguage === 'zh' ? '清除颜色' : 'Clear color',
+    aliases: uiLanguage === 'zh' ? '别名' : 'Aliases',
+    aliasesPlaceholder: uiLanguage === 'zh' ? '用逗号分隔，例如: aaa, bbb' : 'Comma-separated, e.g., aaa, bbb',
+    addAliases: uiLanguage === 'zh' ? '添加' : 'Add',
+    removeAliases: uiLanguage === 'zh' ? '移除' : 'Remove',
+    export: uiLanguage === 'zh' ? '导出' : 'Export',
+    exportDefault: uiLanguage === 'zh' ? '默认（标签导出，文件夹不导出）' : 'Default (tags export, folders do not)',
+    exportAlways: uiLanguage === 'zh' ? '总是导出' : 'Always export',
+    exportNever: uiLanguage === 'zh' ? '从不导出' : 'Never export',
+    move: uiLanguage === 'zh' ? '移动到' : 'Move to',
+    moveButton: uiLanguage === 'zh' ? '移动' : 'Move',
+    root: uiLanguage === 'zh' ? '根目录' : 'Root',
+    recommend: uiLanguage === 'zh' ? '推荐' : 'Recommend',
+    recommendPlaceholder: uiLanguage === 'zh' ? '搜索要推荐的标签...' : 'Search tags to recommend...',
+    delete: uiLanguage === 'zh' ? '删除' : 'Delete',
+    updated: (count: number) => (uiLanguage === 'zh' ? `已更新 ${count} 项` : `Updated ${count} item(s)`),
+    unchanged: uiLanguage === 'zh' ? '没有需要更改的内容' : 'Nothing to change',
+    moved: (moved: number, skipped: number) =>
+      uiLanguage === 'zh'
+        ? `已移动 ${moved} 项${skipped > 0 ? `，跳过 ${skipped} 项` : ''}`
+        : `Moved ${moved} item(s)${skipped > 0 ? `, skipped ${skipped}` : ''}`,
+    moveFailed: uiLanguage === 'zh' ? '无法移动：目标文件夹无效' : 'Cannot move: invalid target folder',
+    confirmDelete: (count: number) =>
+      uiLanguage === 'zh' ? `确定要删除选中的 ${count} 项吗？` : `Delete the ${count} selected item(s)?`,
+    descendants: (count: number) =>
+      uiLanguage === 'zh' ? `以下 ${count} 个子节点也会被删除：` : `These ${count} descendant(s) will be deleted too:`,
+    more: (count: number) => (uiLanguage === 'zh' ? `……另外 ${count} 个` : `...and ${count} more`),
+    deleted: (count: number, cleaned: number) =>
+      uiLanguage === 'zh'
+        ? `已删除 ${count} 个节点${cleaned > 0 ? `，已清理 ${cleaned} 处引用` : ''}`
+        : `Deleted ${count} node(s)${cleaned > 0 ? `, cleaned ${cleaned} reference(s)` : ''}`,
+  };
+
+  const tagCount = nodeIds.filter((id) => index.byId.get(id)?.kind === 'tag').length;
+  const hasSelection = nodeIds.length > 0;
+
+  const folderOptions = useMemo(() => {
+    const folders = index.taxonomy.nodes
+      .filter((n) => n.kind === 'folder')
+      .map((n) => ({ value: n.id, label: pathOf(index, n.id) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    return [{ value: ROOT_VALUE, label: i18n.root }, ...folders];
+  }, [index, i18n.root]);
+
+  const tagOptions = useMemo(
+    () =>
+      index.taxonomy.nodes
+        .filter((n) => n.kind === 'tag')
+        .map((n) => {
+          const folderPath = pathOf(index, n.parentId);
+          const label = getTagDisplayLabel(n);
+          return { value: n.id, label: folderPath ? `${label} (${folderPath})` : label };
+        }),
+    [index]
+  );
+
+  const notifyUpdated = (count: number) => {
+    notifications.show({
+      message: count > 0 ? i18n.updated(count) : i18n.unchanged,
+      color: count > 0 ? 'green' : 'gray',
+      autoClose: 2000,
+    });
+  };
+
+  const handleSetColor = (value: string) => {
+    notifyUpdated(bulkUpdateNodes(nodeIds, { color: value }));
+  };
+
+  const handleAliases = (mode: 'add' | 'remove') => {
+    const aliases = splitList(aliasesText);
+    if (aliases.length === 0) return;
+    notifyUpdated(bulkUpdateNodes(nodeIds, mode === 'add' ? { addAliases: aliases } : { removeAliases: aliases }));
+    setAliasesText('');
+  };
+
+  const handleSetExport = (value: boolean | null) => {
+    notifyUpdated(bulkUpdateNodes(nodeIds, { export: value }));
+  };
+
+  const handleRecommend = () => {
+    if (recommendedIds.length === 0) return;
+    notifyUpdated(bulkUpdateNodes(nodeIds, { addRecommendedTagIds: recommendedIds }));
+    setRecommendedIds([]);
+  };
+
+  const handleMove = () => {
+    if (!targetFolder) return;
+    const result = moveNodes(nodeIds, targetFolder === ROOT_VALUE ? null : targetFolder);
+    if (!result.success) {
+      notifications.show({ message: i18n.moveFailed, color: 'red', autoClose: 3000 });
+      return;
+    }
+    notifications.show({
+      message: i18n.moved(result.movedCount, result.skippedCount),
+      color: result.movedCount > 0 ? 'green' : 'gray',
+      autoClose: 3000,
+    });
+    setTargetFolder(null);
+    onClearSelection();
+  };
+
+  const handleDelete = () => {
+    const selected = new Set(nodeIds);
+    const descendants = collectSubtreeIds(index, nodeIds).filter((id) => !selected.has(id));
+    let message = i18n.confirmDelete(nodeIds.length);
+    if (descendants.length > 0) {
+      const listed = descendants.slice(0, MAX_LISTED_DESCENDANTS).map((id) => `- ${pathOf(index, id)}`);
+      if (descendants.length > MAX_LISTED_DESCENDANTS) {
+        listed.push(i18n.more(descendants.length - MAX_LISTED_DESCENDANTS));
+      }
+      message += `\n\n${i18n.descendants(descendants.length)}\n${listed.join('\n')}`;
+    }
+    if (!window.confirm(message)) return;
+
+    const result = deleteNodes(nodeIds);
+    // Clean up selection and rules that reference deleted tags
+    const freshIndex = useTaxonomyStore.getState().index;
+    cleanupInvalidSelection(freshIndex);
+    cleanupInvalidRules(freshIndex);
+
+    notifications.show({
+      message: i18n.deleted(result.removedIds.length, result.cleanedReferenceCount),
+      color: 'green',
+      autoClose: 3000,
+    });
+    onClearSelection();
+  };
+
+  return (
+    <Group gap="xs" wrap="wrap" justify="space-between">
+      <Group gap="xs">
+        <Text size="sm" fw={500} c={hasSelection ? undefined : 'dimmed'}>
+          {hasSelection ? i18n.selected(nodeIds.length) : i18n.hint}
+        </Text>
+        <Button size="compact-xs" variant="subtle" onClick={onSelectAll} disabled={nodeIds.length === totalCount}>
+          {i18n.selectAll}
+        </Button>
+        {hasSelection && (
+          <Button size="compact-xs" variant="subtle" color="gray" onClick={onClearSelection}>
+            {i18n.clear}
+          </Button>
+        )}
+      </Group>
+
+      {hasSelection && (
+        <Group gap={4}>
+          {/* Color */}
+          <Popover position="bottom-end" withArrow shadow="md" trapFocus>
+            <Popover.Target>
+              <Button size="compact-xs" variant="light" leftSection={<Palette size={12} />} disabled={tagCount === 0}>
+                {i18n.color}
+              </Button>
+            </Popover.Target>
+            <Popover.Dropdown>
+              <Stack gap="xs" w={220}>
+                <ColorInput
+                  size="xs"
+                  value={color}
+                  onChange={setColor}
+                  format="hex"
+                  swatches={PRESET_TAG_COLORS}
+                  swatchesPerRow={5}
+                  popoverProps={{ withinPortal: false }}
+                  placeholder="#RRGGBB"
+                />
+                <Group gap="xs" justify="flex-end">
+                  <Button size="compact-xs" variant="subtle" color="gray" onClick={() => handleSetColor('')}>
+                    {i18n.clearColor}
+                  </Button>
+                  <Button size="compact-xs" onClick={() => handleSetColor(color.trim())} disabled={!color.trim()}>
+                    {i18n.apply}
+                  </Button>
+                </Group>
+              </Stack>
+            </Popover.Dropdown>
+          </Popover>
+
+          {/* Aliases */}
+          <Popover position="bottom-end" withArrow shadow="md" trapFocus>
+            <Popover.Target>
+              <Button size="compact-xs" variant="light" leftSection={<AtSign size={12} />} disabled={tagCount === 0}>
+                {i18n.aliases}
+              </Button>
+            </Popover.Target>
+            <Popover.Dropdown>
+              <Stack gap="xs" w={260}>
+                <TextInput
+                  size="xs"
+                  value={aliasesText}
+                  onChange={(e) => setAliasesText(e.currentTarget.value)}
+                  placeholder={i18n.aliasesPlaceholder}
+                />
+                <Group gap="xs" justify="flex-end">
+                  <Button
+                    size="compact-xs"
+                    variant="light"
+                    color="red"
+                    onClick={() => handleAliases('remove')}
+                    disabled={splitList(aliasesText).length === 0}
+                  >
+                    {i18n.removeAliases}
+                  </Button>
+                  <Button
+                    size="compact-xs"
+                    onClick={() => handleAliases('add')}
+                    disabled={splitList(aliasesText).length === 0}
+                  >
+                    {i18n.addAliases}
+                  </Button>
+                </Group>
+              </Stack>
+            </Popover.Dropdown>
+          </Popover>
+
+          {/* Export override */}
+          <Menu position="bottom-end" withArrow shadow="md">
+            <Menu.Target>
+              <Button size="compact-xs" variant="light" leftSection={<FileOutput size={12} />}>
+                {i18n.export}
+              </Button>
+            </Menu.Target>
+            <Menu.Dropdown>
+              <Menu.Item onClick={() => handleSetExport(null)}>{i18n.exportDefault}</Menu.Item>
+              <Menu.Item onClick={() => handleSetExport(true)}>{i18n.exportAlways}</Menu.Item>
+              <Menu.Item onClick={() => handleSetExport(false)}>{i18n.exportNever}</Menu.Item>
+            </Menu.Dropdown>
+          </Menu>
+
+          {/* Move */}
+          <Popover position="bottom-end" withArrow shadow="md" trapFocus>
+            <Popover.Target>
+              <Button size="compact-xs" variant="light" leftSection={<FolderInput size={12} />}>
+                {i18n.move}
+              </Button>
+            </Popover.Target>
+            <Popover.Dropdown>
+              <Stack gap="xs" w={260}>
+                <Select
+                  size="xs"
+                  searchable
+                  value={targetFolder}
+                  onChange={setTargetFolder}
+                  data={folderOptions}
+                  comboboxProps={{ withinPortal: false }}
+                />
+                <Group justify="flex-end">
+                  <Button size="compact-xs" onClick={handleMove} disabled={!targetFolder}>
+                    {i18n.moveButton}
+                  </Button>
+                </Group>
+              </Stack>
+            </Popover.Dropdown>
+          </Popover>
+
+          {/* Recommended tags */}
+          <Popover position="bottom-end" withArrow shadow="md" trapFocus>
+            <Popover.Target>
+              <Button size="compact-xs" variant="light" leftSection={<Sparkles size={12} />} disabled={tagCount === 0}>
+                {i18n.recommend}
+              </Button>
+            </Popover.Target>
+            <Popover.Dropdown>
+              <Stack gap="xs" w={300}>
+                <MultiSelect
+                  size="xs"
+                  searchable
+                  limit={50}
+                  value={recommendedIds}
+                  onChange={setRecommendedIds}
+                  data={tagOptions}
+                  placeholder={i18n.recommendPlaceholder}
+                  comboboxProps={{ withinPortal: false }}
+                />
+                <Group justify="flex-end">
+                  <Button size="compact-xs" onClick={handleRecommend} disabled={recommendedIds.length === 0}>
+                    {i18n.apply}
+                  </Button>
+                </Group>
+              </Stack>
+            </Popover.Dropdown>
+          </Popover>
+
+          {/* Delete */}
+          <Button size="compact-xs" variant="light" color="red" leftSection={<Trash2 size={12} />} onClick={handleDelete}>
+            {i18n.delete}
+          </Button>
+        </Group>
+      )}
+    </Group>
+  );
+}
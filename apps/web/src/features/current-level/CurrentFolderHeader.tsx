@@ -3,14 +3,23 @@
  *
  * Displays breadcrumb navigation showing the path to the current folder.
  * Allows navigation back to parent folders.
+ * In editing mode, ancestor breadcrumbs accept dropped nodes (move up the tree).
+ * Shows the folder's selection policy (pick one / count range) as a badge.
+ * Copies the folder as a Dynamic Prompts variant ({a|b|c}) or wildcard name.
  */
 
 import { useMemo, useState, useEffect } from 'react';
-import { Breadcrumbs, Anchor, Text, Group, ActionIcon } from '@mantine/core';
-import { Home, ChevronLeft, Pencil } from 'lucide-react';
+import { Breadcrumbs, Anchor, Text, Group, ActionIcon, Badge, Menu } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { Home, ChevronLeft, Pencil, Braces } from 'lucide-react';
 import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import { getFolderSelectionPolicy, formatDynamicPrompt, wildcardName } from '@tagselector/tag-core';
 import { useSettingsStore, useTaxonomyStore } from '../../store';
 import { RenameFolderModal } from './RenameFolderModal';
+import { useMoveNode } from '../../hooks/useMoveNode';
+import { isNodeDrag, getDraggedNodeId } from '../../utils/nodeDrag';
+import { exportLabelOf } from '../../utils/exportLabel';
+import { useClipboard } from '../../hooks/useClipboard';
 import styles from './CurrentFolderHeader.module.css';
 
 interface CurrentFolderHeaderProps {
@@ -30,9 +39,13 @@ export function CurrentFolderHeader({
   renameFolderId,
   onRenameModalClose,
 }: CurrentFolderHeaderProps) {
-  const { isEditing } = useSettingsStore();
+  const { isEditing, uiLanguage, exportLabelMode } = useSettingsStore();
+  const { copy } = useClipboard();
   const { taxonomy } = useTaxonomyStore();
   const [renameModalOpened, setRenameModalOpened] = useState(false);
+  const moveNode = useMoveNode();
+  // Breadcrumb under a dragged node ('__root__' for Root)
+  const [dropTargetKey, setDropTargetKey] = useState<string | null>(null);
 
   // Handle external control of rename modal
   // Use separate effects to handle renameFolderId and currentFolderId changes
@@ -77,6 +90,37 @@ export function CurrentFolderHeader({
     return [...path, ...ancestors];
   }, [index, currentFolderId, taxonomy]);
 
+  const policyLabel = useMemo(() => {
+    const node = currentFolderId !== null ? index.byId.get(currentFolderId) : undefined;
+    const policy = node ? getFolderSelectionPolicy(node) : null;
+    if (!policy) return null;
+    if (policy.single) {
+      return uiLanguage === 'zh' ? '单选' : 'Pick one';
+    }
+    if (policy.min !== undefined && policy.max !== undefined) {
+      return uiLanguage === 'zh' ? `选 ${policy.min}–${policy.max} 个` : `Pick ${policy.min}–${policy.max}`;
+    }
+    if (policy.min !== undefined) {
+      return uiLanguage === 'zh' ? `至少选 ${policy.min} 个` : `Pick at least ${policy.min}`;
+    }
+    return uiLanguage === 'zh' ? `最多选 ${policy.max} 个` : `Pick up to ${policy.max}`;
+  }, [index, currentFolderId, uiLanguage]);
+
+  const copyText = async (text: string) => {
+    const res = await copy(text);
+    notifications.show({
+      message: res.ok
+        ? (uiLanguage === 'zh' ? '已复制' : 'Copied')
+        : `${uiLanguage === 'zh' ? '复制失败' : 'Copy failed'}: ${res.error ?? 'Unknown error'}`,
+      color: res.ok ? 'green' : 'red',
+      autoClose: 2000,
+    });
+  };
+
+  const dynamicPrompt = currentFolderId !== null
+    ? formatDynamicPrompt(index, currentFolderId, { labelOf: exportLabelOf(exportLabelMode) })
+    : '';
+
   const currentLabel = breadcrumbPath[breadcrumbPath.length - 1]?.label || 'Root';
   const canGoBack = breadcrumbPath.length > 1;
   const parentId = breadcrumbPath.length > 1 
@@ -114,12 +158,33 @@ export function CurrentFolderHeader({
                   );
                 }
 
+                const key = item.id ?? '__root__';
+                const dropProps = isEditing
+                  ? {
+                      onDragOver: (e: React.DragEvent) => {
+                        if (!isNodeDrag(e)) return;
+                        e.preventDefault();
+                        e.dataTransfer.dropEffect = 'move';
+                        setDropTargetKey(key);
+                      },
+                      onDragLeave: () => setDropTargetKey(null),
+                      onDrop: (e: React.DragEvent) => {
+                        setDropTargetKey(null);
+                        const draggedId = getDraggedNodeId(e);
+                        if (!draggedId) return;
+                        e.preventDefault();
+                        moveNode(draggedId, item.id);
+                      },
+                    }
+                  : {};
+
                 return (
                   <Anchor
-                    key={item.id ?? '__root__'}
+                    key={key}
                     size="sm"
                     onClick={() => onNavigateToFolder(item.id)}
-                    className={styles.breadcrumbLink}
+                    className={`${styles.breadcrumbLink} ${dropTargetKey === key ? styles.dropTarget : ''}`}
+                    {...dropProps}
                   >
                     {item.id === null && <Home size={14} style={{ marginRight: 4, verticalAlign: 'middle' }} />}
                     {item.label}
@@ -143,9 +208,37 @@ export function CurrentFolderHeader({
         </Group>
 
         {/* Current folder title */}
-        <Text size="lg" fw={700} mt="xs">
-          📂 {currentLabel}
-        </Text>
+        <Group gap="xs" mt="xs" wrap="nowrap">
+          <Text size="lg" fw={700}>
+            📂 {currentLabel}
+          </Text>
+          {policyLabel && (
+            <Badge size="sm" variant="light">
+              {policyLabel}
+            </Badge>
+          )}
+          {!isEditing && dynamicPrompt && currentFolderId !== null && (
+            <Menu position="bottom-start" shadow="md">
+              <Menu.Target>
+                <ActionIcon
+                  variant="subtle"
+                  size="sm"
+                  aria-label={uiLanguage === 'zh' ? '复制为提示词' : 'Copy as prompt'}
+                >
+                  <Braces size={14} />
+                </ActionIcon>
+              </Menu.Target>
+              <Menu.Dropdown>
+                <Menu.Item onClick={() => copyText(dynamicPrompt)}>
+                  {uiLanguage === 'zh' ? '复制动态提示词 {a|b|c}' : 'Copy dynamic prompt {a|b|c}'}
+                </Menu.Item>
+                <Menu.Item onClick={() => copyText(`__${wildcardName(index, currentFolderId)}__`)}>
+                  {uiLanguage === 'zh' ? '复制通配符名 __…__' : 'Copy wildcard name __…__'}
+                </Menu.Item>
+              </Menu.Dropdown>
+            </Menu>
+          )}
+        </Group>
       </div>
 
       {/* Rename modal */}
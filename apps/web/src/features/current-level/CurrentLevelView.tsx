@@ -12,16 +12,42 @@
  * Runtime Rule Enforcement:
  * - excludedTagIds: Tags that are excluded by EXCLUDES rules
  * - These tags are hidden from the picker (not rendered)
+ * - excludedProvenance: why each one is hidden (tooltip on the hidden count)
+ *
+ * Keyboard (roving focus over folders, then tags; see useRovingFocus):
+ * - Arrow keys / Home / End move between items
+ * - Enter or Space on a folder: enter it (focus moves to its first item)
+ * - Enter or Space on a tag: toggle selection
+ * - Backspace: go to the parent folder (focus returns to the folder left)
+ *
+ * ARIA: the items form a multi-select listbox with a group per section;
+ * tags are options with aria-selected.
+ *
+ * Multi-select (editing mode only, see BulkEditBar):
+ * - Ctrl/Cmd-click toggles an item, Shift-click selects a range from the last one
+ * - Ctrl/Cmd+A selects everything at this level, Escape clears
+ * - The selection belongs to the current folder and is dropped on navigation
+ * - While editing, aria-selected reflects this selection instead of the tag selection
+ *
+ * Drag and drop (editing mode only):
+ * - Drop onto a folder card: move into that folder
+ * - Drop onto a tag: reorder, placing the dragged node before that tag
+ * - Items can also be dropped onto FolderNavigator rows and breadcrumbs
  */
 
-import { useMemo } from 'react';
-import { Badge, Group, Text, Stack, Paper, ActionIcon } from '@mantine/core';
+import { useEffect, useId, useMemo, useRef, useState } from 'react';
+import { Badge, Group, Text, Stack, Paper, ActionIcon, Tooltip } from '@mantine/core';
 import { Folder, Tag, ChevronRight, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
 import { notifications } from '@mantine/notifications';
-import type { NodeId, TaxonomyIndex, TagNode } from '@tagselector/tag-core';
+import type { NodeId, TaxonomyIndex, TagNode, TagProvenance } from '@tagselector/tag-core';
 import { getTagColorHex, getReadableTextColor, getOutlineTextColor } from '../../utils/tagColor';
 import { getTagDisplayLabel } from '../../utils/searchMatch';
+import { formatProvenance } from '../../utils/provenance';
 import { useTaxonomyStore, useSelectionStore, useSettingsStore, useRulesStore } from '../../store';
+import { useMoveNode } from '../../hooks/useMoveNode';
+import { useRovingFocus } from '../../hooks/useRovingFocus';
+import { setDraggedNodeId, isNodeDrag, getDraggedNodeId } from '../../utils/nodeDrag';
+import { BulkEditBar } from './BulkEditBar';
 import styles from './CurrentLevelView.module.css';
 import { devWarn as loggerDevWarn } from '../../utils/logger';
 
@@ -58,12 +84,16 @@ interface CurrentLevelViewProps {
   selectedIds: Set<NodeId>;
   /** Tags excluded by EXCLUDES rules - will be hidden */
   excludedTagIds?: Set<NodeId>;
+  /** Rules hiding each excluded tag */
+  excludedProvenance?: Map<NodeId, TagProvenance[]>;
   /** Tag ID to highlight (for search result click feedback) */
   highlightTagId?: NodeId;
   /** Whether in editing mode (shows order controls) */
   isEditing?: boolean;
   onEnterFolder: (folderId: NodeId) => void;
   onToggleTag: (tagId: NodeId) => void;
+  /** Go to the parent of currentFolderId (Backspace) */
+  onGoToParent?: () => void;
 }
 
 export function CurrentLevelView({
@@ -71,15 +101,74 @@ export function CurrentLevelView({
   currentFolderId,
   selectedIds,
   excludedTagIds = new Set(),
+  excludedProvenance,
   highlightTagId,
   isEditing = false,
   onEnterFolder,
   onToggleTag,
+  onGoToParent,
 }: CurrentLevelViewProps) {
   const { swapNodeOrder, deleteNode } = useTaxonomyStore();
   const { deselect } = useSelectionStore();
   const { uiLanguage } = useSettingsStore();
   const { cleanupInvalidRules } = useRulesStore();
+  const moveNode = useMoveNode();
+  const [draggingId, setDraggingId] = useState<NodeId | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<NodeId | null>(null);
+  const [bulkSelection, setBulkSelection] = useState<{
+    folderId: NodeId | null;
+    ids: NodeId[];
+    /** Last item clicked, where Shift-click ranges start */
+    anchorId: NodeId | null;
+  }>({ folderId: null, ids: [], anchorId: null });
+
+  /** Props that make an item draggable (editing mode only) */
+  const getDragSourceProps = (nodeId: NodeId) => {
+    if (!isEditing) return {};
+    return {
+      draggable: true,
+      onDragStart: (e: React.DragEvent) => {
+        setDraggedNodeId(e, nodeId);
+        setDraggingId(nodeId);
+      },
+      onDragEnd: () => {
+        setDraggingId(null);
+        setDropTargetId(null);
+      },
+    };
+  };
+
+  /** Props that make an item accept dropped nodes (editing mode only) */
+  const getDropTargetProps = (targetId: NodeId, onDropNode: (draggedId: NodeId) => void) => {
+    if (!isEditing) return {};
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!isNodeDrag(e)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'move';
+        setDropTargetId(targetId);
+      },
+      onDragLeave: () => {
+        setDropTargetId((prev) => (prev === targetId ? null : prev));
+      },
+      onDrop: (e: React.DragEvent) => {
+        setDropTargetId(null);
+        const draggedId = getDraggedNodeId(e);
+        if (!draggedId || draggedId === targetId) return;
+        e.preventDefault();
+        e.stopPropagation();
+        onDropNode(draggedId);
+      },
+    };
+  };
+
+  /** Move a dragged node to just before a sibling in the current folder */
+  const moveBefore = (draggedId: NodeId, targetId: NodeId) => {
+    const siblings = (index.childrenOf.get(currentFolderId) || []).filter((id) => id !== draggedId);
+    const position = siblings.indexOf(targetId);
+    if (position === -1) return;
+    moveNode(draggedId, currentFolderId, position);
+  };
 
   const handleDeleteNode = (nodeId: NodeId, nodeLabel: string) => {
     const node = index.byId.get(nodeId);
@@ -163,11 +252,95 @@ export function CurrentLevelView({
     return allTags.filter((tag) => !excludedTagIds.has(tag.id));
   }, [children, excludedTagIds]);
 
-  // Count excluded tags for display
-  const excludedCount = useMemo(() => {
-    const allTags = children.filter((node) => !isFolder(node));
-    return allTags.length - tags.length;
-  }, [children, tags]);
+  // Excluded tags at this level, for the hidden count and its tooltip
+  const hiddenTags = useMemo(
+    () => children.filter((node) => !isFolder(node) && excludedTagIds.has(node.id)),
+    [children, excludedTagIds]
+  );
+  const excludedCount = hiddenTags.length;
+
+  // Keyboard order: folders, then tags
+  const items = useMemo(() => [...folders, ...tags], [folders, tags]);
+  const { focusItem, getItemProps } = useRovingFocus(items.length);
+  const sectionId = useId();
+  const emptyRef = useRef<HTMLDivElement>(null);
+  // Item to focus once the next folder renders: undefined = none, null = first item
+  const pendingFocusRef = useRef<NodeId | null | undefined>(undefined);
+
+  useEffect(() => {
+    const pending = pendingFocusRef.current;
+    if (pending === undefined) return;
+    pendingFocusRef.current = undefined;
+    if (items.length === 0) {
+      emptyRef.current?.focus();
+      return;
+    }
+    focusItem(Math.max(items.findIndex((node) => node.id === pending), 0));
+  }, [items, focusItem]);
+
+  const goToParent = (e: React.KeyboardEvent) => {
+    if (!onGoToParent || currentFolderId === null) return;
+    e.preventDefault();
+    pendingFocusRef.current = currentFolderId;
+    onGoToParent();
+  };
+
+  const handleItemKeyDown = (e: React.KeyboardEvent, node: TagNode) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      if (isFolder(node)) {
+        pendingFocusRef.current = null;
+        onEnterFolder(node.id);
+      } else {
+        onToggleTag(node.id);
+      }
+    } else if (e.key === 'Backspace') {
+      goToParent(e);
+    } else if (isEditing && e.key === 'a' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      setBulkIds(items.map((item) => item.id));
+    } else if (isEditing && e.key === 'Escape' && bulkIds.length > 0) {
+      e.preventDefault();
+      setBulkIds([]);
+    }
+  };
+
+  // Multi-selection in display order; empty outside editing mode or in another folder
+  const bulkIds = useMemo(() => {
+    if (!isEditing || bulkSelection.folderId !== currentFolderId) return [];
+    const ids = new Set(bulkSelection.ids);
+    return items.filter((node) => ids.has(node.id)).map((node) => node.id);
+  }, [isEditing, bulkSelection, currentFolderId, items]);
+  const bulkIdSet = new Set(bulkIds);
+
+  const setBulkIds = (ids: NodeId[], anchorId: NodeId | null = null) => {
+    setBulkSelection({ folderId: currentFolderId, ids, anchorId });
+  };
+
+  /**
+   * Ctrl/Cmd-click toggles, Shift-click selects the range from the anchor.
+   * Returns false for plain clicks (and outside editing mode), which clear the selection.
+   */
+  const handleMultiSelectClick = (e: React.MouseEvent, nodeId: NodeId): boolean => {
+    if (!isEditing) return false;
+    if (!e.shiftKey && !e.ctrlKey && !e.metaKey) {
+      if (bulkIds.length > 0) setBulkIds([]);
+      return false;
+    }
+    e.preventDefault();
+    const anchorIndex = bulkIds.length > 0 ? items.findIndex((node) => node.id === bulkSelection.anchorId) : -1;
+    const clickedIndex = items.findIndex((node) => node.id === nodeId);
+    if (e.shiftKey && anchorIndex !== -1 && clickedIndex !== -1) {
+      const start = Math.min(anchorIndex, clickedIndex);
+      const end = Math.max(anchorIndex, clickedIndex);
+      setBulkIds(items.slice(start, end + 1).map((node) => node.id), bulkSelection.anchorId);
+    } else {
+      setBulkIds(bulkIdSet.has(nodeId) ? bulkIds.filter((id) => id !== nodeId) : [...bulkIds, nodeId], nodeId);
+    }
+    return true;
+  };
+
+  const listLabel = uiLanguage === 'zh' ? '当前文件夹内容' : 'Current folder contents';
 
   // Dev warning for legacy data: tag with children
   useMemo(() => {
@@ -178,7 +351,12 @@ export function CurrentLevelView({
 
   if (children.length === 0) {
     return (
-      <div className={styles.empty}>
+      <div
+        ref={emptyRef}
+        className={styles.empty}
+        tabIndex={-1}
+        onKeyDown={(e) => e.key === 'Backspace' && goToParent(e)}
+      >
         <Text c="dimmed" size="sm" fs="italic">
           此文件夹为空
         </Text>
@@ -188,188 +366,249 @@ export function CurrentLevelView({
 
   return (
     <Stack gap="md" className={styles.container}>
-      {/* Folders Section (only kind='folder') */}
-      {folders.length > 0 && (
-        <div>
-          <Text size="xs" c="dimmed" mb="xs" tt="uppercase" fw={600}>
-            子文件夹
-          </Text>
-          <div className={styles.folderGrid}>
-            {folders.map((folder, index) => {
-              const canMoveUp = index > 0;
-              const canMoveDown = index < folders.length - 1;
+      {isEditing && (
+        <BulkEditBar
+          index={index}
+          nodeIds={bulkIds}
+          totalCount={items.length}
+          onSelectAll={() => setBulkIds(items.map((item) => item.id))}
+          onClearSelection={() => setBulkIds([])}
+        />
+      )}
+      <Stack gap="md" role="listbox" aria-label={listLabel} aria-multiselectable="true">
+        {/* Folders Section (only kind='folder') */}
+        {folders.length > 0 && (
+          <div role="group" aria-labelledby={`${sectionId}-folders`}>
+            <Text id={`${sectionId}-folders`} size="xs" c="dimmed" mb="xs" tt="uppercase" fw={600}>
+              子文件夹
+            </Text>
+            <div className={styles.folderGrid}>
+              {folders.map((folder, index) => {
+                const canMoveUp = index > 0;
+                const canMoveDown = index < folders.length - 1;
               
-              return (
-                <Paper
-                  key={folder.id}
-                  p="sm"
-                  withBorder
-                  className={styles.folderCard}
-                  onClick={() => onEnterFolder(folder.id)}
-                >
-                  <Group gap="xs" wrap="nowrap" justify="space-between">
-                    <Group gap="xs" wrap="nowrap" style={{ flex: 1 }}>
-                      <Folder size={16} className={styles.folderIcon} />
-                      <Text size="sm" className={styles.folderLabel}>
-                        {folder.label}
-                      </Text>
-                      <ChevronRight size={14} className={styles.chevron} />
-                    </Group>
-                    {isEditing && (
-                      <Group gap={4} wrap="nowrap" onClick={(e) => e.stopPropagation()}>
-                        <ActionIcon
-                          size="sm"
-                          variant="subtle"
-                          disabled={!canMoveUp}
-                          onClick={() => swapNodeOrder(folder.id, 'up')}
-                          title="上移"
-                        >
-                          <ArrowUp size={14} />
-                        </ActionIcon>
-                        <ActionIcon
-                          size="sm"
-                          variant="subtle"
-                          disabled={!canMoveDown}
-                          onClick={() => swapNodeOrder(folder.id, 'down')}
-                          title="下移"
-                        >
-                          <ArrowDown size={14} />
-                        </ActionIcon>
-                        <ActionIcon
-                          size="sm"
-                          variant="subtle"
-                          color="red"
-                          onClick={() => handleDeleteNode(folder.id, folder.label)}
-                          title="删除"
-                        >
-                          <Trash2 size={14} />
-                        </ActionIcon>
+                return (
+                  <Paper
+                    key={folder.id}
+                    {...getItemProps(index, (e) => handleItemKeyDown(e, folder))}
+                    role="option"
+                    aria-selected={bulkIdSet.has(folder.id)}
+                    p="sm"
+                    withBorder
+                    className={[
+                      styles.folderCard,
+                      draggingId === folder.id ? styles.dragging : '',
+                      dropTargetId === folder.id ? styles.dropTarget : '',
+                      bulkIdSet.has(folder.id) ? styles.bulkSelected : '',
+                    ].join(' ')}
+                    onClick={(e) => {
+                      if (!handleMultiSelectClick(e, folder.id)) onEnterFolder(folder.id);
+                    }}
+                    {...getDragSourceProps(folder.id)}
+                    {...getDropTargetProps(folder.id, (draggedId) => moveNode(draggedId, folder.id))}
+                  >
+                    <Group gap="xs" wrap="nowrap" justify="space-between">
+                      <Group gap="xs" wrap="nowrap" style={{ flex: 1 }}>
+                        <Folder size={16} className={styles.folderIcon} />
+                        <Text size="sm" className={styles.folderLabel}>
+                          {folder.label}
+                        </Text>
+                        <ChevronRight size={14} className={styles.chevron} />
                       </Group>
-                    )}
-                  </Group>
-                </Paper>
-              );
-            })}
+                      {isEditing && (
+                        <Group gap={4} wrap="nowrap" onClick={(e) => e.stopPropagation()}>
+                          <ActionIcon
+                            size="sm"
+                            variant="subtle"
+                            disabled={!canMoveUp}
+                            onClick={() => swapNodeOrder(folder.id, 'up')}
+                            title="上移"
+                          >
+                            <ArrowUp size={14} />
+                          </ActionIcon>
+                          <ActionIcon
+                            size="sm"
+                            variant="subtle"
+                            disabled={!canMoveDown}
+                            onClick={() => swapNodeOrder(folder.id, 'down')}
+                            title="下移"
+                          >
+                            <ArrowDown size={14} />
+                          </ActionIcon>
+                          <ActionIcon
+                            size="sm"
+                            variant="subtle"
+                            color="red"
+                            onClick={() => handleDeleteNode(folder.id, folder.label)}
+                            title="删除"
+                          >
+                            <Trash2 size={14} />
+                          </ActionIcon>
+                        </Group>
+                      )}
+                    </Group>
+                  </Paper>
+                );
+              })}
+            </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Tags Section (all tags, including ones with children - they're still tags) */}
-      {(tags.length > 0 || excludedCount > 0) && (
-        <div>
-          <Group gap="xs" mb="xs">
-            <Text size="xs" c="dimmed" tt="uppercase" fw={600}>
-              标签
-            </Text>
-            {excludedCount > 0 && (
-              <Text size="xs" c="orange" fs="italic">
-                ({excludedCount} 个被规则隐藏)
+        {/* Tags Section (all tags, including ones with children - they're still tags) */}
+        {(tags.length > 0 || excludedCount > 0) && (
+          <div role="group" aria-labelledby={`${sectionId}-tags`}>
+            <Group gap="xs" mb="xs">
+              <Text id={`${sectionId}-tags`} size="xs" c="dimmed" tt="uppercase" fw={600}>
+                标签
               </Text>
-            )}
-          </Group>
-          {tags.length > 0 ? (
-            <div className={styles.tagGrid}>
-              {tags.map((tag, index) => {
-                const isSelected = selectedIds.has(tag.id);
-                const isHighlighted = tag.id === highlightTagId;
-                const hex = getTagColorHex(tag);
-                // For filled variant: use readable text color based on background
-                // For outline variant: use smart text color based on border color brightness
-                const textColor = hex 
-                  ? (isSelected ? getReadableTextColor(hex) : getOutlineTextColor(hex))
-                  : undefined;
+              {excludedCount > 0 && (
+                <Tooltip
+                  withArrow
+                  multiline
+                  maw={360}
+                  label={
+                    <Stack gap={2}>
+                      {hiddenTags.map((tag) => (
+                        <Text key={tag.id} size="xs">
+                          {(excludedProvenance?.get(tag.id) ?? [])
+                            .map((p) => formatProvenance(p, index))
+                            .join('; ') || getTagDisplayLabel(tag)}
+                        </Text>
+                      ))}
+                    </Stack>
+                  }
+                >
+                  <Text size="xs" c="orange" fs="italic" style={{ cursor: 'help' }}>
+                    ({excludedCount} 个被规则隐藏)
+                  </Text>
+                </Tooltip>
+              )}
+            </Group>
+            {tags.length > 0 ? (
+              <div className={styles.tagGrid}>
+                {tags.map((tag, index) => {
+                  const isSelected = selectedIds.has(tag.id);
+                  const isHighlighted = tag.id === highlightTagId;
+                  const hex = getTagColorHex(tag);
+                  // For filled variant: use readable text color based on background
+                  // For outline variant: use smart text color based on border color brightness
+                  const textColor = hex 
+                    ? (isSelected ? getReadableTextColor(hex) : getOutlineTextColor(hex))
+                    : undefined;
                 
-                // Build style based on color
-                const badgeStyle = hex
-                  ? isSelected
-                    ? { backgroundColor: hex, borderColor: hex, color: textColor }
-                    : { borderColor: hex, color: textColor }
-                  : undefined;
+                  // Build style based on color
+                  const badgeStyle = hex
+                    ? isSelected
+                      ? { backgroundColor: hex, borderColor: hex, color: textColor }
+                      : { borderColor: hex, color: textColor }
+                    : undefined;
 
-                // Build Badge props conditionally - don't pass color prop when using custom color
-                const badgeProps = hex
-                  ? {
-                      // No color prop when using custom color to avoid Mantine override
-                      style: badgeStyle,
-                    }
-                  : {
-                      color: isSelected ? 'blue' : 'gray',
-                      style: badgeStyle,
-                    };
+                  // Build Badge props conditionally - don't pass color prop when using custom color
+                  const badgeProps = hex
+                    ? {
+                        // No color prop when using custom color to avoid Mantine override
+                        style: badgeStyle,
+                      }
+                    : {
+                        color: isSelected ? 'blue' : 'gray',
+                        style: badgeStyle,
+                      };
 
-                // Get display label: use displayName if available, fallback to label
-                const displayLabel = getTagDisplayLabel(tag);
+                  // Get display label: use displayName if available, fallback to label
+                  const displayLabel = getTagDisplayLabel(tag);
                 
-                const canMoveUp = index > 0;
-                const canMoveDown = index < tags.length - 1;
+                  const canMoveUp = index > 0;
+                  const canMoveDown = index < tags.length - 1;
 
-                // Merge badge style with flex style
-                const finalStyle = badgeStyle ? { ...badgeStyle, flex: 1 } : { flex: 1 };
+                  // Merge badge style with flex style
+                  const finalStyle = badgeStyle ? { ...badgeStyle, flex: 1 } : { flex: 1 };
 
-                return (
-                  <Group key={tag.id} gap="xs" wrap="nowrap" align="center">
-                    <Badge
-                      size="lg"
-                      variant={isSelected ? 'filled' : 'outline'}
-                      {...(hex ? {} : { color: isSelected ? 'blue' : 'gray' })}
-                      className={`tag-badge ${styles.tagBadge} ${isHighlighted ? styles.tagBadgeHighlight : ''}`}
-                      leftSection={<Tag size={14} />}
-                      onClick={() => onToggleTag(tag.id)}
-                      style={finalStyle}
+                  return (
+                    <Group
+                      key={tag.id}
+                      gap="xs"
+                      wrap="nowrap"
+                      align="center"
+                      className={[
+                        draggingId === tag.id ? styles.dragging : '',
+                        dropTargetId === tag.id ? styles.dropBefore : '',
+                      ].join(' ')}
+                      {...getDragSourceProps(tag.id)}
+                      {...getDropTargetProps(tag.id, (draggedId) => moveBefore(draggedId, tag.id))}
                     >
-                      {displayLabel}
-                    </Badge>
-                    {isEditing && (
-                      <Group gap={4} wrap="nowrap">
-                        <ActionIcon
-                          size="sm"
-                          variant="subtle"
-                          disabled={!canMoveUp}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            swapNodeOrder(tag.id, 'up');
-                          }}
-                          title="上移"
-                        >
-                          <ArrowUp size={14} />
-                        </ActionIcon>
-                        <ActionIcon
-                          size="sm"
-                          variant="subtle"
-                          disabled={!canMoveDown}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            swapNodeOrder(tag.id, 'down');
-                          }}
-                          title="下移"
-                        >
-                          <ArrowDown size={14} />
-                        </ActionIcon>
-                        <ActionIcon
-                          size="sm"
-                          variant="subtle"
-                          color="red"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            handleDeleteNode(tag.id, displayLabel);
-                          }}
-                          title="删除"
-                        >
-                          <Trash2 size={14} />
-                        </ActionIcon>
-                      </Group>
-                    )}
-                  </Group>
-                );
-              })}
-            </div>
-          ) : (
-            <Text size="sm" c="dimmed" fs="italic">
-              所有标签已被规则隐藏
-            </Text>
-          )}
-        </div>
-      )}
+                      <Badge
+                        {...getItemProps(folders.length + index, (e) => handleItemKeyDown(e, tag))}
+                        role="option"
+                        aria-selected={isEditing ? bulkIdSet.has(tag.id) : isSelected}
+                        size="lg"
+                        variant={isSelected ? 'filled' : 'outline'}
+                        {...(hex ? {} : { color: isSelected ? 'blue' : 'gray' })}
+                        className={[
+                          'tag-badge',
+                          styles.tagBadge,
+                          isHighlighted ? styles.tagBadgeHighlight : '',
+                          bulkIdSet.has(tag.id) ? styles.bulkSelected : '',
+                        ].join(' ')}
+                        leftSection={<Tag size={14} />}
+                        onClick={(e) => {
+                          if (!handleMultiSelectClick(e, tag.id)) onToggleTag(tag.id);
+                        }}
+                        style={finalStyle}
+                      >
+                        {displayLabel}
+                      </Badge>
+                      {isEditing && (
+                        <Group gap={4} wrap="nowrap">
+                          <ActionIcon
+                            size="sm"
+                            variant="subtle"
+                            disabled={!canMoveUp}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              swapNodeOrder(tag.id, 'up');
+                            }}
+                            title="上移"
+                          >
+                            <ArrowUp size={14} />
+                          </ActionIcon>
+                          <ActionIcon
+                            size="sm"
+                            variant="subtle"
+                            disabled={!canMoveDown}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              swapNodeOrder(tag.id, 'down');
+                            }}
+                            title="下移"
+                          >
+                            <ArrowDown size={14} />
+                          </ActionIcon>
+                          <ActionIcon
+                            size="sm"
+                            variant="subtle"
+                            color="red"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteNode(tag.id, displayLabel);
+                            }}
+                            title="删除"
+                          >
+                            <Trash2 size={14} />
+                          </ActionIcon>
+                        </Group>
+                      )}
+                    </Group>
+                  );
+                })}
+              </div>
+            ) : (
+              <Text size="sm" c="dimmed" fs="italic">
+                所有标签已被规则隐藏
+              </Text>
+            )}
+          </div>
+        )}
+      </Stack>
     </Stack>
   );
 }
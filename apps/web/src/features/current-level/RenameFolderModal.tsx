@@ -3,13 +3,37 @@
  *
  * Modal for renaming a folder (or Root).
  * Updates the folder's label in taxonomy.
+ * For regular folders, also edits the selection policy
+ * (single choice, or a min/max count of selected tags).
  */
 
 import { useState, useEffect } from 'react';
-import { Modal, Button, Group, TextInput, Stack } from '@mantine/core';
-import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import { Modal, Button, Group, TextInput, Stack, SegmentedControl, NumberInput, Checkbox, Text } from '@mantine/core';
+import type { NodeId, TaxonomyIndex, FolderSelectionPolicy } from '@tagselector/tag-core';
+import { getFolderSelectionPolicy } from '@tagselector/tag-core';
 import { useTaxonomyStore, useSettingsStore } from '../../store';
 
+type PolicyMode = 'none' | 'single' | 'range';
+
+/** Build the policy to store from the form values (null = no policy) */
+function buildPolicy(
+  mode: PolicyMode,
+  required: boolean,
+  min: number | string,
+  max: number | string
+): FolderSelectionPolicy | null {
+  if (mode === 'single') {
+    return required ? { single: true, min: 1 } : { single: true };
+  }
+  if (mode === 'range') {
+    const policy: FolderSelectionPolicy = {};
+    if (typeof min === 'number' && min > 0) policy.min = min;
+    if (typeof max === 'number' && max > 0) policy.max = max;
+    return Object.keys(policy).length > 0 ? policy : null;
+  }
+  return null;
+}
+
 interface RenameFolderModalProps {
   opened: boolean;
   onClose: () => void;
@@ -23,9 +47,14 @@ export function RenameFolderModal({
   nodeId,
   index,
 }: RenameFolderModalProps) {
-  const { updateNodeLabel, taxonomy } = useTaxonomyStore();
+  const { updateNodeLabel, setFolderSelectionPolicy, taxonomy } = useTaxonomyStore();
   const { uiLanguage } = useSettingsStore();
   const [label, setLabel] = useState('');
+  const [mode, setMode] = useState<PolicyMode>('none');
+  const [required, setRequired] = useState(false);
+  const [min, setMin] = useState<number | string>('');
+  const [max, setMax] = useState<number | string>('');
+  const [initialPolicy, setInitialPolicy] = useState<FolderSelectionPolicy | null>(null);
 
   // Get current label when modal opens or nodeId changes
   useEffect(() => {
@@ -38,13 +67,26 @@ export function RenameFolderModal({
         // Regular folder: use node.label
         const node = index.byId.get(nodeId);
         setLabel(node?.label || '');
+        const policy = node ? getFolderSelectionPolicy(node) : null;
+        setInitialPolicy(policy);
+        setMode(policy?.single ? 'single' : policy ? 'range' : 'none');
+        setRequired(policy?.min === 1);
+        setMin(policy && !policy.single ? policy.min ?? '' : '');
+        setMax(policy && !policy.single ? policy.max ?? '' : '');
       }
     }
   }, [opened, nodeId, index, taxonomy]);
 
+  const policy = buildPolicy(mode, required, min, max);
+  const rangeInvalid =
+    mode === 'range' && policy?.min !== undefined && policy.max !== undefined && policy.max < policy.min;
+
   const handleSave = () => {
-    if (label.trim()) {
+    if (label.trim() && !rangeInvalid) {
       updateNodeLabel(nodeId, label.trim());
+      if (nodeId !== null && JSON.stringify(policy) !== JSON.stringify(initialPolicy)) {
+        setFolderSelectionPolicy(nodeId, policy);
+      }
       onClose();
     }
   };
@@ -57,7 +99,11 @@ export function RenameFolderModal({
     <Modal
       opened={opened}
       onClose={handleCancel}
-      title={uiLanguage === 'zh' ? '重命名文件夹' : 'Rename Folder'}
+      title={
+        nodeId === null
+          ? uiLanguage === 'zh' ? '重命名文件夹' : 'Rename Folder'
+          : uiLanguage === 'zh' ? '编辑文件夹' : 'Edit Folder'
+      }
       size="md"
     >
       <Stack gap="md">
@@ -73,11 +119,62 @@ export function RenameFolderModal({
           }}
           autoFocus
         />
+        {nodeId !== null && (
+          <Stack gap="xs">
+            <Text size="sm" fw={500}>
+              {uiLanguage === 'zh' ? '选择规则' : 'Selection'}
+            </Text>
+            <SegmentedControl
+              size="xs"
+              value={mode}
+              onChange={(value) => setMode(value as PolicyMode)}
+              data={[
+                { value: 'none', label: uiLanguage === 'zh' ? '不限' : 'Any' },
+                { value: 'single', label: uiLanguage === 'zh' ? '单选' : 'Pick one' },
+                { value: 'range', label: uiLanguage === 'zh' ? '数量范围' : 'Count range' },
+              ]}
+            />
+            {mode === 'single' && (
+              <Checkbox
+                size="xs"
+                label={uiLanguage === 'zh' ? '必须选择一个' : 'Required'}
+                checked={required}
+                onChange={(e) => setRequired(e.currentTarget.checked)}
+              />
+            )}
+            {mode === 'range' && (
+              <Group grow gap="sm">
+                <NumberInput
+                  size="xs"
+                  label={uiLanguage === 'zh' ? '最少' : 'Min'}
+                  min={0}
+                  allowDecimal={false}
+                  value={min}
+                  onChange={setMin}
+                />
+                <NumberInput
+                  size="xs"
+                  label={uiLanguage === 'zh' ? '最多' : 'Max'}
+                  min={0}
+                  allowDecimal={false}
+                  value={max}
+                  onChange={setMax}
+                  error={rangeInvalid ? (uiLanguage === 'zh' ? '不能小于最少数量' : 'Must be at least Min') : undefined}
+                />
+              </Group>
+            )}
+            <Text size="xs" c="dimmed">
+              {uiLanguage === 'zh'
+                ? '统计此文件夹下所有已选标签。超出上限时替换最早的选择。'
+                : 'Counts selected tags anywhere in this folder. Going over the max replaces the oldest pick.'}
+            </Text>
+          </Stack>
+        )}
         <Group justify="flex-end" gap="sm">
           <Button variant="subtle" onClick={handleCancel}>
             {uiLanguage === 'zh' ? '取消' : 'Cancel'}
           </Button>
-          <Button onClick={handleSave} disabled={!label.trim()}>
+          <Button onClick={handleSave} disabled={!label.trim() || rangeInvalid}>
             {uiLanguage === 'zh' ? '保存' : 'Save'}
           </Button>
         </Group>
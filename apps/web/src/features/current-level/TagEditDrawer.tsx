@@ -12,7 +12,7 @@ import { X } from 'lucide-react';
 import type { NodeId, TaxonomyIndex, TagNode } from '@tagselector/tag-core';
 import { getRecommendedTagIds } from '@tagselector/tag-core';
 import { useTaxonomyStore, useSettingsStore } from '../../store';
-import { getTagColorHex } from '../../utils/tagColor';
+import { getTagColorHex, PRESET_TAG_COLORS } from '../../utils/tagColor';
 import { getTagDisplayLabel, nodeMatchesQuery } from '../../utils/searchMatch';
 
 interface TagEditDrawerProps {
@@ -22,20 +22,6 @@ interface TagEditDrawerProps {
   index: TaxonomyIndex;
 }
 
-// Common preset colors
-const PRESET_COLORS = [
-  '#3b82f6', // blue
-  '#ef4444', // red
-  '#10b981', // green
-  '#f59e0b', // yellow
-  '#8b5cf6', // purple
-  '#ec4899', // pink
-  '#06b6d4', // cyan
-  '#f97316', // orange
-  '#6366f1', // indigo
-  '#14b8a6', // teal
-];
-
 export function TagEditDrawer({
   opened,
   onClose,
@@ -288,7 +274,7 @@ export function TagEditDrawer({
             />
             {/* Preset colors - circular color swatches */}
             <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', alignItems: 'center' }}>
-              {PRESET_COLORS.map((presetColor) => (
+              {PRESET_TAG_COLORS.map((presetColor) => (
                 <UnstyledButton
                   key={presetColor}
                   onClick={() => handlePresetColorClick(presetColor)}
@@ -2,4 +2,5 @@ export { CurrentLevelView } from './CurrentLevelView';
 export { CurrentFolderHeader } from './CurrentFolderHeader';
 export { RenameFolderModal } from './RenameFolderModal';
 export { TagEditDrawer } from './TagEditDrawer';
+export { BulkEditBar } from './BulkEditBar';
 
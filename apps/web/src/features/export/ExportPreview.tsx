@@ -1,19 +1,28 @@
 import { useMemo } from 'react';
-import { Button, Badge, SegmentedControl } from '@mantine/core';
+import { Button, Badge, Group, SegmentedControl, Select, Text, Tooltip } from '@mantine/core';
 import { notifications } from '@mantine/notifications';
-import type { NodeId, TaxonomyIndex, TagNode } from '@tagselector/tag-core';
+import type { NodeId, TaxonomyIndex, TagNode, SelectionProvenance } from '@tagselector/tag-core';
 import {
-  computeExportSet,
-  sortByUserOrder,
-  DEFAULT_SEPARATOR,
+  getFormatter,
+  listFormatters,
+  DEFAULT_FORMATTER_ID,
+  checkSelectionPolicies,
+  exportXmp,
 } from '@tagselector/tag-core';
 import { useClipboard } from '../../hooks/useClipboard';
-import { useSettingsStore } from '../../store';
+import { useSettingsStore, useUsageStore, getNegativeIds } from '../../store';
+import type { TagPromptOptions } from '../../store';
+import { formatProvenance } from '../../utils/provenance';
+import { downloadFile } from '../../utils/download';
+import { formatSelectionOutput } from './exportUtils';
 import styles from './ExportPreview.module.css';
 
 interface ExportPreviewProps {
   index: TaxonomyIndex;
   selectedIds: Set<NodeId>;
+  tagOptions: Record<NodeId, TagPromptOptions>;
+  /** Why tags were auto-added / hidden by rules */
+  provenance?: SelectionProvenance;
 }
 
 /**
@@ -29,40 +38,37 @@ function getDisplayLabel(node: TagNode, mode: 'primary' | 'display'): string {
   return nodeWithData.data?.displayName ?? node.label;
 }
 
-export function ExportPreview({ index, selectedIds }: ExportPreviewProps) {
+export function ExportPreview({ index, selectedIds, tagOptions, provenance }: ExportPreviewProps) {
   const { copy, isCopied } = useClipboard();
-  const { exportLabelMode, setExportLabelMode, uiLanguage } = useSettingsStore();
-
-  const { outputText, closureNodes } = useMemo(() => {
-    if (selectedIds.size === 0) {
-      return {
-        outputText: '',
-        closureNodes: [],
-      };
-    }
+  const {
+    exportLabelMode,
+    setExportLabelMode,
+    exportFormatterId,
+    setExportFormatterId,
+    uiLanguage,
+  } = useSettingsStore();
 
-    const exportSet = computeExportSet(index, selectedIds);
-    const sortedIds = sortByUserOrder(index, exportSet);
+  // A persisted ID may refer to a formatter that is no longer registered
+  const formatterId = getFormatter(exportFormatterId) ? exportFormatterId : DEFAULT_FORMATTER_ID;
 
-    // Format output based on exportLabelMode
-    const labels: string[] = [];
-    for (const nodeId of sortedIds) {
-      const node = index.byId.get(nodeId);
-      if (node) {
-        labels.push(getDisplayLabel(node, exportLabelMode));
-      }
-    }
-    const outputText = labels.join(DEFAULT_SEPARATOR);
+  const { outputText, negativeText, closureNodes } = useMemo(() => {
+    const { outputText, negativeText, positiveIds } = formatSelectionOutput(
+      index,
+      selectedIds,
+      tagOptions,
+      formatterId,
+      exportLabelMode
+    );
 
     // Get closure nodes with info about whether they're auto-included
-    const closureNodes = sortedIds.map((id) => {
+    const closureNodes = positiveIds.map((id) => {
       const node = index.byId.get(id)!;
       const isAutoIncluded = !selectedIds.has(id);
       return { node, isAutoIncluded };
     });
 
-    return { outputText, closureNodes };
-  }, [index, selectedIds, exportLabelMode]);
+    return { outputText, negativeText, closureNodes };
+  }, [index, selectedIds, tagOptions, exportLabelMode, formatterId]);
 
   // Internationalization strings
   const i18n = {
@@ -71,10 +77,59 @@ export function ExportPreview({ index, selectedIds }: ExportPreviewProps) {
     copy: uiLanguage === 'zh' ? '复制' : 'Copy',
     copied: uiLanguage === 'zh' ? '已复制' : 'Copied',
     copyFailed: uiLanguage === 'zh' ? '复制失败' : 'Copy failed',
+    downloadXmp: uiLanguage === 'zh' ? '下载 .xmp' : 'Download .xmp',
+    xmpHint: uiLanguage === 'zh'
+      ? 'Mylio / Lightroom 关键词附属文件（不含负向标签）'
+      : 'Keyword sidecar for Mylio / Lightroom (negative tags left out)',
     selectTags: uiLanguage === 'zh' ? '选择标签以查看导出预览' : 'Select tags to view export preview',
     tags: uiLanguage === 'zh' ? '个标签' : ' tags',
     primary: uiLanguage === 'zh' ? '主名' : 'Primary',
     display: uiLanguage === 'zh' ? '显示名' : 'Display',
+    formatter: uiLanguage === 'zh' ? '输出格式' : 'Output format',
+    negative: uiLanguage === 'zh' ? '负向' : 'Negative',
+    rules: uiLanguage === 'zh' ? '规则影响' : 'Rule effects',
+    autoAdded: uiLanguage === 'zh' ? '自动添加' : 'Auto-added',
+    hidden: uiLanguage === 'zh' ? '已隐藏' : 'Hidden',
+    limits: uiLanguage === 'zh' ? '文件夹选择限制' : 'Folder selection limits',
+    tooFew: (count: number, min: number) =>
+      uiLanguage === 'zh' ? `已选 ${count} 个，至少需要 ${min} 个` : `${count} selected, needs at least ${min}`,
+    tooMany: (count: number, max: number) =>
+      uiLanguage === 'zh' ? `已选 ${count} 个，最多 ${max} 个` : `${count} selected, allows at most ${max}`,
+  };
+
+  // Folders whose selection policy the selection doesn't meet
+  const policyViolations = useMemo(() => checkSelectionPolicies(selectedIds, index), [selectedIds, index]);
+
+  const labelOf = (id: NodeId) => {
+    const node = index.byId.get(id);
+    return node ? getDisplayLabel(node, 'display') : id;
+  };
+  const requiredEntries = provenance ? [...provenance.required.entries()] : [];
+  const excludedEntries = provenance ? [...provenance.excluded.entries()] : [];
+
+  // Sidecar with the positive tags; saving it counts as exporting too
+  const downloadXmp = () => {
+    const negative = getNegativeIds(tagOptions);
+    const xmp = exportXmp(
+      index,
+      Array.from(selectedIds).filter((id) => !negative.has(id)),
+      { labelOf: (node: TagNode) => getDisplayLabel(node, exportLabelMode) }
+    );
+    downloadFile(xmp, 'keywords.xmp', 'application/rdf+xml');
+    useUsageStore.getState().logSelection(Array.from(selectedIds));
+  };
+
+  // Copying the output counts as exporting the selection (learned recommendations)
+  const copyText = async (text: string, logSelection = false) => {
+    const res = await copy(text);
+    if (res.ok) {
+      if (logSelection) {
+        useUsageStore.getState().logSelection(Array.from(selectedIds));
+      }
+      notifications.show({ message: i18n.copied, color: 'green', autoClose: 2000 });
+    } else {
+      notifications.show({ message: `${i18n.copyFailed}: ${res.error ?? 'Unknown error'}`, color: 'red', autoClose: 4000 });
+    }
   };
 
   if (selectedIds.size === 0) {
@@ -90,21 +145,33 @@ export function ExportPreview({ index, selectedIds }: ExportPreviewProps) {
       {/* Compact chips row */}
       <div className={styles.section}>
         <div className={styles.chips}>
-          {closureNodes.map(({ node, isAutoIncluded }) => (
-            <Badge
-              key={node.id}
-              size="lg"
-              variant={isAutoIncluded ? 'light' : 'filled'}
-              color={isAutoIncluded ? 'gray' : 'blue'}
-              className="tag-badge"
-              style={{
-                fontStyle: isAutoIncluded ? 'italic' : 'normal',
-              }}
-            >
-              {getDisplayLabel(node, 'display')}
-              {isAutoIncluded && ' ↑'}
-            </Badge>
-          ))}
+          {closureNodes.map(({ node, isAutoIncluded }) => {
+            const required = provenance?.required.get(node.id);
+            return (
+              <Tooltip
+                key={node.id}
+                label={required ? `${i18n.autoAdded}: ${formatProvenance(required, index)}` : ''}
+                disabled={!required}
+                withArrow
+                multiline
+                maw={320}
+              >
+                <Badge
+                  size="lg"
+                  variant={isAutoIncluded ? 'light' : 'filled'}
+                  color={isAutoIncluded ? 'gray' : 'blue'}
+                  className="tag-badge"
+                  style={{
+                    fontStyle: isAutoIncluded ? 'italic' : 'normal',
+                  }}
+                >
+                  {required ? '⛓ ' : ''}
+                  {getDisplayLabel(node, 'display')}
+                  {isAutoIncluded && ' ↑'}
+                </Badge>
+              </Tooltip>
+            );
+          })}
         </div>
       </div>
 
@@ -114,25 +181,30 @@ export function ExportPreview({ index, selectedIds }: ExportPreviewProps) {
           <div className={styles.sectionTitle}>
             {i18n.output} ({closureNodes.length}{i18n.tags})
           </div>
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={async () => {
-              const res = await copy(outputText);
-              if (res.ok) {
-                notifications.show({ message: i18n.copied, color: 'green', autoClose: 2000 });
-              } else {
-                notifications.show({ message: `${i18n.copyFailed}: ${res.error ?? 'Unknown error'}`, color: 'red', autoClose: 4000 });
-              }
-            }}
-            disabled={!outputText}
-            className={styles.copyButton}
-          >
-            {isCopied ? i18n.copied : i18n.copy}
-          </Button>
+          <Group gap="xs">
+            <Tooltip label={i18n.xmpHint}>
+              <Button
+                variant="subtle"
+                size="sm"
+                onClick={downloadXmp}
+                disabled={!outputText}
+              >
+                {i18n.downloadXmp}
+              </Button>
+            </Tooltip>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => copyText(outputText, true)}
+              disabled={!outputText}
+              className={styles.copyButton}
+            >
+              {isCopied ? i18n.copied : i18n.copy}
+            </Button>
+          </Group>
         </div>
-        {/* Label mode selector */}
-        <div style={{ marginBottom: '8px' }}>
+        {/* Label mode and formatter selectors */}
+        <Group gap="xs" style={{ marginBottom: '8px' }}>
           <SegmentedControl
             value={exportLabelMode}
             onChange={(value) => setExportLabelMode(value as 'primary' | 'display')}
@@ -142,11 +214,89 @@ export function ExportPreview({ index, selectedIds }: ExportPreviewProps) {
             ]}
             size="xs"
           />
-        </div>
+          <Select
+            aria-label={i18n.formatter}
+            value={formatterId}
+            onChange={(value) => value && setExportFormatterId(value)}
+            data={listFormatters().map((f) => ({ label: f.name, value: f.id }))}
+            allowDeselect={false}
+            size="xs"
+            w={180}
+          />
+        </Group>
         <div className={styles.outputBox}>
           <code>{outputText || i18n.empty}</code>
         </div>
       </div>
+
+      {/* Folder selection policy warnings */}
+      {policyViolations.length > 0 && (
+        <div className={styles.section}>
+          <div className={styles.sectionHeader}>
+            <div className={styles.sectionTitle}>{i18n.limits}</div>
+          </div>
+          {policyViolations.map((v) => (
+            <Text key={v.folderId} size="xs">
+              <Text span size="xs" c="orange" fw={500}>
+                ⚠ {index.byId.get(v.folderId)?.label ?? v.folderId}
+              </Text>{' '}
+              <Text span size="xs" c="dimmed">
+                {v.reason === 'too_few' ? i18n.tooFew(v.count, v.min ?? 0) : i18n.tooMany(v.count, v.max ?? 0)}
+              </Text>
+            </Text>
+          ))}
+        </div>
+      )}
+
+      {/* Rule provenance (only when rules added or hid something) */}
+      {(requiredEntries.length > 0 || excludedEntries.length > 0) && (
+        <div className={styles.section}>
+          <div className={styles.sectionHeader}>
+            <div className={styles.sectionTitle}>{i18n.rules}</div>
+          </div>
+          {requiredEntries.map(([id, p]) => (
+            <Text key={`req-${id}`} size="xs">
+              <Text span size="xs" c="green" fw={500}>
+                + {labelOf(id)}
+              </Text>{' '}
+              <Text span size="xs" c="dimmed">
+                {formatProvenance(p, index)}
+              </Text>
+            </Text>
+          ))}
+          {excludedEntries.map(([id, list]) => (
+            <Text key={`ex-${id}`} size="xs">
+              <Text span size="xs" c="orange" fw={500}>
+                ⊘ {labelOf(id)}
+              </Text>{' '}
+              <Text span size="xs" c="dimmed">
+                {list.map((p) => formatProvenance(p, index)).join('; ')}
+              </Text>
+            </Text>
+          ))}
+        </div>
+      )}
+
+      {/* Negative prompt section (only when some tags are negative) */}
+      {negativeText && (
+        <div className={styles.section}>
+          <div className={styles.sectionHeader}>
+            <div className={styles.sectionTitle}>{i18n.negative}</div>
+            <Button
+              variant="outline"
+              size="sm"
+              color="red"
+              onClick={() => copyText(negativeText)}
+              className={styles.copyButton}
+            >
+              {i18n.copy}
+            </Button>
+          </div>
+          <div className={styles.outputBox}>
+            <code>{negativeText}</code>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -1,6 +1,17 @@
 import { useMemo } from 'react';
 import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
-import { computeExportSet, sortByUserOrder, formatForMylio } from '@tagselector/tag-core';
+import {
+  computeExportSet,
+  sortByUserOrder,
+  formatForMylio,
+  splitPromptBuckets,
+  formatTags,
+  getFormatter,
+  DEFAULT_FORMATTER_ID,
+} from '@tagselector/tag-core';
+import { getPromptWeights, getNegativeIds } from '../../store';
+import type { TagPromptOptions, ExportLabelMode } from '../../store';
+import { exportLabelOf } from '../../utils/exportLabel';
 
 // Hook to get export text for copying
 export function useExportText(
@@ -14,3 +25,35 @@ export function useExportText(
     return formatForMylio(index, sortedIds);
   }, [index, selectedIds]);
 }
+
+export interface SelectionOutput {
+  outputText: string;
+  /** Negative tags, formatted separately ('' when there are none) */
+  negativeText: string;
+  /** Positive tags plus their exported ancestors, in output order */
+  positiveIds: NodeId[];
+}
+
+/**
+ * Output text of the export preview for a selection.
+ * Falls back to the default formatter when formatterId is not registered.
+ */
+export function formatSelectionOutput(
+  index: TaxonomyIndex,
+  selectedIds: Set<NodeId>,
+  tagOptions: Record<NodeId, TagPromptOptions>,
+  formatterId: string,
+  labelMode: ExportLabelMode
+): SelectionOutput {
+  if (selectedIds.size === 0) return { outputText: '', negativeText: '', positiveIds: [] };
+
+  const id = getFormatter(formatterId) ? formatterId : DEFAULT_FORMATTER_ID;
+  // Negative tags are exported separately, without their ancestors
+  const buckets = splitPromptBuckets(index, selectedIds, getNegativeIds(tagOptions));
+  const formatOptions = { labelOf: exportLabelOf(labelMode), weights: getPromptWeights(tagOptions) };
+  return {
+    outputText: formatTags(index, buckets.positive, id, formatOptions),
+    negativeText: buckets.negative.length > 0 ? formatTags(index, buckets.negative, id, formatOptions) : '',
+    positiveIds: buckets.positive,
+  };
+}
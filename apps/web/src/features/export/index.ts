@@ -1,2 +1,2 @@
 export { ExportPreview } from './ExportPreview';
-export { useExportText } from './exportUtils';
+export { useExportText, formatSelectionOutput, type SelectionOutput } from './exportUtils';
@@ -0,0 +1,304 @@
+/**
+ * GeneratorModal
+ *
+ * Generates a batch of selections for prompt exploration (tag-core
+ * generateSelections) and lists them as formatted lines.
+ *
+ * - Folder constraints: pick N tags below each chosen folder
+ * - Random: seeded samples (same seed, same batch); Product: every combination
+ * - Optionally keeps the current selection in every line
+ * - Saved rules apply: REQUIRES targets are added, exclusions never break
+ * - Lines use the export preview's formatter and label mode; copy or download
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Modal,
+  Button,
+  Group,
+  Stack,
+  Text,
+  Select,
+  NumberInput,
+  TextInput,
+  Checkbox,
+  SegmentedControl,
+  ScrollArea,
+  ActionIcon,
+  Badge,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  generateSelections,
+  formatCaption,
+  getFormatter,
+  DEFAULT_FORMATTER_ID,
+} from '@tagselector/tag-core';
+import type { NodeId, TaxonomyIndex, GeneratorMode, GenerateResult } from '@tagselector/tag-core';
+import { useSelectionStore, useRulesStore, useSettingsStore } from '../../store';
+import { useClipboard } from '../../hooks/useClipboard';
+import { downloadFile } from '../../utils/download';
+import { exportLabelOf } from '../../utils/exportLabel';
+
+/** Product mode: maximum lines per batch */
+const PRODUCT_LIMIT = 1000;
+
+interface GeneratorModalProps {
+  opened: boolean;
+  onClose: () => void;
+  index: TaxonomyIndex;
+  /** Preselected folder for the first constraint */
+  currentFolderId: NodeId | null;
+}
+
+interface ConstraintRow {
+  folderId: NodeId | null;
+  count: number;
+}
+
+/**
+ * Folder path of a node, e.g. "Hair / Color".
+ */
+function pathOf(index: TaxonomyIndex, nodeId: NodeId): string {
+  const parts: string[] = [];
+  let current: NodeId | null = nodeId;
+  while (current !== null) {
+    const node = index.byId.get(current);
+    if (!node) break;
+    parts.unshift(node.label);
+    current = node.parentId;
+  }
+  return parts.join(' / ');
+}
+
+export function GeneratorModal({ opened, onClose, index, currentFolderId }: GeneratorModalProps) {
+  const { uiLanguage, exportFormatterId, exportLabelMode } = useSettingsStore();
+  const { savedRules } = useRulesStore();
+  const { copy } = useClipboard();
+  const [rows, setRows] = useState<ConstraintRow[] | null>(null);
+  const [mode, setMode] = useState<GeneratorMode>('random');
+  const [seed, setSeed] = useState('1');
+  const [samples, setSamples] = useState(10);
+  const [keepSelection, setKeepSelection] = useState(false);
+  const [result, setResult] = useState<GenerateResult | null>(null);
+
+  const i18n = {
+    title: uiLanguage === 'zh' ? '生成选择' : 'Generate selections',
+    folders: uiLanguage === 'zh' ? '从这些文件夹中选取' : 'Pick from these folders',
+    folder: uiLanguage === 'zh' ? '文件夹' : 'Folder',
+    count: uiLanguage === 'zh' ? '数量' : 'Count',
+    addFolder: uiLanguage === 'zh' ? '添加文件夹' : 'Add folder',
+    random: uiLanguage === 'zh' ? '随机' : 'Random',
+    product: uiLanguage === 'zh' ? '所有组合' : 'All combinations',
+    seed: uiLanguage === 'zh' ? '种子' : 'Seed',
+    samples: uiLanguage === 'zh' ? '生成数量' : 'Samples',
+    keep: uiLanguage === 'zh' ? '每行保留当前选择' : 'Keep current selection in every line',
+    generate: uiLanguage === 'zh' ? '生成' : 'Generate',
+    copyAll: uiLanguage === 'zh' ? '全部复制' : 'Copy all',
+    download: uiLanguage === 'zh' ? '下载 .txt' : 'Download .txt',
+    copied: uiLanguage === 'zh' ? '已复制' : 'Copied',
+    copyFailed: uiLanguage === 'zh' ? '复制失败' : 'Copy failed',
+    lines: (count: number) => (uiLanguage === 'zh' ? `${count} 行` : `${count} lines`),
+    rejected: (count: number) =>
+      uiLanguage === 'zh' ? `${count} 个组合因规则被跳过` : `${count} candidates skipped by rules`,
+    truncated:
+      uiLanguage === 'zh' ? `已截断（最多 ${PRODUCT_LIMIT} 行）` : `Truncated (${PRODUCT_LIMIT} lines max)`,
+    empty: uiLanguage === 'zh' ? '没有符合规则的选择' : 'No selection satisfies the rules',
+  };
+
+  // The first constraint defaults to the current folder until edited
+  const constraintRows = rows ?? [{ folderId: currentFolderId, count: 1 }];
+
+  const folderOptions = useMemo(
+    () =>
+      index.taxonomy.nodes
+        .filter((n) => n.kind === 'folder')
+        .map((n) => ({ value: n.id, label: pathOf(index, n.id) }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [index]
+  );
+
+  const lines = useMemo(() => {
+    if (!result) return [];
+    const formatterId = getFormatter(exportFormatterId) ? exportFormatterId : DEFAULT_FORMATTER_ID;
+    const labelOf = exportLabelOf(exportLabelMode);
+    return result.selections.map((ids) => formatCaption(index, ids, formatterId, { labelOf }));
+  }, [result, index, exportFormatterId, exportLabelMode]);
+
+  const updateRow = (i: number, patch: Partial<ConstraintRow>) => {
+    setRows(constraintRows.map((row, j) => (j === i ? { ...row, ...patch } : row)));
+  };
+
+  const handleGenerate = () => {
+    const constraints = constraintRows
+      .filter((row): row is { folderId: NodeId; count: number } => row.folderId !== null)
+      .map((row) => ({ folderId: row.folderId, count: row.count }));
+    const baseIds = keepSelection ? Array.from(useSelectionStore.getState().selectedIds) : [];
+    setResult(
+      generateSelections(index, constraints, {
+        mode,
+        seed,
+        samples,
+        limit: PRODUCT_LIMIT,
+        baseIds,
+        rules: savedRules,
+      })
+    );
+  };
+
+  const handleCopy = async () => {
+    const res = await copy(lines.join('\n'));
+    notifications.show({
+      message: res.ok ? i18n.copied : `${i18n.copyFailed}: ${res.error ?? 'Unknown error'}`,
+      color: res.ok ? 'green' : 'red',
+      autoClose: 2000,
+    });
+  };
+
+  const handleDownload = () => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    downloadFile(`${lines.join('\n')}\n`, `prompts-${timestamp}.txt`, 'text/plain');
+  };
+
+  const handleClose = () => {
+    setRows(null);
+    setResult(null);
+    onClose();
+  };
+
+  const canGenerate = constraintRows.some((row) => row.folderId !== null);
+
+  return (
+    <Modal opened={opened} onClose={handleClose} title={i18n.title} size="lg">
+      <Stack gap="sm">
+        <Text size="sm" fw={500}>
+          {i18n.folders}
+        </Text>
+        {constraintRows.map((row, i) => (
+          <Group key={i} gap="xs" wrap="nowrap">
+            <Select
+              size="xs"
+              style={{ flex: 1 }}
+              aria-label={i18n.folder}
+              placeholder={i18n.folder}
+              searchable
+              value={row.folderId}
+              onChange={(value) => updateRow(i, { folderId: value })}
+              data={folderOptions}
+            />
+            <NumberInput
+              size="xs"
+              w={80}
+              aria-label={i18n.count}
+              min={1}
+              max={20}
+              value={row.count}
+              onChange={(value) => updateRow(i, { count: typeof value === 'number' ? value : 1 })}
+            />
+            <ActionIcon
+              variant="subtle"
+              color="gray"
+              onClick={() => setRows(constraintRows.filter((_, j) => j !== i))}
+              disabled={constraintRows.length === 1}
+              aria-label="Remove"
+            >
+              <Trash2 size={14} />
+            </ActionIcon>
+          </Group>
+        ))}
+        <Group>
+          <Button
+            size="compact-xs"
+            variant="subtle"
+            leftSection={<Plus size={12} />}
+            onClick={() => setRows([...constraintRows, { folderId: null, count: 1 }])}
+          >
+            {i18n.addFolder}
+          </Button>
+        </Group>
+
+        <Group gap="sm" align="flex-end">
+          <SegmentedControl
+            size="xs"
+            value={mode}
+            onChange={(value) => setMode(value as GeneratorMode)}
+            data={[
+              { value: 'random', label: i18n.random },
+              { value: 'product', label: i18n.product },
+            ]}
+          />
+          {mode === 'random' && (
+            <>
+              <TextInput
+                size="xs"
+                w={100}
+                label={i18n.seed}
+                value={seed}
+                onChange={(e) => setSeed(e.currentTarget.value)}
+              />
+              <NumberInput
+                size="xs"
+                w={90}
+                label={i18n.samples}
+                min={1}
+                max={1000}
+                value={samples}
+                onChange={(value) => setSamples(typeof value === 'number' ? value : 1)}
+              />
+            </>
+          )}
+        </Group>
+        <Checkbox
+          size="xs"
+          label={i18n.keep}
+          checked={keepSelection}
+          onChange={(e) => setKeepSelection(e.currentTarget.checked)}
+        />
+
+        <Group justify="flex-end">
+          <Button size="xs" onClick={handleGenerate} disabled={!canGenerate}>
+            {i18n.generate}
+          </Button>
+        </Group>
+
+        {result && (
+          <Stack gap={4}>
+            <Group gap="xs">
+              <Badge variant="light">{i18n.lines(lines.length)}</Badge>
+              {result.rejected > 0 && (
+                <Badge variant="light" color="orange">
+                  {i18n.rejected(result.rejected)}
+                </Badge>
+              )}
+              {result.truncated && (
+                <Badge variant="light" color="yellow">
+                  {i18n.truncated}
+                </Badge>
+              )}
+            </Group>
+            {lines.length === 0 ? (
+              <Text size="sm" c="dimmed">
+                {i18n.empty}
+              </Text>
+            ) : (
+              <ScrollArea.Autosize mah={280}>
+                <Text component="pre" size="xs" ff="monospace" style={{ whiteSpace: 'pre-wrap', margin: 0 }}>
+                  {lines.join('\n')}
+                </Text>
+              </ScrollArea.Autosize>
+            )}
+            <Group justify="flex-end" gap="xs">
+              <Button size="xs" variant="default" onClick={handleDownload} disabled={lines.length === 0}>
+                {i18n.download}
+              </Button>
+              <Button size="xs" onClick={handleCopy} disabled={lines.length === 0}>
+                {i18n.copyAll}
+              </Button>
+            </Group>
+          </Stack>
+        )}
+      </Stack>
+    </Modal>
+  );
+}
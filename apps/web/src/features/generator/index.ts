@@ -0,0 +1 @@
+export { GeneratorModal } from './GeneratorModal';
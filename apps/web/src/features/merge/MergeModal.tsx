@@ -0,0 +1,252 @@
+/**
+ * MergeModal
+ *
+ * Three-way merge of the current project ("ours") with another copy
+ * ("theirs"), using the pack both were edited from as the base.
+ *
+ * Flow:
+ * - Pick the base and "theirs" project pack files
+ * - Non-conflicting changes are merged automatically
+ * - Each conflict is resolved by picking a side
+ * - Nodes moved up out of a deleted folder are listed before applying
+ * - Apply validates the result and loads it with setTaxonomy
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Modal,
+  Button,
+  Group,
+  Stack,
+  Text,
+  Paper,
+  Badge,
+  FileInput,
+  SegmentedControl,
+  ScrollArea,
+  Alert,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { validateTaxonomy, importTaxonomy } from '@tagselector/tag-core';
+import type { Taxonomy, MergeConflict, MergeSide } from '@tagselector/tag-core';
+import { useTaxonomyStore, useRulesStore, useSettingsStore } from '../../store';
+import { getExtensions } from '../../utils/extensions';
+import { parseProjectPack, mergeProjectPacks } from './mergeUtils';
+
+interface MergeModalProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+type LoadedFile = { name: string; taxonomy: Taxonomy } | { name: string; error: string } | null;
+
+async function readPack(file: File | null): Promise<LoadedFile> {
+  if (!file) return null;
+  const parsed = parseProjectPack(await file.text());
+  return parsed.ok ? { name: file.name, taxonomy: parsed.taxonomy } : { name: file.name, error: parsed.error };
+}
+
+/**
+ * Short display of a conflicting value.
+ */
+function formatValue(value: unknown, absent: string): string {
+  if (value === undefined) return absent;
+  if (typeof value === 'string') return value;
+  const json = JSON.stringify(value);
+  return json.length > 80 ? `${json.slice(0, 77)}...` : json;
+}
+
+export function MergeModal({ opened, onClose }: MergeModalProps) {
+  const { taxonomy, exportProjectPack, setTaxonomy } = useTaxonomyStore();
+  const { uiLanguage } = useSettingsStore();
+  const [base, setBase] = useState<LoadedFile>(null);
+  const [theirs, setTheirs] = useState<LoadedFile>(null);
+  const [resolutions, setResolutions] = useState<Record<string, MergeSide>>({});
+
+  const i18n = {
+    title: uiLanguage === 'zh' ? '合并项目' : 'Merge Projects',
+    hint:
+      uiLanguage === 'zh'
+        ? '当前项目（我方）将与另一份副本（对方）合并。请选择双方共同的原始版本作为基准。'
+        : 'The current project (ours) is merged with another copy (theirs). Pick the version both were edited from as the base.',
+    base: uiLanguage === 'zh' ? '基准版本' : 'Base',
+    theirs: uiLanguage === 'zh' ? '对方版本' : 'Theirs',
+    pick: uiLanguage === 'zh' ? '选择 JSON 项目包' : 'Choose a JSON project pack',
+    ours: uiLanguage === 'zh' ? '我方' : 'Ours',
+    theirsSide: uiLanguage === 'zh' ? '对方' : 'Theirs',
+    absent: uiLanguage === 'zh' ? '（已删除）' : '(deleted)',
+    noConflicts: uiLanguage === 'zh' ? '没有冲突，可以直接合并' : 'No conflicts - ready to merge',
+    remaining: uiLanguage === 'zh' ? '个冲突待解决' : ' conflicts to resolve',
+    invalid: uiLanguage === 'zh' ? '合并结果无效' : 'Merged result is invalid',
+    reparented: uiLanguage === 'zh' ? '以下节点所在的文件夹已删除，将移到上一级' : 'These nodes move up because their folder is deleted',
+    apply: uiLanguage === 'zh' ? '应用合并' : 'Apply merge',
+    cancel: uiLanguage === 'zh' ? '取消' : 'Cancel',
+    merged: uiLanguage === 'zh' ? '合并完成' : 'Merge applied',
+    types: {
+      modify: uiLanguage === 'zh' ? '修改' : 'Edited',
+      delete: uiLanguage === 'zh' ? '删除' : 'Deleted',
+      add: uiLanguage === 'zh' ? '新增' : 'Added',
+    },
+  };
+
+  // "Ours" includes the live rules, exactly as a project pack export would
+  const ours = useMemo(() => {
+    if (!opened || !taxonomy) return null;
+    const json = exportProjectPack();
+    const result = json ? importTaxonomy(json) : null;
+    return result?.success ? result.taxonomy ?? null : null;
+  }, [opened, taxonomy, exportProjectPack]);
+
+  const merge = useMemo(() => {
+    if (!ours || !base || !theirs || 'error' in base || 'error' in theirs) return null;
+    // All conflicts (to keep resolved ones listed) and the result with current choices
+    const all = mergeProjectPacks(base.taxonomy, ours, theirs.taxonomy).conflicts;
+    const current = mergeProjectPacks(base.taxonomy, ours, theirs.taxonomy, resolutions);
+    const listed = [...all, ...current.conflicts.filter((c) => !all.some((a) => a.id === c.id))];
+    const validation = validateTaxonomy(current.taxonomy, { enforceTagLeaf: false });
+    return { listed, current, validation };
+  }, [ours, base, theirs, resolutions]);
+
+  const handleFile = async (file: File | null, setter: (loaded: LoadedFile) => void) => {
+    setResolutions({});
+    setter(await readPack(file));
+  };
+
+  const handleClose = () => {
+    setBase(null);
+    setTheirs(null);
+    setResolutions({});
+    onClose();
+  };
+
+  const describe = (conflict: MergeConflict): string => {
+    if (conflict.scope === 'node') {
+      const node =
+        ours?.nodes.find((n) => n.id === conflict.key) ??
+        (theirs && 'taxonomy' in theirs ? theirs.taxonomy.nodes.find((n) => n.id === conflict.key) : undefined);
+      const name = node?.label ?? conflict.key;
+      return conflict.field ? `${name} · ${conflict.field}` : name;
+    }
+    return conflict.field ? `${conflict.scope}.${conflict.key} · ${conflict.field}` : `${conflict.scope} · ${conflict.key}`;
+  };
+
+  const handleApply = () => {
+    if (!merge || merge.current.conflicts.length > 0 || !merge.validation.valid) return;
+    const merged = merge.current.taxonomy;
+    setTaxonomy(merged);
+    const index = useTaxonomyStore.getState().index;
+    useRulesStore.getState().setSavedRules(getExtensions(merged).rules.savedRules, index);
+    notifications.show({ message: i18n.merged, color: 'green', autoClose: 3000 });
+    handleClose();
+  };
+
+  const remaining = merge?.current.conflicts.length ?? 0;
+
+  return (
+    <Modal opened={opened} onClose={handleClose} title={i18n.title} size="xl">
+      <Stack gap="sm">
+        <Text size="sm" c="dimmed">
+          {i18n.hint}
+        </Text>
+        <Group grow>
+          <FileInput
+            size="sm"
+            label={i18n.base}
+            placeholder={i18n.pick}
+            accept=".json"
+            clearable
+            onChange={(file) => handleFile(file, setBase)}
+            error={base && 'error' in base ? base.error : undefined}
+          />
+          <FileInput
+            size="sm"
+            label={i18n.theirs}
+            placeholder={i18n.pick}
+            accept=".json"
+            clearable
+            onChange={(file) => handleFile(file, setTheirs)}
+            error={theirs && 'error' in theirs ? theirs.error : undefined}
+          />
+        </Group>
+
+        {merge && (
+          <>
+            {merge.listed.length === 0 ? (
+              <Text size="sm" c="green">
+                {i18n.noConflicts}
+              </Text>
+            ) : (
+              <ScrollArea.Autosize mah={420}>
+                <Stack gap="xs">
+                  {merge.listed.map((conflict) => (
+                    <Paper key={conflict.id} withBorder p="xs">
+                      <Group justify="space-between" wrap="nowrap" mb={4}>
+                        <Group gap="xs" wrap="nowrap" style={{ minWidth: 0 }}>
+                          <Badge size="sm" variant="light" color={conflict.type === 'delete' ? 'red' : 'orange'}>
+                            {i18n.types[conflict.type]}
+                          </Badge>
+                          <Text size="sm" fw={500} truncate>
+                            {describe(conflict)}
+                          </Text>
+                        </Group>
+                        <SegmentedControl
+                          size="xs"
+                          value={resolutions[conflict.id] ?? ''}
+                          onChange={(side) =>
+                            setResolutions((prev) => ({ ...prev, [conflict.id]: side as MergeSide }))
+                          }
+                          data={[
+                            { value: 'ours', label: i18n.ours },
+                            { value: 'theirs', label: i18n.theirsSide },
+                          ]}
+                        />
+                      </Group>
+                      <Text size="xs" c="dimmed">
+                        {i18n.ours}: {formatValue(conflict.ours, i18n.absent)}
+                      </Text>
+                      <Text size="xs" c="dimmed">
+                        {i18n.theirsSide}: {formatValue(conflict.theirs, i18n.absent)}
+                      </Text>
+                    </Paper>
+                  ))}
+                </Stack>
+              </ScrollArea.Autosize>
+            )}
+
+            {merge.current.reparented.length > 0 && (
+              <Alert color="yellow" title={i18n.reparented}>
+                {merge.current.reparented
+                  .map((id) => merge.current.taxonomy.nodes.find((n) => n.id === id)?.label ?? id)
+                  .join(', ')}
+              </Alert>
+            )}
+
+            {remaining === 0 && !merge.validation.valid && (
+              <Alert color="red" title={i18n.invalid}>
+                {merge.validation.errors
+                  .slice(0, 5)
+                  .map((e) => `${e.path}: ${e.message}`)
+                  .join('; ')}
+              </Alert>
+            )}
+          </>
+        )}
+
+        <Group justify="flex-end">
+          {remaining > 0 && (
+            <Text size="sm" c="orange">
+              {remaining}
+              {i18n.remaining}
+            </Text>
+          )}
+          <Button variant="default" onClick={handleClose}>
+            {i18n.cancel}
+          </Button>
+          <Button onClick={handleApply} disabled={!merge || remaining > 0 || !merge.validation.valid}>
+            {i18n.apply}
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,3 @@
+export { MergeModal } from './MergeModal';
+export { mergeProjectPacks, parseProjectPack } from './mergeUtils';
+export type { ProjectPackMergeResult } from './mergeUtils';
@@ -0,0 +1,110 @@
+/**
+ * Project Pack Merge
+ *
+ * Three-way merge of project packs: tag-core merges the nodes and meta,
+ * extension collections are merged here by their IDs:
+ * - rules.savedRules, quickTrees, presets: per item (by id)
+ * - recommendations.map: per trigger tag
+ * - ui: as a whole
+ */
+
+import { importTaxonomy, mergeTaxonomies, mergeKeyedItems, mergeValues } from '@tagselector/tag-core';
+import type { Taxonomy, MergeConflict, MergeSide, NodeId } from '@tagselector/tag-core';
+import type { TaxonomyExtensions } from '../../types/project-pack';
+import { EXTENSION_MIGRATORS } from '../../utils/extensionMigrations';
+import { getExtensions, injectExtensions } from '../../utils/extensions';
+
+export interface ProjectPackMergeResult {
+  /** Merged project pack (unresolved conflicts take "ours") */
+  taxonomy: Taxonomy;
+  /** Conflicts without a resolution */
+  conflicts: MergeConflict[];
+  /** Nodes moved up because the folder holding them was deleted */
+  reparented: NodeId[];
+}
+
+/**
+ * Parse a project pack file for merging (same migrations as import).
+ */
+export function parseProjectPack(text: string): { ok: true; taxonomy: Taxonomy } | { ok: false; error: string } {
+  const result = importTaxonomy(text, { extensionMigrators: EXTENSION_MIGRATORS });
+  if (result.success && result.taxonomy) {
+    return { ok: true, taxonomy: result.taxonomy };
+  }
+  const error = (result.errors ?? []).map((e) => `${e.path}: ${e.message}`).join('; ');
+  return { ok: false, error: error || 'Unknown error' };
+}
+
+/**
+ * Three-way merge of project packs.
+ *
+ * @param base - Common ancestor
+ * @param ours - Current project
+ * @param theirs - The other copy
+ * @param resolutions - Chosen side per conflict id
+ */
+export function mergeProjectPacks(
+  base: Taxonomy,
+  ours: Taxonomy,
+  theirs: Taxonomy,
+  resolutions: Record<string, MergeSide> = {}
+): ProjectPackMergeResult {
+  const options = { resolutions };
+  const merged = mergeTaxonomies(base, ours, theirs, options);
+  const conflicts = [...merged.conflicts];
+
+  const b = getExtensions(base);
+  const o = getExtensions(ours);
+  const t = getExtensions(theirs);
+
+  const rules = mergeKeyedItems(
+    'rules',
+    b.rules.savedRules,
+    o.rules.savedRules,
+    t.rules.savedRules,
+    (r) => r.id,
+    options
+  );
+  const quickTrees = mergeKeyedItems('quickTrees', b.quickTrees, o.quickTrees, t.quickTrees, (q) => q.id, options);
+  const presets = mergeKeyedItems(
+    'presets',
+    b.presets.presets,
+    o.presets.presets,
+    t.presets.presets,
+    (p) => p.id,
+    options
+  );
+  const recommendations = mergeKeyedItems(
+    'recommendations',
+    Object.entries(b.recommendations.map),
+    Object.entries(o.recommendations.map),
+    Object.entries(t.recommendations.map),
+    ([tagId]) => tagId,
+    options
+  );
+  conflicts.push(...rules.conflicts, ...quickTrees.conflicts, ...presets.conflicts, ...recommendations.conflicts);
+
+  const uiMerge = mergeValues(b.ui, o.ui, t.ui);
+  let ui = uiMerge.value;
+  if (uiMerge.conflict) {
+    const side = resolutions['ui:ui'];
+    if (side) {
+      ui = side === 'ours' ? o.ui : t.ui;
+    } else {
+      conflicts.push({ id: 'ui:ui', scope: 'ui', key: 'ui', type: 'modify', base: b.ui, ours: o.ui, theirs: t.ui });
+    }
+  }
+
+  const extensions: TaxonomyExtensions = {
+    rules: { version: 1, savedRules: rules.items },
+    quickTrees: quickTrees.items,
+    recommendations: {
+      ...o.recommendations,
+      map: Object.fromEntries(recommendations.items) as Record<NodeId, NodeId[]>,
+    },
+    ui,
+    presets: { version: 1, presets: presets.items },
+  };
+
+  return { taxonomy: injectExtensions(merged.taxonomy, extensions), conflicts, reparented: merged.reparented };
+}
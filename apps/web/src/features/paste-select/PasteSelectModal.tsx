@@ -0,0 +1,275 @@
+/**
+ * PasteSelectModal
+ *
+ * "Paste to select": load an existing keyword line or prompt into the picker.
+ *
+ * Flow:
+ * - Paste text; tag-core parseKeywords matches it live (labels, displayNames,
+ *   aliases; prompt weights are kept)
+ * - Ambiguous tokens: pick one of the candidate tags (or skip)
+ * - Unmatched tokens: optionally create them as new tags in a chosen folder
+ * - Apply: replace the selection or add to it
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Modal,
+  Button,
+  Group,
+  Stack,
+  Text,
+  Textarea,
+  Badge,
+  Select,
+  Checkbox,
+  SegmentedControl,
+  ScrollArea,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { parseKeywords } from '@tagselector/tag-core';
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import type { TagPromptOptions } from '../../store';
+import { useTaxonomyStore, useSelectionStore, useSettingsStore } from '../../store';
+import { getTagDisplayLabel } from '../../utils/searchMatch';
+
+interface PasteSelectModalProps {
+  opened: boolean;
+  onClose: () => void;
+  index: TaxonomyIndex;
+  /** Default folder for created tags */
+  currentFolderId: NodeId | null;
+}
+
+const ROOT_VALUE = '__root__';
+
+/**
+ * Folder path of a node, e.g. "Hair / Color".
+ */
+function pathOf(index: TaxonomyIndex, nodeId: NodeId | null): string {
+  const parts: string[] = [];
+  let current = nodeId;
+  while (current !== null) {
+    const node = index.byId.get(current);
+    if (!node) break;
+    parts.unshift(node.label);
+    current = node.parentId;
+  }
+  return parts.join(' / ');
+}
+
+export function PasteSelectModal({ opened, onClose, index, currentFolderId }: PasteSelectModalProps) {
+  const { createNode } = useTaxonomyStore();
+  const { uiLanguage } = useSettingsStore();
+  const [text, setText] = useState('');
+  const [mode, setMode] = useState<'replace' | 'add'>('replace');
+  // Chosen candidate per ambiguous token position ('' = skip)
+  const [choices, setChoices] = useState<Record<number, NodeId>>({});
+  // Unmatched tokens to create as tags
+  const [toCreate, setToCreate] = useState<Record<string, boolean>>({});
+  const [targetFolder, setTargetFolder] = useState<string | null>(null);
+
+  const i18n = {
+    title: uiLanguage === 'zh' ? '粘贴以选择' : 'Paste to select',
+    placeholder:
+      uiLanguage === 'zh'
+        ? '粘贴关键词或提示词，例如：beach, (sunny:1.2), long hair'
+        : 'Paste keywords or a prompt, e.g. beach, (sunny:1.2), long hair',
+    matched: uiLanguage === 'zh' ? '已匹配' : 'Matched',
+    ambiguous: uiLanguage === 'zh' ? '多个匹配（请选择）' : 'Ambiguous (pick one)',
+    skip: uiLanguage === 'zh' ? '跳过' : 'Skip',
+    unmatched: uiLanguage === 'zh' ? '未匹配' : 'Not found',
+    create: uiLanguage === 'zh' ? '创建为新标签' : 'Create as new tag',
+    createIn: uiLanguage === 'zh' ? '新标签所在文件夹' : 'Create new tags in',
+    root: uiLanguage === 'zh' ? '根目录' : 'Root',
+    replace: uiLanguage === 'zh' ? '替换选择' : 'Replace selection',
+    add: uiLanguage === 'zh' ? '添加到选择' : 'Add to selection',
+    apply: uiLanguage === 'zh' ? '应用' : 'Apply',
+    cancel: uiLanguage === 'zh' ? '取消' : 'Cancel',
+    applied: (count: number) => (uiLanguage === 'zh' ? `已选择 ${count} 个标签` : `Selected ${count} tags`),
+  };
+
+  const result = useMemo(() => parseKeywords(index, text), [index, text]);
+
+  const folderOptions = useMemo(() => {
+    const folders = index.taxonomy.nodes
+      .filter((n) => n.kind === 'folder')
+      .map((n) => ({ value: n.id, label: pathOf(index, n.id) }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+    return [{ value: ROOT_VALUE, label: i18n.root }, ...folders];
+  }, [index, i18n.root]);
+
+  const folderValue = targetFolder ?? currentFolderId ?? ROOT_VALUE;
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setChoices({});
+  };
+
+  const handleClose = () => {
+    setText('');
+    setChoices({});
+    setToCreate({});
+    setTargetFolder(null);
+    onClose();
+  };
+
+  const labelOf = (id: NodeId) => {
+    const node = index.byId.get(id);
+    return node ? getTagDisplayLabel(node) : id;
+  };
+
+  const handleApply = () => {
+    const ids: NodeId[] = [];
+    const weights: Record<NodeId, number> = {};
+    const push = (id: NodeId, weight?: number) => {
+      if (!ids.includes(id)) ids.push(id);
+      if (weight !== undefined) weights[id] = weight;
+    };
+
+    for (const match of result.matched) push(match.nodeId, match.weight);
+    result.ambiguous.forEach((entry, i) => {
+      if (choices[i]) push(choices[i], entry.weight);
+    });
+
+    const parentId = folderValue === ROOT_VALUE ? null : folderValue;
+    for (const token of result.unmatched) {
+      if (!toCreate[token]) continue;
+      const id = createNode('tag', parentId, token);
+      if (id) push(id);
+    }
+
+    const selection = useSelectionStore.getState();
+    if (mode === 'replace') {
+      const tagOptions: Record<NodeId, TagPromptOptions> = {};
+      for (const [id, weight] of Object.entries(weights)) tagOptions[id] = { weight };
+      selection.replaceSelection(ids, tagOptions);
+    } else {
+      selection.addMany(ids);
+      for (const [id, weight] of Object.entries(weights)) selection.setTagWeight(id, weight);
+    }
+
+    notifications.show({ message: i18n.applied(ids.length), color: 'green', autoClose: 2000 });
+    handleClose();
+  };
+
+  const creating = result.unmatched.some((token) => toCreate[token]);
+  const hasAnything = result.matched.length > 0 || result.ambiguous.length > 0 || creating;
+
+  return (
+    <Modal opened={opened} onClose={handleClose} title={i18n.title} size="lg">
+      <Stack gap="sm">
+        <Textarea
+          autosize
+          minRows={3}
+          maxRows={8}
+          placeholder={i18n.placeholder}
+          value={text}
+          onChange={(e) => handleTextChange(e.currentTarget.value)}
+          data-autofocus
+        />
+
+        <ScrollArea.Autosize mah={360}>
+          <Stack gap="sm">
+            {result.matched.length > 0 && (
+              <Stack gap={4}>
+                <Text size="sm" fw={500}>
+                  {i18n.matched} ({result.nodeIds.length})
+                </Text>
+                <Group gap={4}>
+                  {result.matched.map((match, i) => (
+                    <Badge key={`${match.nodeId}-${i}`} variant="light" color="green" tt="none">
+                      {labelOf(match.nodeId)}
+                      {match.weight !== undefined ? ` ×${match.weight}` : ''}
+                    </Badge>
+                  ))}
+                </Group>
+              </Stack>
+            )}
+
+            {result.ambiguous.length > 0 && (
+              <Stack gap={4}>
+                <Text size="sm" fw={500}>
+                  {i18n.ambiguous}
+                </Text>
+                {result.ambiguous.map((entry, i) => (
+                  <Group key={`${entry.token}-${i}`} gap="xs" wrap="nowrap">
+                    <Badge variant="light" color="orange" tt="none" style={{ flexShrink: 0 }}>
+                      {entry.token}
+                    </Badge>
+                    <Select
+                      size="xs"
+                      style={{ flex: 1 }}
+                      placeholder={i18n.skip}
+                      clearable
+                      value={choices[i] ?? null}
+                      onChange={(value) =>
+                        setChoices((prev) => {
+                          const next = { ...prev };
+                          if (value) next[i] = value;
+                          else delete next[i];
+                          return next;
+                        })
+                      }
+                      data={entry.candidates.map((id) => ({ value: id, label: pathOf(index, id) }))}
+                    />
+                  </Group>
+                ))}
+              </Stack>
+            )}
+
+            {result.unmatched.length > 0 && (
+              <Stack gap={4}>
+                <Text size="sm" fw={500}>
+                  {i18n.unmatched}
+                </Text>
+                {result.unmatched.map((token) => (
+                  <Checkbox
+                    key={token}
+                    size="xs"
+                    label={`${token} — ${i18n.create}`}
+                    checked={toCreate[token] ?? false}
+                    onChange={(e) => {
+                      const checked = e.currentTarget.checked;
+                      setToCreate((prev) => ({ ...prev, [token]: checked }));
+                    }}
+                  />
+                ))}
+                {creating && (
+                  <Select
+                    size="xs"
+                    label={i18n.createIn}
+                    searchable
+                    allowDeselect={false}
+                    value={folderValue}
+                    onChange={(value) => value && setTargetFolder(value)}
+                    data={folderOptions}
+                  />
+                )}
+              </Stack>
+            )}
+          </Stack>
+        </ScrollArea.Autosize>
+
+        <Group justify="space-between">
+          <SegmentedControl
+            size="xs"
+            value={mode}
+            onChange={(value) => setMode(value as 'replace' | 'add')}
+            data={[
+              { value: 'replace', label: i18n.replace },
+              { value: 'add', label: i18n.add },
+            ]}
+          />
+          <Group gap="sm">
+            <Button variant="default" onClick={handleClose}>
+              {i18n.cancel}
+            </Button>
+            <Button onClick={handleApply} disabled={!hasAnything}>
+              {i18n.apply}
+            </Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
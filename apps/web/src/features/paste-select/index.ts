@@ -0,0 +1 @@
+export { PasteSelectModal } from './PasteSelectModal';
@@ -0,0 +1,273 @@
+/**
+ * PresetsModal
+ *
+ * Saved selection presets ("recipes") stored in meta.extensions.presets.
+ *
+ * Features:
+ * - Save current selection (+ prompt options + rules) as a named preset
+ * - Rename / Delete presets
+ * - Apply: Replace (selection + rules) or Merge (addMany, rules untouched)
+ * - Diff a preset against the current selection
+ *
+ * Every change is written through updateExtensions, so it is undoable.
+ */
+
+import { useState } from 'react';
+import {
+  Modal,
+  Button,
+  Group,
+  Stack,
+  TextInput,
+  ActionIcon,
+  Text,
+  Paper,
+  Badge,
+  ScrollArea,
+} from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { Trash2, Edit2, Check, X, GitCompare } from 'lucide-react';
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import type { SelectionPreset } from '../../types/project-pack';
+import type { TagPromptOptions } from '../../store';
+import { useTaxonomyStore, useSelectionStore, useRulesStore, useSettingsStore } from '../../store';
+import { createPreset, renamePreset, getValidPresetIds, diffPreset } from './presetUtils';
+
+interface PresetsModalProps {
+  opened: boolean;
+  onClose: () => void;
+  presets: SelectionPreset[];
+  index: TaxonomyIndex;
+  selectedIds: Set<NodeId>;
+  tagOptions: Record<NodeId, TagPromptOptions>;
+}
+
+export function PresetsModal({
+  opened,
+  onClose,
+  presets,
+  index,
+  selectedIds,
+  tagOptions,
+}: PresetsModalProps) {
+  const { updateExtensions } = useTaxonomyStore();
+  const { uiLanguage } = useSettingsStore();
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [diffId, setDiffId] = useState<string | null>(null);
+
+  const i18n = {
+    title: uiLanguage === 'zh' ? '选择预设' : 'Selection Presets',
+    namePlaceholder: uiLanguage === 'zh' ? '预设名称' : 'Preset name',
+    save: uiLanguage === 'zh' ? '保存当前选择' : 'Save current',
+    replace: uiLanguage === 'zh' ? '替换' : 'Replace',
+    merge: uiLanguage === 'zh' ? '合并' : 'Merge',
+    empty: uiLanguage === 'zh' ? '暂无预设' : 'No presets yet',
+    tags: uiLanguage === 'zh' ? '个标签' : ' tags',
+    applied: uiLanguage === 'zh' ? '已应用预设' : 'Preset applied',
+    confirmDelete: uiLanguage === 'zh' ? '确定删除该预设？' : 'Delete this preset?',
+    added: uiLanguage === 'zh' ? '新增' : 'Added',
+    removed: uiLanguage === 'zh' ? '移除' : 'Removed',
+    same: uiLanguage === 'zh' ? '与当前选择相同' : 'Same as current selection',
+  };
+
+  const writePresets = (next: SelectionPreset[]) => {
+    updateExtensions({ presets: { version: 1, presets: next } });
+  };
+
+  const labelOf = (id: NodeId) => index.byId.get(id)?.label ?? id;
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name || selectedIds.size === 0) return;
+    const { savedRules } = useRulesStore.getState();
+    writePresets([...presets, createPreset(name, selectedIds, tagOptions, savedRules)]);
+    setNewName('');
+  };
+
+  const handleRename = (preset: SelectionPreset) => {
+    const name = renameValue.trim();
+    if (name && name !== preset.name) {
+      writePresets(presets.map((p) => (p.id === preset.id ? renamePreset(p, name) : p)));
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (preset: SelectionPreset) => {
+    if (!window.confirm(i18n.confirmDelete)) return;
+    writePresets(presets.filter((p) => p.id !== preset.id));
+    if (diffId === preset.id) setDiffId(null);
+  };
+
+  const handleApply = (preset: SelectionPreset, mode: 'replace' | 'merge') => {
+    const validIds = getValidPresetIds(preset, index);
+    if (mode === 'replace') {
+      useSelectionStore.getState().replaceSelection(validIds, preset.tagOptions ?? {});
+      if (preset.savedRules) {
+        useRulesStore.getState().setSavedRules(preset.savedRules, index);
+      }
+    } else {
+      useSelectionStore.getState().addMany(validIds);
+    }
+    notifications.show({ message: `${i18n.applied}: ${preset.name}`, color: 'green', autoClose: 2000 });
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={i18n.title} size="lg">
+      <Stack gap="sm">
+        <Group gap="xs" wrap="nowrap">
+          <TextInput
+            style={{ flex: 1 }}
+            size="sm"
+            placeholder={i18n.namePlaceholder}
+            value={newName}
+            onChange={(e) => setNewName(e.currentTarget.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+            }}
+          />
+          <Button size="sm" onClick={handleSave} disabled={!newName.trim() || selectedIds.size === 0}>
+            {i18n.save}
+          </Button>
+        </Group>
+
+        <ScrollArea.Autosize mah={420}>
+          <Stack gap="xs">
+            {presets.length === 0 && (
+              <Text size="sm" c="dimmed" ta="center" fs="italic">
+                {i18n.empty}
+              </Text>
+            )}
+            {presets.map((preset) => {
+              const diff = diffId === preset.id ? diffPreset(preset, selectedIds, index) : null;
+              return (
+                <Paper key={preset.id} withBorder p="xs">
+                  <Group justify="space-between" wrap="nowrap">
+                    {renamingId === preset.id ? (
+                      <Group gap={4} wrap="nowrap" style={{ flex: 1 }}>
+                        <TextInput
+                          size="xs"
+                          style={{ flex: 1 }}
+                          value={renameValue}
+                          onChange={(e) => setRenameValue(e.currentTarget.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleRename(preset);
+                            if (e.key === 'Escape') setRenamingId(null);
+                          }}
+                          autoFocus
+                        />
+                        <ActionIcon size="sm" variant="subtle" onClick={() => handleRename(preset)}>
+                          <Check size={14} />
+                        </ActionIcon>
+                        <ActionIcon size="sm" variant="subtle" color="gray" onClick={() => setRenamingId(null)}>
+                          <X size={14} />
+                        </ActionIcon>
+                      </Group>
+                    ) : (
+                      <Group gap="xs" wrap="nowrap" style={{ minWidth: 0 }}>
+                        <Text size="sm" fw={500} truncate>
+                          {preset.name}
+                        </Text>
+                        <Badge size="sm" variant="light">
+                          {preset.selectedIds.length}{i18n.tags}
+                        </Badge>
+                      </Group>
+                    )}
+                    <Group gap={4} wrap="nowrap">
+                      <Button size="compact-xs" onClick={() => handleApply(preset, 'replace')}>
+                        {i18n.replace}
+                      </Button>
+                      <Button size="compact-xs" variant="light" onClick={() => handleApply(preset, 'merge')}>
+                        {i18n.merge}
+                      </Button>
+                      <ActionIcon
+                        size="sm"
+                        variant={diffId === preset.id ? 'filled' : 'subtle'}
+                        onClick={() => setDiffId(diffId === preset.id ? null : preset.id)}
+                        aria-label="Diff"
+                      >
+                        <GitCompare size={14} />
+                      </ActionIcon>
+                      <ActionIcon
+                        size="sm"
+                        variant="subtle"
+                        onClick={() => {
+                          setRenamingId(preset.id);
+                          setRenameValue(preset.name);
+                        }}
+                        aria-label="Rename"
+                      >
+                        <Edit2 size={14} />
+                      </ActionIcon>
+                      <ActionIcon
+                        size="sm"
+                        variant="subtle"
+                        color="red"
+                        onClick={() => handleDelete(preset)}
+                        aria-label="Delete"
+                      >
+                        <Trash2 size={14} />
+                      </ActionIcon>
+                    </Group>
+                  </Group>
+                  {diff && (
+                    <Stack gap={4} mt="xs">
+                      {diff.added.length === 0 && diff.removed.length === 0 ? (
+                        <Text size="xs" c="dimmed">{i18n.same}</Text>
+                      ) : (
+                        <>
+                          {diff.added.length > 0 && (
+                            <Group gap={4}>
+                              <Text size="xs" c="green">+ {i18n.added}:</Text>
+                              {diff.added.map((id) => (
+                                <Badge key={id} size="sm" color="green" variant="light">{labelOf(id)}</Badge>
+                              ))}
+                            </Group>
+                          )}
+                          {diff.removed.length > 0 && (
+                            <Group gap={4}>
+                              <Text size="xs" c="red">- {i18n.removed}:</Text>
+                              {diff.removed.map((id) => (
+                                <Badge key={id} size="sm" color="red" variant="light">{labelOf(id)}</Badge>
+                              ))}
+                            </Group>
+                          )}
+                        </>
+                      )}
+                    </Stack>
+                  )}
+                </Paper>
+              );
+            })}
+          </Stack>
+        </ScrollArea.Autosize>
+      </Stack>
+    </Modal>
+  );
+}
+
+interface PresetsButtonProps {
+  presetCount: number;
+  onClick: () => void;
+}
+
+export function PresetsButton({ presetCount, onClick }: PresetsButtonProps) {
+  const { uiLanguage } = useSettingsStore();
+  return (
+    <Button
+      size="compact-xs"
+      variant="light"
+      onClick={onClick}
+      rightSection={
+        presetCount > 0 ? (
+          <Badge size="xs" circle color="blue">
+            {presetCount}
+          </Badge>
+        ) : null
+      }
+    >
+      {uiLanguage === 'zh' ? '预设' : 'Presets'}
+    </Button>
+  );
+}
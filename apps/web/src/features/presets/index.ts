@@ -0,0 +1,3 @@
+export { PresetsModal, PresetsButton } from './PresetsModal';
+export { createPreset, renamePreset, diffPreset, getValidPresetIds } from './presetUtils';
+export type { PresetDiff } from './presetUtils';
@@ -0,0 +1,85 @@
+/**
+ * Preset Utilities
+ *
+ * Pure helpers for selection presets (meta.extensions.presets).
+ */
+
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import type { Rule } from '../../store/rulesStore';
+import type { TagPromptOptions } from '../../store/selectionStore';
+import type { SelectionPreset } from '../../types/project-pack';
+
+/**
+ * Generate a unique ID for new presets.
+ */
+function generateId(): string {
+  return `preset-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Snapshot the current selection and rules as a new preset.
+ */
+export function createPreset(
+  name: string,
+  selectedIds: Set<NodeId>,
+  tagOptions: Record<NodeId, TagPromptOptions>,
+  savedRules: Rule[]
+): SelectionPreset {
+  const now = new Date().toISOString();
+  return {
+    id: generateId(),
+    name,
+    selectedIds: Array.from(selectedIds),
+    tagOptions: { ...tagOptions },
+    savedRules: savedRules.map((r) => ({ ...r, targetTagIds: [...r.targetTagIds] })),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Rename a preset (immutable).
+ */
+export function renamePreset(preset: SelectionPreset, name: string): SelectionPreset {
+  return { ...preset, name, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Preset IDs that still exist in the index.
+ * Presets can outlive nodes when they come from an older project pack.
+ */
+export function getValidPresetIds(preset: SelectionPreset, index: TaxonomyIndex): NodeId[] {
+  return preset.selectedIds.filter((id) => index.byId.has(id));
+}
+
+export interface PresetDiff {
+  /** In the preset but not currently selected */
+  added: NodeId[];
+  /** Currently selected but not in the preset */
+  removed: NodeId[];
+  /** In both */
+  unchanged: NodeId[];
+}
+
+/**
+ * Diff a preset against the current selection.
+ * `added` / `removed` describe what applying the preset (replace) would change.
+ */
+export function diffPreset(
+  preset: SelectionPreset,
+  selectedIds: Set<NodeId>,
+  index: TaxonomyIndex
+): PresetDiff {
+  const presetIds = new Set(getValidPresetIds(preset, index));
+  const added: NodeId[] = [];
+  const unchanged: NodeId[] = [];
+  for (const id of presetIds) {
+    if (selectedIds.has(id)) {
+      unchanged.push(id);
+    } else {
+      added.push(id);
+    }
+  }
+  const removed = Array.from(selectedIds).filter((id) => !presetIds.has(id));
+  return { added, removed, unchanged };
+}
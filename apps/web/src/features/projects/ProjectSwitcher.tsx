@@ -0,0 +1,135 @@
+/**
+ * ProjectSwitcher
+ *
+ * Workspace menu: switch between projects, create, duplicate, rename and
+ * delete them. Importing a file as a new project lives in the Import menu.
+ */
+
+import { useState } from 'react';
+import { Button, Menu, Modal, TextInput, Group, Stack } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { Check, ChevronDown, Copy, FolderPlus, Pencil, Trash2 } from 'lucide-react';
+import { useSettingsStore, useWorkspaceStore } from '../../store';
+
+type NameDialog = { kind: 'create' | 'duplicate' | 'rename'; value: string } | null;
+
+export function ProjectSwitcher() {
+  const { uiLanguage } = useSettingsStore();
+  const { projects, activeProjectId, switchProject, createProject, duplicateProject, renameProject, deleteProject } =
+    useWorkspaceStore();
+  const [dialog, setDialog] = useState<NameDialog>(null);
+
+  const active = projects.find((p) => p.id === activeProjectId);
+
+  const i18n = {
+    projects: uiLanguage === 'zh' ? '项目' : 'Projects',
+    create: uiLanguage === 'zh' ? '新建项目...' : 'New project...',
+    duplicate: uiLanguage === 'zh' ? '复制项目...' : 'Duplicate project...',
+    rename: uiLanguage === 'zh' ? '重命名...' : 'Rename...',
+    delete: uiLanguage === 'zh' ? '删除项目' : 'Delete project',
+    name: uiLanguage === 'zh' ? '项目名称' : 'Project name',
+    newName: uiLanguage === 'zh' ? '新项目' : 'New project',
+    copyOf: (name: string) => (uiLanguage === 'zh' ? `${name} 副本` : `${name} copy`),
+    confirmDelete: (name: string) =>
+      uiLanguage === 'zh'
+        ? `确定要删除项目“${name}”吗？其分类、规则和选择将被永久删除。`
+        : `Delete project "${name}"? Its taxonomy, rules and selection will be removed permanently.`,
+    lastProject: uiLanguage === 'zh' ? '至少需要保留一个项目' : 'At least one project is required',
+    ok: uiLanguage === 'zh' ? '确定' : 'OK',
+    cancel: uiLanguage === 'zh' ? '取消' : 'Cancel',
+  };
+
+  const dialogTitle = dialog
+    ? { create: i18n.create, duplicate: i18n.duplicate, rename: i18n.rename }[dialog.kind].replace('...', '')
+    : '';
+
+  const handleConfirm = async () => {
+    if (!dialog || !activeProjectId) return;
+    const name = dialog.value.trim();
+    if (!name) return;
+    setDialog(null);
+    if (dialog.kind === 'create') await createProject(name);
+    else if (dialog.kind === 'duplicate') await duplicateProject(activeProjectId, name);
+    else await renameProject(activeProjectId, name);
+  };
+
+  const handleDelete = async () => {
+    if (!active) return;
+    if (projects.length <= 1) {
+      notifications.show({ message: i18n.lastProject, color: 'yellow', autoClose: 3000 });
+      return;
+    }
+    if (!window.confirm(i18n.confirmDelete(active.name))) return;
+    await deleteProject(active.id);
+  };
+
+  return (
+    <>
+      <Menu position="bottom-start" shadow="md" width={240}>
+        <Menu.Target>
+          <Button size="xs" variant="light" rightSection={<ChevronDown size={14} />} fullWidth justify="space-between">
+            {active?.name ?? i18n.projects}
+          </Button>
+        </Menu.Target>
+        <Menu.Dropdown>
+          <Menu.Label>{i18n.projects}</Menu.Label>
+          {projects.map((project) => (
+            <Menu.Item
+              key={project.id}
+              onClick={() => void switchProject(project.id)}
+              leftSection={project.id === activeProjectId ? <Check size={14} /> : <span style={{ width: 14 }} />}
+            >
+              {project.name}
+            </Menu.Item>
+          ))}
+          <Menu.Divider />
+          <Menu.Item leftSection={<FolderPlus size={14} />} onClick={() => setDialog({ kind: 'create', value: i18n.newName })}>
+            {i18n.create}
+          </Menu.Item>
+          <Menu.Item
+            leftSection={<Copy size={14} />}
+            onClick={() => setDialog({ kind: 'duplicate', value: i18n.copyOf(active?.name ?? '') })}
+            disabled={!active}
+          >
+            {i18n.duplicate}
+          </Menu.Item>
+          <Menu.Item
+            leftSection={<Pencil size={14} />}
+            onClick={() => setDialog({ kind: 'rename', value: active?.name ?? '' })}
+            disabled={!active}
+          >
+            {i18n.rename}
+          </Menu.Item>
+          <Menu.Item leftSection={<Trash2 size={14} />} color="red" onClick={() => void handleDelete()} disabled={!active}>
+            {i18n.delete}
+          </Menu.Item>
+        </Menu.Dropdown>
+      </Menu>
+
+      <Modal opened={dialog !== null} onClose={() => setDialog(null)} title={dialogTitle} size="sm">
+        <Stack gap="sm">
+          <TextInput
+            label={i18n.name}
+            value={dialog?.value ?? ''}
+            onChange={(e) => {
+              const value = e.currentTarget.value;
+              setDialog((prev) => (prev ? { ...prev, value } : prev));
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') void handleConfirm();
+            }}
+            data-autofocus
+          />
+          <Group justify="flex-end" gap="xs">
+            <Button variant="default" size="xs" onClick={() => setDialog(null)}>
+              {i18n.cancel}
+            </Button>
+            <Button size="xs" onClick={() => void handleConfirm()} disabled={!dialog?.value.trim()}>
+              {i18n.ok}
+            </Button>
+          </Group>
+        </Stack>
+      </Modal>
+    </>
+  );
+}
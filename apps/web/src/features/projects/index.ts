@@ -0,0 +1 @@
+export { ProjectSwitcher } from './ProjectSwitcher';
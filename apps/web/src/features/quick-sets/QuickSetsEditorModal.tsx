@@ -40,16 +40,14 @@ import {
   FolderPlus,
   Tags,
 } from 'lucide-react';
-import type { NodeId, TaxonomyIndex, Taxonomy } from '@tagselector/tag-core';
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
 import type { QuickTree, QuickTreeNode } from '../../types/project-pack';
-import { injectExtensions } from '../../utils/extensions';
 import { useTaxonomyStore, useSettingsStore } from '../../store';
 
 interface QuickSetsEditorModalProps {
   opened: boolean;
   onClose: () => void;
   quickTrees: QuickTree[];
-  taxonomy: Taxonomy;
   index: TaxonomyIndex;
   currentFolderId: NodeId | null;
   selectedIds: Set<NodeId>;
@@ -66,12 +64,11 @@ export function QuickSetsEditorModal({
   opened,
   onClose,
   quickTrees,
-  taxonomy,
   index,
   currentFolderId,
   selectedIds,
 }: QuickSetsEditorModalProps) {
-  const { setTaxonomy } = useTaxonomyStore();
+  const { updateExtensions } = useTaxonomyStore();
   const { uiLanguage } = useSettingsStore();
 
   // Draft state - deep copy of quickTrees
@@ -232,11 +229,10 @@ export function QuickSetsEditorModal({
   // ========================================================================
 
   const handleSave = useCallback(() => {
-    // Inject updated quickTrees into taxonomy
-    const newTaxonomy = injectExtensions(taxonomy, { quickTrees: draftTrees });
-    setTaxonomy(newTaxonomy);
+    // Inject updated quickTrees into taxonomy (undoable)
+    updateExtensions({ quickTrees: draftTrees });
     onClose();
-  }, [taxonomy, draftTrees, setTaxonomy, onClose]);
+  }, [draftTrees, updateExtensions, onClose]);
 
   const handleCancel = useCallback(() => {
     // Discard draft and close
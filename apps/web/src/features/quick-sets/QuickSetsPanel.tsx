@@ -18,7 +18,7 @@
 import { useState, useCallback } from 'react';
 import { Paper, Badge, Stack, Collapse, Group, ActionIcon, Text, Button, TextInput } from '@mantine/core';
 import { ChevronDown, ChevronRight, Folder, Tag, Layers, Settings, Edit2, Plus, Check, X } from 'lucide-react';
-import type { NodeId, TaxonomyIndex, Taxonomy } from '@tagselector/tag-core';
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
 import type { QuickTree, QuickTreeNode } from '../../types/project-pack';
 import { QuickSetsEditorModal } from './QuickSetsEditorModal';
 import { useQuickSetEditSession } from './quicksetEditSession';
@@ -31,7 +31,6 @@ const warnedInvalidRefIds = new Set<string>();
 
 interface QuickSetsPanelProps {
   quickTrees: QuickTree[];
-  taxonomy: Taxonomy;
   index: TaxonomyIndex;
   currentFolderId: NodeId | null;
   selectedIds: Set<NodeId>;
@@ -146,7 +145,6 @@ function QuickTreeNodeRenderer({
 
 export function QuickSetsPanel({
   quickTrees,
-  taxonomy,
   index,
   currentFolderId,
   selectedIds,
@@ -316,7 +314,6 @@ export function QuickSetsPanel({
           opened={editorOpen}
           onClose={() => setEditorOpen(false)}
           quickTrees={quickTrees}
-          taxonomy={taxonomy}
           index={index}
           currentFolderId={currentFolderId}
           selectedIds={selectedIds}
@@ -394,7 +391,6 @@ export function QuickSetsPanel({
         opened={editorOpen}
         onClose={() => setEditorOpen(false)}
         quickTrees={quickTrees}
-        taxonomy={taxonomy}
         index={index}
         currentFolderId={currentFolderId}
         selectedIds={selectedIds}
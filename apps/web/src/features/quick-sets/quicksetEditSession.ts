@@ -17,7 +17,7 @@ import type { NodeId, Taxonomy, TaxonomyIndex } from '@tagselector/tag-core';
 import type { QuickTree, QuickTreeNode } from '../../types/project-pack';
 import type { QuickSet, QSNode, QSFolder, QSTag } from './types';
 import { generateQSId, createEmptyQuickSet, createEmptyFolder, createTagRef } from './types';
-import { getExtensions, injectExtensions } from '../../utils/extensions';
+import { getExtensions } from '../../utils/extensions';
 import { useTaxonomyStore } from '../../store';
 import { devWarn as loggerDevWarn } from '../../utils/logger';
 
@@ -419,7 +419,7 @@ export const useQuickSetEditSession = create<QuickSetEditSessionState & QuickSet
 
     saveAndExit: () => {
       const { draftQuickSets } = get();
-      const { taxonomy, setTaxonomy } = useTaxonomyStore.getState();
+      const { taxonomy, updateExtensions } = useTaxonomyStore.getState();
       
       if (!taxonomy) {
         loggerDevWarn('[QuickSetEditSession] Cannot save: no taxonomy loaded');
@@ -429,9 +429,8 @@ export const useQuickSetEditSession = create<QuickSetEditSessionState & QuickSet
       // Convert back to QuickTree format for storage
       const quickTrees = convertToQuickTrees(draftQuickSets);
       
-      // Inject into taxonomy
-      const newTaxonomy = injectExtensions(taxonomy, { quickTrees });
-      setTaxonomy(newTaxonomy);
+      // Inject into taxonomy (undoable)
+      updateExtensions({ quickTrees });
 
       set({
         isEditing: false,
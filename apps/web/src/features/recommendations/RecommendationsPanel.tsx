@@ -4,11 +4,14 @@
  * Compact horizontal bar displaying recommended tags.
  * 
  * Algorithm (non-editing mode only):
- * 1. For each selected tag, read its data.recommendedTagIds
+ * 1. For each selected tag, read its data.recommendedTagIds and
+ *    recommendations.map entry (manual recommendations)
  * 2. Merge into candidate set (with recommendation count)
  * 3. Filter: must exist, be tag, not in selectedIds
  * 4. Sort: by recommendation count (desc), then by taxonomy order (stable)
- * 5. Truncate to limit
+ * 5. Learned "frequently used with" tags: co-occurrence in the local log of
+ *    exported selections (useUsageStore), ranked by lift
+ * 6. Blend: manual first, but learned tags keep up to half of the limit
  * 
  * Semantic Rule (enforced):
  * - ONLY kind === 'tag' items are shown
@@ -17,12 +20,14 @@
  */
 
 import { useMemo } from 'react';
-import { Badge, Text, Group } from '@mantine/core';
-import { Sparkles, Tag } from 'lucide-react';
-import type { NodeId, TaxonomyIndex, TagNode } from '@tagselector/tag-core';
+import { Badge, Text, Group, Tooltip } from '@mantine/core';
+import { Sparkles, Tag, History } from 'lucide-react';
+import type { NodeId, TaxonomyIndex, TagNode, CooccurrenceSuggestion } from '@tagselector/tag-core';
+import { buildCooccurrenceModel, suggestByCooccurrence } from '@tagselector/tag-core';
 import type { RecommendationsConfig } from '../../types/project-pack';
 import { getTagDisplayLabel } from '../../utils/searchMatch';
-import { useSettingsStore } from '../../store';
+import { useSettingsStore, useUsageStore } from '../../store';
+import { RecommendationsSettings, DEFAULT_LIMIT } from './RecommendationsSettings';
 import styles from './RecommendationsPanel.module.css';
 import { devWarn as loggerDevWarn } from '../../utils/logger';
 
@@ -35,8 +40,6 @@ interface RecommendationsPanelProps {
   onToggleTag: (tagId: NodeId) => void;
 }
 
-const DEFAULT_LIMIT = 12;
-
 /**
  * Compare two sortPaths lexicographically.
  * Used for secondary sorting by taxonomy order.
@@ -74,6 +77,10 @@ export function RecommendationsPanel({
   onToggleTag,
 }: RecommendationsPanelProps) {
   const { uiLanguage, isEditing } = useSettingsStore();
+  const { selectionLog } = useUsageStore();
+
+  // Model only changes when a selection is exported
+  const cooccurrenceModel = useMemo(() => buildCooccurrenceModel(selectionLog), [selectionLog]);
   
   // Check if any selected tag has recommendations configured
   const hasAnyRecommendationsConfigured = useMemo(() => {
@@ -83,12 +90,12 @@ export function RecommendationsPanel({
         continue;
       }
       const recommendedIds = getRecommendedTagIds(selectedNode);
-      if (recommendedIds.length > 0) {
+      if (recommendedIds.length > 0 || (recommendationsConfig.map[selectedId]?.length ?? 0) > 0) {
         return true;
       }
     }
     return false;
-  }, [index, selectedIds]);
+  }, [index, selectedIds, recommendationsConfig]);
   
   const recommendations = useMemo(() => {
     // Only show recommendations in non-editing mode
@@ -105,7 +112,10 @@ export function RecommendationsPanel({
         continue;
       }
       
-      const recommendedIds = getRecommendedTagIds(selectedNode);
+      const recommendedIds = new Set([
+        ...getRecommendedTagIds(selectedNode),
+        ...(recommendationsConfig.map[selectedId] ?? []),
+      ]);
       for (const recommendedId of recommendedIds) {
         // Skip if recommended tag is already selected (don't recommend selected tags)
         if (selectedIds.has(recommendedId)) {
@@ -150,9 +160,23 @@ export function RecommendationsPanel({
       return compareSortPaths(a.sortPath, b.sortPath);
     });
 
-    // Step 4: Truncate to limit
-    return candidates.slice(0, limit).map((c) => c.node);
-  }, [index, selectedIds, recommendationsConfig, isEditing]);
+    // Step 4: Learned suggestions (existing tags not already recommended manually)
+    const learned: Array<{ node: TagNode; suggestion: CooccurrenceSuggestion }> = [];
+    for (const suggestion of suggestByCooccurrence(cooccurrenceModel, selectedIds)) {
+      const node = index.byId.get(suggestion.tagId);
+      if (!node || node.kind !== 'tag' || recommendationCounts.has(node.id)) {
+        continue;
+      }
+      learned.push({ node, suggestion });
+    }
+
+    // Step 5: Blend and truncate to limit
+    const learnedCount = Math.min(learned.length, Math.max(limit - candidates.length, Math.floor(limit / 2)));
+    return [
+      ...candidates.slice(0, limit - learnedCount).map((c) => ({ node: c.node, suggestion: undefined })),
+      ...learned.slice(0, learnedCount),
+    ];
+  }, [index, selectedIds, recommendationsConfig, isEditing, cooccurrenceModel]);
 
   // Determine empty state message
   const emptyStateMessage = useMemo(() => {
@@ -204,10 +228,19 @@ export function RecommendationsPanel({
             {emptyStateMessage}
           </Text>
         </div>
+        <RecommendationsSettings recommendationsConfig={recommendationsConfig} />
       </div>
     );
   }
 
+  const learnedLabel = (suggestion: CooccurrenceSuggestion) => {
+    const source = index.byId.get(suggestion.sourceId);
+    const sourceLabel = source ? getTagDisplayLabel(source) : suggestion.sourceId;
+    return uiLanguage === 'zh'
+      ? `常与「${sourceLabel}」一起使用（${suggestion.support} 次，提升度 ${suggestion.lift.toFixed(1)}）`
+      : `Frequently used with "${sourceLabel}" (${suggestion.support}×, lift ${suggestion.lift.toFixed(1)})`;
+  };
+
   return (
     <div className={styles.compactBar}>
       <Group gap="xs" align="center" wrap="nowrap" className={styles.barHeader}>
@@ -217,20 +250,22 @@ export function RecommendationsPanel({
         </Text>
       </Group>
       <div className={styles.chipsRow}>
-        {recommendations.map((tag) => (
-          <Badge
-            key={tag.id}
-            size="lg"
-            variant="light"
-            color="teal"
-            className={`tag-badge ${styles.chip}`}
-            leftSection={<Tag size={16} />}
-            onClick={() => onToggleTag(tag.id)}
-          >
-            {getTagDisplayLabel(tag)}
-          </Badge>
+        {recommendations.map(({ node: tag, suggestion }) => (
+          <Tooltip key={tag.id} label={suggestion ? learnedLabel(suggestion) : ''} disabled={!suggestion} withArrow>
+            <Badge
+              size="lg"
+              variant={suggestion ? 'outline' : 'light'}
+              color="teal"
+              className={`tag-badge ${styles.chip}`}
+              leftSection={suggestion ? <History size={16} /> : <Tag size={16} />}
+              onClick={() => onToggleTag(tag.id)}
+            >
+              {getTagDisplayLabel(tag)}
+            </Badge>
+          </Tooltip>
         ))}
       </div>
+      <RecommendationsSettings recommendationsConfig={recommendationsConfig} />
     </div>
   );
 }
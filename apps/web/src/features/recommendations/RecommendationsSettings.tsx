@@ -0,0 +1,97 @@
+/**
+ * RecommendationsSettings
+ *
+ * Gear popover in the recommendations bar:
+ * - historySize / limit are project settings (extensions.recommendations,
+ *   written through updateExtensions so they are undoable)
+ * - learned data is local to this browser and can be cleared
+ */
+
+import { useState } from 'react';
+import { ActionIcon, Button, NumberInput, Popover, Stack, Text } from '@mantine/core';
+import { Settings } from 'lucide-react';
+import type { RecommendationsConfig } from '../../types/project-pack';
+import { useSettingsStore, useTaxonomyStore, useUsageStore } from '../../store';
+
+/** Defaults used by the consumers when the project doesn't set them */
+export const DEFAULT_HISTORY_SIZE = 3;
+export const DEFAULT_LIMIT = 12;
+
+interface RecommendationsSettingsProps {
+  recommendationsConfig: RecommendationsConfig;
+}
+
+export function RecommendationsSettings({ recommendationsConfig }: RecommendationsSettingsProps) {
+  const { uiLanguage } = useSettingsStore();
+  const { updateExtensions } = useTaxonomyStore();
+  const { selectionLog, recentPickedTagIds, clearLearned } = useUsageStore();
+  const [opened, setOpened] = useState(false);
+
+  const i18n = {
+    title: uiLanguage === 'zh' ? '推荐设置' : 'Recommendation settings',
+    historySize: uiLanguage === 'zh' ? '记住最近选择数' : 'Recent picks to remember',
+    limit: uiLanguage === 'zh' ? '最多显示推荐数' : 'Max recommendations',
+    learned:
+      uiLanguage === 'zh'
+        ? `已从 ${selectionLog.length} 次导出中学习（仅保存在本机）`
+        : `Learned from ${selectionLog.length} exports (stored on this device only)`,
+    clear: uiLanguage === 'zh' ? '清除学习数据' : 'Clear learned data',
+  };
+
+  const update = (partial: Partial<RecommendationsConfig>) => {
+    updateExtensions({ recommendations: { ...recommendationsConfig, ...partial } });
+  };
+
+  return (
+    <Popover opened={opened} onChange={setOpened} position="top-end" withArrow shadow="md">
+      <Popover.Target>
+        <ActionIcon
+          variant="subtle"
+          size="sm"
+          color="teal"
+          onClick={() => setOpened((o) => !o)}
+          aria-label={i18n.title}
+        >
+          <Settings size={14} />
+        </ActionIcon>
+      </Popover.Target>
+      <Popover.Dropdown>
+        <Stack gap="xs" w={240}>
+          <Text size="sm" fw={600}>
+            {i18n.title}
+          </Text>
+          <NumberInput
+            size="xs"
+            label={i18n.historySize}
+            min={1}
+            max={50}
+            allowDecimal={false}
+            value={recommendationsConfig.historySize ?? DEFAULT_HISTORY_SIZE}
+            onChange={(value) => typeof value === 'number' && value >= 1 && update({ historySize: value })}
+          />
+          <NumberInput
+            size="xs"
+            label={i18n.limit}
+            min={1}
+            max={100}
+            allowDecimal={false}
+            value={recommendationsConfig.limit ?? DEFAULT_LIMIT}
+            onChange={(value) => typeof value === 'number' && value >= 1 && update({ limit: value })}
+          />
+          <Text size="xs" c="dimmed">
+            {i18n.learned}
+          </Text>
+          <Button
+            size="xs"
+            variant="light"
+            color="red"
+            disabled={selectionLog.length === 0 && recentPickedTagIds.length === 0}
+            onClick={clearLearned}
+          >
+            {i18n.clear}
+          </Button>
+        </Stack>
+      </Popover.Dropdown>
+    </Popover>
+  );
+}
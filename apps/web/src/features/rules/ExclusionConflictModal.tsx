@@ -0,0 +1,128 @@
+/**
+ * ExclusionConflictModal
+ *
+ * Shown when the selection breaks an enforced EXCLUDES / AT_MOST_ONE_OF rule
+ * (setSelection, addMany, a restored selection, an import, or REQUIRES
+ * chains that collide). The user picks which side of each conflict to keep;
+ * the other sides are deselected together with the tags that would re-add them.
+ *
+ * The modal cannot be dismissed without resolving, so the selection never
+ * stays inconsistent.
+ */
+
+import { useMemo, useState } from 'react';
+import { Modal, Button, Group, Stack, Text, Paper, Radio } from '@mantine/core';
+import type { NodeId, TaxonomyIndex, Rule, ExclusionConflict } from '@tagselector/tag-core';
+import { getRemovalSet } from '@tagselector/tag-core';
+import { useSettingsStore } from '../../store';
+import { getTagDisplayLabel } from '../../utils/searchMatch';
+
+interface ExclusionConflictModalProps {
+  conflicts: ExclusionConflict[];
+  index: TaxonomyIndex;
+  selectedIds: Set<NodeId>;
+  savedRules: Rule[];
+  /** Deselect these tags */
+  onResolve: (removeIds: NodeId[]) => void;
+}
+
+/** Stable key for a conflict (rule + involved tags) */
+function conflictKey(conflict: ExclusionConflict): string {
+  return `${conflict.ruleId}:${conflict.sides.map((side) => side.join('+')).join('|')}`;
+}
+
+export function ExclusionConflictModal({
+  conflicts,
+  index,
+  selectedIds,
+  savedRules,
+  onResolve,
+}: ExclusionConflictModalProps) {
+  const { uiLanguage } = useSettingsStore();
+  // Chosen side (index) per conflict key; default: first side
+  const [kept, setKept] = useState<Record<string, number>>({});
+
+  const i18n = {
+    title: uiLanguage === 'zh' ? '选择与规则冲突' : 'Selection conflicts with rules',
+    hint:
+      uiLanguage === 'zh'
+        ? '当前选择违反了互斥规则。请为每个冲突选择要保留的标签。'
+        : 'The selection breaks exclusion rules. Choose what to keep for each conflict.',
+    keep: uiLanguage === 'zh' ? '保留' : 'Keep',
+    alsoRemoves: uiLanguage === 'zh' ? '将移除' : 'Removes',
+    apply: uiLanguage === 'zh' ? '应用' : 'Apply',
+  };
+
+  const labelOf = (id: NodeId) => {
+    const node = index.byId.get(id);
+    return node ? getTagDisplayLabel(node) : id;
+  };
+
+  // Tags removed for the current choices (including REQUIRES sources)
+  const removal = useMemo(() => {
+    const toRemove: NodeId[] = [];
+    for (const conflict of conflicts) {
+      const keep = kept[conflictKey(conflict)] ?? 0;
+      conflict.sides.forEach((side, i) => {
+        if (i !== keep) toRemove.push(...side);
+      });
+    }
+    return getRemovalSet(toRemove, selectedIds, savedRules);
+  }, [conflicts, kept, selectedIds, savedRules]);
+
+  return (
+    <Modal
+      opened={conflicts.length > 0}
+      onClose={() => {}}
+      withCloseButton={false}
+      closeOnClickOutside={false}
+      closeOnEscape={false}
+      title={i18n.title}
+      size="md"
+    >
+      <Stack gap="sm">
+        <Text size="sm" c="dimmed">
+          {i18n.hint}
+        </Text>
+        {conflicts.map((conflict) => {
+          const key = conflictKey(conflict);
+          return (
+            <Paper key={key} withBorder p="xs">
+              <Text size="sm" fw={500} mb={4}>
+                {conflict.ruleName}
+              </Text>
+              <Radio.Group
+                value={String(kept[key] ?? 0)}
+                onChange={(value) => setKept((prev) => ({ ...prev, [key]: Number(value) }))}
+              >
+                <Stack gap={4}>
+                  {conflict.sides.map((side, i) => (
+                    <Radio
+                      key={side.join('+')}
+                      value={String(i)}
+                      size="xs"
+                      label={`${i18n.keep}: ${side.map(labelOf).join(', ')}`}
+                    />
+                  ))}
+                </Stack>
+              </Radio.Group>
+            </Paper>
+          );
+        })}
+        {removal.size > 0 && (
+          <Text size="xs" c="red">
+            {i18n.alsoRemoves}: {[...removal].map(labelOf).join(', ')}
+          </Text>
+        )}
+        <Group justify="flex-end">
+          <Button
+            onClick={() => {
+              setKept({});
+              onResolve([...removal]);
+            }}
+          >{i18n.apply}</Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
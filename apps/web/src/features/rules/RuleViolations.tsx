@@ -0,0 +1,75 @@
+/**
+ * RuleViolations
+ *
+ * Lists rules the current selection does not satisfy (see tag-core evaluateRules):
+ * - Unmet REQUIRES_ANY_OF / AT_LEAST_ONE_OF (red for enforced rules)
+ * - Warn-only rules that would otherwise auto-add or hide tags (yellow)
+ *
+ * Clicking a candidate tag selects it.
+ */
+
+import { Alert, Badge, Group, Stack, Text } from '@mantine/core';
+import { AlertTriangle } from 'lucide-react';
+import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import type { RuleViolation } from '../../store';
+import { useSettingsStore } from '../../store';
+import { getTagDisplayLabel } from '../../utils/searchMatch';
+
+interface RuleViolationsProps {
+  violations: RuleViolation[];
+  index: TaxonomyIndex;
+  selectedIds: Set<NodeId>;
+  onToggleTag: (tagId: NodeId) => void;
+}
+
+export function RuleViolations({ violations, index, selectedIds, onToggleTag }: RuleViolationsProps) {
+  const { uiLanguage } = useSettingsStore();
+  if (violations.length === 0) return null;
+
+  const reasons: Record<RuleViolation['reason'], string> = {
+    missing: uiLanguage === 'zh' ? '缺少' : 'Missing',
+    excluded: uiLanguage === 'zh' ? '互斥' : 'Conflicts with',
+    too_many: uiLanguage === 'zh' ? '只能选一个' : 'Pick only one of',
+    none_selected: uiLanguage === 'zh' ? '至少选一个' : 'Pick at least one of',
+  };
+  const hasEnforced = violations.some((v) => v.severity === 'enforce');
+
+  return (
+    <Alert
+      color={hasEnforced ? 'red' : 'yellow'}
+      icon={<AlertTriangle size={16} />}
+      p="xs"
+      title={uiLanguage === 'zh' ? `规则未满足 (${violations.length})` : `Unmet rules (${violations.length})`}
+    >
+      <Stack gap={4}>
+        {violations.map((violation) => (
+          <Group key={`${violation.ruleId}-${violation.reason}`} gap={4}>
+            <Text size="xs" fw={500}>
+              {violation.ruleName}
+              {violation.severity === 'warn' ? ' ⚠' : ''}:
+            </Text>
+            <Text size="xs" c="dimmed">
+              {reasons[violation.reason]}
+            </Text>
+            {violation.tagIds.map((tagId) => {
+              const node = index.byId.get(tagId);
+              const selected = selectedIds.has(tagId);
+              return (
+                <Badge
+                  key={tagId}
+                  size="sm"
+                  variant={selected ? 'filled' : 'outline'}
+                  className="tag-badge"
+                  style={{ cursor: 'pointer' }}
+                  onClick={() => onToggleTag(tagId)}
+                >
+                  {node ? getTagDisplayLabel(node) : tagId}
+                </Badge>
+              );
+            })}
+          </Group>
+        ))}
+      </Stack>
+    </Alert>
+  );
+}
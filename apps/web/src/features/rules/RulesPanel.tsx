@@ -24,6 +24,7 @@ import {
   Button,
   Group,
   Paper,
+  Select,
   Stack,
   Switch,
   Text,
@@ -45,7 +46,9 @@ import {
 import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
 import {
   useRulesStore,
+  ruleNeedsTrigger,
   type Rule,
+  type RuleType,
   type RuleEditMode,
   type RuleValidationError,
   type RuleValidationWarning,
@@ -70,17 +73,28 @@ function getTagLabel(index: TaxonomyIndex, tagId: NodeId): string {
   return getTagDisplayLabel(node);
 }
 
+/** Symbol per rule type, used in the collapsed summary */
+const RULE_TYPE_SYMBOLS: Record<RuleType, string> = {
+  REQUIRES: '→',
+  EXCLUDES: '⊘',
+  REQUIRES_ANY_OF: '→∨',
+  AT_MOST_ONE_OF: '≤1',
+  AT_LEAST_ONE_OF: '≥1',
+};
+
 /**
  * Generate rule summary for collapsed view.
+ * Group rules without a trigger show "*" (apply to any selection).
  */
 function getRuleSummary(rule: Rule, index: TaxonomyIndex): string {
   const triggerLabel = rule.triggerTagId
     ? getTagLabel(index, rule.triggerTagId)
-    : '?';
+    : ruleNeedsTrigger(rule.type) ? '?' : '*';
   const targetCount = rule.targetTagIds.length;
-  const typeSymbol = rule.type === 'EXCLUDES' ? '⊘' : '→';
+  const typeSymbol = RULE_TYPE_SYMBOLS[rule.type];
+  const soft = rule.severity === 'warn' ? ' ⚠' : '';
 
-  return `${triggerLabel} ${typeSymbol} (${targetCount})`;
+  return `${triggerLabel} ${typeSymbol} (${targetCount})${soft}`;
 }
 
 // ============================================================================
@@ -181,6 +195,7 @@ function RuleItem({ rule, index, isEditing, editMode, hasError }: RuleItemProps)
   const {
     renameRule,
     setRuleType,
+    setRuleSeverity,
     removeTarget,
     clearTargets,
     deleteRule,
@@ -234,6 +249,14 @@ function RuleItem({ rule, index, isEditing, editMode, hasError }: RuleItemProps)
   const isTriggerMode = isEditing && editMode === 'selecting-trigger';
   const isTargetsMode = isEditing && editMode === 'selecting-targets';
 
+  const ruleTypeOptions: { value: RuleType; label: string }[] = [
+    { value: 'REQUIRES', label: uiLanguage === 'zh' ? '依赖 → (全部)' : 'Requires → (all)' },
+    { value: 'EXCLUDES', label: uiLanguage === 'zh' ? '互斥 ⊘' : 'Excludes ⊘' },
+    { value: 'REQUIRES_ANY_OF', label: uiLanguage === 'zh' ? '依赖其一 →∨' : 'Requires any of →∨' },
+    { value: 'AT_MOST_ONE_OF', label: uiLanguage === 'zh' ? '最多选一 ≤1' : 'At most one of ≤1' },
+    { value: 'AT_LEAST_ONE_OF', label: uiLanguage === 'zh' ? '至少选一 ≥1' : 'At least one of ≥1' },
+  ];
+
   return (
     <Paper
       p="sm"
@@ -306,6 +329,7 @@ function RuleItem({ rule, index, isEditing, editMode, hasError }: RuleItemProps)
             <Group gap="xs" justify="space-between" mb={6}>
               <Text size="xs" fw={500}>
                 {uiLanguage === 'zh' ? '触发标签 (A)' : 'Trigger Tag (A)'}
+                {!ruleNeedsTrigger(rule.type) && (uiLanguage === 'zh' ? ' · 可选' : ' · optional')}
               </Text>
               <Button
                 size="compact-xs"
@@ -341,28 +365,33 @@ function RuleItem({ rule, index, isEditing, editMode, hasError }: RuleItemProps)
               <Text size="sm" fs="italic" c="dimmed">
                 {isTriggerMode 
                   ? (uiLanguage === 'zh' ? '👆 点击左侧 tag 设置' : '👆 Click left tags to set')
-                  : (uiLanguage === 'zh' ? '未设置' : 'Not set')}
+                  : !ruleNeedsTrigger(rule.type)
+                    ? (uiLanguage === 'zh' ? '未设置（对任何选择生效）' : 'Not set (applies to any selection)')
+                    : (uiLanguage === 'zh' ? '未设置' : 'Not set')}
               </Text>
             )}
           </div>
 
-          {/* Rule Type Switch */}
+          {/* Rule Type + Severity */}
           <div className={styles.typeSection}>
-            <Group gap="md" align="center">
-              <Text size="xs" c={rule.type === 'EXCLUDES' ? 'red' : 'dimmed'}>
-                {uiLanguage === 'zh' ? '互斥 ⊘' : 'Exclude ⊘'}
-              </Text>
+            <Group gap="md" align="center" wrap="nowrap">
+              <Select
+                size="xs"
+                data={ruleTypeOptions}
+                value={rule.type}
+                onChange={(value) => value && setRuleType(rule.id, value as RuleType)}
+                allowDeselect={false}
+                style={{ flex: 1 }}
+              />
               <Switch
-                size="md"
-                checked={rule.type === 'REQUIRES'}
+                size="sm"
+                checked={rule.severity === 'warn'}
                 onChange={(e) =>
-                  setRuleType(rule.id, e.currentTarget.checked ? 'REQUIRES' : 'EXCLUDES')
+                  setRuleSeverity(rule.id, e.currentTarget.checked ? 'warn' : 'enforce')
                 }
-                color="green"
+                color="yellow"
+                label={uiLanguage === 'zh' ? '仅提醒' : 'Warn only'}
               />
-              <Text size="xs" c={rule.type === 'REQUIRES' ? 'green' : 'dimmed'}>
-                {uiLanguage === 'zh' ? '依赖 →' : 'Require →'}
-              </Text>
             </Group>
           </div>
 
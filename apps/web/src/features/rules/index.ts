@@ -1,2 +1,3 @@
 export { RulesPanel, RulesToggleButton } from './RulesPanel';
-
+export { RuleViolations } from './RuleViolations';
+export { ExclusionConflictModal } from './ExclusionConflictModal';
@@ -38,6 +38,7 @@ export function SearchBar({
       value={localValue}
       onChange={(e) => setLocalValue(e.target.value)}
       placeholder={placeholder}
+      aria-label={placeholder}
       leftSection={<Search size={16} />}
       rightSection={
         localValue ? (
@@ -2,17 +2,26 @@
  * SearchResultsPanel
  *
  * Displays search results grouped by folders and tags.
- * - Shows up to 8 items per group
+ * - Ranked by tag-core's rankedSearch (exact / prefix / substring / pinyin / fuzzy)
+ * - Shows up to 8 items per group, most relevant first
+ * - Highlights the matched part of the label, displayName or alias
  * - Each item shows icon + label + path
  * - Clicking folder navigates to that folder
  * - Clicking tag navigates to tag's nearest ancestor folder
+ *
+ * Keyboard: results form a listbox with roving focus (see useRovingFocus);
+ * arrow keys move between folders and tags, Enter / Space picks.
  */
 
-import { useMemo } from 'react';
-import { Paper, Stack, Text, Group, UnstyledButton } from '@mantine/core';
+import { useId, useMemo } from 'react';
+import { Paper, Stack, Text, Group, UnstyledButton, Mark } from '@mantine/core';
 import { Folder, Tag } from 'lucide-react';
-import type { NodeId, TaxonomyIndex, TagNode } from '@tagselector/tag-core';
-import { nodeMatchesQuery, getTagDisplayLabel } from '../../utils/searchMatch';
+import type { NodeId, TaxonomyIndex, TagNode, SearchResult } from '@tagselector/tag-core';
+import { rankedSearch } from '@tagselector/tag-core';
+import { getTagDisplayLabel } from '../../utils/searchMatch';
+import { toPinyin } from '../../utils/pinyin';
+import { useSettingsStore } from '../../store';
+import { useRovingFocus } from '../../hooks/useRovingFocus';
 
 interface SearchResultsPanelProps {
   index: TaxonomyIndex;
@@ -39,34 +48,57 @@ function buildPath(node: TagNode, index: TaxonomyIndex): string {
   return path.join(' / ');
 }
 
+/**
+ * Render the matched text with its ranges highlighted.
+ * When the match is not the shown label (alias, or label behind a
+ * displayName), it is shown dimmed after the label.
+ */
+function HighlightedMatch({ result, label }: { result: SearchResult; label: string }) {
+  const { text, ranges } = result.match;
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  for (const [start, end] of ranges) {
+    if (start > pos) parts.push(text.slice(pos, start));
+    parts.push(<Mark key={start}>{text.slice(start, end)}</Mark>);
+    pos = end;
+  }
+  if (pos < text.length) parts.push(text.slice(pos));
+
+  if (text !== label) {
+    return (
+      <>
+        {label}{' '}
+        <Text span size="xs" c="dimmed">({parts})</Text>
+      </>
+    );
+  }
+  return <>{parts}</>;
+}
+
 export function SearchResultsPanel({
   index,
   query,
   onPickFolder,
   onPickTag,
 }: SearchResultsPanelProps) {
-  // Return null if query is empty
+  const { uiLanguage } = useSettingsStore();
   const trimmedQuery = query.trim();
-  if (!trimmedQuery) {
-    return null;
-  }
 
-  // Search nodes: iterate all nodes and filter by nodeMatchesQuery
+  // Search nodes: ranked by relevance
   const allResults = useMemo(() => {
-    const all = Array.from(index.byId.values());
-    return all.filter(node => nodeMatchesQuery(node, trimmedQuery));
+    return trimmedQuery ? rankedSearch(index, trimmedQuery, { pinyin: toPinyin }) : [];
   }, [index, trimmedQuery]);
 
-  // Group by kind
+  // Group by kind (rank order is kept within each group)
   const { folders, tags } = useMemo(() => {
-    const folders: TagNode[] = [];
-    const tags: TagNode[] = [];
+    const folders: SearchResult[] = [];
+    const tags: SearchResult[] = [];
 
-    for (const node of allResults) {
-      if (node.kind === 'folder') {
-        folders.push(node);
+    for (const result of allResults) {
+      if (result.node.kind === 'folder') {
+        folders.push(result);
       } else {
-        tags.push(node);
+        tags.push(result);
       }
     }
 
@@ -76,35 +108,42 @@ export function SearchResultsPanel({
     };
   }, [allResults]);
 
-  // If no results, return null
+  // Keyboard order: folders, then tags
+  const { getItemProps } = useRovingFocus(folders.length + tags.length);
+  const sectionId = useId();
+
+  // Return null if query is empty or there are no results
   if (folders.length === 0 && tags.length === 0) {
     return null;
   }
 
   return (
     <Paper p="sm" withBorder>
-      <Stack gap="xs">
+      <Stack gap="xs" role="listbox" aria-label={uiLanguage === 'zh' ? '搜索结果' : 'Search results'}>
         {/* Folders Section */}
         {folders.length > 0 && (
-          <div>
-            <Text size="xs" c="dimmed" tt="uppercase" fw={600} mb="xs">
+          <div role="group" aria-labelledby={`${sectionId}-folders`}>
+            <Text id={`${sectionId}-folders`} size="xs" c="dimmed" tt="uppercase" fw={600} mb="xs">
               文件夹
             </Text>
             <Stack gap="xs">
-              {folders.map((folder) => (
+              {folders.map((result, i) => (
                 <UnstyledButton
-                  key={folder.id}
-                  onClick={() => onPickFolder(folder.id)}
+                  key={result.node.id}
+                  {...getItemProps(i)}
+                  role="option"
+                  aria-selected={false}
+                  onClick={() => onPickFolder(result.node.id)}
                   style={{ width: '100%' }}
                 >
                   <Paper p="xs" withBorder>
                     <Group gap="xs" wrap="nowrap">
                       <Folder size={14} />
                       <Text size="sm" style={{ flex: 1 }}>
-                        {folder.label}
+                        <HighlightedMatch result={result} label={result.node.label} />
                       </Text>
                       <Text size="xs" c="dimmed">
-                        {buildPath(folder, index)}
+                        {buildPath(result.node, index)}
                       </Text>
                     </Group>
                   </Paper>
@@ -116,25 +155,28 @@ export function SearchResultsPanel({
 
         {/* Tags Section */}
         {tags.length > 0 && (
-          <div>
-            <Text size="xs" c="dimmed" tt="uppercase" fw={600} mb="xs">
+          <div role="group" aria-labelledby={`${sectionId}-tags`}>
+            <Text id={`${sectionId}-tags`} size="xs" c="dimmed" tt="uppercase" fw={600} mb="xs">
               标签
             </Text>
             <Stack gap="xs">
-              {tags.map((tag) => (
+              {tags.map((result, i) => (
                 <UnstyledButton
-                  key={tag.id}
-                  onClick={() => onPickTag(tag.id)}
+                  key={result.node.id}
+                  {...getItemProps(folders.length + i)}
+                  role="option"
+                  aria-selected={false}
+                  onClick={() => onPickTag(result.node.id)}
                   style={{ width: '100%' }}
                 >
                   <Paper p="xs" withBorder>
                     <Group gap="xs" wrap="nowrap">
                       <Tag size={14} />
                       <Text size="sm" style={{ flex: 1 }}>
-                        {getTagDisplayLabel(tag)}
+                        <HighlightedMatch result={result} label={getTagDisplayLabel(result.node)} />
                       </Text>
                       <Text size="xs" c="dimmed">
-                        {buildPath(tag, index)}
+                        {buildPath(result.node, index)}
                       </Text>
                     </Group>
                   </Paper>
@@ -1,29 +1,70 @@
-import { Button, Badge, ActionIcon, Group } from '@mantine/core';
+/**
+ * SelectionChips
+ *
+ * Selected tags as chips, in selection order.
+ * - Click a chip: weight / positive-negative bucket popover
+ * - X button: deselect
+ *
+ * Keyboard: the chips form a listbox with roving focus (see useRovingFocus).
+ * Arrow keys move between chips, Enter / Space opens the popover, and
+ * Delete / Backspace removes the focused chip (focus moves to the next one).
+ */
+
+import { Button, Badge, ActionIcon, Group, Popover, NumberInput, SegmentedControl, Stack, Text, Tooltip } from '@mantine/core';
 import { X } from 'lucide-react';
-import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import type { NodeId, TaxonomyIndex, TagProvenance } from '@tagselector/tag-core';
 import { getTagColorHex, getReadableTextColor } from '../../utils/tagColor';
 import { getTagDisplayLabel } from '../../utils/searchMatch';
+import { formatProvenance } from '../../utils/provenance';
 import { useSettingsStore } from '../../store';
+import { useRovingFocus } from '../../hooks/useRovingFocus';
+import type { PromptBucket, TagPromptOptions } from '../../store';
 import styles from './SelectionChips.module.css';
 
 interface SelectionChipsProps {
   index: TaxonomyIndex;
   selectedIds: Set<NodeId>;
+  tagOptions: Record<NodeId, TagPromptOptions>;
   onDeselect: (nodeId: NodeId) => void;
   onClear: () => void;
+  onSetWeight: (nodeId: NodeId, weight: number | undefined) => void;
+  onSetBucket: (nodeId: NodeId, bucket: PromptBucket) => void;
+  /** Why tags were auto-added by REQUIRES rules (shown as tooltip) */
+  requiredProvenance?: Map<NodeId, TagProvenance>;
 }
 
 export function SelectionChips({
   index,
   selectedIds,
+  tagOptions,
   onDeselect,
   onClear,
+  onSetWeight,
+  onSetBucket,
+  requiredProvenance,
 }: SelectionChipsProps) {
   const { uiLanguage } = useSettingsStore();
+  const i18n = {
+    weight: uiLanguage === 'zh' ? '权重' : 'Weight',
+    positive: uiLanguage === 'zh' ? '正向' : 'Positive',
+    negative: uiLanguage === 'zh' ? '负向' : 'Negative',
+    autoAdded: uiLanguage === 'zh' ? '由规则自动添加' : 'Auto-added by rule',
+    selected: uiLanguage === 'zh' ? '已选标签' : 'Selected tags',
+  };
   const selectedNodes = Array.from(selectedIds)
     .map((id) => index.byId.get(id))
     .filter(Boolean);
 
+  const { focusItemAfterRender, getItemProps } = useRovingFocus(selectedNodes.length);
+
+  const handleChipKeyDown = (e: React.KeyboardEvent, nodeId: NodeId, nodeIndex: number) => {
+    if (e.key !== 'Delete' && e.key !== 'Backspace') return;
+    e.preventDefault();
+    // The next chip takes the removed one's place
+    focusItemAfterRender(nodeIndex);
+    onDeselect(nodeId);
+  };
+
   if (selectedNodes.length === 0) {
     return (
       <div className={styles.empty}>
@@ -42,9 +83,12 @@ export function SelectionChips({
           清空
         </Button>
       </div>
-      <div className={styles.chips}>
-        {selectedNodes.map((node) => {
-          const hex = getTagColorHex(node!);
+      <div className={styles.chips} role="listbox" aria-label={i18n.selected} aria-orientation="horizontal">
+        {selectedNodes.map((node, nodeIndex) => {
+          const options = tagOptions[node!.id] ?? {};
+          const isNegative = options.bucket === 'negative';
+          // Negative tags are shown as red outline badges, ignoring tag color
+          const hex = isNegative ? undefined : getTagColorHex(node!);
           const textColor = hex ? getReadableTextColor(hex) : undefined;
           
           // Build style based on color
@@ -72,28 +116,77 @@ export function SelectionChips({
                 style: badgeStyle,
               }
             : {
-                color: 'blue',
-                style: badgeStyle,
+                color: isNegative ? 'red' : 'blue',
+                style: isNegative ? { ...badgeStyle, textDecoration: 'line-through' } : badgeStyle,
               };
 
           const displayLabel = getTagDisplayLabel(node!);
+          const weightSuffix = options.weight !== undefined ? `:${options.weight}` : '';
+          const provenance = requiredProvenance?.get(node!.id);
           
           return (
             <Group key={node!.id} gap={4} wrap="nowrap">
-              <Badge
-                size="lg"
-                variant="filled"
-                radius="xl"
-                className="tag-badge"
-                {...badgeProps}
-              >
-                {displayLabel}
-              </Badge>
+              <Popover position="top" withArrow shadow="md">
+                <Tooltip
+                  label={provenance ? `${i18n.autoAdded}: ${formatProvenance(provenance, index)}` : ''}
+                  disabled={!provenance}
+                  withArrow
+                  multiline
+                  maw={320}
+                >
+                  <Popover.Target>
+                    <Badge
+                      {...getItemProps(nodeIndex, (e) => handleChipKeyDown(e, node!.id, nodeIndex))}
+                      role="option"
+                      aria-selected
+                      size="lg"
+                      variant={isNegative ? 'outline' : 'filled'}
+                      radius="xl"
+                      className={`tag-badge ${styles.chip}`}
+                      {...badgeProps}
+                      component="button"
+                    >
+                      {provenance ? '⛓ ' : ''}{displayLabel}{weightSuffix}
+                    </Badge>
+                  </Popover.Target>
+                </Tooltip>
+                <Popover.Dropdown>
+                  <Stack gap="xs">
+                    {provenance && (
+                      <Text size="xs" c="dimmed" maw={240}>
+                        {i18n.autoAdded}: {formatProvenance(provenance, index)}
+                      </Text>
+                    )}
+                    <SegmentedControl
+                      size="xs"
+                      value={options.bucket ?? 'positive'}
+                      onChange={(value) => onSetBucket(node!.id, value as PromptBucket)}
+                      data={[
+                        { label: i18n.positive, value: 'positive' },
+                        { label: i18n.negative, value: 'negative' },
+                      ]}
+                    />
+                    <NumberInput
+                      size="xs"
+                      label={i18n.weight}
+                      value={options.weight ?? 1}
+                      onChange={(value) =>
+                        onSetWeight(node!.id, typeof value === 'number' ? value : undefined)
+                      }
+                      min={0.1}
+                      max={2}
+                      step={0.1}
+                      decimalScale={2}
+                    />
+                  </Stack>
+                </Popover.Dropdown>
+              </Popover>
               <ActionIcon
                 size="sm"
                 variant="subtle"
                 color="blue"
                 onClick={() => onDeselect(node!.id)}
+                tabIndex={-1}
                 aria-label={`Remove ${displayLabel}`}
               >
                 <X size={14} />
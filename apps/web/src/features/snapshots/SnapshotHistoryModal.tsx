@@ -0,0 +1,163 @@
+/**
+ * SnapshotHistoryModal
+ *
+ * Version history of the active project (see snapshotStore).
+ *
+ * Features:
+ * - Lists autosaved snapshots, newest first, with node count
+ * - Summarizes what changed between each snapshot and the current state
+ * - Restore (the current state is snapshotted first) / Delete
+ * - "Snapshot now" for a manual checkpoint
+ */
+
+import { Modal, Button, Group, Stack, Text, Paper, Badge, ScrollArea, ActionIcon } from '@mantine/core';
+import { notifications } from '@mantine/notifications';
+import { Trash2 } from 'lucide-react';
+import { diffTaxonomies, isEmptyDiff } from '@tagselector/tag-core';
+import type { TaxonomyDiff } from '@tagselector/tag-core';
+import { useTaxonomyStore, useRulesStore, useSettingsStore, useSnapshotStore, MAX_SNAPSHOTS } from '../../store';
+import type { UILanguage, ProjectSnapshot } from '../../store';
+
+interface SnapshotHistoryModalProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+const META_LABELS: Record<string, { zh: string; en: string }> = {
+  meta: { zh: '项目信息', en: 'project info' },
+  rules: { zh: '规则', en: 'rules' },
+  quickTrees: { zh: '快捷分类', en: 'quick sets' },
+  presets: { zh: '预设', en: 'presets' },
+  recommendations: { zh: '推荐', en: 'recommendations' },
+  ui: { zh: '界面设置', en: 'UI settings' },
+};
+
+/**
+ * One-line summary of the changes from a snapshot to the current state.
+ */
+function summarizeDiff(diff: TaxonomyDiff, lang: UILanguage): string {
+  const zh = lang === 'zh';
+  const parts: string[] = [];
+  if (diff.added.length > 0) parts.push(zh ? `新增 ${diff.added.length}` : `${diff.added.length} added`);
+  if (diff.removed.length > 0) parts.push(zh ? `删除 ${diff.removed.length}` : `${diff.removed.length} removed`);
+  if (diff.renamed.length > 0) parts.push(zh ? `重命名 ${diff.renamed.length}` : `${diff.renamed.length} renamed`);
+  if (diff.moved.length > 0) parts.push(zh ? `移动 ${diff.moved.length}` : `${diff.moved.length} moved`);
+  if (diff.modified.length > 0) parts.push(zh ? `修改 ${diff.modified.length}` : `${diff.modified.length} edited`);
+  if (diff.metaChanges.length > 0) {
+    const labels = diff.metaChanges.map((key) => META_LABELS[key]?.[lang] ?? key).join(zh ? '、' : ', ');
+    parts.push(zh ? `${labels}已更改` : `${labels} changed`);
+  }
+  return parts.join(zh ? '，' : ', ');
+}
+
+export function SnapshotHistoryModal({ opened, onClose }: SnapshotHistoryModalProps) {
+  const { uiLanguage } = useSettingsStore();
+  const { snapshots, takeSnapshot, restoreSnapshot, deleteSnapshot } = useSnapshotStore();
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  // savedRules is part of the project pack: re-render when it changes
+  useRulesStore((state) => state.savedRules);
+
+  const i18n = {
+    title: uiLanguage === 'zh' ? '版本历史' : 'Version history',
+    hint:
+      uiLanguage === 'zh'
+        ? `修改后会自动保存快照（最多保留 ${MAX_SNAPSHOTS} 个）。变更为“自该快照以来”的变化。`
+        : `Snapshots are saved automatically after changes (${MAX_SNAPSHOTS} kept). Changes are "since this snapshot".`,
+    snapshotNow: uiLanguage === 'zh' ? '立即保存快照' : 'Snapshot now',
+    restore: uiLanguage === 'zh' ? '恢复' : 'Restore',
+    empty: uiLanguage === 'zh' ? '暂无快照' : 'No snapshots yet',
+    nodes: uiLanguage === 'zh' ? '个节点' : ' nodes',
+    same: uiLanguage === 'zh' ? '与当前相同' : 'Same as current',
+    saved: uiLanguage === 'zh' ? '已保存快照' : 'Snapshot saved',
+    unchanged: uiLanguage === 'zh' ? '没有新的更改' : 'No changes since the last snapshot',
+    restored: uiLanguage === 'zh' ? '已恢复快照' : 'Snapshot restored',
+    confirmRestore:
+      uiLanguage === 'zh'
+        ? '恢复此快照？当前状态会先保存为新快照。'
+        : 'Restore this snapshot? The current state is saved as a snapshot first.',
+    confirmDelete: uiLanguage === 'zh' ? '确定删除该快照？' : 'Delete this snapshot?',
+  };
+
+  const current = opened && taxonomy ? useTaxonomyStore.getState().getProjectPack() : null;
+
+  const summaryOf = (snapshot: ProjectSnapshot): string | null => {
+    if (!current) return null;
+    const diff = diffTaxonomies(snapshot.taxonomy, current);
+    return isEmptyDiff(diff) ? i18n.same : summarizeDiff(diff, uiLanguage);
+  };
+
+  const handleSnapshotNow = async () => {
+    const added = await takeSnapshot();
+    notifications.show({ message: added ? i18n.saved : i18n.unchanged, color: added ? 'green' : 'gray', autoClose: 2000 });
+  };
+
+  const handleRestore = async (snapshotId: string) => {
+    if (!window.confirm(i18n.confirmRestore)) return;
+    if (await restoreSnapshot(snapshotId)) {
+      notifications.show({ message: i18n.restored, color: 'green', autoClose: 2000 });
+    }
+  };
+
+  const handleDelete = (snapshotId: string) => {
+    if (!window.confirm(i18n.confirmDelete)) return;
+    void deleteSnapshot(snapshotId);
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={i18n.title} size="lg">
+      <Stack gap="sm">
+        <Group justify="space-between" wrap="nowrap">
+          <Text size="xs" c="dimmed">
+            {i18n.hint}
+          </Text>
+          <Button size="xs" variant="light" onClick={() => void handleSnapshotNow()} disabled={!taxonomy}>
+            {i18n.snapshotNow}
+          </Button>
+        </Group>
+
+        <ScrollArea.Autosize mah={420}>
+          <Stack gap="xs">
+            {snapshots.length === 0 && (
+              <Text size="sm" c="dimmed" ta="center" fs="italic">
+                {i18n.empty}
+              </Text>
+            )}
+            {snapshots.map((snapshot) => (
+              <Paper key={snapshot.id} withBorder p="xs">
+                <Group justify="space-between" wrap="nowrap">
+                  <Stack gap={2} style={{ minWidth: 0 }}>
+                    <Group gap="xs" wrap="nowrap">
+                      <Text size="sm" fw={500}>
+                        {new Date(snapshot.createdAt).toLocaleString()}
+                      </Text>
+                      <Badge size="sm" variant="light">
+                        {snapshot.taxonomy.nodes.length}{i18n.nodes}
+                      </Badge>
+                    </Group>
+                    <Text size="xs" c="dimmed" truncate>
+                      {summaryOf(snapshot)}
+                    </Text>
+                  </Stack>
+                  <Group gap={4} wrap="nowrap">
+                    <Button size="compact-xs" onClick={() => void handleRestore(snapshot.id)}>
+                      {i18n.restore}
+                    </Button>
+                    <ActionIcon
+                      size="sm"
+                      variant="subtle"
+                      color="red"
+                      onClick={() => handleDelete(snapshot.id)}
+                      aria-label="Delete"
+                    >
+                      <Trash2 size={14} />
+                    </ActionIcon>
+                  </Group>
+                </Group>
+              </Paper>
+            ))}
+          </Stack>
+        </ScrollArea.Autosize>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1 @@
+export { SnapshotHistoryModal } from './SnapshotHistoryModal';
@@ -14,17 +14,36 @@
  * - 'collapsed': default, all folders start collapsed
  * - 'expanded': all folders start expanded
  * - 'auto': only autoOpenFolderIds are expanded (on user expanding parent)
+ *
+ * Keyboard (react-arborist handles arrows, Home / End and Space to expand):
+ * - Enter, or Space on a folder without subfolders: navigate to it
+ * - Backspace: navigate to the parent folder of the focused row
+ *
+ * ARIA: react-arborist renders role="tree" / "treeitem" with aria-level and
+ * aria-expanded; the tree selection follows currentFolderId, so
+ * aria-selected marks the current folder.
+ *
+ * Drag and drop (only when onMoveNode is provided, and not while filtering):
+ * - Drag folders within the tree to re-parent / reorder them
+ * - Drop items dragged from CurrentLevelView onto a row to move them into that folder
  */
 
-import { useMemo, useRef, useEffect, useCallback } from 'react';
+import { useMemo, useRef, useEffect, useCallback, useState } from 'react';
 import type { CSSProperties, Ref } from 'react';
 import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
 import { Tree, TreeApi } from 'react-arborist';
+import type { MoveHandler, NodeApi } from 'react-arborist';
 import { ChevronRight, ChevronDown, Folder } from 'lucide-react';
 import { useElementSize } from '@mantine/hooks';
-import { buildFolderTreeData, filterFolderTreeByQuery } from './folderTreeDataBuilder';
+import {
+  buildFolderTreeData,
+  filterFolderTreeByQuery,
+  folderDropIndexToPosition,
+} from './folderTreeDataBuilder';
 import type { FolderTreeItem } from './folderTreeDataBuilder';
 import type { FolderNavigatorConfig } from '../../types/project-pack';
+import { isNodeDrag, getDraggedNodeId } from '../../utils/nodeDrag';
+import { useSettingsStore } from '../../store';
 import styles from './TaxonomyTree.module.css';
 
 /**
@@ -37,6 +56,8 @@ interface NodeRenderProps<T> {
     data: T;
     isInternal: boolean;
     isOpen: boolean;
+    isDragging: boolean;
+    willReceiveDrop: boolean;
     toggle: () => void;
   };
   style: CSSProperties;
@@ -49,6 +70,8 @@ interface FolderNavigatorProps {
   onNavigateToFolder: (folderId: NodeId) => void;
   searchQuery?: string;
   folderNavigatorConfig?: FolderNavigatorConfig;
+  /** Enables drag-and-drop moves. Position counts all children (folders and tags). */
+  onMoveNode?: (nodeId: NodeId, newParentId: NodeId | null, position?: number) => void;
 }
 
 /**
@@ -66,13 +89,33 @@ function FolderNode({
   currentFolderId,
   onNavigateToFolder,
   onExpandToggle,
+  onDropNode,
 }: NodeRenderProps<FolderTreeItem> & {
   currentFolderId: NodeId | null;
   onNavigateToFolder: (id: NodeId) => void;
   onExpandToggle: (nodeId: string, willOpen: boolean) => void;
+  /** Native drop from CurrentLevelView: move the dragged node into this folder */
+  onDropNode?: (draggedId: NodeId, folderId: NodeId) => void;
 }) {
   // Highlight if this folder is the current folder
   const isCurrentFolder = currentFolderId === node.id;
+  const [isNativeDragOver, setIsNativeDragOver] = useState(false);
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!onDropNode || !isNodeDrag(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsNativeDragOver(true);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    setIsNativeDragOver(false);
+    if (!onDropNode) return;
+    const draggedId = getDraggedNodeId(e);
+    if (!draggedId) return;
+    e.preventDefault();
+    onDropNode(draggedId, node.id);
+  };
 
   /**
    * Single-click: immediately navigate to folder.
@@ -119,9 +162,17 @@ function FolderNode({
     <div
       ref={dragHandle}
       style={style}
-      className={`${styles.node} ${isCurrentFolder ? styles.selected : ''}`}
+      className={[
+        styles.node,
+        isCurrentFolder ? styles.selected : '',
+        node.isDragging ? styles.dragging : '',
+        node.willReceiveDrop || isNativeDragOver ? styles.dropTarget : '',
+      ].join(' ')}
       onClick={handleClick}
       onDoubleClick={handleDoubleClick}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsNativeDragOver(false)}
+      onDrop={handleDrop}
     >
       {/* Expand / Collapse */}
       <span className={styles.expandButton} onClick={handleExpandClick}>
@@ -145,8 +196,10 @@ export function FolderNavigator({
   onNavigateToFolder,
   searchQuery = '',
   folderNavigatorConfig,
+  onMoveNode,
 }: FolderNavigatorProps) {
   const treeRef = useRef<TreeApi<FolderTreeItem> | null>(null);
+  const { uiLanguage } = useSettingsStore();
   const { ref: containerRef, height } = useElementSize();
   const treeHeight = Math.max(200, height);
 
@@ -241,6 +294,63 @@ export function FolderNavigator({
     [mode, recursiveAutoOpen]
   );
 
+  /**
+   * Tree drag-and-drop: translate the folder-only drop index into a
+   * position among all children of the new parent.
+   */
+  const handleMove = useCallback<MoveHandler<FolderTreeItem>>(
+    ({ dragIds, parentId, index: dropIndex }) => {
+      if (!onMoveNode) return;
+      for (const dragId of dragIds) {
+        const position = folderDropIndexToPosition(index, parentId, dropIndex, dragId);
+        if (position === null) continue;
+        onMoveNode(dragId, parentId, position);
+      }
+    },
+    [index, onMoveNode]
+  );
+
+  // Keep the tree selection (aria-selected) on the current folder
+  useEffect(() => {
+    const tree = treeRef.current;
+    if (!tree) return;
+    if (currentFolderId !== null && tree.get(currentFolderId)) {
+      tree.select(currentFolderId, { focus: false });
+    } else {
+      tree.deselectAll();
+    }
+  }, [currentFolderId, treeKey]);
+
+  const handleActivate = useCallback(
+    (node: NodeApi<FolderTreeItem>) => onNavigateToFolder(node.id),
+    [onNavigateToFolder]
+  );
+
+  /** Enter / Backspace on the focused row (bubbled from the arborist container) */
+  const handleTreeKeyDown = (e: React.KeyboardEvent) => {
+    const tree = treeRef.current;
+    const node = tree?.focusedNode;
+    if (!tree || !node || tree.isEditing) return;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onNavigateToFolder(node.id);
+    } else if (e.key === 'Backspace' && node.parent && !node.parent.isRoot) {
+      e.preventDefault();
+      tree.focus(node.parent);
+      onNavigateToFolder(node.parent.id);
+    }
+  };
+
+  const handleDropNode = useCallback(
+    (draggedId: NodeId, folderId: NodeId) => {
+      onMoveNode?.(draggedId, folderId);
+    },
+    [onMoveNode]
+  );
+
+  // Tree indices don't match the taxonomy while filtered
+  const dragEnabled = !!onMoveNode && !searchQuery;
+
   if (validatedData.length === 0) {
     return (
       <div className={styles.empty}>
@@ -250,7 +360,13 @@ export function FolderNavigator({
   }
 
   return (
-    <div ref={containerRef} className={styles.tree}>
+    <div
+      ref={containerRef}
+      className={styles.tree}
+      role="navigation"
+      aria-label={uiLanguage === 'zh' ? '文件夹' : 'Folders'}
+      onKeyDown={handleTreeKeyDown}
+    >
       <Tree<FolderTreeItem>
         ref={treeRef}
         key={treeKey}
@@ -261,6 +377,11 @@ export function FolderNavigator({
         indent={24}
         rowHeight={40}
         paddingBottom={12}
+        disableDrag={!dragEnabled}
+        disableDrop={!dragEnabled}
+        disableMultiSelection
+        onMove={handleMove}
+        onActivate={handleActivate}
       >
         {(props) => (
           <FolderNode
@@ -268,6 +389,7 @@ export function FolderNavigator({
             currentFolderId={currentFolderId}
             onNavigateToFolder={onNavigateToFolder}
             onExpandToggle={handleExpandToggle}
+            onDropNode={onMoveNode ? handleDropNode : undefined}
           />
         )}
       </Tree>
@@ -97,3 +97,38 @@ export function filterFolderTreeByQuery(
   return filterRecursive(data);
 }
 
+
+/**
+ * Convert a react-arborist drop index into a moveNode position.
+ *
+ * The folder tree only shows folders, while moveNode positions count all
+ * children (folders and tags). `dropIndex` is the insertion index among the
+ * parent's folder children *before* the dragged node is removed.
+ *
+ * @returns Position among the parent's children (excluding the dragged node),
+ *   or null if the drop would not change anything
+ */
+export function folderDropIndexToPosition(
+  index: TaxonomyIndex,
+  parentId: NodeId | null,
+  dropIndex: number,
+  dragId: NodeId
+): number | null {
+  const childIds = index.childrenOf.get(parentId) || [];
+  const folderIds = childIds.filter((id) => index.byId.get(id)?.kind === 'folder');
+  const siblings = childIds.filter((id) => id !== dragId);
+
+  // Insert before the folder currently at dropIndex
+  const anchorId = folderIds[dropIndex];
+  if (anchorId === dragId) {
+    return null;
+  }
+  if (anchorId !== undefined) {
+    return siblings.indexOf(anchorId);
+  }
+
+  // Dropped after the last folder: insert right after it
+  const otherFolderIds = folderIds.filter((id) => id !== dragId);
+  const lastFolderId = otherFolderIds[otherFolderIds.length - 1];
+  return lastFolderId === undefined ? 0 : siblings.indexOf(lastFolderId) + 1;
+}
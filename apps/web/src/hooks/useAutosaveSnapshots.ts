@@ -0,0 +1,48 @@
+/**
+ * useAutosaveSnapshots Hook
+ *
+ * Takes a project snapshot (see snapshotStore) a few seconds after the
+ * taxonomy or saved rules last changed, and once after the project loads.
+ *
+ * A pending snapshot is dropped on unmount, so a state that crashes the page
+ * before the delay elapses never becomes the "last known-good" snapshot.
+ *
+ * Call once per page; the page is remounted when the project changes.
+ */
+
+import { useEffect } from 'react';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { useRulesStore } from '../store/rulesStore';
+import { useSnapshotStore } from '../store/snapshotStore';
+
+/** Quiet period after the last change before a snapshot is taken */
+export const AUTOSAVE_DELAY_MS = 5000;
+
+export function useAutosaveSnapshots() {
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const schedule = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        void useSnapshotStore.getState().takeSnapshot();
+      }, AUTOSAVE_DELAY_MS);
+    };
+
+    void useSnapshotStore.getState().loadSnapshots();
+    schedule();
+
+    const unsubscribeTaxonomy = useTaxonomyStore.subscribe((state, prev) => {
+      if (state.taxonomy !== prev.taxonomy) schedule();
+    });
+    const unsubscribeRules = useRulesStore.subscribe((state, prev) => {
+      if (state.savedRules !== prev.savedRules) schedule();
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribeTaxonomy();
+      unsubscribeRules();
+    };
+  }, []);
+}
@@ -5,14 +5,48 @@
  * 
  * Import: loads taxonomy + restores rules from meta.extensions.rules
  * Export: saves taxonomy + rules as project pack (meta.extensions.rules)
+ *
+ * Other extensions (quickTrees, recommendations, ui, presets) live in
+ * taxonomy.meta and round-trip with the taxonomy itself.
+ *
+ * CSV / TSV / outline files carry nodes only: importing one clears rules,
+ * exporting one drops all extensions.
+ *
+ * Import as new project: creates a workspace project named after the file,
+ * switches to it and imports there (the project is removed if import fails).
  */
 
 import { useRef } from 'react';
 import { notifications } from '@mantine/notifications';
-import { useTaxonomyStore } from '../store/taxonomyStore';
+import { exportTabular, exportOutline } from '@tagselector/tag-core';
+import {
+  useTaxonomyStore,
+  hasMigrationChanges,
+  type TaxonomyFileFormat,
+} from '../store/taxonomyStore';
 import { useRulesStore } from '../store/rulesStore';
+import { useWorkspaceStore } from '../store/workspaceStore';
 import { getExtensions } from '../utils/extensions';
 
+/** File input accept filter and download extension per format */
+const FORMAT_FILES: Record<TaxonomyFileFormat, { accept: string; extension: string; mime: string }> = {
+  json: { accept: '.json', extension: 'json', mime: 'application/json' },
+  csv: { accept: '.csv', extension: 'csv', mime: 'text/csv' },
+  tsv: { accept: '.tsv,.tab', extension: 'tsv', mime: 'text/tab-separated-values' },
+  outline: { accept: '.txt,.md', extension: 'txt', mime: 'text/plain' },
+};
+
+/**
+ * Guess the format from a file name (used when the input was not opened from the menu).
+ */
+function detectFormat(fileName: string): TaxonomyFileFormat {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.tsv') || lower.endsWith('.tab')) return 'tsv';
+  if (lower.endsWith('.txt') || lower.endsWith('.md')) return 'outline';
+  return 'json';
+}
+
 interface UseFileOperationsOptions {
   onImportSuccess: () => void;
 }
@@ -21,6 +55,29 @@ export function useFileOperations({
   onImportSuccess,
 }: UseFileOperationsOptions) {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importFormatRef = useRef<TaxonomyFileFormat | null>(null);
+
+  const asNewProjectRef = useRef(false);
+
+  /** Open the file picker for a specific format */
+  const openImport = (format: TaxonomyFileFormat) => {
+    const input = fileInputRef.current;
+    if (!input) return;
+    importFormatRef.current = format;
+    asNewProjectRef.current = false;
+    input.accept = FORMAT_FILES[format].accept;
+    input.click();
+  };
+
+  /** Open the file picker for any supported format, importing into a new project */
+  const openImportAsProject = () => {
+    const input = fileInputRef.current;
+    if (!input) return;
+    importFormatRef.current = null;
+    asNewProjectRef.current = true;
+    input.accept = Object.values(FORMAT_FILES).map((f) => f.accept).join(',');
+    input.click();
+  };
 
   const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -31,9 +88,26 @@ export function useFileOperations({
       fileInputRef.current.value = '';
     }
 
+    const workspace = useWorkspaceStore.getState();
+    const previousProjectId = workspace.activeProjectId;
+    let newProjectId: string | null = null;
+
+    /** Go back to the previous project and drop the one created for this import */
+    const discardNewProject = async () => {
+      if (!newProjectId) return;
+      if (previousProjectId) await useWorkspaceStore.getState().switchProject(previousProjectId);
+      await useWorkspaceStore.getState().deleteProject(newProjectId);
+    };
+
     try {
+      const format = importFormatRef.current ?? detectFormat(file.name);
+      importFormatRef.current = null;
       const text = await file.text();
-      const result = useTaxonomyStore.getState().loadTaxonomy(text);
+      if (asNewProjectRef.current) {
+        asNewProjectRef.current = false;
+        newProjectId = await workspace.createProject(file.name.replace(/\.[^.]+$/, '') || file.name);
+      }
+      const result = useTaxonomyStore.getState().loadTaxonomy(text, format);
 
       if (result.ok) {
         // Extract rules from imported taxonomy's extensions
@@ -48,13 +122,16 @@ export function useFileOperations({
         useRulesStore.getState().setSavedRules(rules, currentIndex);
 
         notifications.show({
-          message: '项目导入成功',
+          message: hasMigrationChanges(result.migration)
+            ? '项目导入成功（已升级旧版本数据）'
+            : '项目导入成功',
           color: 'green',
           autoClose: 3000,
         });
         // Clear selection after successful import
         onImportSuccess();
       } else {
+        await discardNewProject();
         notifications.show({
           message: `导入失败: ${result.error}`,
           color: 'red',
@@ -62,6 +139,7 @@ export function useFileOperations({
         });
       }
     } catch (err) {
+      await discardNewProject();
       notifications.show({
         message: err instanceof Error ? err.message : '导入失败',
         color: 'red',
@@ -70,9 +148,18 @@ export function useFileOperations({
     }
   };
 
-  const handleExport = () => {
-    const jsonString = useTaxonomyStore.getState().exportProjectPack();
-    if (!jsonString) {
+  const handleExport = (format: TaxonomyFileFormat = 'json') => {
+    const { taxonomy, exportProjectPack } = useTaxonomyStore.getState();
+    let content: string | null = null;
+    if (format === 'json') {
+      content = exportProjectPack();
+    } else if (taxonomy) {
+      content =
+        format === 'outline'
+          ? exportOutline(taxonomy)
+          : exportTabular(taxonomy, { delimiter: format === 'tsv' ? '\t' : ',' });
+    }
+    if (!content) {
       notifications.show({
         message: '没有可导出的项目数据',
         color: 'red',
@@ -82,12 +169,13 @@ export function useFileOperations({
     }
 
     try {
-      const blob = new Blob([jsonString], { type: 'application/json' });
+      const { extension, mime } = FORMAT_FILES[format];
+      const blob = new Blob([content], { type: mime });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
       a.href = url;
-      a.download = `project-${timestamp}.json`;
+      a.download = `project-${timestamp}.${extension}`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -106,6 +194,6 @@ export function useFileOperations({
     }
   };
 
-  return { handleImport, handleExport, fileInputRef };
+  return { handleImport, handleExport, openImport, openImportAsProject, fileInputRef };
 }
 
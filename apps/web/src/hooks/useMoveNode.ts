@@ -0,0 +1,50 @@
+/**
+ * useMoveNode Hook
+ *
+ * Wraps taxonomyStore.moveNode with user-facing error notifications.
+ * Shared by the drag-and-drop handlers in FolderNavigator, CurrentLevelView
+ * and CurrentFolderHeader.
+ */
+
+import { useCallback } from 'react';
+import { notifications } from '@mantine/notifications';
+import type { NodeId } from '@tagselector/tag-core';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { useSettingsStore } from '../store/settingsStore';
+
+/** Position that appends to the end of the new parent's children (clamped by moveNode) */
+export const MOVE_TO_END = Number.MAX_SAFE_INTEGER;
+
+export function useMoveNode() {
+  const { moveNode } = useTaxonomyStore();
+  const { uiLanguage } = useSettingsStore();
+
+  return useCallback(
+    (nodeId: NodeId, newParentId: NodeId | null, position: number = MOVE_TO_END) => {
+      const result = moveNode(nodeId, newParentId, position);
+      if (result.success) return true;
+
+      let errorMessage: string;
+      if (result.reason === 'circular_ref') {
+        errorMessage = uiLanguage === 'zh'
+          ? '无法移动：不能移动到自身或其子文件夹中'
+          : 'Cannot move: a folder cannot be moved into itself or its subfolder';
+      } else if (result.reason === 'invalid_parent') {
+        errorMessage = uiLanguage === 'zh'
+          ? '无法移动：只能移动到文件夹中'
+          : 'Cannot move: the target must be a folder';
+      } else {
+        errorMessage = uiLanguage === 'zh'
+          ? '移动失败：节点未找到'
+          : 'Move failed: Node not found';
+      }
+      notifications.show({
+        message: errorMessage,
+        color: 'red',
+        autoClose: 3000,
+      });
+      return false;
+    },
+    [moveNode, uiLanguage]
+  );
+}
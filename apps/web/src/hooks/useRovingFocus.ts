@@ -0,0 +1,75 @@
+/**
+ * useRovingFocus Hook
+ *
+ * Roving tabindex for a flat list of items (e.g. listbox options): only the
+ * active item is in the tab order, and arrow keys move focus between items.
+ * Shared by CurrentLevelView, SelectionChips and SearchResultsPanel.
+ *
+ * - ArrowRight / ArrowDown: next item, ArrowLeft / ArrowUp: previous item
+ *   (items laid out in wrapping grids read left to right)
+ * - Home / End: first / last item
+ * - An item's own onKeyDown runs first; calling preventDefault() in it
+ *   skips the navigation keys
+ * - Keys pressed on controls inside an item (e.g. edit buttons) are ignored
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+const NEXT_KEYS = new Set(['ArrowRight', 'ArrowDown']);
+const PREVIOUS_KEYS = new Set(['ArrowLeft', 'ArrowUp']);
+
+export function useRovingFocus(count: number) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const itemRefs = useRef<(HTMLElement | null)[]>([]);
+  const pendingFocusRef = useRef<number | null>(null);
+  // The active item may have been removed
+  const current = Math.min(activeIndex, Math.max(count - 1, 0));
+
+  /** Make an item active and move DOM focus to it (clamped to the list) */
+  const focusItem = useCallback(
+    (itemIndex: number) => {
+      if (count === 0) return;
+      const target = Math.min(Math.max(itemIndex, 0), count - 1);
+      setActiveIndex(target);
+      itemRefs.current[target]?.focus();
+    },
+    [count]
+  );
+
+  // Focus requested by focusItemAfterRender; the item's onFocus makes it active
+  useEffect(() => {
+    const pending = pendingFocusRef.current;
+    if (pending === null) return;
+    pendingFocusRef.current = null;
+    if (count > 0) itemRefs.current[Math.min(pending, count - 1)]?.focus();
+  });
+
+  /** Focus an item once the list has re-rendered, e.g. after removing the focused item */
+  const focusItemAfterRender = useCallback((itemIndex: number) => {
+    pendingFocusRef.current = itemIndex;
+  }, []);
+
+  /** Props for the item at itemIndex */
+  const getItemProps = (itemIndex: number, onKeyDown?: (e: React.KeyboardEvent<HTMLElement>) => void) => ({
+    ref: (element: HTMLElement | null) => {
+      itemRefs.current[itemIndex] = element;
+    },
+    tabIndex: itemIndex === current ? 0 : -1,
+    onFocus: () => setActiveIndex(itemIndex),
+    onKeyDown: (e: React.KeyboardEvent<HTMLElement>) => {
+      if (e.target !== e.currentTarget) return;
+      onKeyDown?.(e);
+      if (e.defaultPrevented) return;
+      let target: number | null = null;
+      if (NEXT_KEYS.has(e.key)) target = (itemIndex + 1) % count;
+      else if (PREVIOUS_KEYS.has(e.key)) target = (itemIndex - 1 + count) % count;
+      else if (e.key === 'Home') target = 0;
+      else if (e.key === 'End') target = count - 1;
+      if (target === null) return;
+      e.preventDefault();
+      focusItem(target);
+    },
+  });
+
+  return { activeIndex: current, focusItem, focusItemAfterRender, getItemProps };
+}
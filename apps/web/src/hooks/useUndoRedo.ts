@@ -0,0 +1,75 @@
+/**
+ * useUndoRedo Hook
+ *
+ * Wires the taxonomy edit history to keyboard shortcuts and notifications.
+ *
+ * Shortcuts (ignored while typing in inputs, so native text undo still works):
+ * - Ctrl/Cmd+Z: undo
+ * - Ctrl/Cmd+Shift+Z, Ctrl/Cmd+Y: redo
+ *
+ * Call once per page; the returned handlers can be passed to UndoRedoButtons.
+ */
+
+import { useCallback } from 'react';
+import { useHotkeys } from '@mantine/hooks';
+import { notifications } from '@mantine/notifications';
+import { useHistoryStore, type HistoryAction } from '../store/historyStore';
+import { undo, redo } from '../store/historyActions';
+import { useSettingsStore, type UILanguage } from '../store/settingsStore';
+
+const ACTION_LABELS: Record<HistoryAction, { zh: string; en: string }> = {
+  updateNodeLabel: { zh: '重命名', en: 'Rename' },
+  updateTagData: { zh: '编辑标签', en: 'Edit tag' },
+  setFolderSelectionPolicy: { zh: '设置选择规则', en: 'Folder selection policy' },
+  swapNodeOrder: { zh: '调整顺序', en: 'Reorder' },
+  moveNode: { zh: '移动', en: 'Move' },
+  deleteNode: { zh: '删除', en: 'Delete' },
+  createNode: { zh: '新建', en: 'Create' },
+  bulkUpdateNodes: { zh: '批量编辑', en: 'Bulk edit' },
+  moveNodes: { zh: '批量移动', en: 'Move nodes' },
+  deleteNodes: { zh: '批量删除', en: 'Delete nodes' },
+  updateExtensions: { zh: '编辑快捷分类', en: 'Edit quick sets' },
+  saveRules: { zh: '保存规则', en: 'Save rules' },
+};
+
+function getActionLabel(action: HistoryAction, lang: UILanguage): string {
+  return ACTION_LABELS[action][lang];
+}
+
+export function useUndoRedo() {
+  const { uiLanguage } = useSettingsStore();
+  const canUndo = useHistoryStore((state) => state.past.length > 0);
+  const canRedo = useHistoryStore((state) => state.future.length > 0);
+
+  const handleUndo = useCallback(() => {
+    const action = undo();
+    if (!action) return;
+    notifications.show({
+      message: uiLanguage === 'zh'
+        ? `已撤销：${getActionLabel(action, uiLanguage)}`
+        : `Undone: ${getActionLabel(action, uiLanguage)}`,
+      color: 'gray',
+      autoClose: 1500,
+    });
+  }, [uiLanguage]);
+
+  const handleRedo = useCallback(() => {
+    const action = redo();
+    if (!action) return;
+    notifications.show({
+      message: uiLanguage === 'zh'
+        ? `已重做：${getActionLabel(action, uiLanguage)}`
+        : `Redone: ${getActionLabel(action, uiLanguage)}`,
+      color: 'gray',
+      autoClose: 1500,
+    });
+  }, [uiLanguage]);
+
+  useHotkeys([
+    ['mod+Z', handleUndo],
+    ['mod+shift+Z', handleRedo],
+    ['mod+Y', handleRedo],
+  ]);
+
+  return { canUndo, canRedo, undo: handleUndo, redo: handleRedo };
+}
@@ -16,6 +16,8 @@
  * - Middle section has flex:1 + minHeight:0 + overflow:auto
  * - Bottom section has flexShrink:0 to stay visible
  * - ExportPreview output box scrolls internally if too long
+ *
+ * Project switcher slot: top of the left panel (Desktop) / Taxonomy tab (Mobile)
  */
 
 import type { ReactNode } from 'react';
@@ -46,6 +48,8 @@ interface AppShellLayoutProps {
   bottomModeSection?: ReactNode;
   /** Optional section rendered at bottom of left panel (Desktop only, after QuickSets) */
   leftBottomSection?: ReactNode;
+  /** Optional project switcher rendered above the search header (left panel / Taxonomy tab) */
+  projectSwitcherSection?: ReactNode;
 }
 
 export function AppShellLayout({
@@ -62,6 +66,7 @@ export function AppShellLayout({
   bottomAboveSelectionSection,
   bottomModeSection,
   leftBottomSection,
+  projectSwitcherSection,
 }: AppShellLayoutProps) {
   const { uiLanguage } = useSettingsStore();
   // Desktop 双栏布局
@@ -73,6 +78,12 @@ export function AppShellLayout({
             {/* 左栏：SearchBar + FolderNavigator + QuickSets */}
             <Panel defaultSize={35} minSize={20}>
               <Stack gap="md" style={{ height: '100%', padding: '16px', overflow: 'hidden' }}>
+                {/* Fixed top: Project switcher */}
+                {projectSwitcherSection && (
+                  <div style={{ flexShrink: 0 }}>
+                    {projectSwitcherSection}
+                  </div>
+                )}
                 {/* Fixed top: Search header */}
                 <Paper p="md" withBorder style={{ flexShrink: 0 }}>
                   <Stack gap="sm">
@@ -247,6 +258,7 @@ export function AppShellLayout({
             <Stack gap="md">
               {/* Error bar on mobile too */}
               {errorBarSection && errorBarSection}
+              {projectSwitcherSection && projectSwitcherSection}
               <Paper p="md" withBorder>
                 <Stack gap="sm">
                   <h2 style={{ margin: 0 }}>Taxonomy Tree</h2>
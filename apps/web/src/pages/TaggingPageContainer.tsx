@@ -4,8 +4,8 @@
  * Business container component that:
  * - Reads from zustand stores
  * - Manages search query state
- * - Manages currentFolderId and recentPickedTagIds states
- * - Extracts extensions (quickTrees, recommendationsConfig) from taxonomy
+ * - Manages currentFolderId state (recentPickedTagIds persist in useUsageStore)
+ * - Extracts extensions (quickTrees, recommendationsConfig, presets) from taxonomy
  * - Handles sample taxonomy loading
  * - Triggers cleanup on index change
  * - Uses file operations hook
@@ -23,12 +23,39 @@
  * Runtime Rule Enforcement:
  * - REQUIRES: Auto-add missing targets to selection when a trigger is selected
  * - EXCLUDES: Pass excluded tag IDs to CurrentLevelView to hide/disable them
+ * - Provenance: tooltips explain which rule (and chain) added or hid a tag
+ * - A selection breaking an enforced EXCLUDES rule (restore, import, preset)
+ *   opens ExclusionConflictModal to pick which side to keep
  * - When rules panel is open, enforcement is paused
+ *
+ * Folder Selection Policy:
+ * - Picking a tag in a single-choice / max-count folder replaces the oldest
+ *   pick there, together with the tags whose REQUIRES rules would re-add it
+ * - Unmet minimums (and overflow from auto-added tags) are warned about in
+ *   ExportPreview
+ *
+ * Batch Captioning:
+ * - Import > "Batch caption images..." opens a local image folder
+ * - The active image's tags live in the selection store; BatchPanel switches
+ *   images, bulk-applies tags and exports / imports caption files
+ *
+ * Projects:
+ * - ProjectSwitcher (left panel) switches / creates / duplicates / deletes
+ *   workspace projects; App remounts this container on switch
+ * - Import > "As new project..." imports a file into a fresh project
+ *
+ * Version History:
+ * - useAutosaveSnapshots snapshots the project after changes settle
+ * - "History" opens SnapshotHistoryModal to compare / restore snapshots
+ * - TabSyncIndicator shows when another tab changed this project
+ *
+ * Command Palette (Ctrl/Cmd+K):
+ * - Jump to folders, toggle tags, open QuickSet entries, run app commands
  */
 
 import { useEffect, useRef, useState, useCallback, useMemo, useLayoutEffect } from 'react';
-import { AppShell, Button, Group, Stack } from '@mantine/core';
-import { useMediaQuery } from '@mantine/hooks';
+import { AppShell, Button, Group, Menu, Stack } from '@mantine/core';
+import { useMediaQuery, useHotkeys } from '@mantine/hooks';
 import { notifications } from '@mantine/notifications';
 import type { NodeId, Taxonomy } from '@tagselector/tag-core';
 import { SCHEMA_VERSION } from '@tagselector/tag-core';
@@ -37,9 +64,19 @@ import {
   useSelectionStore,
   useRulesStore,
   useSettingsStore,
+  useUsageStore,
+  useBatchStore,
   computeRequiredTags,
   computeExcludedTags,
+  evaluateRules,
 } from '../store';
+import {
+  explainSelection,
+  findExclusionConflicts,
+  getRemovalSet,
+  getDisplacedByPolicy,
+  exportWildcardZip,
+} from '@tagselector/tag-core';
 import { FolderNavigator } from '../features/taxonomy-tree';
 import { ExportPreview } from '../features/export';
 import { SearchBar, SearchResultsPanel } from '../features/search';
@@ -47,12 +84,33 @@ import { SelectionChips } from '../features/selection';
 import { QuickSetsPanel, QuickSetBuilder, useQuickSetEditSession } from '../features/quick-sets';
 import { CurrentLevelView, CurrentFolderHeader, TagEditDrawer } from '../features/current-level';
 import { RecommendationsPanel } from '../features/recommendations';
-import { RulesPanel, RulesToggleButton } from '../features/rules';
+import { RulesPanel, RulesToggleButton, RuleViolations, ExclusionConflictModal } from '../features/rules';
+import { PresetsModal, PresetsButton } from '../features/presets';
+import { PasteSelectModal } from '../features/paste-select';
+import { GeneratorModal } from '../features/generator';
+import { BatchPanel, pickFiles, loadBatchFolder } from '../features/batch';
+import { MergeModal } from '../features/merge';
+import { ProjectSwitcher } from '../features/projects';
+import { SnapshotHistoryModal } from '../features/snapshots';
+import { CommandPalette, type PaletteCommand } from '../features/command-palette';
+import { formatSelectionOutput } from '../features/export';
 import { loadSampleTaxonomy } from '../data/loadSample';
 import { useFileOperations } from '../hooks/useFileOperations';
+import { useUndoRedo } from '../hooks/useUndoRedo';
+import { useAutosaveSnapshots } from '../hooks/useAutosaveSnapshots';
+import { useClipboard } from '../hooks/useClipboard';
+import { useMoveNode } from '../hooks/useMoveNode';
 import { AppShellLayout } from '../layout/AppShellLayout';
-import { ValidationErrorBar, LanguageToggle, CreateNodeButtons } from '../shared/components';
+import {
+  ValidationErrorBar,
+  LanguageToggle,
+  CreateNodeButtons,
+  UndoRedoButtons,
+  TabSyncIndicator,
+} from '../shared/components';
 import { getExtensions } from '../utils/extensions';
+import { downloadFile } from '../utils/download';
+import { exportLabelOf } from '../utils/exportLabel';
 import { devWarn as loggerDevWarn, error as loggerError } from '../utils/logger';
 
 export function TaggingPageContainer() {
@@ -65,8 +123,20 @@ export function TaggingPageContainer() {
     clearValidationErrors,
     createNode,
   } = useTaxonomyStore();
-  const { uiLanguage, isEditing } = useSettingsStore();
-  const { selectedIds, toggle, select, clear, cleanupInvalidSelection, addMany } = useSelectionStore();
+  const { uiLanguage, isEditing, exportLabelMode, exportFormatterId, toggleEditing, toggleLanguage } =
+    useSettingsStore();
+  const {
+    selectedIds,
+    tagOptions,
+    toggle,
+    select,
+    clear,
+    cleanupInvalidSelection,
+    addMany,
+    setSelection,
+    setTagWeight,
+    setTagBucket,
+  } = useSelectionStore();
   const { cleanupInvalidRules, handleTagClick, isPanelOpen, savedRules } = useRulesStore();
   const {
     isEditing: isQuickSetEditing,
@@ -78,8 +148,8 @@ export function TaggingPageContainer() {
 
   // Current folder navigation state
   const [currentFolderId, setCurrentFolderIdInternal] = useState<NodeId | null>(null);
-  // Recent picked tags for recommendations (most recent first)
-  const [recentPickedTagIds, setRecentPickedTagIds] = useState<NodeId[]>([]);
+  // Recent picked tags for recommendations (most recent first, persisted)
+  const { recentPickedTagIds, pushRecentPick } = useUsageStore();
   // Highlight tag ID (for search result click feedback)
   const [highlightTagId, setHighlightTagId] = useState<NodeId | null>(null);
   // Control rename modal for newly created folder
@@ -189,10 +259,11 @@ export function TaggingPageContainer() {
   }, [index, currentFolderId, buildUrl]);
 
   // Extract extensions from taxonomy (centralized access)
-  const { quickTrees, recommendationsConfig, historySize, folderNavigatorConfig } = useMemo(() => {
+  const { quickTrees, recommendationsConfig, historySize, folderNavigatorConfig, presets } = useMemo(() => {
     if (!taxonomy) {
       return {
         quickTrees: [],
+        presets: [],
         recommendationsConfig: { version: 1 as const, map: {} },
         historySize: 3,
         folderNavigatorConfig: { version: 1 as const, mode: 'collapsed' as const, autoOpenFolderIds: [] },
@@ -209,13 +280,69 @@ export function TaggingPageContainer() {
       recommendationsConfig: ext.recommendations,
       historySize: ext.recommendations.historySize ?? 3,
       folderNavigatorConfig: fnConfig,
+      presets: ext.presets.presets,
     };
   }, [taxonomy]);
 
-  const { handleImport, handleExport, fileInputRef } = useFileOperations({
+  const [presetsOpened, setPresetsOpened] = useState(false);
+  const [mergeOpened, setMergeOpened] = useState(false);
+  const [pasteOpened, setPasteOpened] = useState(false);
+  const [generatorOpened, setGeneratorOpened] = useState(false);
+
+  const isBatchOpen = useBatchStore((state) => state.isOpen);
+  const openBatch = useBatchStore((state) => state.openBatch);
+
+  const handleOpenBatch = useCallback(async () => {
+    if (!index) return;
+    const files = await pickFiles({ directory: true });
+    if (files.length === 0) return;
+    const { images, captions } = await loadBatchFolder(index, files);
+    if (images.length === 0) {
+      notifications.show({
+        message: uiLanguage === 'zh' ? '文件夹中没有图片' : 'No images in this folder',
+        color: 'yellow',
+        autoClose: 3000,
+      });
+      return;
+    }
+    openBatch(images, captions.selections);
+    notifications.show({
+      message:
+        uiLanguage === 'zh'
+          ? `已打开 ${images.length} 张图片（${captions.matchedFiles} 个已有标注）`
+          : `Opened ${images.length} images (${captions.matchedFiles} with captions)`,
+      color: 'green',
+      autoClose: 3000,
+    });
+  }, [index, openBatch, uiLanguage]);
+
+  // Folders as A1111 / ComfyUI wildcard files (__folder/sub__)
+  const handleExportWildcards = useCallback(() => {
+    if (!index) return;
+    const zip = exportWildcardZip(index, { labelOf: exportLabelOf(exportLabelMode) });
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+    downloadFile(zip, `wildcards-${timestamp}.zip`, 'application/zip');
+  }, [index, exportLabelMode]);
+
+  const { handleImport, handleExport, openImport, openImportAsProject, fileInputRef } = useFileOperations({
     onImportSuccess: clear,
   });
 
+  // Undo/redo for taxonomy edits (Ctrl+Z / Ctrl+Shift+Z)
+  const { canUndo, canRedo, undo, redo } = useUndoRedo();
+
+  // Rolling project snapshots for version history / crash recovery
+  useAutosaveSnapshots();
+  const [historyOpened, setHistoryOpened] = useState(false);
+
+  // Command palette (Ctrl/Cmd+K, also while typing in an input)
+  const [paletteOpened, setPaletteOpened] = useState(false);
+  useHotkeys([['mod+K', () => setPaletteOpened(true)]], []);
+  const { copy } = useClipboard();
+
+  // Drag-and-drop moves (FolderNavigator only enables dragging in editing mode)
+  const moveNode = useMoveNode();
+
   // Handle New Tree button
   const handleNewTree = useCallback(() => {
     const confirmMessage = uiLanguage === 'zh' 
@@ -291,7 +418,8 @@ export function TaggingPageContainer() {
     }
   }, [highlightTagId]);
 
-  // Reset navigation and history when taxonomy is fully replaced (import/clear), not on updates
+  // Reset navigation when taxonomy is fully replaced (import/clear), not on updates.
+  // Recent picks are kept: they persist across reloads and unknown IDs are ignored.
   useEffect(() => {
     const prevTaxonomy = prevTaxonomyRef.current;
     
@@ -308,7 +436,6 @@ export function TaggingPageContainer() {
     if (shouldReset) {
       prevFolderIdRef.current = null;
       setCurrentFolderIdInternal(null);
-      setRecentPickedTagIds([]);
       // Reset URL to root
       const url = buildUrl(null);
       history.replaceState({ folderId: null }, '', url);
@@ -334,6 +461,29 @@ export function TaggingPageContainer() {
     return computeExcludedTags(selectedIds, savedRules);
   }, [isPanelOpen, selectedIds, savedRules]);
 
+  /**
+   * Rules the selection does not satisfy (unmet "any/at least one of", warn-only rules).
+   * Not reported while editing rules.
+   */
+  const ruleViolations = useMemo(() => {
+    if (isPanelOpen) return [];
+    return evaluateRules(selectedIds, savedRules);
+  }, [isPanelOpen, selectedIds, savedRules]);
+
+  /**
+   * Why tags are auto-added / hidden (tooltips, export preview), and
+   * enforced exclusions the selection breaks (resolution dialog).
+   * Not computed while editing rules.
+   */
+  const provenance = useMemo(() => {
+    if (isPanelOpen) return undefined;
+    return explainSelection(selectedIds, savedRules);
+  }, [isPanelOpen, selectedIds, savedRules]);
+  const exclusionConflicts = useMemo(() => {
+    if (isPanelOpen) return [];
+    return findExclusionConflicts(selectedIds, savedRules);
+  }, [isPanelOpen, selectedIds, savedRules]);
+
   /**
    * Auto-add required tags when selection changes.
    * Only runs when rules panel is closed.
@@ -368,7 +518,7 @@ export function TaggingPageContainer() {
    * 1. Editing mode (isEditing): open tag edit drawer
    * 2. QuickSet editing mode: add tag to current QuickSet folder
    * 3. Rules panel open: let rules handle it
-   * 4. Normal mode: toggle selection
+   * 4. Normal mode: toggle selection (applying folder selection policies)
    */
   const handleToggleTag = useCallback((tagId: NodeId) => {
     // Editing mode: open tag edit drawer (don't toggle selection)
@@ -412,20 +562,34 @@ export function TaggingPageContainer() {
 
     // Normal selection toggle (rules panel is closed)
     const wasSelected = selectedIds.has(tagId);
-    toggle(tagId);
+    const displaced = wasSelected || !index ? [] : getDisplacedByPolicy(selectedIds, tagId, index);
+    if (displaced.length > 0) {
+      // Folder policy: replace the displaced picks (and what would re-add them)
+      const removal = getRemovalSet(displaced, selectedIds, savedRules);
+      removal.delete(tagId);
+      setSelection([...Array.from(selectedIds).filter((id) => !removal.has(id)), tagId]);
+    } else {
+      toggle(tagId);
+    }
     
     // Update recentPickedTagIds only when selecting (not deselecting)
     if (!wasSelected) {
-      setRecentPickedTagIds((prev) => {
-        // Remove if already exists (dedupe)
-        const filtered = prev.filter((id) => id !== tagId);
-        // Add to front (most recent first)
-        const updated = [tagId, ...filtered];
-        // Trim to historySize
-        return updated.slice(0, historySize);
-      });
+      pushRecentPick(tagId, historySize);
     }
-  }, [isEditing, isQuickSetEditing, addTagToCurrentFolder, isPanelOpen, selectedIds, toggle, handleTagClick, historySize]);
+  }, [
+    isEditing,
+    isQuickSetEditing,
+    addTagToCurrentFolder,
+    isPanelOpen,
+    selectedIds,
+    index,
+    savedRules,
+    toggle,
+    setSelection,
+    handleTagClick,
+    pushRecentPick,
+    historySize,
+  ]);
 
   /**
    * Handle folder navigation (from left tree or right panel folder clicks).
@@ -485,6 +649,109 @@ export function TaggingPageContainer() {
     );
   }
 
+  // Copying the output counts as exporting the selection (as in ExportPreview)
+  const handleCopyOutput = async () => {
+    const { outputText } = formatSelectionOutput(index, selectedIds, tagOptions, exportFormatterId, exportLabelMode);
+    const res = await copy(outputText);
+    if (res.ok) useUsageStore.getState().logSelection(Array.from(selectedIds));
+    notifications.show({
+      message: res.ok
+        ? (uiLanguage === 'zh' ? '已复制' : 'Copied')
+        : `${uiLanguage === 'zh' ? '复制失败' : 'Copy failed'}: ${res.error ?? 'Unknown error'}`,
+      color: res.ok ? 'green' : 'red',
+      autoClose: 2000,
+    });
+  };
+
+  // App commands for the command palette (keywords: the other UI language)
+  const zh = uiLanguage === 'zh';
+  const paletteCommands: PaletteCommand[] = [
+    {
+      id: 'copy-output',
+      label: zh ? '复制输出' : 'Copy output',
+      keywords: zh ? 'copy output' : '复制输出',
+      disabled: selectedIds.size === 0,
+      run: () => void handleCopyOutput(),
+    },
+    {
+      id: 'export-json',
+      label: zh ? '导出项目包 (JSON)' : 'Export project pack (JSON)',
+      keywords: zh ? 'export project pack json' : '导出 项目包',
+      run: () => handleExport('json'),
+    },
+    {
+      id: 'export-wildcards',
+      label: zh ? '导出通配符文件 (.zip)' : 'Export wildcards (.zip)',
+      keywords: zh ? 'export wildcards' : '导出 通配符',
+      run: handleExportWildcards,
+    },
+    {
+      id: 'toggle-editing',
+      label: isEditing ? (zh ? '退出编辑模式' : 'Exit editing mode') : (zh ? '进入编辑模式' : 'Enter editing mode'),
+      keywords: zh ? 'toggle editing mode' : '编辑模式',
+      run: toggleEditing,
+    },
+    {
+      id: 'open-rules',
+      label: zh ? '打开规则面板' : 'Open rules panel',
+      keywords: zh ? 'open rules panel' : '规则',
+      disabled: isPanelOpen,
+      run: () => useRulesStore.getState().openPanel(),
+    },
+    {
+      id: 'toggle-language',
+      label: zh ? 'Switch to English' : '切换到中文',
+      keywords: 'language 语言',
+      run: toggleLanguage,
+    },
+    {
+      id: 'go-root',
+      label: zh ? '返回根目录' : 'Go to root',
+      keywords: zh ? 'root' : '根目录',
+      run: () => handleNavigateToFolder(null),
+    },
+    {
+      id: 'presets',
+      label: zh ? '打开预设' : 'Open presets',
+      keywords: zh ? 'presets' : '预设',
+      run: () => setPresetsOpened(true),
+    },
+    {
+      id: 'paste-select',
+      label: zh ? '粘贴选择' : 'Paste to select',
+      keywords: zh ? 'paste' : '粘贴',
+      run: () => setPasteOpened(true),
+    },
+    {
+      id: 'generate',
+      label: zh ? '生成选择' : 'Generate selections',
+      keywords: zh ? 'generate' : '生成',
+      run: () => setGeneratorOpened(true),
+    },
+    {
+      id: 'history',
+      label: zh ? '版本历史' : 'Version history',
+      keywords: zh ? 'history snapshots' : '历史 快照',
+      run: () => setHistoryOpened(true),
+    },
+    {
+      id: 'undo',
+      label: zh ? '撤销' : 'Undo',
+      keywords: 'undo 撤销',
+      shortcut: 'Ctrl+Z',
+      disabled: !canUndo,
+      run: undo,
+    },
+    {
+      id: 'redo',
+      label: zh ? '重做' : 'Redo',
+      keywords: 'redo 重做',
+      shortcut: 'Ctrl+Shift+Z',
+      disabled: !canRedo,
+      run: redo,
+    },
+  ];
+
   // Handle create folder
   const handleCreateFolder = useCallback(() => {
     if (!index) return;
@@ -538,6 +805,7 @@ export function TaggingPageContainer() {
     <AppShellLayout
       isDesktop={!!isDesktop}
       leftBottomSection={leftBottomControlsSection}
+      projectSwitcherSection={<ProjectSwitcher />}
       errorBarSection={
         validationErrors.length > 0 ? (
           <ValidationErrorBar
@@ -591,12 +859,12 @@ export function TaggingPageContainer() {
           onNavigateToFolder={handleNavigateToFolder}
           searchQuery={searchQuery}
           folderNavigatorConfig={folderNavigatorConfig}
+          onMoveNode={isEditing ? moveNode : undefined}
         />
       }
       quickSetsSection={
         <QuickSetsPanel
           quickTrees={quickTrees}
-          taxonomy={taxonomy}
           index={index}
           currentFolderId={currentFolderId}
           selectedIds={selectedIds}
@@ -618,14 +886,64 @@ export function TaggingPageContainer() {
               <Button size="sm" onClick={handleNewTree}>
                 {uiLanguage === 'zh' ? '新建' : 'New Tree'}
               </Button>
-              <Button size="sm" onClick={() => fileInputRef.current?.click()}>
-                {uiLanguage === 'zh' ? '导入' : 'Import'}
-              </Button>
-              <Button size="sm" onClick={handleExport}>
-                {uiLanguage === 'zh' ? '导出' : 'Export'}
-              </Button>
+              <Menu position="bottom-start" shadow="md">
+                <Menu.Target>
+                  <Button size="sm">{uiLanguage === 'zh' ? '导入' : 'Import'}</Button>
+                </Menu.Target>
+                <Menu.Dropdown>
+                  <Menu.Item onClick={() => openImport('json')}>
+                    {uiLanguage === 'zh' ? '项目包 (JSON)' : 'Project pack (JSON)'}
+                  </Menu.Item>
+                  <Menu.Item onClick={() => openImport('csv')}>CSV</Menu.Item>
+                  <Menu.Item onClick={() => openImport('tsv')}>TSV</Menu.Item>
+                  <Menu.Item onClick={() => openImport('outline')}>
+                    {uiLanguage === 'zh' ? '缩进大纲 (.txt)' : 'Indented outline (.txt)'}
+                  </Menu.Item>
+                  <Menu.Item onClick={openImportAsProject}>
+                    {uiLanguage === 'zh' ? '作为新项目导入...' : 'As new project...'}
+                  </Menu.Item>
+                  <Menu.Divider />
+                  <Menu.Item onClick={() => setMergeOpened(true)} disabled={!taxonomy}>
+                    {uiLanguage === 'zh' ? '合并项目...' : 'Merge project...'}
+                  </Menu.Item>
+                  <Menu.Item onClick={handleOpenBatch} disabled={!index}>
+                    {uiLanguage === 'zh' ? '批量标注图片...' : 'Batch caption images...'}
+                  </Menu.Item>
+                </Menu.Dropdown>
+              </Menu>
+              <Menu position="bottom-start" shadow="md">
+                <Menu.Target>
+                  <Button size="sm">{uiLanguage === 'zh' ? '导出' : 'Export'}</Button>
+                </Menu.Target>
+                <Menu.Dropdown>
+                  <Menu.Item onClick={() => handleExport('json')}>
+                    {uiLanguage === 'zh' ? '项目包 (JSON)' : 'Project pack (JSON)'}
+                  </Menu.Item>
+                  <Menu.Item onClick={() => handleExport('csv')}>CSV</Menu.Item>
+                  <Menu.Item onClick={() => handleExport('tsv')}>TSV</Menu.Item>
+                  <Menu.Item onClick={() => handleExport('outline')}>
+                    {uiLanguage === 'zh' ? '缩进大纲 (.txt)' : 'Indented outline (.txt)'}
+                  </Menu.Item>
+                  <Menu.Divider />
+                  <Menu.Item onClick={handleExportWildcards} disabled={!index}>
+                    {uiLanguage === 'zh' ? '通配符文件 (.zip)' : 'Wildcards (.zip)'}
+                  </Menu.Item>
+                </Menu.Dropdown>
+              </Menu>
             </Group>
             <Group gap="sm">
+              <TabSyncIndicator />
+              <UndoRedoButtons canUndo={canUndo} canRedo={canRedo} onUndo={undo} onRedo={redo} />
+              <Button size="compact-xs" variant="light" onClick={() => setHistoryOpened(true)}>
+                {uiLanguage === 'zh' ? '历史' : 'History'}
+              </Button>
+              <Button size="compact-xs" variant="light" onClick={() => setPasteOpened(true)}>
+                {uiLanguage === 'zh' ? '粘贴选择' : 'Paste to select'}
+              </Button>
+              <Button size="compact-xs" variant="light" onClick={() => setGeneratorOpened(true)}>
+                {uiLanguage === 'zh' ? '生成' : 'Generate'}
+              </Button>
+              <PresetsButton presetCount={presets.length} onClick={() => setPresetsOpened(true)} />
               <RulesToggleButton />
               <LanguageToggle />
             </Group>
@@ -668,10 +986,16 @@ export function TaggingPageContainer() {
                 currentFolderId={currentFolderId}
                 selectedIds={selectedIds}
                 excludedTagIds={excludedTagIds}
+                excludedProvenance={provenance?.excluded}
                 highlightTagId={highlightTagId}
                 isEditing={isEditing}
                 onEnterFolder={handleNavigateToFolder}
                 onToggleTag={handleToggleTag}
+                onGoToParent={() =>
+                  handleNavigateToFolder(
+                    currentFolderId ? index.byId.get(currentFolderId)?.parentId ?? null : null
+                  )
+                }
               />
             </div>
           </div>
@@ -680,27 +1004,44 @@ export function TaggingPageContainer() {
         </div>
       }
       bottomAboveSelectionSection={
-        <RecommendationsPanel
-          index={index}
-          currentFolderId={currentFolderId}
-          recentPickedTagIds={recentPickedTagIds}
-          recommendationsConfig={recommendationsConfig}
-          selectedIds={selectedIds}
-          onToggleTag={handleToggleTag}
-        />
+        <Stack gap="xs">
+          {isBatchOpen && <BatchPanel index={index} selectedIds={selectedIds} />}
+          <RecommendationsPanel
+            index={index}
+            currentFolderId={currentFolderId}
+            recentPickedTagIds={recentPickedTagIds}
+            recommendationsConfig={recommendationsConfig}
+            selectedIds={selectedIds}
+            onToggleTag={handleToggleTag}
+          />
+        </Stack>
       }
       selectionSection={
-        <SelectionChips
-          index={index}
-          selectedIds={selectedIds}
-          onDeselect={toggle}
-          onClear={clear}
-        />
+        <Stack gap="xs">
+          <RuleViolations
+            violations={ruleViolations}
+            index={index}
+            selectedIds={selectedIds}
+            onToggleTag={handleToggleTag}
+          />
+          <SelectionChips
+            index={index}
+            selectedIds={selectedIds}
+            tagOptions={tagOptions}
+            onDeselect={toggle}
+            onClear={clear}
+            onSetWeight={setTagWeight}
+            onSetBucket={setTagBucket}
+            requiredProvenance={provenance?.required}
+          />
+        </Stack>
       }
       exportPreviewSection={
         <ExportPreview
           index={index}
           selectedIds={selectedIds}
+          tagOptions={tagOptions}
+          provenance={provenance}
         />
       }
       bottomModeSection={
@@ -718,6 +1059,50 @@ export function TaggingPageContainer() {
         ) : undefined
       }
     />
+    {/* Selection Presets */}
+    <PresetsModal
+      opened={presetsOpened}
+      onClose={() => setPresetsOpened(false)}
+      presets={presets}
+      index={index}
+      selectedIds={selectedIds}
+      tagOptions={tagOptions}
+    />
+    <PasteSelectModal
+      opened={pasteOpened}
+      onClose={() => setPasteOpened(false)}
+      index={index}
+      currentFolderId={currentFolderId}
+    />
+    <GeneratorModal
+      opened={generatorOpened}
+      onClose={() => setGeneratorOpened(false)}
+      index={index}
+      currentFolderId={currentFolderId}
+    />
+    <SnapshotHistoryModal opened={historyOpened} onClose={() => setHistoryOpened(false)} />
+    <CommandPalette
+      opened={paletteOpened}
+      onClose={() => setPaletteOpened(false)}
+      index={index}
+      quickTrees={quickTrees}
+      selectedIds={selectedIds}
+      commands={paletteCommands}
+      onNavigateToFolder={handleNavigateToFolder}
+      onToggleTag={handleToggleTag}
+    />
+    {/* Selection breaking EXCLUDES rules */}
+    <ExclusionConflictModal
+      conflicts={exclusionConflicts}
+      index={index}
+      selectedIds={selectedIds}
+      savedRules={savedRules}
+      onResolve={(removeIds) =>
+        setSelection(Array.from(selectedIds).filter((id) => !removeIds.includes(id)))
+      }
+    />
+    {/* Three-way merge */}
+    <MergeModal opened={mergeOpened} onClose={() => setMergeOpened(false)} />
     {/* Tag Edit Drawer */}
     <TagEditDrawer
       opened={editTagId !== null}
@@ -1,5 +1,7 @@
 import React from 'react';
 import { error as loggerError } from '../../utils/logger';
+import { PROJECT_STORE_NAMES, projectStorage } from '../../store/projectStorage';
+import { useSnapshotStore } from '../../store/snapshotStore';
 
 type Props = {
   children: React.ReactNode;
@@ -8,6 +10,8 @@ type Props = {
 type State = {
   hasError: boolean;
   error?: Error;
+  /** No snapshot to restore (or restoring failed) */
+  restoreFailed?: boolean;
 };
 
 export class ErrorBoundary extends React.Component<Props, State> {
@@ -26,11 +30,26 @@ export class ErrorBoundary extends React.Component<Props, State> {
     window.location.reload();
   };
 
-  private handleClearCacheAndReload = () => {
+  // 恢复最近一个与当前状态不同的快照（不保存崩溃状态；再次恢复会继续往前找），然后重新渲染
+  private handleRestoreSnapshot = async () => {
     try {
-      localStorage.removeItem('tagselector-taxonomy');
-      localStorage.removeItem('tagselector-selection');
-      localStorage.removeItem('tagselector-rules');
+      const restored = await useSnapshotStore.getState().restoreLastGood();
+      if (restored) {
+        this.setState({ hasError: false, error: undefined, restoreFailed: false });
+      } else {
+        this.setState({ restoreFailed: true });
+      }
+    } catch (err) {
+      loggerError('[TagSelector] Failed to restore snapshot:', err);
+      this.setState({ restoreFailed: true });
+    }
+  };
+
+  private handleClearCacheAndReload = async () => {
+    try {
+      // 清除当前项目的数据（以及迁移前的旧 localStorage 数据）
+      PROJECT_STORE_NAMES.forEach((name) => localStorage.removeItem(name));
+      await Promise.all(PROJECT_STORE_NAMES.map((name) => projectStorage.removeItem(name)));
     } finally {
       window.location.reload();
     }
@@ -46,13 +65,16 @@ export class ErrorBoundary extends React.Component<Props, State> {
       <div style={{ padding: 24, maxWidth: 960, margin: '0 auto' }}>
         <h2 style={{ margin: '0 0 8px' }}>应用发生错误</h2>
         <p style={{ margin: '0 0 16px', opacity: 0.8 }}>
-          页面渲染时出现异常。你可以刷新，或清除本地缓存后重新进入。
+          页面渲染时出现异常。你可以刷新、恢复最近的自动快照，或清除本地缓存后重新进入。
         </p>
 
         <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', marginBottom: 16 }}>
           <button onClick={this.handleReload} style={{ padding: '8px 12px', cursor: 'pointer' }}>
             刷新页面
           </button>
+          <button onClick={this.handleRestoreSnapshot} style={{ padding: '8px 12px', cursor: 'pointer' }}>
+            恢复最近的快照
+          </button>
           <button
             onClick={this.handleClearCacheAndReload}
             style={{ padding: '8px 12px', cursor: 'pointer' }}
@@ -61,6 +83,10 @@ export class ErrorBoundary extends React.Component<Props, State> {
           </button>
         </div>
 
+        {this.state.restoreFailed && (
+          <p style={{ margin: '0 0 16px', color: '#c92a2a' }}>没有可恢复的快照。</p>
+        )}
+
         {isDev && (
           <pre style={{ whiteSpace: 'pre-wrap', opacity: 0.9 }}>
             {message}
@@ -0,0 +1,56 @@
+/**
+ * TabSyncIndicator
+ *
+ * Badge shown after another tab changed the current project (see
+ * tabSyncStore). Orange when this tab's concurrent edit was replaced;
+ * the replaced version is in version history. Click to dismiss.
+ */
+
+import { Badge, CloseButton, Tooltip } from '@mantine/core';
+import { RefreshCw } from 'lucide-react';
+import { useSettingsStore, useTabSyncStore } from '../../store';
+
+const STORE_LABELS: Record<string, { zh: string; en: string }> = {
+  'tagselector-taxonomy': { zh: '分类', en: 'taxonomy' },
+  'tagselector-rules': { zh: '规则', en: 'rules' },
+  'tagselector-selection': { zh: '选择', en: 'selection' },
+};
+
+export function TabSyncIndicator() {
+  const { uiLanguage } = useSettingsStore();
+  const { remoteUpdate, dismissRemoteUpdate } = useTabSyncStore();
+
+  if (!remoteUpdate) return null;
+
+  const stores = remoteUpdate.stores
+    .map((name) => STORE_LABELS[name]?.[uiLanguage] ?? name)
+    .join(uiLanguage === 'zh' ? '、' : ', ');
+  const time = new Date(remoteUpdate.at).toLocaleTimeString();
+  const tooltip = remoteUpdate.conflict
+    ? uiLanguage === 'zh'
+      ? `两个标签页同时编辑，已采用最后保存的版本（${time}）。本页的版本已存入版本历史。`
+      : `Edited in two tabs at once; the last save was kept (${time}). This tab's version is in version history.`
+    : uiLanguage === 'zh'
+      ? `${stores}已在其他标签页更新（${time}）`
+      : `${stores} updated in another tab (${time})`;
+
+  return (
+    <Tooltip label={tooltip} multiline w={280}>
+      <Badge
+        variant="light"
+        color={remoteUpdate.conflict ? 'orange' : 'blue'}
+        leftSection={<RefreshCw size={12} />}
+        rightSection={
+          <CloseButton
+            size="xs"
+            variant="transparent"
+            onClick={dismissRemoteUpdate}
+            aria-label={uiLanguage === 'zh' ? '关闭' : 'Dismiss'}
+          />
+        }
+      >
+        {uiLanguage === 'zh' ? '已在其他标签页更新' : 'Updated in another tab'}
+      </Badge>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,48 @@
+/**
+ * UndoRedoButtons
+ *
+ * Undo/redo icon buttons for taxonomy edits.
+ * Handlers and enabled state come from useUndoRedo.
+ */
+
+import { ActionIcon, Group, Tooltip } from '@mantine/core';
+import { Undo2, Redo2 } from 'lucide-react';
+import { useSettingsStore } from '../../store';
+
+interface UndoRedoButtonsProps {
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export function UndoRedoButtons({ canUndo, canRedo, onUndo, onRedo }: UndoRedoButtonsProps) {
+  const { uiLanguage } = useSettingsStore();
+
+  return (
+    <Group gap={4}>
+      <Tooltip label={uiLanguage === 'zh' ? '撤销 (Ctrl+Z)' : 'Undo (Ctrl+Z)'}>
+        <ActionIcon
+          size="sm"
+          variant="subtle"
+          onClick={onUndo}
+          disabled={!canUndo}
+          aria-label={uiLanguage === 'zh' ? '撤销' : 'Undo'}
+        >
+          <Undo2 size={16} />
+        </ActionIcon>
+      </Tooltip>
+      <Tooltip label={uiLanguage === 'zh' ? '重做 (Ctrl+Shift+Z)' : 'Redo (Ctrl+Shift+Z)'}>
+        <ActionIcon
+          size="sm"
+          variant="subtle"
+          onClick={onRedo}
+          disabled={!canRedo}
+          aria-label={uiLanguage === 'zh' ? '重做' : 'Redo'}
+        >
+          <Redo2 size={16} />
+        </ActionIcon>
+      </Tooltip>
+    </Group>
+  );
+}
@@ -8,3 +8,5 @@ export { LanguageToggle } from './LanguageToggle';
 export { EditingModeToggle } from './EditingModeToggle';
 export { CreateNodeButtons } from './CreateNodeButtons';
 
+export { UndoRedoButtons } from './UndoRedoButtons';
+export { TabSyncIndicator } from './TabSyncIndicator';
@@ -0,0 +1,167 @@
+/**
+ * Batch Store
+ *
+ * Batch captioning: a folder of local images, each with its own selection.
+ *
+ * The active image's selection lives in useSelectionStore while it is
+ * active, so the whole picker (rules, folder policies, export preview) works
+ * on it unchanged. Switching images syncs it back into `selections` first.
+ * Saving the selection store is paused meanwhile, so a reload or another
+ * tab still sees the selection from before batch mode.
+ *
+ * Images are File objects with object URLs and are not persisted.
+ */
+
+import { create } from 'zustand';
+import type { NodeId } from '@tagselector/tag-core';
+import {
+  useSelectionStore,
+  pauseSelectionPersistence,
+  type TagPromptOptions,
+} from './selectionStore';
+
+export interface BatchImage {
+  /** Relative path inside the opened folder (unique) */
+  id: string;
+  name: string;
+  /** Object URL for the thumbnail */
+  url: string;
+}
+
+export interface ImageSelection {
+  selectedIds: NodeId[];
+  tagOptions: Record<NodeId, TagPromptOptions>;
+}
+
+interface BatchState {
+  isOpen: boolean;
+  images: BatchImage[];
+  /** Selections of the inactive images (the active one is in useSelectionStore) */
+  selections: Record<string, ImageSelection>;
+  activeId: string | null;
+  /** Images targeted by bulk apply */
+  checkedIds: string[];
+  /** Selection from before batch mode, restored on close */
+  savedSelection: ImageSelection | null;
+}
+
+interface BatchActions {
+  /** Start batch mode with these images (initial selections optional) */
+  openBatch: (images: BatchImage[], selections?: Record<string, ImageSelection>) => void;
+  /** Leave batch mode and restore the previous selection */
+  closeBatch: () => void;
+  setActive: (imageId: string) => void;
+  toggleChecked: (imageId: string) => void;
+  setChecked: (imageIds: string[]) => void;
+  /** Add or remove tags on all checked images */
+  bulkApply: (tagIds: NodeId[], mode: 'add' | 'remove') => void;
+  /** Replace the selections of some images (e.g. from caption files) */
+  setSelections: (selections: Record<string, ImageSelection>) => void;
+  /** Every image's selection, including the active one */
+  getAllSelections: () => Record<string, ImageSelection>;
+}
+
+const EMPTY_SELECTION: ImageSelection = { selectedIds: [], tagOptions: {} };
+
+function readActiveSelection(): ImageSelection {
+  const { selectedIds, tagOptions } = useSelectionStore.getState();
+  return { selectedIds: Array.from(selectedIds), tagOptions };
+}
+
+function loadSelection(selection: ImageSelection | undefined): void {
+  const { selectedIds, tagOptions } = selection ?? EMPTY_SELECTION;
+  useSelectionStore.getState().replaceSelection(selectedIds, tagOptions);
+}
+
+export const useBatchStore = create<BatchState & BatchActions>()((set, get) => ({
+  isOpen: false,
+  images: [],
+  selections: {},
+  activeId: null,
+  checkedIds: [],
+  savedSelection: null,
+
+  openBatch: (images: BatchImage[], selections: Record<string, ImageSelection> = {}) => {
+    const { isOpen, savedSelection } = get();
+    get().images.forEach((image) => URL.revokeObjectURL(image.url));
+    const activeId = images[0]?.id ?? null;
+    set({
+      isOpen: true,
+      images,
+      selections,
+      activeId,
+      checkedIds: [],
+      // Reopening keeps the selection from before the first batch
+      savedSelection: isOpen ? savedSelection : readActiveSelection(),
+    });
+    pauseSelectionPersistence(true);
+    loadSelection(activeId ? selections[activeId] : undefined);
+  },
+
+  closeBatch: () => {
+    const { images, savedSelection } = get();
+    images.forEach((image) => URL.revokeObjectURL(image.url));
+    set({ isOpen: false, images: [], selections: {}, activeId: null, checkedIds: [], savedSelection: null });
+    pauseSelectionPersistence(false);
+    loadSelection(savedSelection ?? undefined);
+  },
+
+  setActive: (imageId: string) => {
+    const { activeId } = get();
+    if (imageId === activeId) return;
+    const selections = get().getAllSelections();
+    set({ selections, activeId: imageId });
+    loadSelection(selections[imageId]);
+  },
+
+  toggleChecked: (imageId: string) => {
+    set((state) => ({
+      checkedIds: state.checkedIds.includes(imageId)
+        ? state.checkedIds.filter((id) => id !== imageId)
+        : [...state.checkedIds, imageId],
+    }));
+  },
+
+  setChecked: (imageIds: string[]) => {
+    set({ checkedIds: imageIds });
+  },
+
+  bulkApply: (tagIds: NodeId[], mode: 'add' | 'remove') => {
+    const { checkedIds, activeId } = get();
+    const selections = get().getAllSelections();
+    for (const imageId of checkedIds) {
+      const current = selections[imageId] ?? EMPTY_SELECTION;
+      if (mode === 'add') {
+        const ids = new Set(current.selectedIds);
+        tagIds.forEach((id) => ids.add(id));
+        selections[imageId] = { ...current, selectedIds: Array.from(ids) };
+      } else {
+        const remove = new Set(tagIds);
+        const tagOptions = { ...current.tagOptions };
+        tagIds.forEach((id) => delete tagOptions[id]);
+        selections[imageId] = {
+          selectedIds: current.selectedIds.filter((id) => !remove.has(id)),
+          tagOptions,
+        };
+      }
+    }
+    set({ selections });
+    if (activeId && checkedIds.includes(activeId)) {
+      loadSelection(selections[activeId]);
+    }
+  },
+
+  setSelections: (updates: Record<string, ImageSelection>) => {
+    const { activeId } = get();
+    const selections = { ...get().getAllSelections(), ...updates };
+    set({ selections });
+    if (activeId && updates[activeId]) {
+      loadSelection(selections[activeId]);
+    }
+  },
+
+  getAllSelections: () => {
+    const { selections, activeId } = get();
+    return activeId ? { ...selections, [activeId]: readActiveSelection() } : { ...selections };
+  },
+}));
@@ -0,0 +1,56 @@
+/**
+ * History Actions
+ *
+ * undo()/redo() across the taxonomy and rules stores.
+ * Kept out of historyStore.ts so that the stores recording history
+ * do not import each other through it.
+ */
+
+import { useTaxonomyStore } from './taxonomyStore';
+import { useRulesStore } from './rulesStore';
+import { useHistoryStore } from './historyStore';
+import type { HistoryAction, HistoryEntry, HistorySnapshot } from './historyStore';
+
+/** Capture the current state for the parts an entry touches */
+function captureCurrent(entry: HistoryEntry): HistorySnapshot {
+  const snapshot: HistorySnapshot = {};
+  if (entry.snapshot.taxonomy) {
+    const { taxonomy } = useTaxonomyStore.getState();
+    if (taxonomy) snapshot.taxonomy = taxonomy;
+  }
+  if (entry.snapshot.savedRules) {
+    snapshot.savedRules = useRulesStore.getState().savedRules;
+  }
+  return snapshot;
+}
+
+function applySnapshot(snapshot: HistorySnapshot): void {
+  if (snapshot.taxonomy) {
+    useTaxonomyStore.getState().restoreTaxonomy(snapshot.taxonomy);
+  }
+  if (snapshot.savedRules) {
+    useRulesStore.getState().restoreSavedRules(snapshot.savedRules);
+  }
+}
+
+/**
+ * Undo the latest edit.
+ * @returns The undone action, or null if there was nothing to undo
+ */
+export function undo(): HistoryAction | null {
+  const entry = useHistoryStore.getState().takeUndo(captureCurrent);
+  if (!entry) return null;
+  applySnapshot(entry.snapshot);
+  return entry.action;
+}
+
+/**
+ * Redo the latest undone edit.
+ * @returns The redone action, or null if there was nothing to redo
+ */
+export function redo(): HistoryAction | null {
+  const entry = useHistoryStore.getState().takeRedo(captureCurrent);
+  if (!entry) return null;
+  applySnapshot(entry.snapshot);
+  return entry.action;
+}
@@ -0,0 +1,108 @@
+/**
+ * History Store
+ *
+ * Undo/redo stacks for taxonomy edits (and the rules/QuickSet data they touch).
+ *
+ * Key Concepts:
+ * - An entry holds the state *before* an edit, limited to the parts it touches
+ *   (taxonomy edits snapshot taxonomy + savedRules, because deleting a node is
+ *   followed by rules cleanup; rule saves snapshot savedRules only)
+ * - QuickSets live in taxonomy.meta.extensions, so taxonomy snapshots cover them
+ * - Snapshots are plain references: all store updates are immutable
+ * - Not persisted; cleared when the taxonomy is replaced (import / new tree)
+ *
+ * This store only holds the stacks. Applying a snapshot is done by
+ * undo()/redo() in historyActions.ts, which can import the other stores.
+ */
+
+import { create } from 'zustand';
+import type { Taxonomy } from '@tagselector/tag-core';
+import type { Rule } from './rulesStore';
+
+/** Maximum number of undo steps kept */
+export const MAX_HISTORY_DEPTH = 50;
+
+/** Edit that produced a history entry (used for UI feedback) */
+export type HistoryAction =
+  | 'updateNodeLabel'
+  | 'updateTagData'
+  | 'setFolderSelectionPolicy'
+  | 'swapNodeOrder'
+  | 'moveNode'
+  | 'deleteNode'
+  | 'createNode'
+  | 'bulkUpdateNodes'
+  | 'moveNodes'
+  | 'deleteNodes'
+  | 'updateExtensions'
+  | 'saveRules';
+
+/** Captured state. Only the parts present are restored. */
+export interface HistorySnapshot {
+  taxonomy?: Taxonomy;
+  savedRules?: Rule[];
+}
+
+export interface HistoryEntry {
+  action: HistoryAction;
+  snapshot: HistorySnapshot;
+}
+
+interface HistoryState {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+interface HistoryActions {
+  /** Record the state before an edit. Clears the redo stack. */
+  record: (action: HistoryAction, snapshot: HistorySnapshot) => void;
+  /**
+   * Pop the latest undo entry and push its inverse onto the redo stack.
+   * `capture` returns the current state for the parts the entry touches.
+   */
+  takeUndo: (capture: (entry: HistoryEntry) => HistorySnapshot) => HistoryEntry | null;
+  /** Pop the latest redo entry and push its inverse onto the undo stack. */
+  takeRedo: (capture: (entry: HistoryEntry) => HistorySnapshot) => HistoryEntry | null;
+  clear: () => void;
+}
+
+export const useHistoryStore = create<HistoryState & HistoryActions>()((set, get) => ({
+  past: [],
+  future: [],
+
+  record: (action, snapshot) => {
+    set((state) => ({
+      past: [...state.past, { action, snapshot }].slice(-MAX_HISTORY_DEPTH),
+      future: [],
+    }));
+  },
+
+  takeUndo: (capture) => {
+    const { past, future } = get();
+    const entry = past[past.length - 1];
+    if (!entry) return null;
+
+    set({
+      past: past.slice(0, -1),
+      future: [...future, { action: entry.action, snapshot: capture(entry) }],
+    });
+    return entry;
+  },
+
+  takeRedo: (capture) => {
+    const { past, future } = get();
+    const entry = future[future.length - 1];
+    if (!entry) return null;
+
+    set({
+      past: [...past, { action: entry.action, snapshot: capture(entry) }].slice(-MAX_HISTORY_DEPTH),
+      future: future.slice(0, -1),
+    });
+    return entry;
+  },
+
+  clear: () => {
+    if (get().past.length === 0 && get().future.length === 0) return;
+    set({ past: [], future: [] });
+  },
+}));
@@ -1,15 +1,36 @@
-export { useTaxonomyStore } from './taxonomyStore';
-export { useSelectionStore } from './selectionStore';
+export {
+  useTaxonomyStore,
+  collectSubtreeIds,
+  type TaxonomyFileFormat,
+  type BulkNodeUpdate,
+} from './taxonomyStore';
+export {
+  useSelectionStore,
+  getPromptWeights,
+  getNegativeIds,
+  type PromptBucket,
+  type TagPromptOptions,
+} from './selectionStore';
+export { useHistoryStore, MAX_HISTORY_DEPTH, type HistoryAction } from './historyStore';
+export { undo, redo } from './historyActions';
 export {
   useRulesStore,
   validateRules,
   computeRequiredTags,
   computeExcludedTags,
+  evaluateRules,
+  ruleNeedsTrigger,
   type Rule,
   type RuleType,
+  type RuleSeverity,
+  type RuleViolation,
   type RuleEditMode,
   type RuleValidationError,
   type RuleValidationWarning,
 } from './rulesStore';
 export { useSettingsStore, type UILanguage, type ExportLabelMode } from './settingsStore';
-
+export { useUsageStore, MAX_SELECTION_LOG } from './usageStore';
+export { useBatchStore, type BatchImage, type ImageSelection } from './batchStore';
+export { useWorkspaceStore, type ProjectMeta } from './workspaceStore';
+export { useSnapshotStore, MAX_SNAPSHOTS, type ProjectSnapshot } from './snapshotStore';
+export { useTabSyncStore, startTabSync, CONFLICT_WINDOW_MS, type RemoteUpdate } from './tabSyncStore';
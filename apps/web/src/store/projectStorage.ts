@@ -0,0 +1,73 @@
+/**
+ * Project Storage
+ *
+ * zustand persist storage for the project-scoped stores (taxonomy, rules,
+ * selection). Each store's key is namespaced by the active project:
+ * "project:<projectId>:<store name>" in IndexedDB (utils/idb).
+ *
+ * Writes can be paused while the workspace switches projects, so resetting
+ * the stores does not overwrite either project's data.
+ *
+ * A listener (tab sync) is told about every value read or written.
+ */
+
+import type { StateStorage } from 'zustand/middleware';
+import { kvGet, kvSet, kvDelete } from '../utils/idb';
+import { error as loggerError } from '../utils/logger';
+
+/** Persist names of the project-scoped stores */
+export const PROJECT_STORE_NAMES = [
+  'tagselector-taxonomy',
+  'tagselector-rules',
+  'tagselector-selection',
+] as const;
+
+type StorageListener = (projectId: string, name: string, value: string, kind: 'read' | 'write') => void;
+
+let activeProjectId: string | null = null;
+let writesPaused = false;
+let listener: StorageListener | null = null;
+
+export function projectKey(projectId: string, name: string): string {
+  return `project:${projectId}:${name}`;
+}
+
+/** Point the stores at another project (call rehydrate afterwards) */
+export function setStorageProject(projectId: string | null): void {
+  activeProjectId = projectId;
+}
+
+export function pauseProjectWrites(paused: boolean): void {
+  writesPaused = paused;
+}
+
+export function getStorageProject(): string | null {
+  return activeProjectId;
+}
+
+/** Called after each successful read (of an existing value) or write */
+export function setProjectStorageListener(next: StorageListener | null): void {
+  listener = next;
+}
+
+export const projectStorage: StateStorage = {
+  getItem: (name) => {
+    if (!activeProjectId) return null;
+    const projectId = activeProjectId;
+    return kvGet(projectKey(projectId, name)).then((value) => {
+      if (value !== null) listener?.(projectId, name, value, 'read');
+      return value;
+    });
+  },
+  setItem: (name, value) => {
+    if (writesPaused || !activeProjectId) return;
+    const projectId = activeProjectId;
+    return kvSet(projectKey(projectId, name), value).then(
+      () => listener?.(projectId, name, value, 'write'),
+      (err) => {
+        loggerError(`[projectStorage] Failed to save ${name}:`, err);
+      }
+    );
+  },
+  removeItem: (name) => (activeProjectId ? kvDelete(projectKey(activeProjectId, name)) : undefined),
+};
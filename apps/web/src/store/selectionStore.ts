@@ -1,15 +1,34 @@
 /**
  * Selection Store
  *
- * Manages the user's tag selection.
+ * Manages the user's tag selection, including optional per-tag prompt
+ * weights and positive/negative buckets.
+ *
+ * Stored per project (projectStorage); hydrated by the workspace store.
+ * Saving is paused while batch mode loads per-image selections into the
+ * store, so the stored selection stays the one from before batch mode.
  */
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { NodeId, TaxonomyIndex } from '@tagselector/tag-core';
+import { projectStorage } from './projectStorage';
+
+export type PromptBucket = 'positive' | 'negative';
+
+/**
+ * Prompt options for a selected tag.
+ * Missing fields mean the defaults: weight 1, positive bucket.
+ */
+export interface TagPromptOptions {
+  weight?: number;
+  bucket?: PromptBucket;
+}
 
 interface SelectionState {
   selectedIds: Set<NodeId>;
+  /** Prompt options keyed by selected node ID (only non-default entries) */
+  tagOptions: Record<NodeId, TagPromptOptions>;
 }
 
 interface SelectionActions {
@@ -18,6 +37,8 @@ interface SelectionActions {
   deselect: (nodeId: NodeId) => void;
   clear: () => void;
   setSelection: (nodeIds: NodeId[]) => void;
+  /** Replace selection and prompt options together (e.g. applying a preset) */
+  replaceSelection: (nodeIds: NodeId[], tagOptions: Record<NodeId, TagPromptOptions>) => void;
   /**
    * Add multiple tags to selection in a single update.
    * Used for batch operations to avoid multiple state updates.
@@ -29,12 +50,92 @@ interface SelectionActions {
    * Logic matches original App.tsx cleanup useEffect exactly.
    */
   cleanupInvalidSelection: (index: TaxonomyIndex | null) => void;
+  /** Set a tag's prompt weight. undefined or 1 resets to the default. */
+  setTagWeight: (nodeId: NodeId, weight: number | undefined) => void;
+  setTagBucket: (nodeId: NodeId, bucket: PromptBucket) => void;
+}
+
+/**
+ * Keep only the tagOptions entries whose ID passes `keep`.
+ * Returns the same object when nothing is dropped.
+ */
+function pruneTagOptions(
+  tagOptions: Record<NodeId, TagPromptOptions>,
+  keep: (nodeId: NodeId) => boolean
+): Record<NodeId, TagPromptOptions> {
+  const ids = Object.keys(tagOptions);
+  if (ids.every(keep)) return tagOptions;
+
+  const next: Record<NodeId, TagPromptOptions> = {};
+  for (const id of ids) {
+    if (keep(id)) next[id] = tagOptions[id];
+  }
+  return next;
+}
+
+/**
+ * Write one tag's options, dropping the entry when it is back to defaults.
+ */
+function updateTagOptions(
+  tagOptions: Record<NodeId, TagPromptOptions>,
+  nodeId: NodeId,
+  patch: TagPromptOptions
+): Record<NodeId, TagPromptOptions> {
+  const merged: TagPromptOptions = { ...tagOptions[nodeId], ...patch };
+  if (merged.weight === undefined || merged.weight === 1) delete merged.weight;
+  if (merged.bucket === undefined || merged.bucket === 'positive') delete merged.bucket;
+
+  const next = { ...tagOptions };
+  if (Object.keys(merged).length === 0) {
+    delete next[nodeId];
+  } else {
+    next[nodeId] = merged;
+  }
+  return next;
+}
+
+let persistencePaused = false;
+
+/** Stop or resume saving the selection (batch mode) */
+export function pauseSelectionPersistence(paused: boolean): void {
+  persistencePaused = paused;
+}
+
+export function isSelectionPersistencePaused(): boolean {
+  return persistencePaused;
+}
+
+/**
+ * Prompt weights of the selection, for FormatOptions.weights.
+ */
+export function getPromptWeights(
+  tagOptions: Record<NodeId, TagPromptOptions>
+): Map<NodeId, number> {
+  const weights = new Map<NodeId, number>();
+  for (const [id, options] of Object.entries(tagOptions)) {
+    if (options.weight !== undefined) weights.set(id, options.weight);
+  }
+  return weights;
+}
+
+/**
+ * IDs of the selection in the negative bucket.
+ */
+export function getNegativeIds(
+  tagOptions: Record<NodeId, TagPromptOptions>
+): Set<NodeId> {
+  const negativeIds = new Set<NodeId>();
+  for (const [id, options] of Object.entries(tagOptions)) {
+    if (options.bucket === 'negative') negativeIds.add(id);
+  }
+  return negativeIds;
 }
 
 export const useSelectionStore = create<SelectionState & SelectionActions>()(
   persist(
     (set) => ({
       selectedIds: new Set<NodeId>(),
+      tagOptions: {},
 
       toggle: (nodeId: NodeId) => {
         set((state) => {
@@ -44,7 +145,10 @@ export const useSelectionStore = create<SelectionState & SelectionActions>()(
           } else {
             newSet.add(nodeId);
           }
-          return { selectedIds: newSet };
+          return {
+            selectedIds: newSet,
+            tagOptions: pruneTagOptions(state.tagOptions, (id) => newSet.has(id)),
+          };
         });
       },
 
@@ -60,16 +164,33 @@ export const useSelectionStore = create<SelectionState & SelectionActions>()(
         set((state) => {
           const newSet = new Set(state.selectedIds);
           newSet.delete(nodeId);
-          return { selectedIds: newSet };
+          return {
+            selectedIds: newSet,
+            tagOptions: pruneTagOptions(state.tagOptions, (id) => id !== nodeId),
+          };
         });
       },
 
       clear: () => {
-        set({ selectedIds: new Set() });
+        set({ selectedIds: new Set(), tagOptions: {} });
       },
 
       setSelection: (nodeIds: NodeId[]) => {
-        set({ selectedIds: new Set(nodeIds) });
+        set((state) => {
+          const newSet = new Set(nodeIds);
+          return {
+            selectedIds: newSet,
+            tagOptions: pruneTagOptions(state.tagOptions, (id) => newSet.has(id)),
+          };
+        });
+      },
+
+      replaceSelection: (nodeIds: NodeId[], tagOptions: Record<NodeId, TagPromptOptions>) => {
+        const newSet = new Set(nodeIds);
+        set({
+          selectedIds: newSet,
+          tagOptions: pruneTagOptions(tagOptions, (id) => newSet.has(id)),
+        });
       },
 
       addMany: (nodeIds: NodeId[]) => {
@@ -101,15 +222,35 @@ export const useSelectionStore = create<SelectionState & SelectionActions>()(
           // Only update if some invalid ids were removed
           if (validIds.length === state.selectedIds.size) return state;
 
-          return { selectedIds: new Set(validIds) };
+          // Weights and buckets of surviving tags are kept
+          const validSet = new Set(validIds);
+          return {
+            selectedIds: validSet,
+            tagOptions: pruneTagOptions(state.tagOptions, (id) => validSet.has(id)),
+          };
+        });
+      },
+
+      setTagWeight: (nodeId: NodeId, weight: number | undefined) => {
+        set((state) => {
+          if (!state.selectedIds.has(nodeId)) return state;
+          return { tagOptions: updateTagOptions(state.tagOptions, nodeId, { weight }) };
+        });
+      },
+
+      setTagBucket: (nodeId: NodeId, bucket: PromptBucket) => {
+        set((state) => {
+          if (!state.selectedIds.has(nodeId)) return state;
+          return { tagOptions: updateTagOptions(state.tagOptions, nodeId, { bucket }) };
         });
       },
     }),
     {
       name: 'tagselector-selection',
+      skipHydration: true,
       storage: {
-        getItem: (name) => {
-          const str = localStorage.getItem(name);
+        getItem: async (name) => {
+          const str = await projectStorage.getItem(name);
           if (!str) return null;
           const data = JSON.parse(str);
           return {
@@ -117,10 +258,12 @@ export const useSelectionStore = create<SelectionState & SelectionActions>()(
             state: {
               ...data.state,
               selectedIds: new Set(data.state.selectedIds || []),
+              tagOptions: data.state.tagOptions || {},
             },
           };
         },
         setItem: (name, value) => {
+          if (persistencePaused) return;
           const data = {
             ...value,
             state: {
@@ -128,9 +271,9 @@ export const useSelectionStore = create<SelectionState & SelectionActions>()(
               selectedIds: Array.from(value.state.selectedIds),
             },
           };
-          localStorage.setItem(name, JSON.stringify(data));
+          return projectStorage.setItem(name, JSON.stringify(data));
         },
-        removeItem: (name) => localStorage.removeItem(name),
+        removeItem: (name) => projectStorage.removeItem(name),
       },
     }
   )
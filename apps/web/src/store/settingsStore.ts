@@ -1,11 +1,13 @@
 /**
  * Settings Store
  *
- * Manages application settings including UI language and export label mode.
+ * Manages application settings including UI language, export label mode
+ * and export formatter.
  */
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import { DEFAULT_FORMATTER_ID } from '@tagselector/tag-core';
 
 export type UILanguage = 'zh' | 'en';
 export type ExportLabelMode = 'primary' | 'display';
@@ -13,6 +15,8 @@ export type ExportLabelMode = 'primary' | 'display';
 interface SettingsState {
   uiLanguage: UILanguage;
   exportLabelMode: ExportLabelMode;
+  /** Formatter ID from the tag-core formatter registry */
+  exportFormatterId: string;
   isEditing: boolean;
 }
 
@@ -20,6 +24,7 @@ interface SettingsActions {
   toggleLanguage: () => void;
   setLanguage: (lang: UILanguage) => void;
   setExportLabelMode: (mode: ExportLabelMode) => void;
+  setExportFormatterId: (id: string) => void;
   toggleEditing: () => void;
   setEditing: (isEditing: boolean) => void;
 }
@@ -29,6 +34,7 @@ export const useSettingsStore = create<SettingsState & SettingsActions>()(
     (set) => ({
       uiLanguage: 'zh',
       exportLabelMode: 'display',
+      exportFormatterId: DEFAULT_FORMATTER_ID,
       isEditing: false,
 
       toggleLanguage: () => {
@@ -45,6 +51,10 @@ export const useSettingsStore = create<SettingsState & SettingsActions>()(
         set({ exportLabelMode: mode });
       },
 
+      setExportFormatterId: (id: string) => {
+        set({ exportFormatterId: id });
+      },
+
       toggleEditing: () => {
         set((state) => ({
           isEditing: !state.isEditing,
@@ -0,0 +1,154 @@
+/**
+ * Snapshot Store
+ *
+ * Rolling, timestamped snapshots of the active project for version history
+ * and crash recovery. A snapshot is the project pack (taxonomy with rules,
+ * QuickSets, presets and other extensions embedded), as exported.
+ *
+ * - Stored per project (projectStorage key "tagselector-snapshots"), newest first
+ * - At most MAX_SNAPSHOTS are kept; a snapshot equal to the newest is skipped
+ * - Only valid taxonomies are snapshotted (the "known-good" states)
+ * - Restoring first snapshots the current state, so a restore can be undone
+ *   by restoring that snapshot
+ * - Crash recovery restores without snapshotting (the current state is the
+ *   one that crashed); recovering again walks further back from the snapshot
+ *   it restored last, until a new snapshot is taken
+ *
+ * Autosave is driven by useAutosaveSnapshots.
+ */
+
+import { create } from 'zustand';
+import { deepEqual } from '@tagselector/tag-core';
+import type { Taxonomy } from '@tagselector/tag-core';
+import { getExtensions } from '../utils/extensions';
+import { error as loggerError } from '../utils/logger';
+import { projectStorage } from './projectStorage';
+import { useTaxonomyStore } from './taxonomyStore';
+import { useRulesStore } from './rulesStore';
+
+export const MAX_SNAPSHOTS = 30;
+
+const STORAGE_NAME = 'tagselector-snapshots';
+
+export interface ProjectSnapshot {
+  id: string;
+  /** ISO timestamp */
+  createdAt: string;
+  /** Project pack at that time */
+  taxonomy: Taxonomy;
+}
+
+interface SnapshotState {
+  /** Newest first */
+  snapshots: ProjectSnapshot[];
+  /** Snapshots of the active project have been read */
+  isLoaded: boolean;
+  /** Snapshot restored by the last crash recovery (cleared by a new snapshot) */
+  recoveredId: string | null;
+}
+
+interface SnapshotActions {
+  /** Read the active project's snapshots */
+  loadSnapshots: () => Promise<void>;
+  /**
+   * Snapshot the current project if it is valid and changed since the newest snapshot.
+   * @returns Whether a snapshot was added
+   */
+  takeSnapshot: () => Promise<boolean>;
+  /** Replace the taxonomy and rules with a snapshot (clears undo history) */
+  restoreSnapshot: (snapshotId: string) => Promise<boolean>;
+  /**
+   * Crash recovery: restore the newest snapshot that differs from the current
+   * state and is older than the one the last recovery restored.
+   * @returns false if there is no such snapshot
+   */
+  restoreLastGood: () => Promise<boolean>;
+  deleteSnapshot: (snapshotId: string) => Promise<void>;
+}
+
+function newSnapshotId(): string {
+  return `s-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+async function saveSnapshots(snapshots: ProjectSnapshot[]): Promise<void> {
+  try {
+    await projectStorage.setItem(STORAGE_NAME, JSON.stringify(snapshots));
+  } catch (err) {
+    loggerError('[Snapshots] Failed to save snapshots:', err);
+  }
+}
+
+/** Replace the taxonomy and rules with a snapshot's */
+function applySnapshot(snapshot: ProjectSnapshot): void {
+  useTaxonomyStore.getState().setTaxonomy(snapshot.taxonomy);
+  const rules = getExtensions(snapshot.taxonomy).rules?.savedRules ?? [];
+  useRulesStore.getState().setSavedRules(rules, useTaxonomyStore.getState().index);
+}
+
+/** Current project pack, or null when there is nothing valid to snapshot */
+function currentPack(): Taxonomy | null {
+  const { validationErrors, getProjectPack } = useTaxonomyStore.getState();
+  if (validationErrors.length > 0) return null;
+  return getProjectPack();
+}
+
+export const useSnapshotStore = create<SnapshotState & SnapshotActions>()((set, get) => ({
+  snapshots: [],
+  isLoaded: false,
+  recoveredId: null,
+
+  loadSnapshots: async () => {
+    let snapshots: ProjectSnapshot[] = [];
+    try {
+      const stored = await projectStorage.getItem(STORAGE_NAME);
+      snapshots = stored ? (JSON.parse(stored) as ProjectSnapshot[]) : [];
+    } catch (err) {
+      loggerError('[Snapshots] Failed to read snapshots:', err);
+    }
+    set({ snapshots, isLoaded: true });
+  },
+
+  takeSnapshot: async () => {
+    if (!get().isLoaded) await get().loadSnapshots();
+    const pack = currentPack();
+    const { snapshots } = get();
+    if (!pack || (snapshots.length > 0 && deepEqual(snapshots[0].taxonomy, pack))) return false;
+
+    const snapshot: ProjectSnapshot = {
+      id: newSnapshotId(),
+      createdAt: new Date().toISOString(),
+      taxonomy: pack,
+    };
+    const next = [snapshot, ...snapshots].slice(0, MAX_SNAPSHOTS);
+    set({ snapshots: next, recoveredId: null });
+    await saveSnapshots(next);
+    return true;
+  },
+
+  restoreSnapshot: async (snapshotId: string) => {
+    const snapshot = get().snapshots.find((s) => s.id === snapshotId);
+    if (!snapshot) return false;
+    await get().takeSnapshot();
+    applySnapshot(snapshot);
+    return true;
+  },
+
+  restoreLastGood: async () => {
+    if (!get().isLoaded) await get().loadSnapshots();
+    const { snapshots, recoveredId } = get();
+    const pack = useTaxonomyStore.getState().getProjectPack();
+    // Snapshots newer than (and including) the last recovered one crashed too
+    const start = snapshots.findIndex((s) => s.id === recoveredId) + 1;
+    const target = snapshots.slice(start).find((s) => !pack || !deepEqual(s.taxonomy, pack));
+    if (!target) return false;
+    applySnapshot(target);
+    set({ recoveredId: target.id });
+    return true;
+  },
+
+  deleteSnapshot: async (snapshotId: string) => {
+    const next = get().snapshots.filter((s) => s.id !== snapshotId);
+    set({ snapshots: next });
+    await saveSnapshots(next);
+  },
+}));
@@ -0,0 +1,206 @@
+/**
+ * Tab Sync Store
+ *
+ * Keeps tabs of the app in sync and tracks the "updated in another tab"
+ * indicator.
+ *
+ * - Project stores (taxonomy, rules, selection, snapshots): every completed
+ *   write to projectStorage is announced on a BroadcastChannel; other tabs
+ *   showing the same project rehydrate that store from storage
+ * - Project list: changes are announced the same way; other tabs re-read it
+ * - Settings (localStorage): rehydrated on the browser's storage event
+ *
+ * Rehydrating does not write, so updates are not echoed back. Values equal
+ * to the last one read or written (e.g. a persist write after a
+ * non-persisted field changed) are not announced.
+ *
+ * Conflict policy (taxonomy / rules): the last write to storage wins and
+ * every tab converges on it. If a remote update arrives within
+ * CONFLICT_WINDOW_MS of this tab's own write to the same store (writes to
+ * other stores do not count), both tabs were editing at once: this tab's
+ * version is snapshotted to version history first, and the indicator shows
+ * a conflict. A remote update whose persisted state deep-equals this tab's
+ * (both tabs made the same change) is skipped entirely. Undo history is
+ * cleared whenever the taxonomy is replaced by a remote update.
+ *
+ * Remote selection updates are ignored during batch mode, which keeps the
+ * per-image selections in the selection store.
+ *
+ * Without BroadcastChannel only settings are synced.
+ */
+
+import { create } from 'zustand';
+import { deepEqual } from '@tagselector/tag-core';
+import { error as loggerError } from '../utils/logger';
+import { projectStorage, getStorageProject, setProjectStorageListener } from './projectStorage';
+import { useTaxonomyStore } from './taxonomyStore';
+import { useRulesStore } from './rulesStore';
+import { useSelectionStore, isSelectionPersistencePaused } from './selectionStore';
+import { useSettingsStore } from './settingsStore';
+import { useHistoryStore } from './historyStore';
+import { useSnapshotStore } from './snapshotStore';
+import { useWorkspaceStore } from './workspaceStore';
+
+/** Remote writes this soon after a local write to the same store count as a conflict */
+export const CONFLICT_WINDOW_MS = 3000;
+
+const CHANNEL_NAME = 'tagselector-sync';
+const SETTINGS_KEY = 'tagselector-settings';
+
+type SyncMessage =
+  | { type: 'write'; tabId: string; projectId: string; name: string }
+  | { type: 'workspace'; tabId: string };
+
+export interface RemoteUpdate {
+  /** Epoch ms of the latest remote update */
+  at: number;
+  /** Persist names of the updated stores */
+  stores: string[];
+  /** This tab's concurrent edit was replaced (and snapshotted) */
+  conflict: boolean;
+}
+
+interface TabSyncState {
+  remoteUpdate: RemoteUpdate | null;
+}
+
+interface TabSyncActions {
+  dismissRemoteUpdate: () => void;
+}
+
+export const useTabSyncStore = create<TabSyncState & TabSyncActions>()((set) => ({
+  remoteUpdate: null,
+  dismissRemoteUpdate: () => set({ remoteUpdate: null }),
+}));
+
+const tabId = `t-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Last value read or written per "<projectId>:<name>" */
+const knownValues = new Map<string, string>();
+/** Epoch ms of this tab's last write per "<projectId>:<name>" */
+const localWriteTimes = new Map<string, number>();
+
+let started = false;
+let applyingRemoteProjects = false;
+
+function recordRemoteUpdate(name: string, conflict: boolean): void {
+  const previous = useTabSyncStore.getState().remoteUpdate;
+  useTabSyncStore.setState({
+    remoteUpdate: {
+      at: Date.now(),
+      stores: previous?.stores.includes(name) ? previous.stores : [...(previous?.stores ?? []), name],
+      conflict: conflict || (previous?.conflict ?? false),
+    },
+  });
+}
+
+/** This tab's persisted state of a conflict-tracked store (as partialized) */
+function localPersistedState(name: string): unknown {
+  switch (name) {
+    case 'tagselector-taxonomy':
+      return { taxonomy: useTaxonomyStore.getState().taxonomy };
+    case 'tagselector-rules':
+      return { savedRules: useRulesStore.getState().savedRules };
+    default:
+      return undefined;
+  }
+}
+
+/** Whether a stored value holds the same state as this tab already has */
+function matchesLocalState(name: string, value: string): boolean {
+  const local = localPersistedState(name);
+  if (local === undefined) return false;
+  try {
+    return deepEqual((JSON.parse(value) as { state?: unknown }).state, local);
+  } catch {
+    return false;
+  }
+}
+
+async function applyRemoteWrite(projectId: string, name: string): Promise<void> {
+  if (projectId !== getStorageProject()) return;
+  const key = `${projectId}:${name}`;
+  const known = knownValues.get(key);
+  // Reading records the new value as known
+  const value = await projectStorage.getItem(name);
+  if (value === null || value === known) return;
+  // Same change made in both tabs: nothing to apply, nothing conflicts
+  if (matchesLocalState(name, value)) return;
+
+  // Only this tab's recent write to the same store can conflict
+  const conflict =
+    localPersistedState(name) !== undefined && Date.now() - (localWriteTimes.get(key) ?? 0) < CONFLICT_WINDOW_MS;
+  if (conflict) {
+    // Keep this tab's version in version history before it is replaced
+    await useSnapshotStore.getState().takeSnapshot();
+  }
+
+  switch (name) {
+    case 'tagselector-taxonomy':
+      useHistoryStore.getState().clear();
+      await useTaxonomyStore.persist.rehydrate();
+      break;
+    case 'tagselector-rules':
+      await useRulesStore.persist.rehydrate();
+      break;
+    case 'tagselector-selection':
+      if (isSelectionPersistencePaused()) return;
+      await useSelectionStore.persist.rehydrate();
+      break;
+    case 'tagselector-snapshots':
+      await useSnapshotStore.getState().loadSnapshots();
+      return;
+    default:
+      return;
+  }
+  recordRemoteUpdate(name, conflict);
+}
+
+/**
+ * Start syncing with other tabs. Call once, before the workspace loads, so
+ * the values it reads are known.
+ */
+export function startTabSync(): void {
+  if (started) return;
+  started = true;
+
+  window.addEventListener('storage', (event) => {
+    if (event.key === SETTINGS_KEY) void useSettingsStore.persist.rehydrate();
+  });
+
+  if (typeof BroadcastChannel === 'undefined') return;
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const post = (message: SyncMessage) => channel.postMessage(message);
+
+  setProjectStorageListener((projectId, name, value, kind) => {
+    const key = `${projectId}:${name}`;
+    const known = knownValues.get(key);
+    knownValues.set(key, value);
+    if (kind === 'read' || known === value) return;
+    localWriteTimes.set(key, Date.now());
+    post({ type: 'write', tabId, projectId, name });
+  });
+
+  useWorkspaceStore.subscribe((state, prev) => {
+    if (state.projects !== prev.projects && !applyingRemoteProjects) post({ type: 'workspace', tabId });
+  });
+
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+    const message = event.data;
+    if (message.tabId === tabId) return;
+    if (message.type === 'write') {
+      applyRemoteWrite(message.projectId, message.name).catch((err) => {
+        loggerError('[TabSync] Failed to apply update from another tab:', err);
+      });
+    } else {
+      applyingRemoteProjects = true;
+      useWorkspaceStore
+        .getState()
+        .reloadProjects()
+        .catch((err) => loggerError('[TabSync] Failed to reload projects:', err))
+        .finally(() => {
+          applyingRemoteProjects = false;
+        });
+    }
+  };
+}
@@ -7,22 +7,53 @@
  * - On rehydrate, validates taxonomy before building index
  * - Invalid taxonomy logs warning but still builds index (UI can still run with guards)
  * - Validation errors are stored for UI display
+ *
+ * Migration:
+ * - Import and rehydrate both run tag-core's schema migrators plus
+ *   EXTENSION_MIGRATORS before validation, so older data upgrades in one pass
+ *
+ * History:
+ * - Edit actions record an undo snapshot (taxonomy + savedRules) before applying
+ * - Replacing the taxonomy (load/set/clear) clears the history
+ *
+ * Persistence:
+ * - Stored per project (projectStorage); hydrated by the workspace store
  */
 
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
+import { persist, createJSONStorage } from 'zustand/middleware';
 import type { Taxonomy, TaxonomyIndex, NodeId, TagNode } from '@tagselector/tag-core';
 import {
   buildTaxonomyIndex,
   importTaxonomy,
+  importTabular,
+  importOutline,
   exportTaxonomy,
   validateTaxonomy,
   normalizeOrder,
+  migrateTaxonomyData,
+  SELECTION_POLICY_KEY,
 } from '@tagselector/tag-core';
-import type { ValidationError } from '@tagselector/tag-core';
+import type { ValidationError, MigrationReport, FolderSelectionPolicy } from '@tagselector/tag-core';
 import { useRulesStore } from './rulesStore';
-import type { TaxonomyExtensions } from '../types/project-pack';
-import { warn as loggerWarn, devWarn as loggerDevWarn, error as loggerError } from '../utils/logger';
+import { useHistoryStore, type HistoryAction } from './historyStore';
+import { projectStorage } from './projectStorage';
+import type { TaxonomyExtensions, QuickTree, QuickTreeNode, PresetsConfig } from '../types/project-pack';
+import { EXTENSION_MIGRATORS } from '../utils/extensionMigrations';
+import { getExtensions, injectExtensions } from '../utils/extensions';
+import {
+  info as loggerInfo,
+  warn as loggerWarn,
+  devWarn as loggerDevWarn,
+  error as loggerError,
+} from '../utils/logger';
+
+/**
+ * Whether a migration report contains anything worth telling the user about.
+ */
+export function hasMigrationChanges(report: MigrationReport | undefined): report is MigrationReport {
+  return report !== undefined && (report.steps.length > 0 || report.changes.length > 0);
+}
 
 /**
  * Type guard to check if meta has extensions field.
@@ -43,6 +74,85 @@ function getExtensionsFromMeta(meta: Taxonomy['meta']): Partial<TaxonomyExtensio
   return meta.extensions;
 }
 
+/**
+ * Record an undo snapshot of the state before an edit.
+ * savedRules are included because node deletion is followed by rules cleanup.
+ */
+function recordHistory(action: HistoryAction, taxonomy: Taxonomy): void {
+  useHistoryStore.getState().record(action, {
+    taxonomy,
+    savedRules: useRulesStore.getState().savedRules,
+  });
+}
+
+/**
+ * Remove refs to deleted nodes from QuickTrees (groups are kept).
+ * Returns the original array when nothing was removed.
+ */
+function pruneQuickTreeRefs(
+  quickTrees: QuickTree[],
+  removedIds: Set<NodeId>
+): { quickTrees: QuickTree[]; removedCount: number } {
+  let removedCount = 0;
+
+  const pruneNodes = (nodes: QuickTreeNode[]): QuickTreeNode[] => {
+    let changed = false;
+    const result: QuickTreeNode[] = [];
+    for (const node of nodes) {
+      if (node.type === 'ref') {
+        if (removedIds.has(node.refId)) {
+          removedCount++;
+          changed = true;
+          continue;
+        }
+        result.push(node);
+      } else {
+        const children = pruneNodes(node.children);
+        if (children !== node.children) changed = true;
+        result.push(children === node.children ? node : { ...node, children });
+      }
+    }
+    return changed ? result : nodes;
+  };
+
+  let changed = false;
+  const prunedTrees = quickTrees.map((tree) => {
+    const roots = pruneNodes(tree.roots);
+    if (roots === tree.roots) return tree;
+    changed = true;
+    return { ...tree, roots };
+  });
+
+  return { quickTrees: changed ? prunedTrees : quickTrees, removedCount };
+}
+
+/**
+ * Remove deleted node IDs from selection presets.
+ * Returns the original config when nothing was removed.
+ */
+function prunePresetRefs(
+  presets: PresetsConfig,
+  removedIds: Set<NodeId>
+): { presets: PresetsConfig; removedCount: number } {
+  let removedCount = 0;
+
+  const prunedPresets = presets.presets.map((preset) => {
+    const selectedIds = preset.selectedIds.filter((id) => !removedIds.has(id));
+    if (selectedIds.length === preset.selectedIds.length) return preset;
+    removedCount += preset.selectedIds.length - selectedIds.length;
+
+    const tagOptions = preset.tagOptions && Object.fromEntries(
+      Object.entries(preset.tagOptions).filter(([id]) => !removedIds.has(id))
+    );
+    return { ...preset, selectedIds, ...(tagOptions && { tagOptions }) };
+  });
+
+  return {
+    presets: removedCount > 0 ? { ...presets, presets: prunedPresets } : presets,
+    removedCount,
+  };
+}
+
 /**
  * Type definition for tag node data fields used in this store.
  */
@@ -54,6 +164,222 @@ interface TagNodeData {
   [key: string]: unknown;
 }
 
+/**
+ * IDs of the given nodes and all their descendants (each once, parents first).
+ */
+export function collectSubtreeIds(index: TaxonomyIndex, rootIds: Iterable<NodeId>): NodeId[] {
+  const result: NodeId[] = [];
+  const seen = new Set<NodeId>();
+  const visit = (nodeId: NodeId) => {
+    if (seen.has(nodeId) || !index.byId.has(nodeId)) return;
+    seen.add(nodeId);
+    result.push(nodeId);
+    for (const childId of index.childrenOf.get(nodeId) || []) {
+      visit(childId);
+    }
+  };
+  for (const rootId of rootIds) visit(rootId);
+  return result;
+}
+
+/**
+ * Remove nodes with all their descendants, and clean up references to them:
+ * recommendedTagIds of the remaining tags, QuickSet refs and preset selections.
+ */
+function removeNodes(
+  taxonomy: Taxonomy,
+  index: TaxonomyIndex,
+  rootIds: NodeId[]
+): { taxonomy: Taxonomy; removedIds: NodeId[]; removedTagIds: NodeId[]; cleanedReferenceCount: number } {
+  // Collect all nodes to remove (including descendants recursively)
+  const nodesToRemove = new Set(collectSubtreeIds(index, rootIds));
+
+  // Get removed tag IDs for cleanup
+  const removedTagIds = Array.from(nodesToRemove).filter((id) => {
+    const n = index.byId.get(id);
+    return n && n.kind === 'tag';
+  });
+
+  // Clean up references: remove deleted tag IDs from all tag nodes' recommendedTagIds
+  let cleanedReferenceCount = 0;
+  const updatedNodes = taxonomy.nodes.map((n) => {
+    // Skip nodes that will be removed
+    if (nodesToRemove.has(n.id)) {
+      return n;
+    }
+
+    // Only process tag nodes
+    if (n.kind !== 'tag') {
+      return n;
+    }
+
+    // Access data field (TagNode.data is already defined in the type)
+    // TagNode.data has index signature, so it's compatible with TagNodeData
+    const nodeData: TagNodeData | undefined = n.data as TagNodeData | undefined;
+    const recommendedTagIds = nodeData?.recommendedTagIds;
+    
+    if (!Array.isArray(recommendedTagIds) || recommendedTagIds.length === 0) {
+      return n;
+    }
+
+    // Filter out removed tag IDs
+    const originalLength = recommendedTagIds.length;
+    const cleanedRecommendedIds = recommendedTagIds.filter(
+      (id) => !removedTagIds.includes(id)
+    );
+
+    // If nothing changed, return original node
+    if (cleanedRecommendedIds.length === originalLength) {
+      return n;
+    }
+
+    // Count cleaned references
+    cleanedReferenceCount += originalLength - cleanedRecommendedIds.length;
+
+    // Build updated data by constructing new object (avoiding delete operator)
+    const updatedData: Partial<TagNodeData> = {};
+    
+    // Copy other fields from existing data
+    if (nodeData) {
+      for (const key in nodeData) {
+        if (key !== 'recommendedTagIds') {
+          updatedData[key] = nodeData[key];
+        }
+      }
+    }
+    
+    // Add cleaned recommendedTagIds if not empty
+    if (cleanedRecommendedIds.length > 0) {
+      updatedData.recommendedTagIds = cleanedRecommendedIds;
+    }
+
+    // Determine if we should include data field
+    const hasAnyData = Object.keys(updatedData).length > 0;
+
+    // Build updated node (omit the data field entirely when empty)
+    const updatedNode: TagNode = {
+      ...n,
+      ...(hasAnyData ? { data: updatedData as TagNode['data'] } : {}),
+    };
+
+    return updatedNode;
+  }).filter((n) => !nodesToRemove.has(n.id));
+
+  let updatedTaxonomy: Taxonomy = {
+    ...taxonomy,
+    nodes: updatedNodes,
+  };
+
+  // Clean up QuickSet refs to removed nodes
+  const pruned = pruneQuickTreeRefs(getExtensions(taxonomy).quickTrees, nodesToRemove);
+  if (pruned.removedCount > 0) {
+    cleanedReferenceCount += pruned.removedCount;
+    updatedTaxonomy = injectExtensions(updatedTaxonomy, { quickTrees: pruned.quickTrees });
+  }
+
+  // Clean up preset refs to removed nodes
+  const prunedPresets = prunePresetRefs(getExtensions(taxonomy).presets, nodesToRemove);
+  if (prunedPresets.removedCount > 0) {
+    cleanedReferenceCount += prunedPresets.removedCount;
+    updatedTaxonomy = injectExtensions(updatedTaxonomy, { presets: prunedPresets.presets });
+  }
+
+  return { taxonomy: updatedTaxonomy, removedIds: Array.from(nodesToRemove), removedTagIds, cleanedReferenceCount };
+}
+
+/**
+ * One edit applied to several nodes by bulkUpdateNodes.
+ * Omitted fields are left unchanged.
+ */
+export interface BulkNodeUpdate {
+  /** Tag color ('' clears it) */
+  color?: string;
+  /** Aliases to add to tags (skipped when already present, case-insensitive) */
+  addAliases?: string[];
+  /** Aliases to remove from tags (case-insensitive) */
+  removeAliases?: string[];
+  /** Export override (null = default for the node kind) */
+  export?: boolean | null;
+  /** Tags to add to each tag's recommendedTagIds (a tag never recommends itself) */
+  addRecommendedTagIds?: NodeId[];
+}
+
+/**
+ * Apply a bulk update to one node.
+ * Returns the original node when nothing changed.
+ */
+function applyBulkUpdate(node: TagNode, update: BulkNodeUpdate): TagNode {
+  let result = node;
+
+  if (update.export !== undefined && node.export !== (update.export ?? undefined)) {
+    result = { ...node };
+    if (update.export === null) {
+      delete result.export;
+    } else {
+      result.export = update.export;
+    }
+  }
+
+  // Remaining fields are tag data
+  if (node.kind !== 'tag') return result;
+
+  const data: TagNodeData = { ...((node.data || {}) as TagNodeData) };
+  let dataChanged = false;
+
+  if (update.color !== undefined && (data.color ?? '') !== update.color) {
+    if (update.color === '') {
+      delete data.color;
+    } else {
+      data.color = update.color;
+    }
+    dataChanged = true;
+  }
+
+  if (update.addAliases?.length || update.removeAliases?.length) {
+    const current = data.aliases ?? [];
+    const removed = new Set((update.removeAliases ?? []).map((alias) => alias.toLowerCase()));
+    const aliases = current.filter((alias) => !removed.has(alias.toLowerCase()));
+    const seen = new Set(aliases.map((alias) => alias.toLowerCase()));
+    for (const alias of update.addAliases ?? []) {
+      if (seen.has(alias.toLowerCase())) continue;
+      seen.add(alias.toLowerCase());
+      aliases.push(alias);
+    }
+    if (aliases.length !== current.length || aliases.some((alias, i) => alias !== current[i])) {
+      if (aliases.length === 0) {
+        delete data.aliases;
+      } else {
+        data.aliases = aliases;
+      }
+      dataChanged = true;
+    }
+  }
+
+  if (update.addRecommendedTagIds?.length) {
+    const current = data.recommendedTagIds ?? [];
+    const added = update.addRecommendedTagIds.filter(
+      (id, i, ids) => id !== node.id && !current.includes(id) && ids.indexOf(id) === i
+    );
+    if (added.length > 0) {
+      data.recommendedTagIds = [...current, ...added];
+      dataChanged = true;
+    }
+  }
+
+  if (!dataChanged) return result;
+  result = { ...result, data: data as TagNode['data'] };
+  if (Object.keys(data).length === 0) {
+    delete result.data;
+  }
+  return result;
+}
+
+/**
+ * File formats accepted by loadTaxonomy.
+ * Only 'json' carries extensions (rules, quickTrees, ...) and runs migrations.
+ */
+export type TaxonomyFileFormat = 'json' | 'csv' | 'tsv' | 'outline';
+
 interface TaxonomyState {
   taxonomy: Taxonomy | null;
   index: TaxonomyIndex | null;
@@ -64,12 +390,24 @@ interface TaxonomyState {
 }
 
 interface TaxonomyActions {
-  loadTaxonomy: (jsonString: string) => { ok: true; taxonomy: Taxonomy } | { ok: false; error: string };
+  loadTaxonomy: (
+    text: string,
+    format?: TaxonomyFileFormat
+  ) =>
+    | { ok: true; taxonomy: Taxonomy; migration?: MigrationReport }
+    | { ok: false; error: string };
+  /** Replace the taxonomy (clears undo history) */
   setTaxonomy: (taxonomy: Taxonomy) => void;
+  /** Replace the taxonomy from an undo/redo snapshot (keeps history) */
+  restoreTaxonomy: (taxonomy: Taxonomy) => void;
+  /** Merge into taxonomy.meta.extensions as an undoable edit (e.g. QuickSet save) */
+  updateExtensions: (partial: Partial<TaxonomyExtensions>) => void;
   clearTaxonomy: () => void;
   exportToJson: () => string | null;
-  /** Export project pack (taxonomy + rules + quickTrees + recommendations) */
+  /** Export project pack (taxonomy + rules + quickTrees + recommendations + presets) */
   exportProjectPack: () => string | null;
+  /** Taxonomy with savedRules (and default extensions) embedded, as exported */
+  getProjectPack: () => Taxonomy | null;
   /** Clear validation errors (user dismissed the error bar) */
   clearValidationErrors: () => void;
   /** Update a node's label (or taxonomy.meta.name for Root) */
@@ -85,14 +423,43 @@ interface TaxonomyActions {
       recommendedTagIds?: string[];
     }
   ) => void;
+  /** Set (or clear with null) a folder's selection policy (data.selectionPolicy) */
+  setFolderSelectionPolicy: (folderId: NodeId, policy: FolderSelectionPolicy | null) => void;
   /** Swap node order with previous or next sibling, then normalize all sibling orders */
   swapNodeOrder: (nodeId: NodeId, direction: 'up' | 'down') => void;
+  /**
+   * Move a node under a new parent (null = Root) at the given position among
+   * its new siblings (clamped), then normalize all sibling orders.
+   * The new parent must be a folder, and not the node itself or one of its descendants.
+   */
+  moveNode: (nodeId: NodeId, newParentId: NodeId | null, position: number) =>
+    | { success: true }
+    | { success: false; reason: 'not_found' | 'invalid_parent' | 'circular_ref' };
   /** Delete a node (tag or empty folder). Returns success status, removed tag IDs, and cleaned reference count. */
   deleteNode: (nodeId: NodeId) => 
     | { success: true; removedTagIds: NodeId[]; cleanedReferenceCount: number } 
     | { success: false; reason: 'not_found' | 'folder_not_empty' };
   /** Create a new node (folder or tag) */
   createNode: (kind: 'folder' | 'tag', parentId: NodeId | null, defaultLabel: string) => NodeId | null;
+  /** Apply one edit to several nodes as a single undoable step. Returns the number of nodes changed. */
+  bulkUpdateNodes: (nodeIds: NodeId[], update: BulkNodeUpdate) => number;
+  /**
+   * Move several nodes to the end of a new parent (null = Root), in the given
+   * order, as a single undoable step. Nodes already there, and the new parent
+   * or its ancestors, are skipped.
+   */
+  moveNodes: (nodeIds: NodeId[], newParentId: NodeId | null) =>
+    | { success: true; movedCount: number; skippedCount: number }
+    | { success: false; reason: 'not_found' | 'invalid_parent' };
+  /**
+   * Delete several nodes with all their descendants (folders need not be
+   * empty) as a single undoable step. Returns the removed node and tag IDs.
+   */
+  deleteNodes: (nodeIds: NodeId[]) => {
+    removedIds: NodeId[];
+    removedTagIds: NodeId[];
+    cleanedReferenceCount: number;
+  };
 }
 
 export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
@@ -104,13 +471,22 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
       validationErrors: [],
       isLoading: false,
 
-      loadTaxonomy: (jsonString: string) => {
+      loadTaxonomy: (text: string, format: TaxonomyFileFormat = 'json') => {
         set({ isLoading: true, error: null, validationErrors: [] });
 
-        const result = importTaxonomy(jsonString);
+        const result =
+          format === 'csv' ? importTabular(text, { delimiter: ',' })
+          : format === 'tsv' ? importTabular(text, { delimiter: '\t' })
+          : format === 'outline' ? importOutline(text)
+          : importTaxonomy(text, { extensionMigrators: EXTENSION_MIGRATORS });
+
+        if (hasMigrationChanges(result.migration)) {
+          loggerInfo('[TagSelector] Migrated imported taxonomy:', result.migration);
+        }
 
         if (result.success && result.taxonomy) {
           const index = buildTaxonomyIndex(result.taxonomy);
+          useHistoryStore.getState().clear();
           set({
             taxonomy: result.taxonomy,
             index,
@@ -118,7 +494,7 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
             validationErrors: [],
             isLoading: false,
           });
-          return { ok: true as const, taxonomy: result.taxonomy };
+          return { ok: true as const, taxonomy: result.taxonomy, migration: result.migration };
         } else {
           const errors = result.errors || [];
           const errorMessages = errors
@@ -140,6 +516,7 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
 
       setTaxonomy: (taxonomy: Taxonomy) => {
         const index = buildTaxonomyIndex(taxonomy);
+        useHistoryStore.getState().clear();
         set({
           taxonomy,
           index,
@@ -149,7 +526,23 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
         });
       },
 
+      restoreTaxonomy: (taxonomy: Taxonomy) => {
+        const index = buildTaxonomyIndex(taxonomy);
+        set({ taxonomy, index });
+      },
+
+      updateExtensions: (partial: Partial<TaxonomyExtensions>) => {
+        const { taxonomy } = get();
+        if (!taxonomy) return;
+
+        const updatedTaxonomy = injectExtensions(taxonomy, partial);
+        const index = buildTaxonomyIndex(updatedTaxonomy);
+        recordHistory('updateExtensions', taxonomy);
+        set({ taxonomy: updatedTaxonomy, index });
+      },
+
       clearTaxonomy: () => {
+        useHistoryStore.getState().clear();
         set({
           taxonomy: null,
           index: null,
@@ -166,6 +559,11 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
       },
 
       exportProjectPack: () => {
+        const projectPack = get().getProjectPack();
+        return projectPack ? exportTaxonomy(projectPack, { pretty: true }) : null;
+      },
+
+      getProjectPack: () => {
         const { taxonomy } = get();
         if (!taxonomy) return null;
 
@@ -182,18 +580,17 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
           quickTrees: existingExt.quickTrees ?? [],
           recommendations: existingExt.recommendations ?? { version: 1, map: {} },
           ui: existingExt.ui, // Preserve ui config if exists
+          presets: existingExt.presets ?? { version: 1, presets: [] },
         };
 
         // Deep copy taxonomy with merged extensions (immutable)
-        const projectPack: Taxonomy = {
+        return {
           ...taxonomy,
           meta: {
             ...taxonomy.meta,
             extensions: newExtensions,
           },
         };
-
-        return exportTaxonomy(projectPack, { pretty: true });
       },
 
       clearValidationErrors: () => {
@@ -214,6 +611,7 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
             },
           };
           const index = buildTaxonomyIndex(updatedTaxonomy);
+          recordHistory('updateNodeLabel', taxonomy);
           set({ taxonomy: updatedTaxonomy, index });
           return;
         }
@@ -237,6 +635,7 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
         };
 
         const index = buildTaxonomyIndex(updatedTaxonomy);
+        recordHistory('updateNodeLabel', taxonomy);
         set({ taxonomy: updatedTaxonomy, index });
       },
 
@@ -339,6 +738,52 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
         };
 
         const index = buildTaxonomyIndex(updatedTaxonomy);
+        recordHistory('updateTagData', taxonomy);
+        set({ taxonomy: updatedTaxonomy, index });
+      },
+
+      setFolderSelectionPolicy: (folderId: NodeId, policy: FolderSelectionPolicy | null) => {
+        const { taxonomy } = get();
+        if (!taxonomy) return;
+
+        const nodeIndex = taxonomy.nodes.findIndex((n) => n.id === folderId);
+        if (nodeIndex === -1) {
+          loggerDevWarn(`[TagSelector] Folder ${folderId} not found for selection policy update`);
+          return;
+        }
+
+        const node = taxonomy.nodes[nodeIndex];
+        if (node.kind !== 'folder') {
+          loggerDevWarn(`[TagSelector] Node ${folderId} is not a folder`);
+          return;
+        }
+
+        // Keep other data fields; drop data entirely when nothing is left
+        const updatedData: Record<string, unknown> = {};
+        for (const key in node.data ?? {}) {
+          if (key !== SELECTION_POLICY_KEY) {
+            updatedData[key] = node.data?.[key];
+          }
+        }
+        if (policy) {
+          updatedData[SELECTION_POLICY_KEY] = policy;
+        }
+
+        const finalNode: TagNode = { ...node, data: updatedData as TagNode['data'] };
+        if (Object.keys(updatedData).length === 0) {
+          delete finalNode.data;
+        }
+
+        const updatedNodes = [...taxonomy.nodes];
+        updatedNodes[nodeIndex] = finalNode;
+
+        const updatedTaxonomy: Taxonomy = {
+          ...taxonomy,
+          nodes: updatedNodes,
+        };
+
+        const index = buildTaxonomyIndex(updatedTaxonomy);
+        recordHistory('setFolderSelectionPolicy', taxonomy);
         set({ taxonomy: updatedTaxonomy, index });
       },
 
@@ -413,10 +858,11 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
 
         // Rebuild index
         const newIndex = buildTaxonomyIndex(normalizedTaxonomy);
+        recordHistory('swapNodeOrder', taxonomy);
         set({ taxonomy: normalizedTaxonomy, index: newIndex });
       },
 
-      deleteNode: (nodeId: NodeId) => {
+      moveNode: (nodeId: NodeId, newParentId: NodeId | null, position: number) => {
         const { taxonomy, index } = get();
         if (!taxonomy || !index) {
           return { success: false as const, reason: 'not_found' as const };
@@ -427,103 +873,96 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
           return { success: false as const, reason: 'not_found' as const };
         }
 
-        // For folders, check if empty
-        if (node.kind === 'folder') {
-          const children = index.childrenOf.get(nodeId) || [];
-          if (children.length > 0) {
-            return { success: false as const, reason: 'folder_not_empty' as const };
+        // New parent must be Root or an existing folder
+        if (newParentId !== null) {
+          const newParent = index.byId.get(newParentId);
+          if (!newParent || newParent.kind !== 'folder') {
+            return { success: false as const, reason: 'invalid_parent' as const };
           }
-        }
 
-        // Collect all nodes to remove (including descendants recursively)
-        const nodesToRemove = new Set<NodeId>([nodeId]);
-        const collectDescendants = (parentId: NodeId) => {
-          const children = index.childrenOf.get(parentId) || [];
-          for (const childId of children) {
-            nodesToRemove.add(childId);
-            collectDescendants(childId);
+          // Cycle check (same idea as CIRCULAR_REF validation):
+          // walk up from the new parent; reaching the node means it would become its own ancestor
+          let cursor: NodeId | null = newParentId;
+          while (cursor !== null) {
+            if (cursor === nodeId) {
+              loggerDevWarn(
+                `[TagSelector] Cannot move "${node.label}" into itself or its descendant "${newParent.label}"`
+              );
+              return { success: false as const, reason: 'circular_ref' as const };
+            }
+            cursor = index.byId.get(cursor)?.parentId ?? null;
           }
-        };
-        collectDescendants(nodeId);
+        }
 
-        // Get removed tag IDs for cleanup
-        const removedTagIds = Array.from(nodesToRemove).filter((id) => {
-          const n = index.byId.get(id);
-          return n && n.kind === 'tag';
-        });
+        // New sibling list (sorted), with the node inserted at the clamped position
+        const newSiblings = (index.childrenOf.get(newParentId) || []).filter((id) => id !== nodeId);
+        const targetIndex = Math.max(0, Math.min(Math.trunc(position), newSiblings.length));
+        newSiblings.splice(targetIndex, 0, nodeId);
 
-        // Clean up references: remove deleted tag IDs from all tag nodes' recommendedTagIds
-        let cleanedReferenceCount = 0;
-        const updatedNodes = taxonomy.nodes.map((n) => {
-          // Skip nodes that will be removed
-          if (nodesToRemove.has(n.id)) {
-            return n;
-          }
+        // No-op: same parent and same position
+        const oldSiblings = index.childrenOf.get(node.parentId) || [];
+        if (node.parentId === newParentId && oldSiblings.indexOf(nodeId) === targetIndex) {
+          return { success: true as const };
+        }
 
-          // Only process tag nodes
-          if (n.kind !== 'tag') {
-            return n;
-          }
+        // Assign orders from the sorted sibling lists, so ties resolved by
+        // compareNodes are preserved when normalizing
+        const orderById = new Map<NodeId, number>();
+        oldSiblings
+          .filter((id) => id !== nodeId)
+          .forEach((id, i) => orderById.set(id, i));
+        newSiblings.forEach((id, i) => orderById.set(id, i));
 
-          // Access data field (TagNode.data is already defined in the type)
-          // TagNode.data has index signature, so it's compatible with TagNodeData
-          const nodeData: TagNodeData | undefined = n.data as TagNodeData | undefined;
-          const recommendedTagIds = nodeData?.recommendedTagIds;
-          
-          if (!Array.isArray(recommendedTagIds) || recommendedTagIds.length === 0) {
-            return n;
+        const updatedNodes = taxonomy.nodes.map((n) => {
+          const order = orderById.get(n.id);
+          if (n.id === nodeId) {
+            return { ...n, parentId: newParentId, order: order ?? 0 };
           }
+          return order === undefined ? n : { ...n, order };
+        });
 
-          // Filter out removed tag IDs
-          const originalLength = recommendedTagIds.length;
-          const cleanedRecommendedIds = recommendedTagIds.filter(
-            (id) => !removedTagIds.includes(id)
-          );
-
-          // If nothing changed, return original node
-          if (cleanedRecommendedIds.length === originalLength) {
-            return n;
-          }
+        // Normalize orders for all siblings (0..n-1)
+        const normalizedTaxonomy = normalizeOrder({
+          ...taxonomy,
+          nodes: updatedNodes,
+        });
 
-          // Count cleaned references
-          cleanedReferenceCount += originalLength - cleanedRecommendedIds.length;
+        // Rebuild index
+        const newIndex = buildTaxonomyIndex(normalizedTaxonomy);
+        recordHistory('moveNode', taxonomy);
+        set({ taxonomy: normalizedTaxonomy, index: newIndex });
 
-          // Build updated data by constructing new object (avoiding delete operator)
-          const updatedData: Partial<TagNodeData> = {};
-          
-          // Copy other fields from existing data
-          if (nodeData) {
-            for (const key in nodeData) {
-              if (key !== 'recommendedTagIds') {
-                updatedData[key] = nodeData[key];
-              }
-            }
-          }
-          
-          // Add cleaned recommendedTagIds if not empty
-          if (cleanedRecommendedIds.length > 0) {
-            updatedData.recommendedTagIds = cleanedRecommendedIds;
-          }
+        return { success: true as const };
+      },
 
-          // Determine if we should include data field
-          const hasAnyData = Object.keys(updatedData).length > 0;
+      deleteNode: (nodeId: NodeId) => {
+        const { taxonomy, index } = get();
+        if (!taxonomy || !index) {
+          return { success: false as const, reason: 'not_found' as const };
+        }
 
-          // Build updated node (omit the data field entirely when empty)
-          const updatedNode: TagNode = {
-            ...n,
-            ...(hasAnyData ? { data: updatedData as TagNode['data'] } : {}),
-          };
+        const node = index.byId.get(nodeId);
+        if (!node) {
+          return { success: false as const, reason: 'not_found' as const };
+        }
 
-          return updatedNode;
-        }).filter((n) => !nodesToRemove.has(n.id));
+        // For folders, check if empty
+        if (node.kind === 'folder') {
+          const children = index.childrenOf.get(nodeId) || [];
+          if (children.length > 0) {
+            return { success: false as const, reason: 'folder_not_empty' as const };
+          }
+        }
 
-        const updatedTaxonomy: Taxonomy = {
-          ...taxonomy,
-          nodes: updatedNodes,
-        };
+        const { taxonomy: updatedTaxonomy, removedTagIds, cleanedReferenceCount } = removeNodes(
+          taxonomy,
+          index,
+          [nodeId]
+        );
 
         // Rebuild index
         const newIndex = buildTaxonomyIndex(updatedTaxonomy);
+        recordHistory('deleteNode', taxonomy);
         set({ taxonomy: updatedTaxonomy, index: newIndex });
 
         return {
@@ -597,17 +1036,133 @@ export const useTaxonomyStore = create<TaxonomyState & TaxonomyActions>()(
 
         // Rebuild index
         const newIndex = buildTaxonomyIndex(updatedTaxonomy);
+        recordHistory('createNode', taxonomy);
         set({ taxonomy: updatedTaxonomy, index: newIndex });
 
         return newNodeId;
       },
+
+      bulkUpdateNodes: (nodeIds: NodeId[], update: BulkNodeUpdate) => {
+        const { taxonomy } = get();
+        if (!taxonomy) return 0;
+
+        const targetIds = new Set(nodeIds);
+        let changedCount = 0;
+        const updatedNodes = taxonomy.nodes.map((node) => {
+          if (!targetIds.has(node.id)) return node;
+          const updated = applyBulkUpdate(node, update);
+          if (updated !== node) changedCount++;
+          return updated;
+        });
+        if (changedCount === 0) return 0;
+
+        const updatedTaxonomy: Taxonomy = {
+          ...taxonomy,
+          nodes: updatedNodes,
+        };
+
+        const index = buildTaxonomyIndex(updatedTaxonomy);
+        recordHistory('bulkUpdateNodes', taxonomy);
+        set({ taxonomy: updatedTaxonomy, index });
+        return changedCount;
+      },
+
+      moveNodes: (nodeIds: NodeId[], newParentId: NodeId | null) => {
+        const { taxonomy, index } = get();
+        if (!taxonomy || !index) {
+          return { success: false as const, reason: 'not_found' as const };
+        }
+
+        if (newParentId !== null) {
+          const newParent = index.byId.get(newParentId);
+          if (!newParent || newParent.kind !== 'folder') {
+            return { success: false as const, reason: 'invalid_parent' as const };
+          }
+        }
+
+        // The new parent and its ancestors would become their own descendants
+        const blocked = new Set<NodeId>();
+        let cursor: NodeId | null = newParentId;
+        while (cursor !== null) {
+          blocked.add(cursor);
+          cursor = index.byId.get(cursor)?.parentId ?? null;
+        }
+
+        const moving = nodeIds.filter((id, i) => {
+          const node = index.byId.get(id);
+          return node && !blocked.has(id) && node.parentId !== newParentId && nodeIds.indexOf(id) === i;
+        });
+        const skippedCount = nodeIds.length - moving.length;
+        if (moving.length === 0) {
+          return { success: true as const, movedCount: 0, skippedCount };
+        }
+
+        // Orders from the sorted sibling lists: old parents close the gaps,
+        // the moved nodes are appended to the new parent
+        const movingSet = new Set(moving);
+        const orderById = new Map<NodeId, number>();
+        const oldParentIds = new Set(moving.map((id) => index.byId.get(id)?.parentId ?? null));
+        for (const parentId of oldParentIds) {
+          (index.childrenOf.get(parentId) || [])
+            .filter((id) => !movingSet.has(id))
+            .forEach((id, i) => orderById.set(id, i));
+        }
+        [...(index.childrenOf.get(newParentId) || []), ...moving].forEach((id, i) => orderById.set(id, i));
+
+        const updatedNodes = taxonomy.nodes.map((n) => {
+          const order = orderById.get(n.id);
+          if (movingSet.has(n.id)) {
+            return { ...n, parentId: newParentId, order: order ?? 0 };
+          }
+          return order === undefined ? n : { ...n, order };
+        });
+
+        // Normalize orders for all siblings (0..n-1)
+        const normalizedTaxonomy = normalizeOrder({
+          ...taxonomy,
+          nodes: updatedNodes,
+        });
+
+        const newIndex = buildTaxonomyIndex(normalizedTaxonomy);
+        recordHistory('moveNodes', taxonomy);
+        set({ taxonomy: normalizedTaxonomy, index: newIndex });
+
+        return { success: true as const, movedCount: moving.length, skippedCount };
+      },
+
+      deleteNodes: (nodeIds: NodeId[]) => {
+        const { taxonomy, index } = get();
+        const rootIds = index ? nodeIds.filter((id) => index.byId.has(id)) : [];
+        if (!taxonomy || !index || rootIds.length === 0) {
+          return { removedIds: [], removedTagIds: [], cleanedReferenceCount: 0 };
+        }
+
+        const { taxonomy: updatedTaxonomy, ...removed } = removeNodes(taxonomy, index, rootIds);
+
+        const newIndex = buildTaxonomyIndex(updatedTaxonomy);
+        recordHistory('deleteNodes', taxonomy);
+        set({ taxonomy: updatedTaxonomy, index: newIndex });
+
+        return removed;
+      },
     }),
     {
       name: 'tagselector-taxonomy',
+      storage: createJSONStorage(() => projectStorage),
+      skipHydration: true,
       partialize: (state) => ({ taxonomy: state.taxonomy }),
       onRehydrateStorage: () => (state) => {
         // Rebuild index after rehydration, but validate first
         if (state?.taxonomy) {
+          // Upgrade taxonomy cached by an older build
+          const { data, report } = migrateTaxonomyData(state.taxonomy, {
+            extensionMigrators: EXTENSION_MIGRATORS,
+          });
+          if (hasMigrationChanges(report)) {
+            loggerInfo('[TagSelector] Migrated cached taxonomy:', report);
+            state.taxonomy = data as Taxonomy;
+          }
+
           // Validate the rehydrated taxonomy (防绕过 import 校验)
           const validation = validateTaxonomy(state.taxonomy);
           
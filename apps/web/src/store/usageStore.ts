@@ -0,0 +1,71 @@
+/**
+ * Usage Store
+ *
+ * Local, anonymous record of how tags are used, for learned recommendations:
+ * - selectionLog: exported selections (tag IDs only, oldest first, capped)
+ * - recentPickedTagIds: most recent picks first (kept across reloads)
+ *
+ * Nothing here leaves the browser. clearLearned() wipes both.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { NodeId } from '@tagselector/tag-core';
+
+/** Oldest selections are dropped beyond this */
+export const MAX_SELECTION_LOG = 500;
+
+interface UsageState {
+  selectionLog: NodeId[][];
+  recentPickedTagIds: NodeId[];
+}
+
+interface UsageActions {
+  /** Record an exported selection (skipped if empty or same as the last one) */
+  logSelection: (nodeIds: NodeId[]) => void;
+  /** Move a picked tag to the front of the recent list, trimmed to historySize */
+  pushRecentPick: (nodeId: NodeId, historySize: number) => void;
+  clearLearned: () => void;
+}
+
+function sameSelection(a: NodeId[], b: NodeId[]): boolean {
+  if (a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every((id) => set.has(id));
+}
+
+export const useUsageStore = create<UsageState & UsageActions>()(
+  persist(
+    (set) => ({
+      selectionLog: [],
+      recentPickedTagIds: [],
+
+      logSelection: (nodeIds: NodeId[]) => {
+        set((state) => {
+          const entry = Array.from(new Set(nodeIds));
+          const last = state.selectionLog[state.selectionLog.length - 1];
+          if (entry.length === 0 || (last && sameSelection(last, entry))) {
+            return state;
+          }
+          return { selectionLog: [...state.selectionLog, entry].slice(-MAX_SELECTION_LOG) };
+        });
+      },
+
+      pushRecentPick: (nodeId: NodeId, historySize: number) => {
+        set((state) => ({
+          recentPickedTagIds: [nodeId, ...state.recentPickedTagIds.filter((id) => id !== nodeId)].slice(
+            0,
+            historySize
+          ),
+        }));
+      },
+
+      clearLearned: () => {
+        set({ selectionLog: [], recentPickedTagIds: [] });
+      },
+    }),
+    {
+      name: 'tagselector-usage',
+    }
+  )
+);
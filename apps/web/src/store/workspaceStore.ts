@@ -0,0 +1,252 @@
+/**
+ * Workspace Store
+ *
+ * Several named projects, each with its own taxonomy (QuickSets, presets and
+ * other extensions included), rules and selection, stored in IndexedDB.
+ *
+ * - The project list and active project live under "workspace:*" keys
+ * - The taxonomy / rules / selection stores persist through projectStorage,
+ *   which namespaces their keys by the active project
+ * - Switching projects pauses writes, resets those stores and rehydrates
+ *   them from the new project
+ * - First run migrates the old single-project localStorage keys into a
+ *   "Default" project
+ *
+ * isReady is false until the active project is loaded (and while switching);
+ * the app renders nothing project-specific until then. If the stored project
+ * list cannot be read, init stops with loadError set and writes nothing, so
+ * the existing projects are not replaced by a fresh default one.
+ */
+
+import { create } from 'zustand';
+import { SCHEMA_VERSION } from '@tagselector/tag-core';
+import type { Taxonomy } from '@tagselector/tag-core';
+import { kvGet, kvSet, kvDelete, kvKeys, isIndexedDbBacked } from '../utils/idb';
+import { info as loggerInfo, error as loggerError } from '../utils/logger';
+import {
+  PROJECT_STORE_NAMES,
+  projectKey,
+  setStorageProject,
+  pauseProjectWrites,
+} from './projectStorage';
+import { useTaxonomyStore } from './taxonomyStore';
+import { useRulesStore } from './rulesStore';
+import { useSelectionStore } from './selectionStore';
+import { useHistoryStore } from './historyStore';
+import { useBatchStore } from './batchStore';
+import { useSnapshotStore } from './snapshotStore';
+
+export interface ProjectMeta {
+  id: string;
+  name: string;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+interface WorkspaceState {
+  projects: ProjectMeta[];
+  activeProjectId: string | null;
+  /** Active project loaded into the stores */
+  isReady: boolean;
+  /** The stored project list could not be read (init stopped) */
+  loadError: string | null;
+}
+
+interface WorkspaceActions {
+  /** Load the workspace (migrating localStorage data on first run). Safe to call twice. */
+  init: () => Promise<void>;
+  switchProject: (projectId: string) => Promise<void>;
+  /**
+   * Create a project and switch to it.
+   * Starts with an empty taxonomy unless one is given.
+   */
+  createProject: (name: string, taxonomy?: Taxonomy) => Promise<string>;
+  /** Copy a project and switch to the copy */
+  duplicateProject: (projectId: string, name: string) => Promise<string>;
+  renameProject: (projectId: string, name: string) => Promise<void>;
+  /** Delete a project; the last project cannot be deleted */
+  deleteProject: (projectId: string) => Promise<void>;
+  /**
+   * Re-read the project list (changed in another tab).
+   * Switches to the first project if the active one was deleted.
+   */
+  reloadProjects: () => Promise<void>;
+}
+
+const PROJECTS_KEY = 'workspace:projects';
+const ACTIVE_KEY = 'workspace:active';
+const DEFAULT_PROJECT_ID = 'default';
+
+const projectStores = [useTaxonomyStore, useRulesStore, useSelectionStore];
+
+let initPromise: Promise<void> | null = null;
+
+function newProjectId(): string {
+  return `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Parse the stored project list; throws if it is not a non-empty list of projects */
+function parseProjects(stored: string): ProjectMeta[] {
+  const projects: unknown = JSON.parse(stored);
+  const valid =
+    Array.isArray(projects) &&
+    projects.length > 0 &&
+    projects.every((p) => typeof p?.id === 'string' && typeof p?.name === 'string');
+  if (!valid) throw new Error('Stored project list is malformed');
+  return projects as ProjectMeta[];
+}
+
+async function saveProjects(projects: ProjectMeta[]): Promise<void> {
+  await kvSet(PROJECTS_KEY, JSON.stringify(projects));
+}
+
+/**
+ * Move the old single-project localStorage keys into the default project.
+ * The old keys are removed only when they were copied to IndexedDB.
+ */
+async function migrateLocalStorage(): Promise<ProjectMeta> {
+  let name = 'Default';
+  for (const storeName of PROJECT_STORE_NAMES) {
+    const value = localStorage.getItem(storeName);
+    if (value === null) continue;
+    await kvSet(projectKey(DEFAULT_PROJECT_ID, storeName), value);
+    if (storeName === 'tagselector-taxonomy') {
+      try {
+        const taxonomyName = JSON.parse(value)?.state?.taxonomy?.meta?.name;
+        if (typeof taxonomyName === 'string' && taxonomyName.trim() !== '') name = taxonomyName.trim();
+      } catch {
+        // Keep the default name
+      }
+    }
+  }
+  if (await isIndexedDbBacked()) {
+    PROJECT_STORE_NAMES.forEach((storeName) => localStorage.removeItem(storeName));
+  }
+  loggerInfo('[Workspace] Migrated localStorage data into project:', name);
+  return { id: DEFAULT_PROJECT_ID, name, createdAt: new Date().toISOString() };
+}
+
+/** Reset the project stores without writing, then load another project */
+async function loadProject(projectId: string): Promise<void> {
+  // Batch mode restores its saved selection into the current project first
+  if (useBatchStore.getState().isOpen) useBatchStore.getState().closeBatch();
+
+  pauseProjectWrites(true);
+  try {
+    useTaxonomyStore.setState(useTaxonomyStore.getInitialState(), true);
+    useRulesStore.setState(useRulesStore.getInitialState(), true);
+    useSelectionStore.setState(useSelectionStore.getInitialState(), true);
+    useHistoryStore.getState().clear();
+    useSnapshotStore.setState({ snapshots: [], isLoaded: false, recoveredId: null });
+    setStorageProject(projectId);
+  } finally {
+    pauseProjectWrites(false);
+  }
+  await Promise.all(projectStores.map((store) => store.persist.rehydrate()));
+}
+
+/** Stored taxonomy for a new project */
+function emptyTaxonomy(name: string): Taxonomy {
+  return { schemaVersion: SCHEMA_VERSION, nodes: [], meta: { name } };
+}
+
+export const useWorkspaceStore = create<WorkspaceState & WorkspaceActions>()((set, get) => ({
+  projects: [],
+  activeProjectId: null,
+  isReady: false,
+  loadError: null,
+
+  init: () => {
+    if (!initPromise) {
+      initPromise = (async () => {
+        let projects: ProjectMeta[];
+        try {
+          const stored = await kvGet(PROJECTS_KEY);
+          projects = stored === null ? [] : parseProjects(stored);
+        } catch (err) {
+          // Never fall through to the first-run migration: it would overwrite the list
+          loggerError('[Workspace] Failed to read project list:', err);
+          set({ loadError: err instanceof Error ? err.message : String(err) });
+          return;
+        }
+        // First run: no project list stored yet
+        if (projects.length === 0) {
+          projects = [await migrateLocalStorage()];
+          await saveProjects(projects);
+        }
+
+        const storedActive = await kvGet(ACTIVE_KEY);
+        const activeProjectId = projects.some((p) => p.id === storedActive) ? storedActive! : projects[0].id;
+        await loadProject(activeProjectId);
+        set({ projects, activeProjectId, isReady: true });
+      })();
+    }
+    return initPromise;
+  },
+
+  switchProject: async (projectId: string) => {
+    if (projectId === get().activeProjectId || !get().projects.some((p) => p.id === projectId)) return;
+    set({ isReady: false });
+    await kvSet(ACTIVE_KEY, projectId);
+    await loadProject(projectId);
+    set({ activeProjectId: projectId, isReady: true });
+  },
+
+  createProject: async (name: string, taxonomy?: Taxonomy) => {
+    const project: ProjectMeta = { id: newProjectId(), name, createdAt: new Date().toISOString() };
+    const initial = taxonomy ?? emptyTaxonomy(name);
+    await kvSet(projectKey(project.id, 'tagselector-taxonomy'), JSON.stringify({ state: { taxonomy: initial }, version: 0 }));
+    const projects = [...get().projects, project];
+    await saveProjects(projects);
+    set({ projects });
+    await get().switchProject(project.id);
+    return project.id;
+  },
+
+  duplicateProject: async (projectId: string, name: string) => {
+    const project: ProjectMeta = { id: newProjectId(), name, createdAt: new Date().toISOString() };
+    for (const storeName of PROJECT_STORE_NAMES) {
+      const value = await kvGet(projectKey(projectId, storeName));
+      if (value !== null) await kvSet(projectKey(project.id, storeName), value);
+    }
+    const projects = [...get().projects, project];
+    await saveProjects(projects);
+    set({ projects });
+    await get().switchProject(project.id);
+    return project.id;
+  },
+
+  renameProject: async (projectId: string, name: string) => {
+    const projects = get().projects.map((p) => (p.id === projectId ? { ...p, name } : p));
+    await saveProjects(projects);
+    set({ projects });
+  },
+
+  deleteProject: async (projectId: string) => {
+    const { projects, activeProjectId } = get();
+    const remaining = projects.filter((p) => p.id !== projectId);
+    if (remaining.length === 0 || remaining.length === projects.length) return;
+    if (projectId === activeProjectId) {
+      await get().switchProject(remaining[0].id);
+    }
+    for (const key of await kvKeys(projectKey(projectId, ''))) {
+      await kvDelete(key);
+    }
+    await saveProjects(remaining);
+    set({ projects: remaining });
+  },
+
+  reloadProjects: async () => {
+    const stored = await kvGet(PROJECTS_KEY);
+    if (stored === null) return;
+    const projects = parseProjects(stored);
+    const { activeProjectId } = get();
+    if (projects.some((p) => p.id === activeProjectId)) {
+      set({ projects });
+      return;
+    }
+    set({ projects, isReady: false });
+    await loadProject(projects[0].id);
+    set({ activeProjectId: projects[0].id, isReady: true });
+  },
+}));
@@ -2,7 +2,8 @@
  * Project Pack Types
  *
  * Type definitions for taxonomy extensions (meta.extensions).
- * Used for bundled import/export of taxonomy + rules + quickTrees + recommendations.
+ * Used for bundled import/export of taxonomy + rules + quickTrees + recommendations
+ * + selection presets.
  *
  * Note: tag-core's Taxonomy.meta does not define extensions field,
  * so we access it via (taxonomy.meta as any)?.extensions at runtime.
@@ -10,6 +11,7 @@
 
 import type { NodeId } from '@tagselector/tag-core';
 import type { Rule } from '../store/rulesStore';
+import type { TagPromptOptions } from '../store/selectionStore';
 
 // ============================================================================
 // Quick Trees
@@ -83,6 +85,34 @@ export interface UiConfig {
   folderNavigator?: FolderNavigatorConfig;
 }
 
+// ============================================================================
+// Selection Presets
+// ============================================================================
+
+/**
+ * A named snapshot of a selection ("recipe").
+ * - selectedIds: user-selected IDs (closure is recomputed on export)
+ * - tagOptions: prompt weights / buckets of the selected tags
+ * - savedRules: rules at save time; restored when the preset replaces the selection
+ */
+export interface SelectionPreset {
+  id: string;
+  name: string;
+  selectedIds: NodeId[];
+  tagOptions?: Record<NodeId, TagPromptOptions>;
+  savedRules?: Rule[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Selection presets stored in extensions.
+ */
+export interface PresetsConfig {
+  version: 1;
+  presets: SelectionPreset[];
+}
+
 // ============================================================================
 // Taxonomy Extensions
 // ============================================================================
@@ -96,5 +126,6 @@ export interface TaxonomyExtensions {
   quickTrees?: QuickTree[];
   recommendations?: RecommendationsConfig;
   ui?: UiConfig;
+  presets?: PresetsConfig;
 }
 
@@ -0,0 +1,24 @@
+/**
+ * Download Helper
+ *
+ * Save generated content as a file through a temporary link.
+ */
+
+/**
+ * Trigger a browser download.
+ *
+ * @param content - File contents
+ * @param fileName - Suggested file name
+ * @param mime - MIME type
+ */
+export function downloadFile(content: BlobPart, fileName: string, mime: string): void {
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
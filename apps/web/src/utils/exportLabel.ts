@@ -0,0 +1,20 @@
+/**
+ * Export Label
+ *
+ * Node label for file exports (captions, sidecars, wildcards) in the
+ * export preview's label mode.
+ */
+
+import type { TagNode } from '@tagselector/tag-core';
+import type { ExportLabelMode } from '../store';
+
+/**
+ * Label function for the given mode: primary label, or displayName when set.
+ */
+export function exportLabelOf(labelMode: ExportLabelMode): (node: TagNode) => string {
+  return (node: TagNode) => {
+    if (labelMode === 'primary') return node.label;
+    const displayName = node.data?.displayName;
+    return typeof displayName === 'string' && displayName !== '' ? displayName : node.label;
+  };
+}
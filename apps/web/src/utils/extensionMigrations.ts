@@ -0,0 +1,82 @@
+/**
+ * Extension Migrations
+ *
+ * Migrators for taxonomy.meta.extensions, run by tag-core's importTaxonomy
+ * together with the schema migrators, so an old project pack upgrades in one pass.
+ *
+ * Each extension config carries its own `version`. A config without one is
+ * treated as version 0 (written by builds before extensions were versioned).
+ *
+ * To change an extension format: bump its version in types/project-pack.ts
+ * and append a migrator from the previous version here.
+ */
+
+import type { ExtensionMigrator } from '@tagselector/tag-core';
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is UnknownRecord {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+export const EXTENSION_MIGRATORS: readonly ExtensionMigrator[] = [
+  {
+    key: 'rules',
+    from: 0,
+    to: 1,
+    description: 'Wrap rules as { version, savedRules }',
+    migrate: (value, ctx) => {
+      // Old builds stored a bare rule array, or `rules` instead of `savedRules`
+      // (same rename as the tagselector-rules localStorage migration)
+      let savedRules: unknown[] = [];
+      if (Array.isArray(value)) {
+        savedRules = value;
+      } else if (isRecord(value)) {
+        const legacy = value['savedRules'] ?? value['rules'];
+        savedRules = Array.isArray(legacy) ? legacy : [];
+      }
+      ctx.change('meta.extensions.rules', `Upgraded ${savedRules.length} rule(s) to version 1`);
+      return { version: 1, savedRules };
+    },
+  },
+  {
+    key: 'recommendations',
+    from: 0,
+    to: 1,
+    description: 'Wrap recommendations as { version, map }',
+    migrate: (value, ctx) => {
+      if (!isRecord(value)) {
+        ctx.change('meta.extensions.recommendations', 'Dropped invalid recommendations config');
+        return { version: 1, map: {} };
+      }
+      // Either an unversioned config with `map`, or the bare map itself
+      const next = isRecord(value['map'])
+        ? { ...value, version: 1 }
+        : { version: 1, map: value };
+      ctx.change('meta.extensions.recommendations', 'Upgraded recommendations to version 1');
+      return next;
+    },
+  },
+  {
+    key: 'ui',
+    from: 0,
+    to: 1,
+    description: 'Add version to ui config',
+    migrate: (value, ctx) => {
+      if (!isRecord(value)) {
+        ctx.change('meta.extensions.ui', 'Dropped invalid ui config');
+        return { version: 1 };
+      }
+      const folderNavigator = value['folderNavigator'];
+      ctx.change('meta.extensions.ui', 'Upgraded ui config to version 1');
+      return {
+        ...value,
+        version: 1,
+        ...(isRecord(folderNavigator) && folderNavigator['version'] === undefined
+          ? { folderNavigator: { ...folderNavigator, version: 1 } }
+          : {}),
+      };
+    },
+  },
+  // quickTrees is a bare array with no version yet; nothing to migrate.
+];
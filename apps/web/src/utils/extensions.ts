@@ -39,6 +39,9 @@ export function getExtensions(taxonomy: Taxonomy): Required<TaxonomyExtensions>
     ? (ext['recommendations'] as TaxonomyExtensions['recommendations'])
     : undefined;
   const ui = isRecord(ext['ui']) ? (ext['ui'] as TaxonomyExtensions['ui']) : undefined;
+  const presets = isRecord(ext['presets'])
+    ? (ext['presets'] as unknown as TaxonomyExtensions['presets'])
+    : undefined;
 
   return {
     rules: rules ?? { version: 1, savedRules: [] },
@@ -48,6 +51,7 @@ export function getExtensions(taxonomy: Taxonomy): Required<TaxonomyExtensions>
       version: 1,
       folderNavigator: { version: 1, mode: 'collapsed', autoOpenFolderIds: [] },
     },
+    presets: presets ?? { version: 1, presets: [] },
   };
 }
 
@@ -0,0 +1,102 @@
+/**
+ * Key-Value Storage on IndexedDB
+ *
+ * String values in one object store, without localStorage's ~5 MB ceiling.
+ * Falls back to localStorage (keys prefixed with "tagselector-kv:") when
+ * IndexedDB cannot be opened, e.g. in some private browsing modes.
+ *
+ * Requests on the same store run in the order they were issued, so a read
+ * after a write sees the written value.
+ */
+
+import { devWarn } from './logger';
+
+const DB_NAME = 'tagselector';
+const DB_VERSION = 1;
+const STORE_NAME = 'kv';
+const FALLBACK_PREFIX = 'tagselector-kv:';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+            request.result.createObjectStore(STORE_NAME);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          devWarn('[idb] IndexedDB unavailable, falling back to localStorage:', request.error);
+          resolve(null);
+        };
+      } catch (err) {
+        devWarn('[idb] IndexedDB unavailable, falling back to localStorage:', err);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+}
+
+/** Run one request in its own transaction */
+async function run<T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  if (!db) throw new Error('IndexedDB unavailable');
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/** Whether values are stored in IndexedDB (false: localStorage fallback) */
+export async function isIndexedDbBacked(): Promise<boolean> {
+  return (await openDb()) !== null;
+}
+
+export async function kvGet(key: string): Promise<string | null> {
+  if (!(await openDb())) return localStorage.getItem(FALLBACK_PREFIX + key);
+  const value = await run('readonly', (store) => store.get(key));
+  return typeof value === 'string' ? value : null;
+}
+
+export async function kvSet(key: string, value: string): Promise<void> {
+  if (!(await openDb())) {
+    localStorage.setItem(FALLBACK_PREFIX + key, value);
+    return;
+  }
+  await run('readwrite', (store) => store.put(value, key));
+}
+
+export async function kvDelete(key: string): Promise<void> {
+  if (!(await openDb())) {
+    localStorage.removeItem(FALLBACK_PREFIX + key);
+    return;
+  }
+  await run('readwrite', (store) => store.delete(key));
+}
+
+/** Keys starting with a prefix */
+export async function kvKeys(prefix: string): Promise<string[]> {
+  if (!(await openDb())) {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(FALLBACK_PREFIX + prefix)) keys.push(key.slice(FALLBACK_PREFIX.length));
+    }
+    return keys;
+  }
+  const keys = await run('readonly', (store) => store.getAllKeys());
+  return keys.filter((key): key is string => typeof key === 'string' && key.startsWith(prefix));
+}
@@ -0,0 +1,36 @@
+/**
+ * TagSelector - Node Drag Utilities
+ *
+ * Native HTML5 drag payload for moving taxonomy nodes between views
+ * (CurrentLevelView items -> folder cards, breadcrumbs, FolderNavigator rows).
+ *
+ * A custom MIME type is used so react-arborist's own drag-and-drop
+ * (react-dnd HTML5 backend) ignores these drags.
+ */
+
+import type { NodeId } from '@tagselector/tag-core';
+
+export const NODE_DRAG_MIME = 'application/x-tagselector-node';
+
+/**
+ * Put a node ID on a drag event (call from onDragStart).
+ */
+export function setDraggedNodeId(e: React.DragEvent, nodeId: NodeId): void {
+  e.dataTransfer.setData(NODE_DRAG_MIME, nodeId);
+  e.dataTransfer.effectAllowed = 'move';
+}
+
+/**
+ * Whether a drag event carries a node (usable in onDragOver, where data is not readable).
+ */
+export function isNodeDrag(e: React.DragEvent): boolean {
+  return Array.from(e.dataTransfer.types).includes(NODE_DRAG_MIME);
+}
+
+/**
+ * Read the dragged node ID (call from onDrop). Returns null for other drags.
+ */
+export function getDraggedNodeId(e: React.DragEvent): NodeId | null {
+  const nodeId = e.dataTransfer.getData(NODE_DRAG_MIME);
+  return nodeId || null;
+}
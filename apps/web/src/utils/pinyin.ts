@@ -0,0 +1,15 @@
+/**
+ * TagSelector - Pinyin Converter
+ *
+ * PinyinConverter for tag-core's rankedSearch, backed by pinyin-pro.
+ */
+
+import { pinyin } from 'pinyin-pro';
+import type { PinyinConverter } from '@tagselector/tag-core';
+
+/**
+ * Toneless pinyin, one entry per character.
+ * Non-Chinese characters are returned unchanged.
+ */
+export const toPinyin: PinyinConverter = (text) =>
+  pinyin(text, { toneType: 'none', type: 'array' });
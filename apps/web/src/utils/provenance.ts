@@ -0,0 +1,26 @@
+/**
+ * Provenance Text
+ *
+ * One-line explanations of rule provenance (see tag-core explainSelection):
+ *   "Jacket → Outerwear → Coat (Rule name)"   auto-added
+ *   "Coat ⊘ Shorts (Rule name)"               hidden
+ */
+
+import type { NodeId, TaxonomyIndex, TagProvenance } from '@tagselector/tag-core';
+import { getTagDisplayLabel } from './searchMatch';
+
+function labelOf(index: TaxonomyIndex, id: NodeId): string {
+  const node = index.byId.get(id);
+  return node ? getTagDisplayLabel(node) : id;
+}
+
+/**
+ * Format a provenance chain; the last step uses ⊘ for exclusions.
+ */
+export function formatProvenance(provenance: TagProvenance, index: TaxonomyIndex): string {
+  const labels = provenance.chain.map((id) => labelOf(index, id));
+  const last = labels.pop();
+  const lastArrow = provenance.ruleType === 'REQUIRES' ? ' → ' : ' ⊘ ';
+  const path = labels.length > 0 ? `${labels.join(' → ')}${lastArrow}${last}` : (last ?? '');
+  return `${path} (${provenance.ruleName})`;
+}
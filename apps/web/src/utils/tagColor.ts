@@ -6,6 +6,20 @@
 
 import type { TagNode } from '@tagselector/tag-core';
 
+/** Common preset colors offered by the tag editors */
+export const PRESET_TAG_COLORS = [
+  '#3b82f6', // blue
+  '#ef4444', // red
+  '#10b981', // green
+  '#f59e0b', // yellow
+  '#8b5cf6', // purple
+  '#ec4899', // pink
+  '#06b6d4', // cyan
+  '#f97316', // orange
+  '#6366f1', // indigo
+  '#14b8a6', // teal
+];
+
 /**
  * Color hex validation regex: #RGB, #RRGGBB, or #RRGGBBAA
  */
@@ -0,0 +1,72 @@
+/**
+ * TagSelector CLI - Dispatcher
+ *
+ * Routes `tagselector <command> [...args]` to the matching command.
+ * All output goes through CliIO so the dispatcher can be tested in-process.
+ */
+
+import type { CliIO } from './io.js';
+import { EXIT_OK, EXIT_USAGE } from './load.js';
+import type { Command } from './commands/types.js';
+import { validateCommand } from './commands/validate.js';
+import { exportSetCommand } from './commands/export-set.js';
+import { formatCommand } from './commands/format.js';
+import { searchCommand } from './commands/search.js';
+
+export const COMMANDS: Command[] = [
+  validateCommand,
+  exportSetCommand,
+  formatCommand,
+  searchCommand,
+];
+
+function printHelp(io: CliIO): void {
+  io.stdout('Usage: tagselector <command> [options]');
+  io.stdout('');
+  io.stdout('Commands:');
+  const width = Math.max(...COMMANDS.map((c) => c.name.length));
+  for (const command of COMMANDS) {
+    io.stdout(`  ${command.name.padEnd(width)}  ${command.summary}`);
+  }
+  io.stdout('');
+  io.stdout('Run `tagselector <command> --help` for command options.');
+}
+
+/**
+ * Run the CLI with the given arguments (excluding node and script path).
+ *
+ * @returns Process exit code
+ */
+export async function run(argv: string[], io: CliIO): Promise<number> {
+  const [name, ...args] = argv;
+
+  if (!name || name === '--help' || name === '-h' || name === 'help') {
+    printHelp(io);
+    return name ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const command = COMMANDS.find((c) => c.name === name);
+  if (!command) {
+    io.stderr(`Unknown command: ${name}`);
+    printHelp(io);
+    return EXIT_USAGE;
+  }
+
+  if (args.includes('--help') || args.includes('-h')) {
+    io.stdout(`Usage: ${command.usage}`);
+    return EXIT_OK;
+  }
+
+  try {
+    return await command.run(args, io);
+  } catch (e) {
+    // parseArgs reports unknown/invalid options via ERR_PARSE_ARGS_* errors
+    const code = (e as { code?: unknown }).code;
+    if (typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS')) {
+      io.stderr((e as Error).message);
+      io.stderr(`Usage: ${command.usage}`);
+      return EXIT_USAGE;
+    }
+    throw e;
+  }
+}
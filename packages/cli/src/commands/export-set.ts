@@ -0,0 +1,56 @@
+/**
+ * TagSelector CLI - export-set
+ *
+ * Wraps computeExportSet + sortByUserOrder: prints the IDs that would be
+ * exported for a selection, in user order, one per line.
+ */
+
+import { parseArgs } from 'node:util';
+import { computeExportSet, sortByUserOrder } from '@tagselector/tag-core';
+import { EXIT_INVALID, EXIT_OK, EXIT_USAGE, loadIndex, resolveSelection } from '../load.js';
+import type { Command } from './types.js';
+
+export const exportSetCommand: Command = {
+  name: 'export-set',
+  summary: 'Print the sorted export set (IDs) for a selection',
+  usage: 'tagselector export-set <file> --select <id,id,...> [--no-ancestors] [--json]',
+
+  async run(args, io) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        select: { type: 'string', short: 's', multiple: true, default: [] },
+        'no-ancestors': { type: 'boolean', default: false },
+        json: { type: 'boolean', default: false },
+      },
+    });
+
+    const [file] = positionals;
+    if (!file) {
+      io.stderr(`Usage: ${this.usage}`);
+      return EXIT_USAGE;
+    }
+
+    const index = await loadIndex(io, file);
+    if (!index) return EXIT_INVALID;
+
+    const selectedIds = resolveSelection(io, index, values.select);
+    if (!selectedIds) return EXIT_INVALID;
+
+    const exportSet = computeExportSet(index, selectedIds, {
+      includeAncestors: !values['no-ancestors'],
+    });
+    const sortedIds = sortByUserOrder(index, exportSet);
+
+    if (values.json) {
+      io.stdout(JSON.stringify(sortedIds));
+    } else {
+      for (const id of sortedIds) {
+        io.stdout(id);
+      }
+    }
+
+    return EXIT_OK;
+  },
+};
@@ -0,0 +1,64 @@
+/**
+ * TagSelector CLI - format
+ *
+ * Runs the full export pipeline for a selection:
+ * computeExportSet -> sortByUserOrder -> formatTags
+ */
+
+import { parseArgs } from 'node:util';
+import {
+  computeExportSet,
+  sortByUserOrder,
+  formatTags,
+  getFormatter,
+  listFormatters,
+  DEFAULT_SEPARATOR,
+  DEFAULT_FORMATTER_ID,
+} from '@tagselector/tag-core';
+import { EXIT_INVALID, EXIT_OK, EXIT_USAGE, loadIndex, resolveSelection } from '../load.js';
+import type { Command } from './types.js';
+
+export const formatCommand: Command = {
+  name: 'format',
+  summary: 'Print the keyword string for a selection (Mylio by default)',
+  usage: 'tagselector format <file> --select <id,id,...> [--formatter <id>] [--separator <sep>] [--no-ancestors]',
+
+  async run(args, io) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        select: { type: 'string', short: 's', multiple: true, default: [] },
+        formatter: { type: 'string', short: 'f', default: DEFAULT_FORMATTER_ID },
+        separator: { type: 'string', default: DEFAULT_SEPARATOR },
+        'no-ancestors': { type: 'boolean', default: false },
+      },
+    });
+
+    const [file] = positionals;
+    if (!file) {
+      io.stderr(`Usage: ${this.usage}`);
+      return EXIT_USAGE;
+    }
+
+    if (!getFormatter(values.formatter)) {
+      const known = listFormatters().map((f) => f.id).join(', ');
+      io.stderr(`Unknown formatter: ${values.formatter} (available: ${known})`);
+      return EXIT_USAGE;
+    }
+
+    const index = await loadIndex(io, file);
+    if (!index) return EXIT_INVALID;
+
+    const selectedIds = resolveSelection(io, index, values.select);
+    if (!selectedIds) return EXIT_INVALID;
+
+    const exportSet = computeExportSet(index, selectedIds, {
+      includeAncestors: !values['no-ancestors'],
+    });
+    const sortedIds = sortByUserOrder(index, exportSet);
+    io.stdout(formatTags(index, sortedIds, values.formatter, { separator: values.separator }));
+
+    return EXIT_OK;
+  },
+};
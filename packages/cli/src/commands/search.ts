@@ -0,0 +1,58 @@
+/**
+ * TagSelector CLI - search
+ *
+ * Wraps searchNodes: prints matching nodes as `<id>\t<kind>\t<label>`,
+ * in user order.
+ */
+
+import { parseArgs } from 'node:util';
+import { searchNodes, sortByUserOrder } from '@tagselector/tag-core';
+import { EXIT_INVALID, EXIT_OK, EXIT_USAGE, loadIndex } from '../load.js';
+import type { Command } from './types.js';
+
+export const searchCommand: Command = {
+  name: 'search',
+  summary: 'Find nodes by label or alias',
+  usage: 'tagselector search <file> <query> [--kind folder|tag] [--json]',
+
+  async run(args, io) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        kind: { type: 'string' },
+        json: { type: 'boolean', default: false },
+      },
+    });
+
+    const [file, ...queryParts] = positionals;
+    const query = queryParts.join(' ');
+    if (!file || !query.trim()) {
+      io.stderr(`Usage: ${this.usage}`);
+      return EXIT_USAGE;
+    }
+    if (values.kind !== undefined && values.kind !== 'folder' && values.kind !== 'tag') {
+      io.stderr(`--kind must be "folder" or "tag"`);
+      return EXIT_USAGE;
+    }
+
+    const index = await loadIndex(io, file);
+    if (!index) return EXIT_INVALID;
+
+    const matches = searchNodes(index, query).filter(
+      (node) => values.kind === undefined || node.kind === values.kind
+    );
+    const sortedIds = sortByUserOrder(index, new Set(matches.map((node) => node.id)));
+    const nodes = sortedIds.map((id) => index.byId.get(id)!);
+
+    if (values.json) {
+      io.stdout(JSON.stringify(nodes, null, 2));
+    } else {
+      for (const node of nodes) {
+        io.stdout(`${node.id}\t${node.kind}\t${node.label}`);
+      }
+    }
+
+    return EXIT_OK;
+  },
+};
@@ -0,0 +1,16 @@
+/**
+ * TagSelector CLI - Command Types
+ */
+
+import type { CliIO } from '../io.js';
+
+export interface Command {
+  /** Subcommand name as typed on the command line */
+  name: string;
+  /** One-line description for the command list */
+  summary: string;
+  /** Usage line(s) printed by --help */
+  usage: string;
+  /** Run the command with its own arguments. Resolves to an exit code. */
+  run: (args: string[], io: CliIO) => Promise<number>;
+}
@@ -0,0 +1,85 @@
+/**
+ * TagSelector CLI - validate
+ *
+ * Wraps validateTaxonomy: prints every ValidationError as
+ * `<path>\t<code>\t<message>` and exits non-zero if any were found.
+ *
+ * Older files are migrated first (like every other command's import) and
+ * the migration changes are reported on stderr; --no-migrate validates the
+ * file exactly as written.
+ */
+
+import { parseArgs } from 'node:util';
+import { migrateTaxonomyData, validateTaxonomy } from '@tagselector/tag-core';
+import { EXIT_INVALID, EXIT_OK, EXIT_USAGE, formatValidationError } from '../load.js';
+import type { Command } from './types.js';
+
+export const validateCommand: Command = {
+  name: 'validate',
+  summary: 'Check a taxonomy file against the schema',
+  usage: 'tagselector validate <file> [--allow-tag-children] [--no-migrate] [--json]',
+
+  async run(args, io) {
+    const { values, positionals } = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        'allow-tag-children': { type: 'boolean', default: false },
+        'no-migrate': { type: 'boolean', default: false },
+        json: { type: 'boolean', default: false },
+      },
+    });
+
+    const [file] = positionals;
+    if (!file) {
+      io.stderr(`Usage: ${this.usage}`);
+      return EXIT_USAGE;
+    }
+
+    let text: string;
+    try {
+      text = await io.readFile(file);
+    } catch (e) {
+      io.stderr(`Cannot read ${file}: ${e instanceof Error ? e.message : String(e)}`);
+      return EXIT_INVALID;
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch (e) {
+      io.stderr(`${file}: Invalid JSON: ${e instanceof Error ? e.message : String(e)}`);
+      return EXIT_INVALID;
+    }
+
+    const migration = values['no-migrate'] ? null : migrateTaxonomyData(data);
+    const report = migration?.report;
+    const migrated = report !== undefined && (report.steps.length > 0 || report.changes.length > 0);
+    const result = validateTaxonomy(migration ? migration.data : data, {
+      enforceTagLeaf: !values['allow-tag-children'],
+    });
+
+    if (values.json) {
+      io.stdout(JSON.stringify(report ? { ...result, migration: report } : result, null, 2));
+      return result.valid ? EXIT_OK : EXIT_INVALID;
+    }
+
+    if (migrated) {
+      io.stderr(`${file}: migrated from schema ${report.fromVersion} to ${report.toVersion}`);
+      for (const change of report.changes) {
+        io.stderr(`${change.path}\t${change.message}`);
+      }
+    }
+
+    if (result.valid) {
+      io.stdout(`${file}: OK`);
+    } else {
+      for (const error of result.errors) {
+        io.stdout(formatValidationError(error));
+      }
+      io.stderr(`${file}: ${result.errors.length} validation error(s)`);
+    }
+
+    return result.valid ? EXIT_OK : EXIT_INVALID;
+  },
+};
@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+/**
+ * TagSelector CLI
+ *
+ * Headless access to the tag-core export pipeline for scripts and CI.
+ */
+
+import { run } from './cli.js';
+import { processIO } from './io.js';
+
+process.exitCode = await run(process.argv.slice(2), processIO);
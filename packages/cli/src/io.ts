@@ -0,0 +1,45 @@
+/**
+ * TagSelector CLI - IO
+ *
+ * Thin abstraction over the process so commands can be run in tests
+ * without touching the real filesystem or streams.
+ */
+
+import { readFile } from 'node:fs/promises';
+
+export interface CliIO {
+  /** Read a file as UTF-8. The path "-" reads from stdin. */
+  readFile: (path: string) => Promise<string>;
+  /** Write a line to stdout */
+  stdout: (line: string) => void;
+  /** Write a line to stderr */
+  stderr: (line: string) => void;
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * IO bound to the current process (used by the bin entry).
+ */
+export const processIO: CliIO = {
+  readFile: (path) => (path === '-' ? readStdin() : readFile(path, 'utf8')),
+  stdout: (line) => {
+    process.stdout.write(`${line}\n`);
+  },
+  stderr: (line) => {
+    process.stderr.write(`${line}\n`);
+  },
+};
+
+// A closed pipe (e.g. `tagselector search ... | head`) ends the output
+// quietly instead of crashing with an unhandled EPIPE error
+process.stdout.on('error', (e: NodeJS.ErrnoException) => {
+  if (e.code === 'EPIPE') process.exit(process.exitCode ?? 0);
+  else throw e;
+});
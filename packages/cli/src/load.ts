@@ -0,0 +1,71 @@
+/**
+ * TagSelector CLI - Taxonomy Loading
+ *
+ * Shared helpers for reading a taxonomy file and reporting errors.
+ */
+
+import type { NodeId, TaxonomyIndex, ValidationError } from '@tagselector/tag-core';
+import { buildTaxonomyIndex, importTaxonomy } from '@tagselector/tag-core';
+import type { CliIO } from './io.js';
+
+/** Exit codes shared by all commands */
+export const EXIT_OK = 0;
+export const EXIT_INVALID = 1;
+export const EXIT_USAGE = 2;
+
+/**
+ * Format a validation error as a single tab-separated line:
+ * `<path>\t<code>\t<message>`
+ */
+export function formatValidationError(error: ValidationError): string {
+  return `${error.path || '(root)'}\t${error.code}\t${error.message}`;
+}
+
+/**
+ * Read and import a taxonomy file, building its index.
+ * Prints errors to stderr and returns null on failure.
+ */
+export async function loadIndex(io: CliIO, file: string): Promise<TaxonomyIndex | null> {
+  let text: string;
+  try {
+    text = await io.readFile(file);
+  } catch (e) {
+    io.stderr(`Cannot read ${file}: ${e instanceof Error ? e.message : String(e)}`);
+    return null;
+  }
+
+  const result = importTaxonomy(text);
+  if (!result.success || !result.taxonomy) {
+    const errors = result.errors ?? [];
+    io.stderr(`${file}: ${errors.length} validation error(s)`);
+    for (const error of errors) {
+      io.stderr(formatValidationError(error));
+    }
+    return null;
+  }
+
+  return buildTaxonomyIndex(result.taxonomy);
+}
+
+/**
+ * Parse --select values (comma-separated, flag may repeat) into node IDs.
+ * Reports unknown IDs to stderr and returns null if any are missing.
+ */
+export function resolveSelection(
+  io: CliIO,
+  index: TaxonomyIndex,
+  values: string[]
+): Set<NodeId> | null {
+  const ids = values
+    .flatMap((v) => v.split(','))
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+
+  const missing = ids.filter((id) => !index.byId.has(id));
+  if (missing.length > 0) {
+    io.stderr(`Unknown node ID(s): ${missing.join(', ')}`);
+    return null;
+  }
+
+  return new Set(ids);
+}
@@ -0,0 +1,197 @@
+/**
+ * TagSelector CLI - Command Tests
+ *
+ * Runs the dispatcher in-process against an in-memory filesystem.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { run } from '../src/cli.js';
+import type { CliIO } from '../src/io.js';
+
+const taxonomy = {
+  schemaVersion: '1.3.1',
+  meta: { name: 'CLI Test' },
+  nodes: [
+    { id: 'clothing', label: '衣服', parentId: null, kind: 'folder', order: 0, export: true },
+    { id: 'tops', label: '上衣', parentId: 'clothing', kind: 'folder', order: 0, export: true },
+    { id: 'tshirt', label: 'T恤', parentId: 'tops', kind: 'tag', order: 0, aliases: ['tee'] },
+    { id: 'shirt', label: '衬衫', parentId: 'tops', kind: 'tag', order: 1 },
+    { id: 'pants', label: '裤装', parentId: 'clothing', kind: 'folder', order: 1 },
+    { id: 'jeans', label: '牛仔裤', parentId: 'pants', kind: 'tag', order: 0 },
+  ],
+};
+
+const invalidTaxonomy = {
+  schemaVersion: '1.3.1',
+  meta: { name: 'Broken' },
+  nodes: [
+    { id: 'a', label: 'A', parentId: 'missing', kind: 'tag', order: 0 },
+  ],
+};
+
+function createIO(files: Record<string, string>) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIO = {
+    readFile: async (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      return files[path];
+    },
+    stdout: (line) => out.push(line),
+    stderr: (line) => err.push(line),
+  };
+  return { io, out, err };
+}
+
+// Written before schemaVersion existed (JSON.stringify drops the key)
+const unversionedTaxonomy = { ...taxonomy, schemaVersion: undefined };
+
+const files = {
+  'tags.json': JSON.stringify(taxonomy),
+  'old.json': JSON.stringify(unversionedTaxonomy),
+  'broken.json': JSON.stringify(invalidTaxonomy),
+  'garbage.json': '{ not json',
+};
+
+describe('dispatcher', () => {
+  it('prints help and exits 2 without a command', async () => {
+    const { io, out } = createIO(files);
+    expect(await run([], io)).toBe(2);
+    expect(out[0]).toContain('Usage: tagselector');
+  });
+
+  it('rejects unknown commands', async () => {
+    const { io, err } = createIO(files);
+    expect(await run(['frobnicate'], io)).toBe(2);
+    expect(err[0]).toBe('Unknown command: frobnicate');
+  });
+
+  it('rejects unknown options', async () => {
+    const { io } = createIO(files);
+    expect(await run(['format', 'tags.json', '--bogus'], io)).toBe(2);
+  });
+});
+
+describe('validate', () => {
+  it('accepts a valid file', async () => {
+    const { io, out } = createIO(files);
+    expect(await run(['validate', 'tags.json'], io)).toBe(0);
+    expect(out).toEqual(['tags.json: OK']);
+  });
+
+  it('prints one line per error and exits 1', async () => {
+    const { io, out } = createIO(files);
+    expect(await run(['validate', 'broken.json'], io)).toBe(1);
+    expect(out.length).toBeGreaterThan(0);
+    expect(out.some((line) => line.includes('ORPHAN_NODE'))).toBe(true);
+    expect(out[0].split('\t')).toHaveLength(3);
+  });
+
+  it('migrates older files before validating', async () => {
+    const { io, out, err } = createIO(files);
+    expect(await run(['validate', 'old.json'], io)).toBe(0);
+    expect(out).toEqual(['old.json: OK']);
+    expect(err[0]).toMatch(/^old\.json: migrated from schema \S+ to 1\.3\.1$/);
+  });
+
+  it('includes the migration report in --json output', async () => {
+    const { io, out } = createIO(files);
+    expect(await run(['validate', 'old.json', '--json'], io)).toBe(0);
+    const result = JSON.parse(out.join('\n'));
+    expect(result.valid).toBe(true);
+    expect(result.migration.toVersion).toBe('1.3.1');
+  });
+
+  it('validates the file as written with --no-migrate', async () => {
+    const { io, out } = createIO(files);
+    expect(await run(['validate', 'old.json', '--no-migrate'], io)).toBe(1);
+    expect(out.some((line) => line.includes('schemaVersion'))).toBe(true);
+  });
+
+  it('reports invalid JSON', async () => {
+    const { io, err } = createIO(files);
+    expect(await run(['validate', 'garbage.json'], io)).toBe(1);
+    expect(err[0]).toContain('Invalid JSON');
+  });
+
+  it('reports unreadable files', async () => {
+    const { io, err } = createIO(files);
+    expect(await run(['validate', 'nope.json'], io)).toBe(1);
+    expect(err[0]).toContain('Cannot read nope.json');
+  });
+});
+
+describe('export-set', () => {
+  it('includes exportable ancestors only', async () => {
+    const { io, out } = createIO(files);
+    expect(await run(['export-set', 'tags.json', '--select', 'jeans,shirt'], io)).toBe(0);
+    expect(out).toEqual(['clothing', 'tops', 'shirt', 'jeans']);
+  });
+
+  it('supports --no-ancestors and repeated --select', async () => {
+    const { io, out } = createIO(files);
+    const code = await run(
+      ['export-set', 'tags.json', '--no-ancestors', '-s', 'shirt', '-s', 'tshirt', '--json'],
+      io
+    );
+    expect(code).toBe(0);
+    expect(JSON.parse(out[0])).toEqual(['tshirt', 'shirt']);
+  });
+
+  it('fails on unknown IDs', async () => {
+    const { io, err } = createIO(files);
+    expect(await run(['export-set', 'tags.json', '--select', 'nope'], io)).toBe(1);
+    expect(err[0]).toBe('Unknown node ID(s): nope');
+  });
+});
+
+describe('format', () => {
+  it('runs the full export pipeline', async () => {
+    const { io, out } = createIO(files);
+    expect(await run(['format', 'tags.json', '--select', 'tshirt'], io)).toBe(0);
+    expect(out).toEqual(['衣服, 上衣, T恤']);
+  });
+
+  it('honors --separator', async () => {
+    const { io, out } = createIO(files);
+    await run(['format', 'tags.json', '--select', 'tshirt', '--separator', ';'], io);
+    expect(out).toEqual(['衣服;上衣;T恤']);
+  });
+
+  it('honors --formatter', async () => {
+    const { io, out } = createIO(files);
+    await run(['format', 'tags.json', '--select', 'tshirt', '--formatter', 'lightroom'], io);
+    expect(out).toEqual(['衣服|上衣|T恤']);
+  });
+
+  it('rejects unknown formatters', async () => {
+    const { io, err } = createIO(files);
+    expect(await run(['format', 'tags.json', '--select', 'tshirt', '-f', 'nope'], io)).toBe(2);
+    expect(err[0]).toContain('Unknown formatter: nope');
+  });
+
+  it('fails on an invalid taxonomy', async () => {
+    const { io, err } = createIO(files);
+    expect(await run(['format', 'broken.json', '--select', 'a'], io)).toBe(1);
+    expect(err[0]).toContain('validation error');
+  });
+});
+
+describe('search', () => {
+  it('matches labels and aliases', async () => {
+    const { io, out } = createIO(files);
+    expect(await run(['search', 'tags.json', 'tee'], io)).toBe(0);
+    expect(out).toEqual(['tshirt\ttag\tT恤']);
+  });
+
+  it('filters by kind', async () => {
+    const { io, out } = createIO(files);
+    await run(['search', 'tags.json', '裤', '--kind', 'folder'], io);
+    expect(out).toEqual(['pants\tfolder\t裤装']);
+  });
+
+  it('requires a query', async () => {
+    const { io } = createIO(files);
+    expect(await run(['search', 'tags.json'], io)).toBe(2);
+  });
+});
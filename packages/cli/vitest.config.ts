@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@tagselector/tag-core': path.resolve(__dirname, '../tag-core/src/index.ts'),
+    },
+  },
+  test: {
+    globals: true,
+    include: ['tests/**/*.test.ts'],
+  },
+});
@@ -25,15 +25,148 @@ export { computeExportSet } from './ops/export-set.js';
 export type { ExportSetOptions } from './ops/export-set.js';
 export { sortByUserOrder } from './ops/sort.js';
 export { formatForMylio, DEFAULT_SEPARATOR } from './ops/format.js';
+export { parseKeywords } from './ops/parse.js';
+export type {
+  KeywordMatchField,
+  KeywordMatch,
+  AmbiguousKeyword,
+  KeywordParseResult,
+  KeywordParseOptions,
+} from './ops/parse.js';
+export {
+  formatTags,
+  registerFormatter,
+  getFormatter,
+  listFormatters,
+  BUILTIN_FORMATTERS,
+  DEFAULT_FORMATTER_ID,
+  escapeLightroomLabel,
+} from './ops/formatters.js';
+export type { TagFormatter, FormatOptions } from './ops/formatters.js';
+export { escapePromptLabel, unescapePromptLabel, formatPromptTerm, parsePromptTerm } from './ops/prompt-syntax.js';
+export type { PromptSyntax } from './ops/prompt-syntax.js';
+export { splitPromptBuckets, formatPromptExport } from './ops/prompt.js';
+export type { PromptBuckets } from './ops/prompt.js';
 export { normalizeLabel } from './ops/normalize.js';
 export { searchNodes } from './ops/search.js';
+export { rankedSearch } from './ops/ranked-search.js';
+export { buildCooccurrenceModel, suggestByCooccurrence } from './ops/cooccurrence.js';
+export type {
+  CooccurrenceModel,
+  CooccurrenceSuggestion,
+  CooccurrenceOptions,
+} from './ops/cooccurrence.js';
+export { mergeTaxonomies, mergeKeyedItems, mergeValues, deepEqual } from './ops/merge.js';
+export type {
+  MergeSide,
+  MergeConflictType,
+  MergeConflict,
+  MergeOptions,
+  TaxonomyMergeResult,
+  KeyedMergeResult,
+} from './ops/merge.js';
+export { diffTaxonomies, isEmptyDiff } from './ops/diff.js';
+export type { TaxonomyDiff } from './ops/diff.js';
+export type {
+  PinyinConverter,
+  SearchField,
+  SearchMatchKind,
+  SearchMatch,
+  SearchResult,
+  RankedSearchOptions,
+} from './ops/ranked-search.js';
+
+// Rules
+export {
+  validateRules,
+  ruleNeedsTrigger,
+  getRuleSeverity,
+  computeRequiresClosure,
+  computeRequiredTags,
+  computeExcludedTags,
+  evaluateRules,
+  explainSelection,
+  findExclusionConflicts,
+  getRemovalSet,
+  SELECTION_POLICY_KEY,
+  getFolderSelectionPolicy,
+  getPolicyMaxCount,
+  getFolderMembers,
+  getDisplacedByPolicy,
+  checkSelectionPolicies,
+  generateSelections,
+  createSeededRandom,
+} from './rules/index.js';
+export type {
+  RuleType,
+  RuleSeverity,
+  Rule,
+  RuleValidationError,
+  RuleValidationWarning,
+  RuleViolation,
+  TagProvenance,
+  SelectionProvenance,
+  ExclusionConflict,
+  FolderSelectionPolicy,
+  FolderPolicyViolation,
+  GeneratorMode,
+  GeneratorConstraint,
+  GenerateOptions,
+  GenerateResult,
+} from './rules/index.js';
 
 // IO
 export { validateTaxonomy } from './io/schema.js';
 export type { ValidationResult, ValidationError, ValidationErrorCode } from './io/schema.js';
 export { importTaxonomy } from './io/import.js';
-export type { ImportResult } from './io/import.js';
+export type { ImportResult, ImportOptions } from './io/import.js';
+export { migrateTaxonomyData, SCHEMA_MIGRATORS, UNVERSIONED } from './io/migrate.js';
+export type {
+  MigrationReport,
+  MigrationStep,
+  MigrationChange,
+  MigrationContext,
+  SchemaMigrator,
+  ExtensionMigrator,
+  MigrateOptions,
+  MigrateResult,
+} from './io/migrate.js';
 export { exportTaxonomy } from './io/export.js';
 export type { ExportOptions } from './io/export.js';
+export { importTabular, exportTabular, TABULAR_COLUMNS } from './io/tabular.js';
+export type {
+  TabularDelimiter,
+  TabularImportOptions,
+  TabularExportOptions,
+} from './io/tabular.js';
+export { importOutline, exportOutline, OUTLINE_FOLDER_MARKER } from './io/outline.js';
+export type { OutlineImportOptions, OutlineExportOptions } from './io/outline.js';
+export { createZip, crc32 } from './io/zip.js';
+export type { ZipEntry } from './io/zip.js';
+export {
+  formatCaption,
+  exportCaptionZip,
+  captionFileName,
+  sidecarFileNames,
+  stripExtension,
+  isCaptionImage,
+  CAPTION_IMAGE_EXTENSIONS,
+} from './io/captions.js';
+export type { CaptionEntry } from './io/captions.js';
+export {
+  exportXmp,
+  importXmp,
+  exportXmpZip,
+  xmpFileName,
+  XMP_HIERARCHY_SEPARATOR,
+} from './io/xmp.js';
+export type { XmpExportOptions, XmpImportResult } from './io/xmp.js';
+export {
+  exportWildcards,
+  exportWildcardZip,
+  formatDynamicPrompt,
+  wildcardName,
+} from './io/wildcards.js';
+export type { WildcardOptions, WildcardFile } from './io/wildcards.js';
 export { initializeOrder, normalizeOrder } from './io/order-utils.js';
 
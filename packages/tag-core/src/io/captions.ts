@@ -0,0 +1,119 @@
+/**
+ * TagSelector Core - Caption Files
+ * Version: 1.3.1
+ *
+ * Kohya-style training captions: one "<image name>.txt" next to each image,
+ * holding that image's formatted tags.
+ *
+ * Export: computeExportSet -> sortByUserOrder -> formatter (same pipeline as
+ * the export preview). Import is parseKeywords on the caption text.
+ */
+
+import type { NodeId } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+import { computeExportSet } from '../ops/export-set.js';
+import { sortByUserOrder } from '../ops/sort.js';
+import { formatTags, DEFAULT_FORMATTER_ID } from '../ops/formatters.js';
+import type { FormatOptions } from '../ops/formatters.js';
+import { createZip } from './zip.js';
+
+/** Image file extensions recognized in a dataset folder */
+export const CAPTION_IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.bmp', '.gif'];
+
+export interface CaptionEntry {
+  /** Image file name (or relative path) */
+  imageName: string;
+  selectedIds: Iterable<NodeId>;
+  /** Per-entry formatter options (e.g. prompt weights) */
+  options?: FormatOptions;
+}
+
+/**
+ * File name without its extension ("a/b.png" -> "a/b").
+ */
+export function stripExtension(fileName: string): string {
+  const slash = fileName.lastIndexOf('/');
+  const dot = fileName.lastIndexOf('.');
+  return dot > slash + 1 ? fileName.slice(0, dot) : fileName;
+}
+
+/**
+ * Caption file name for an image ("photo.png" -> "photo.txt").
+ */
+export function captionFileName(imageName: string): string {
+  return `${stripExtension(imageName)}.txt`;
+}
+
+/**
+ * Sidecar file names for a batch of images, in the same order
+ * ("photo.png" -> "photo.txt").
+ *
+ * Images whose stems collide (case-insensitively, e.g. "shot.jpg" and
+ * "shot.PNG") keep their extension instead ("shot.jpg.txt", "shot.PNG.txt"),
+ * so every name in the batch is unique.
+ *
+ * @param imageNames - Image file names (or relative paths)
+ * @param extension - Sidecar extension including the dot (e.g. ".txt")
+ */
+export function sidecarFileNames(imageNames: readonly string[], extension: string): string[] {
+  const stemCounts = new Map<string, number>();
+  for (const name of imageNames) {
+    const stem = stripExtension(name).toLowerCase();
+    stemCounts.set(stem, (stemCounts.get(stem) ?? 0) + 1);
+  }
+  return imageNames.map((name) => {
+    const stem = stripExtension(name);
+    return (stemCounts.get(stem.toLowerCase()) ?? 0) > 1 ? `${name}${extension}` : `${stem}${extension}`;
+  });
+}
+
+/**
+ * Whether a file name has an image extension.
+ */
+export function isCaptionImage(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return CAPTION_IMAGE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+/**
+ * Format one image's selection as a caption.
+ *
+ * @param index - The TaxonomyIndex
+ * @param selectedIds - The image's selected node IDs
+ * @param formatterId - Registered formatter ID. Default: "mylio"
+ * @param options - Formatter options
+ */
+export function formatCaption(
+  index: TaxonomyIndex,
+  selectedIds: Iterable<NodeId>,
+  formatterId: string = DEFAULT_FORMATTER_ID,
+  options: FormatOptions = {}
+): string {
+  const exportSet = computeExportSet(index, new Set(selectedIds));
+  return formatTags(index, sortByUserOrder(index, exportSet), formatterId, options);
+}
+
+/**
+ * Bundle captions for many images into a ZIP of "<image>.txt" files
+ * (named by sidecarFileNames, so images sharing a stem do not collide).
+ *
+ * @param index - The TaxonomyIndex
+ * @param entries - Images with their selections
+ * @param formatterId - Registered formatter ID. Default: "mylio"
+ * @param options - Formatter options shared by all entries
+ * @returns ZIP archive bytes
+ */
+export function exportCaptionZip(
+  index: TaxonomyIndex,
+  entries: CaptionEntry[],
+  formatterId: string = DEFAULT_FORMATTER_ID,
+  options: FormatOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const names = sidecarFileNames(entries.map((entry) => entry.imageName), '.txt');
+  return createZip(
+    entries.map((entry, i) => ({
+      name: names[i],
+      data: formatCaption(index, entry.selectedIds, formatterId, { ...options, ...entry.options }),
+    }))
+  );
+}
@@ -4,29 +4,39 @@
  */
 
 import type { Taxonomy } from '../models/taxonomy.js';
-import { SCHEMA_VERSION } from '../models/taxonomy.js';
 import { validateTaxonomy, type ValidationError } from './schema.js';
 import { initializeOrder } from './order-utils.js';
+import { migrateTaxonomyData, type MigrateOptions, type MigrationReport } from './migrate.js';
 
 export interface ImportResult {
   success: boolean;
   taxonomy?: Taxonomy;
   errors?: ValidationError[];
+  /** What migration did before validation (absent if JSON parsing failed) */
+  migration?: MigrationReport;
 }
 
+/**
+ * Import options. Schema migrators default to the built-in chain;
+ * extension migrators are supplied by the host app.
+ */
+export type ImportOptions = MigrateOptions;
+
 /**
  * Import a taxonomy from a JSON string.
  *
  * Process:
  * 1. Parse JSON
- * 2. Validate structure
- * 3. Initialize missing order fields
- * 4. Return result
+ * 2. Migrate older schema versions and extensions
+ * 3. Validate structure
+ * 4. Initialize missing order fields
+ * 5. Return result
  *
  * @param jsonString - The JSON string to parse
- * @returns Import result with taxonomy or errors
+ * @param options - Migrators to run before validation
+ * @returns Import result with taxonomy or errors, plus the migration report
  */
-export function importTaxonomy(jsonString: string): ImportResult {
+export function importTaxonomy(jsonString: string, options: ImportOptions = {}): ImportResult {
   // Step 1: Parse JSON
   let data: unknown;
   try {
@@ -44,29 +54,26 @@ export function importTaxonomy(jsonString: string): ImportResult {
     };
   }
 
-  // Step 2: Validate
-  const validation = validateTaxonomy(data);
+  // Step 2: Migrate
+  const { data: migrated, report } = migrateTaxonomyData(data, options);
+
+  // Step 3: Validate
+  const validation = validateTaxonomy(migrated);
   if (!validation.valid) {
     return {
       success: false,
       errors: validation.errors,
+      migration: report,
     };
   }
 
-  // Step 3: Initialize order for nodes missing it
-  let taxonomy = data as Taxonomy;
-
-  // Ensure schemaVersion is set
-  if (!taxonomy.schemaVersion) {
-    taxonomy = { ...taxonomy, schemaVersion: SCHEMA_VERSION };
-  }
-
-  // Initialize missing order fields
-  taxonomy = initializeOrder(taxonomy);
+  // Step 4: Initialize missing order fields
+  const taxonomy = initializeOrder(migrated as Taxonomy);
 
   return {
     success: true,
     taxonomy,
+    migration: report,
   };
 }
 
@@ -7,10 +7,56 @@ export { validateTaxonomy } from './schema.js';
 export type { ValidationResult, ValidationError, ValidationErrorCode } from './schema.js';
 
 export { importTaxonomy } from './import.js';
-export type { ImportResult } from './import.js';
+export type { ImportResult, ImportOptions } from './import.js';
+
+export { migrateTaxonomyData, SCHEMA_MIGRATORS, UNVERSIONED } from './migrate.js';
+export type {
+  MigrationReport,
+  MigrationStep,
+  MigrationChange,
+  MigrationContext,
+  SchemaMigrator,
+  ExtensionMigrator,
+  MigrateOptions,
+  MigrateResult,
+} from './migrate.js';
 
 export { exportTaxonomy } from './export.js';
 export type { ExportOptions } from './export.js';
+export { importTabular, exportTabular, TABULAR_COLUMNS } from './tabular.js';
+export type {
+  TabularDelimiter,
+  TabularImportOptions,
+  TabularExportOptions,
+} from './tabular.js';
+export { importOutline, exportOutline, OUTLINE_FOLDER_MARKER } from './outline.js';
+export type { OutlineImportOptions, OutlineExportOptions } from './outline.js';
+export { createZip, crc32 } from './zip.js';
+export type { ZipEntry } from './zip.js';
+export {
+  formatCaption,
+  exportCaptionZip,
+  captionFileName,
+  stripExtension,
+  isCaptionImage,
+  CAPTION_IMAGE_EXTENSIONS,
+} from './captions.js';
+export type { CaptionEntry } from './captions.js';
+export {
+  exportXmp,
+  importXmp,
+  exportXmpZip,
+  xmpFileName,
+  XMP_HIERARCHY_SEPARATOR,
+} from './xmp.js';
+export type { XmpExportOptions, XmpImportResult } from './xmp.js';
+export {
+  exportWildcards,
+  exportWildcardZip,
+  formatDynamicPrompt,
+  wildcardName,
+} from './wildcards.js';
+export type { WildcardOptions, WildcardFile } from './wildcards.js';
 
 export { initializeOrder, normalizeOrder } from './order-utils.js';
 
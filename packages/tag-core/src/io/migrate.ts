@@ -0,0 +1,242 @@
+/**
+ * TagSelector Core - Schema Migration
+ * Version: 1.3.1
+ *
+ * Upgrades taxonomy data written by older versions before validation.
+ *
+ * Two independent chains run in one pass:
+ * - Schema migrators, keyed by `schemaVersion` (major.minor)
+ * - Extension migrators, keyed by `meta.extensions[key].version`
+ *
+ * tag-core only ships schema migrators. Extension migrators are supplied by
+ * the host app, since tag-core does not know the shape of its extensions.
+ */
+
+import { SCHEMA_VERSION } from '../models/taxonomy.js';
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(v: unknown): v is UnknownRecord {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+/**
+ * Pseudo-version used for files that have no schemaVersion at all.
+ */
+export const UNVERSIONED = '0.0';
+
+/**
+ * A single change applied during migration (for display/logging).
+ */
+export interface MigrationChange {
+  /** JSON path of the changed value (e.g. "nodes[3].data") */
+  path: string;
+  message: string;
+}
+
+/**
+ * A migrator step that was applied.
+ */
+export interface MigrationStep {
+  /** "schema" or the extension key (e.g. "rules") */
+  target: string;
+  from: string;
+  to: string;
+  description: string;
+}
+
+/**
+ * Report of everything a migration run did.
+ * `steps` is empty when the data was already current.
+ */
+export interface MigrationReport {
+  /** schemaVersion found in the input (UNVERSIONED if missing) */
+  fromVersion: string;
+  /** schemaVersion after migration */
+  toVersion: string;
+  steps: MigrationStep[];
+  changes: MigrationChange[];
+}
+
+/**
+ * Passed to migrators so they can record what they changed.
+ */
+export interface MigrationContext {
+  change: (path: string, message: string) => void;
+}
+
+/**
+ * Upgrades raw taxonomy data from one schema version to the next.
+ *
+ * `from` / `to` are compared by major.minor only; patch versions within
+ * the same minor are always compatible.
+ * Migrators must not mutate their input.
+ */
+export interface SchemaMigrator {
+  from: string;
+  to: string;
+  description: string;
+  migrate: (data: UnknownRecord, ctx: MigrationContext) => UnknownRecord;
+}
+
+/**
+ * Upgrades one entry of `meta.extensions` from one version to the next.
+ *
+ * The current version is read from `value.version`; a value without a
+ * numeric version (including bare arrays) is version 0.
+ * Migrators must not mutate their input.
+ */
+export interface ExtensionMigrator {
+  /** Extension key under meta.extensions (e.g. "rules") */
+  key: string;
+  from: number;
+  to: number;
+  description: string;
+  migrate: (value: unknown, ctx: MigrationContext) => unknown;
+}
+
+export interface MigrateOptions {
+  /** Schema migrators. Default: SCHEMA_MIGRATORS */
+  schemaMigrators?: readonly SchemaMigrator[];
+  /** Extension migrators. Default: none */
+  extensionMigrators?: readonly ExtensionMigrator[];
+}
+
+export interface MigrateResult {
+  /** Migrated data (same reference as the input when nothing changed) */
+  data: unknown;
+  report: MigrationReport;
+}
+
+/**
+ * Built-in schema migrators, oldest first.
+ */
+export const SCHEMA_MIGRATORS: readonly SchemaMigrator[] = [
+  {
+    from: UNVERSIONED,
+    to: '1.3',
+    description: 'Treat unversioned file as 1.3 (schemaVersion is stamped below)',
+    migrate: (data) => data,
+  },
+];
+
+function majorMinor(version: string): string {
+  const [major = '0', minor = '0'] = version.split('.');
+  return `${Number(major)}.${Number(minor)}`;
+}
+
+function getExtensionVersion(value: unknown): number {
+  return isRecord(value) && typeof value.version === 'number' ? value.version : 0;
+}
+
+/**
+ * Run schema and extension migrators over raw (unvalidated) taxonomy data.
+ *
+ * Data that is not an object, or whose version has no migration path,
+ * is returned unchanged so that validation can report the problem.
+ *
+ * @param data - Parsed JSON
+ * @param options - Migrators to use
+ * @returns Migrated data and a report of applied steps
+ */
+export function migrateTaxonomyData(
+  data: unknown,
+  options: MigrateOptions = {}
+): MigrateResult {
+  const { schemaMigrators = SCHEMA_MIGRATORS, extensionMigrators = [] } = options;
+
+  const rawVersion =
+    isRecord(data) && typeof data.schemaVersion === 'string' && data.schemaVersion
+      ? data.schemaVersion
+      : UNVERSIONED;
+
+  const report: MigrationReport = {
+    fromVersion: rawVersion,
+    toVersion: rawVersion,
+    steps: [],
+    changes: [],
+  };
+
+  // Only migrate things that look like a taxonomy
+  if (!isRecord(data) || !Array.isArray(data.nodes)) {
+    return { data, report };
+  }
+
+  const ctx: MigrationContext = {
+    change: (path, message) => report.changes.push({ path, message }),
+  };
+
+  let current: UnknownRecord = data;
+
+  // Step 1: Schema chain
+  const target = majorMinor(SCHEMA_VERSION);
+  let version = majorMinor(rawVersion);
+  const visited = new Set<string>();
+  while (version !== target && !visited.has(version)) {
+    visited.add(version);
+    const migrator = schemaMigrators.find((m) => majorMinor(m.from) === version);
+    if (!migrator) break;
+
+    current = migrator.migrate(current, ctx);
+    report.steps.push({
+      target: 'schema',
+      from: version,
+      to: majorMinor(migrator.to),
+      description: migrator.description,
+    });
+    version = majorMinor(migrator.to);
+  }
+
+  // Stamp the exact current version once we reached the current minor
+  if (version === target && current.schemaVersion !== SCHEMA_VERSION) {
+    ctx.change(
+      'schemaVersion',
+      `schemaVersion ${String(current.schemaVersion ?? '(missing)')} -> ${SCHEMA_VERSION}`
+    );
+    current = { ...current, schemaVersion: SCHEMA_VERSION };
+  }
+
+  // Step 2: Extension chains
+  const meta = current.meta;
+  const extensions = isRecord(meta) && isRecord(meta.extensions) ? meta.extensions : null;
+  if (extensions && extensionMigrators.length > 0) {
+    let nextExtensions = extensions;
+
+    const keys = Array.from(new Set(extensionMigrators.map((m) => m.key)));
+    for (const key of keys) {
+      if (!(key in nextExtensions)) continue;
+
+      let value = nextExtensions[key];
+      let extVersion = getExtensionVersion(value);
+      const seen = new Set<number>();
+      while (!seen.has(extVersion)) {
+        seen.add(extVersion);
+        const migrator = extensionMigrators.find(
+          (m) => m.key === key && m.from === extVersion
+        );
+        if (!migrator) break;
+
+        value = migrator.migrate(value, ctx);
+        report.steps.push({
+          target: key,
+          from: String(migrator.from),
+          to: String(migrator.to),
+          description: migrator.description,
+        });
+        extVersion = migrator.to;
+      }
+
+      if (value !== nextExtensions[key]) {
+        nextExtensions = { ...nextExtensions, [key]: value };
+      }
+    }
+
+    if (nextExtensions !== extensions) {
+      current = { ...current, meta: { ...(meta as UnknownRecord), extensions: nextExtensions } };
+    }
+  }
+
+  report.toVersion = typeof current.schemaVersion === 'string' ? current.schemaVersion : rawVersion;
+
+  return { data: current, report };
+}
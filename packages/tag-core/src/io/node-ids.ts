@@ -0,0 +1,49 @@
+/**
+ * TagSelector Core - Deterministic Node IDs
+ * Version: 1.3.1
+ *
+ * ID generation for importers that read formats without IDs
+ * (CSV rows with an empty id column, plain-text outlines).
+ *
+ * IDs are derived from the label path, so importing the same file twice
+ * yields the same IDs. Format matches the web editor: f_<8 hex> / t_<8 hex>.
+ */
+
+import type { NodeId, NodeKind } from '../models/node.js';
+
+/**
+ * 32-bit FNV-1a hash as 8 hex digits.
+ */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Generate a deterministic node ID from its label path.
+ *
+ * @param kind - Node kind (selects the f_ / t_ prefix)
+ * @param labelPath - Labels from root to the node
+ * @param taken - IDs already in use; the new ID is added to it
+ * @returns A unique node ID
+ */
+export function deterministicNodeId(
+  kind: NodeKind,
+  labelPath: string[],
+  taken: Set<NodeId>
+): NodeId {
+  const prefix = kind === 'folder' ? 'f_' : 't_';
+  const base = prefix + fnv1a(labelPath.join('\u0000'));
+
+  // Same path twice (duplicate siblings): suffix in encounter order
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base}_${n}`;
+  }
+  taken.add(id);
+  return id;
+}
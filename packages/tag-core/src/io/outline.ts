@@ -0,0 +1,146 @@
+/**
+ * TagSelector Core - Indented Outline Import and Export
+ * Version: 1.3.1
+ *
+ * Plain-text outline, one node per line:
+ *
+ *   Clothing/
+ *     Tops/
+ *       T-shirt
+ *       Hoodie
+ *
+ * - Indentation defines the hierarchy (tabs, or a consistent number of spaces)
+ * - A trailing "/" marks a folder; other lines are tags
+ * - Blank lines are ignored
+ * - IDs are generated deterministically from the label path
+ * - order is the position among siblings
+ */
+
+import type { NodeId, TagNode } from '../models/node.js';
+import type { Taxonomy } from '../models/taxonomy.js';
+import { SCHEMA_VERSION } from '../models/taxonomy.js';
+import { buildTaxonomyIndex } from '../ops/index-builder.js';
+import { validateTaxonomy, type ValidationError } from './schema.js';
+import { deterministicNodeId } from './node-ids.js';
+import type { ImportResult } from './import.js';
+
+/** Suffix marking a folder line */
+export const OUTLINE_FOLDER_MARKER = '/';
+
+export interface OutlineImportOptions {
+  /** Taxonomy name for meta.name */
+  name?: string;
+}
+
+export interface OutlineExportOptions {
+  /** Indentation per level. Default: two spaces */
+  indent?: string;
+}
+
+/**
+ * Import a taxonomy from an indented outline.
+ *
+ * @param text - Outline text
+ * @param options - Import options
+ * @returns Import result with taxonomy or errors
+ */
+export function importOutline(text: string, options: OutlineImportOptions = {}): ImportResult {
+  const errors: ValidationError[] = [];
+  const nodes: TagNode[] = [];
+  const taken = new Set<NodeId>();
+
+  // Ancestors of the current line: stack[level] = node at that level
+  const stack: TagNode[] = [];
+  const labelStack: string[] = [];
+  const childCount = new Map<NodeId | null, number>();
+  let spaceUnit = 0;
+
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  lines.forEach((rawLine, i) => {
+    const path = `line ${i + 1}`;
+    if (rawLine.trim() === '') return;
+
+    // Measure indentation
+    const indent = rawLine.match(/^[\t ]*/)![0];
+    const tabs = indent.replace(/ /g, '').length;
+    const spaces = indent.length - tabs;
+    if (spaces > 0 && spaceUnit === 0) spaceUnit = spaces;
+    if (spaceUnit > 0 && spaces % spaceUnit !== 0) {
+      errors.push({ path, message: 'Inconsistent indentation', code: 'INVALID_TYPE' });
+      return;
+    }
+    const level = tabs + (spaceUnit > 0 ? spaces / spaceUnit : 0);
+    if (level > stack.length) {
+      errors.push({ path, message: 'Indented more than one level below its parent', code: 'ORPHAN_NODE' });
+      return;
+    }
+
+    let label = rawLine.trim();
+    const isFolder = label.endsWith(OUTLINE_FOLDER_MARKER);
+    if (isFolder) label = label.slice(0, -OUTLINE_FOLDER_MARKER.length).trim();
+    if (!label) {
+      errors.push({ path, message: 'Empty label', code: 'MISSING_FIELD' });
+      return;
+    }
+
+    stack.length = level;
+    labelStack.length = level;
+    labelStack.push(label);
+
+    const parentId = level > 0 ? stack[level - 1].id : null;
+    const order = childCount.get(parentId) ?? 0;
+    childCount.set(parentId, order + 1);
+
+    const kind = isFolder ? 'folder' : 'tag';
+    const node: TagNode = {
+      id: deterministicNodeId(kind, labelStack, taken),
+      label,
+      parentId,
+      kind,
+      order,
+    };
+    nodes.push(node);
+    stack.push(node);
+  });
+
+  if (errors.length > 0) {
+    return { success: false, errors };
+  }
+
+  const taxonomy: Taxonomy = {
+    schemaVersion: SCHEMA_VERSION,
+    ...(options.name ? { meta: { name: options.name } } : {}),
+    nodes,
+  };
+
+  const validation = validateTaxonomy(taxonomy);
+  if (!validation.valid) {
+    return { success: false, errors: validation.errors };
+  }
+  return { success: true, taxonomy };
+}
+
+/**
+ * Export a taxonomy as an indented outline, children in user order.
+ *
+ * @param taxonomy - The taxonomy to export
+ * @param options - Export options
+ * @returns Outline text
+ */
+export function exportOutline(taxonomy: Taxonomy, options: OutlineExportOptions = {}): string {
+  const { indent = '  ' } = options;
+  const index = buildTaxonomyIndex(taxonomy);
+  const lines: string[] = [];
+
+  const visit = (parentId: NodeId | null, level: number) => {
+    for (const id of index.childrenOf.get(parentId) ?? []) {
+      const node = index.byId.get(id)!;
+      const marker = node.kind === 'folder' ? OUTLINE_FOLDER_MARKER : '';
+      lines.push(indent.repeat(level) + node.label + marker);
+      visit(id, level + 1);
+    }
+  };
+  visit(null, 0);
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,290 @@
+/**
+ * TagSelector Core - CSV / TSV Import and Export
+ * Version: 1.3.1
+ *
+ * One node per row. Columns (header row required, case-insensitive):
+ *   id, label, parent, kind, order, aliases, displayName, color
+ *
+ * Only `label` is required:
+ * - id: empty -> deterministic ID from the label path
+ * - parent: ID of another row, or the label of exactly one other row
+ * - kind: empty -> folder if the row has children, else tag
+ * - order: empty -> position among siblings in the file
+ * - aliases: separated by "|"
+ */
+
+import type { NodeId, NodeKind, TagNode } from '../models/node.js';
+import type { Taxonomy } from '../models/taxonomy.js';
+import { SCHEMA_VERSION } from '../models/taxonomy.js';
+import { buildTaxonomyIndex } from '../ops/index-builder.js';
+import { sortByUserOrder } from '../ops/sort.js';
+import { validateTaxonomy } from './schema.js';
+import { deterministicNodeId } from './node-ids.js';
+import type { ImportResult } from './import.js';
+
+export type TabularDelimiter = ',' | '\t';
+
+/** Column names, in export order */
+export const TABULAR_COLUMNS = [
+  'id',
+  'label',
+  'parent',
+  'kind',
+  'order',
+  'aliases',
+  'displayName',
+  'color',
+] as const;
+
+type TabularColumn = (typeof TABULAR_COLUMNS)[number];
+
+/** Separator between aliases within one cell */
+const ALIAS_SEPARATOR = '|';
+
+export interface TabularImportOptions {
+  /** Field delimiter. Default: detected from the header row */
+  delimiter?: TabularDelimiter;
+  /** Taxonomy name for meta.name */
+  name?: string;
+}
+
+export interface TabularExportOptions {
+  /** Field delimiter. Default: "," */
+  delimiter?: TabularDelimiter;
+}
+
+/**
+ * Split delimited text into rows of fields.
+ * Supports RFC 4180 quoting ("a,b", "say ""hi""") and CRLF line endings.
+ */
+function parseDelimited(text: string, delimiter: TabularDelimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+function quoteField(value: string, delimiter: TabularDelimiter): string {
+  if (value.includes(delimiter) || /["\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+interface TabularRow {
+  id: string;
+  label: string;
+  parent: string;
+  kind: string;
+  order: string;
+  aliases: string;
+  displayName: string;
+  color: string;
+}
+
+/**
+ * Import a taxonomy from CSV or TSV text.
+ *
+ * @param text - CSV / TSV text with a header row
+ * @param options - Import options
+ * @returns Import result with taxonomy or errors
+ */
+export function importTabular(text: string, options: TabularImportOptions = {}): ImportResult {
+  const source = text.replace(/^\uFEFF/, '');
+  const firstLine = source.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = options.delimiter ?? (firstLine.includes('\t') ? '\t' : ',');
+
+  const [header, ...dataRows] = parseDelimited(source, delimiter);
+  if (!header) {
+    return {
+      success: false,
+      errors: [{ path: 'line 1', message: 'Missing header row', code: 'MISSING_FIELD' }],
+    };
+  }
+
+  // Map header names to column positions
+  const columnIndex = new Map<TabularColumn, number>();
+  header.forEach((name, i) => {
+    const column = TABULAR_COLUMNS.find((c) => c.toLowerCase() === name.trim().toLowerCase());
+    if (column && !columnIndex.has(column)) columnIndex.set(column, i);
+  });
+  if (!columnIndex.has('label')) {
+    return {
+      success: false,
+      errors: [{ path: 'line 1', message: 'Missing "label" column', code: 'MISSING_FIELD' }],
+    };
+  }
+
+  const cell = (fields: string[], column: TabularColumn): string => {
+    const i = columnIndex.get(column);
+    return i === undefined ? '' : (fields[i] ?? '').trim();
+  };
+
+  const rows: TabularRow[] = dataRows
+    .filter((fields) => fields.some((f) => f.trim() !== ''))
+    .map((fields) => ({
+      id: cell(fields, 'id'),
+      label: cell(fields, 'label'),
+      parent: cell(fields, 'parent'),
+      kind: cell(fields, 'kind'),
+      order: cell(fields, 'order'),
+      aliases: cell(fields, 'aliases'),
+      displayName: cell(fields, 'displayName'),
+      color: cell(fields, 'color'),
+    }));
+
+  // Resolve parent references: explicit ID first, then a unique label
+  const byId = new Map<string, TabularRow>();
+  for (const row of rows) {
+    if (row.id && !byId.has(row.id)) byId.set(row.id, row);
+  }
+  const byLabel = new Map<string, TabularRow[]>();
+  for (const row of rows) {
+    byLabel.set(row.label, [...(byLabel.get(row.label) ?? []), row]);
+  }
+  const parentRow = new Map<TabularRow, TabularRow>();
+  for (const row of rows) {
+    if (!row.parent) continue;
+    const labelMatches = byLabel.get(row.parent);
+    const target = byId.get(row.parent) ?? (labelMatches?.length === 1 ? labelMatches[0] : undefined);
+    if (target && target !== row) parentRow.set(row, target);
+  }
+
+  const hasChildren = new Set(parentRow.values());
+  const kindOf = (row: TabularRow): NodeKind => {
+    const kind = row.kind.toLowerCase();
+    if (kind) return kind as NodeKind; // invalid kinds are reported by validateTaxonomy
+    return hasChildren.has(row) ? 'folder' : 'tag';
+  };
+
+  // Assign IDs: explicit ones first, so generated IDs never collide with them
+  const taken = new Set<NodeId>(rows.filter((r) => r.id).map((r) => r.id));
+  const labelPath = (row: TabularRow): string[] => {
+    const path: string[] = [];
+    const seen = new Set<TabularRow>();
+    for (let r: TabularRow | undefined = row; r && !seen.has(r); r = parentRow.get(r)) {
+      seen.add(r);
+      path.unshift(r.label);
+    }
+    return path;
+  };
+  const idOf = new Map<TabularRow, NodeId>();
+  for (const row of rows) {
+    idOf.set(row, row.id || deterministicNodeId(kindOf(row), labelPath(row), taken));
+  }
+
+  // Default order: position among siblings in file order
+  const siblingCount = new Map<string, number>();
+  const nodes: TagNode[] = rows.map((row) => {
+    const parent = parentRow.get(row);
+    const parentId = parent ? idOf.get(parent)! : row.parent || null;
+    const siblingKey = parentId ?? '';
+    const position = siblingCount.get(siblingKey) ?? 0;
+    siblingCount.set(siblingKey, position + 1);
+
+    const data: NonNullable<TagNode['data']> = {};
+    const aliases = row.aliases
+      .split(ALIAS_SEPARATOR)
+      .map((a) => a.trim())
+      .filter((a) => a.length > 0);
+    if (aliases.length > 0) data.aliases = aliases;
+    if (row.displayName) data.displayName = row.displayName;
+    if (row.color) data.color = row.color;
+
+    return {
+      id: idOf.get(row)!,
+      label: row.label,
+      parentId,
+      kind: kindOf(row),
+      order: row.order ? Number(row.order) : position,
+      ...(Object.keys(data).length > 0 ? { data } : {}),
+    };
+  });
+
+  const taxonomy: Taxonomy = {
+    schemaVersion: SCHEMA_VERSION,
+    ...(options.name ? { meta: { name: options.name } } : {}),
+    nodes,
+  };
+
+  const validation = validateTaxonomy(taxonomy);
+  if (!validation.valid) {
+    return { success: false, errors: validation.errors };
+  }
+  return { success: true, taxonomy };
+}
+
+/**
+ * Export a taxonomy as CSV or TSV, one row per node in user order.
+ *
+ * @param taxonomy - The taxonomy to export
+ * @param options - Export options
+ * @returns Delimited text with a header row
+ */
+export function exportTabular(taxonomy: Taxonomy, options: TabularExportOptions = {}): string {
+  const { delimiter = ',' } = options;
+  const index = buildTaxonomyIndex(taxonomy);
+  const sortedIds = sortByUserOrder(index, new Set(index.byId.keys()));
+
+  const lines = [TABULAR_COLUMNS.join(delimiter)];
+  for (const id of sortedIds) {
+    const node = index.byId.get(id)!;
+    const aliases = Array.isArray(node.data?.aliases) ? node.data.aliases : node.aliases ?? [];
+    const displayName = typeof node.data?.displayName === 'string' ? node.data.displayName : '';
+    const color = typeof node.data?.color === 'string' ? node.data.color : '';
+
+    const values: Record<TabularColumn, string> = {
+      id: node.id,
+      label: node.label,
+      parent: node.parentId ?? '',
+      kind: node.kind,
+      order: String(node.order),
+      aliases: (aliases as string[]).join(ALIAS_SEPARATOR),
+      displayName,
+      color,
+    };
+    lines.push(TABULAR_COLUMNS.map((c) => quoteField(values[c], delimiter)).join(delimiter));
+  }
+
+  return lines.join('\n') + '\n';
+}
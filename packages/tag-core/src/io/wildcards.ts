@@ -0,0 +1,174 @@
+/**
+ * TagSelector Core - Wildcards and Dynamic Prompts
+ * Version: 1.3.1
+ *
+ * Folders map onto prompt wildcards (A1111 / ComfyUI Dynamic Prompts):
+ * - Wildcard files: every folder becomes "<folder path>.txt" with one
+ *   exported tag of its subtree per line, used as __folder/path__
+ * - Variant syntax: a folder's tags as {a|b|c}
+ *
+ * Tags are the folder's descendants passing shouldExport, in sortByUserOrder
+ * order. File paths use primary labels so they stay stable across label
+ * modes; the lines themselves use labelOf.
+ */
+
+import type { NodeId, TagNode } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+import { shouldExport } from '../models/node.js';
+import { sortByUserOrder } from '../ops/sort.js';
+import { normalizeLabel } from '../ops/normalize.js';
+import { escapePromptLabel } from '../ops/prompt-syntax.js';
+import { createZip } from './zip.js';
+
+export interface WildcardOptions {
+  /** Label to output for a node. Default: node.label */
+  labelOf?: (node: TagNode) => string;
+  /** Only export this folder and the folders below it. Default: all folders */
+  rootId?: NodeId | null;
+}
+
+export interface WildcardFile {
+  /** Wildcard name without underscores, e.g. "clothing/tops" */
+  name: string;
+  /** File path inside the archive, e.g. "clothing/tops.txt" */
+  path: string;
+  /** One prompt term per line */
+  lines: string[];
+}
+
+/** File name segment for a folder label (path separators and reserved characters replaced) */
+function pathSegment(node: TagNode): string {
+  const segment = normalizeLabel(node.label).replace(/[\\/:*?"<>|]/g, '_');
+  return segment === '' ? node.id : segment;
+}
+
+/** Exported descendants of a folder, in user order */
+function exportedDescendants(index: TaxonomyIndex, folderId: NodeId): NodeId[] {
+  const ids = new Set<NodeId>();
+  const visit = (parentId: NodeId) => {
+    for (const id of index.childrenOf.get(parentId) ?? []) {
+      const node = index.byId.get(id);
+      if (!node) continue;
+      if (shouldExport(node)) ids.add(id);
+      visit(id);
+    }
+  };
+  visit(folderId);
+  return sortByUserOrder(index, ids);
+}
+
+/** Prompt terms for nodes, deduplicated */
+function promptTerms(index: TaxonomyIndex, ids: NodeId[], labelOf: (node: TagNode) => string): string[] {
+  const terms = new Set<string>();
+  for (const id of ids) {
+    const node = index.byId.get(id);
+    if (!node) continue;
+    const label = normalizeLabel(labelOf(node));
+    if (label !== '') terms.add(escapePromptLabel(label));
+  }
+  return [...terms];
+}
+
+/**
+ * Wildcard name of a folder ("clothing/tops"; use as "__clothing/tops__").
+ * Does not include the collision suffix exportWildcards may add.
+ *
+ * @param index - The TaxonomyIndex
+ * @param folderId - Folder node ID
+ */
+export function wildcardName(index: TaxonomyIndex, folderId: NodeId): string {
+  const segments: string[] = [];
+  const seen = new Set<NodeId>();
+  let current = index.byId.get(folderId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    segments.unshift(pathSegment(current));
+    current = current.parentId ? index.byId.get(current.parentId) : undefined;
+  }
+  return segments.join('/');
+}
+
+/**
+ * Build wildcard files for every folder (with at least one exported tag).
+ *
+ * Folders whose paths collide (same label under one parent) get a "_2",
+ * "_3", ... suffix in taxonomy order.
+ *
+ * @param index - The TaxonomyIndex
+ * @param options - Label mode and root folder
+ * @returns Files in taxonomy order
+ */
+export function exportWildcards(index: TaxonomyIndex, options: WildcardOptions = {}): WildcardFile[] {
+  const { labelOf = (node: TagNode) => node.label, rootId = null } = options;
+  const files: WildcardFile[] = [];
+  const usedNames = new Set<string>();
+  // Deduplicated names of the folders visited so far (children extend them)
+  const names = new Map<NodeId, string>();
+
+  const visit = (folderId: NodeId) => {
+    const node = index.byId.get(folderId);
+    if (!node || node.kind !== 'folder') return;
+
+    const parentName = node.parentId ? names.get(node.parentId) : undefined;
+    const baseName = parentName !== undefined ? `${parentName}/${pathSegment(node)}` : wildcardName(index, folderId);
+    let name = baseName;
+    for (let n = 2; usedNames.has(name.toLowerCase()); n++) {
+      name = `${baseName}_${n}`;
+    }
+    usedNames.add(name.toLowerCase());
+    names.set(folderId, name);
+
+    const lines = promptTerms(index, exportedDescendants(index, folderId), labelOf);
+    if (lines.length > 0) {
+      files.push({ name, path: `${name}.txt`, lines });
+    }
+
+    for (const childId of index.childrenOf.get(folderId) ?? []) {
+      visit(childId);
+    }
+  };
+
+  for (const id of rootId !== null ? [rootId] : (index.childrenOf.get(null) ?? [])) {
+    visit(id);
+  }
+
+  return files;
+}
+
+/**
+ * Bundle wildcard files into a ZIP.
+ *
+ * @param index - The TaxonomyIndex
+ * @param options - Label mode and root folder
+ * @returns ZIP archive bytes
+ */
+export function exportWildcardZip(index: TaxonomyIndex, options: WildcardOptions = {}): Uint8Array<ArrayBuffer> {
+  return createZip(
+    exportWildcards(index, options).map((file) => ({
+      name: file.path,
+      data: `${file.lines.join('\n')}\n`,
+    }))
+  );
+}
+
+/**
+ * Dynamic Prompts variant syntax for a folder: "{a|b|c}".
+ *
+ * Braces and pipes inside labels are escaped with a backslash.
+ *
+ * @param index - The TaxonomyIndex
+ * @param folderId - Folder node ID
+ * @param options - Label mode (rootId is ignored)
+ * @returns The variant, or "" if the folder has no exported tags
+ */
+export function formatDynamicPrompt(
+  index: TaxonomyIndex,
+  folderId: NodeId,
+  options: WildcardOptions = {}
+): string {
+  const { labelOf = (node: TagNode) => node.label } = options;
+  const terms = promptTerms(index, exportedDescendants(index, folderId), labelOf).map((term) =>
+    term.replace(/[{}|]/g, (ch) => `\\${ch}`)
+  );
+  return terms.length > 0 ? `{${terms.join('|')}}` : '';
+}
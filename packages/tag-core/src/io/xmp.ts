@@ -0,0 +1,241 @@
+/**
+ * TagSelector Core - XMP Sidecars
+ * Version: 1.3.1
+ *
+ * Keyword sidecars readable by Mylio and Lightroom:
+ * - dc:subject: flat labels of the export set (computeExportSet ->
+ *   sortByUserOrder, same as the export preview)
+ * - lr:hierarchicalSubject: "Parent|Child|Tag" paths built from the
+ *   TaxonomyIndex parent chains (folders included)
+ *
+ * Reading resolves hierarchical paths first (walking childrenOf from the
+ * root), then matches remaining flat keywords with parseKeywords.
+ */
+
+import type { NodeId, TagNode } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+import { computeExportSet } from '../ops/export-set.js';
+import { sortByUserOrder } from '../ops/sort.js';
+import { normalizeLabel } from '../ops/normalize.js';
+import { parseKeywords } from '../ops/parse.js';
+import { stripExtension, sidecarFileNames } from './captions.js';
+import type { CaptionEntry } from './captions.js';
+import { createZip } from './zip.js';
+
+/** Separator between levels in lr:hierarchicalSubject */
+export const XMP_HIERARCHY_SEPARATOR = '|';
+
+export interface XmpExportOptions {
+  /** Label to write for a node. Default: node.label */
+  labelOf?: (node: TagNode) => string;
+  /** Write lr:hierarchicalSubject. Default: true */
+  hierarchical?: boolean;
+}
+
+export interface XmpImportResult {
+  /** Matched node IDs, deduplicated, in document order */
+  nodeIds: NodeId[];
+  /** Keywords (or hierarchy paths) matching no single tag */
+  unmatched: string[];
+}
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/[&<>"]/g, (ch) => XML_ESCAPES[ch]);
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      // Not a code point (fromCodePoint would throw): keep the entity as written
+      return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity] ?? '';
+  });
+}
+
+/** Labels from the root down to the node (folders included) */
+function pathLabels(index: TaxonomyIndex, nodeId: NodeId, labelOf: (node: TagNode) => string): string[] {
+  const labels: string[] = [];
+  const seen = new Set<NodeId>();
+  let current = index.byId.get(nodeId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    labels.unshift(labelOf(current));
+    current = current.parentId ? index.byId.get(current.parentId) : undefined;
+  }
+  return labels;
+}
+
+function bag(element: string, items: string[]): string[] {
+  if (items.length === 0) return [];
+  return [
+    `   <${element}>`,
+    '    <rdf:Bag>',
+    ...items.map((item) => `     <rdf:li>${escapeXml(item)}</rdf:li>`),
+    '    </rdf:Bag>',
+    `   </${element}>`,
+  ];
+}
+
+/**
+ * Write an XMP sidecar for one selection.
+ *
+ * @param index - The TaxonomyIndex
+ * @param selectedIds - Selected node IDs
+ * @param options - Label and hierarchy options
+ * @returns XMP document
+ */
+export function exportXmp(
+  index: TaxonomyIndex,
+  selectedIds: Iterable<NodeId>,
+  options: XmpExportOptions = {}
+): string {
+  const { labelOf = (node: TagNode) => node.label, hierarchical = true } = options;
+  const sortedIds = sortByUserOrder(index, computeExportSet(index, new Set(selectedIds)));
+  const nodes = sortedIds
+    .map((id) => index.byId.get(id))
+    .filter((node): node is TagNode => node !== undefined);
+
+  const subjects = [...new Set(nodes.map(labelOf))];
+  const paths = hierarchical
+    ? [...new Set(nodes.map((node) => pathLabels(index, node.id, labelOf).join(XMP_HIERARCHY_SEPARATOR)))]
+    : [];
+
+  return [
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '  <rdf:Description rdf:about=""',
+    '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '    xmlns:lr="http://ns.adobe.com/lightroom/1.0/">',
+    ...bag('dc:subject', subjects),
+    ...bag('lr:hierarchicalSubject', paths),
+    '  </rdf:Description>',
+    ' </rdf:RDF>',
+    '</x:xmpmeta>',
+    '',
+  ].join('\n');
+}
+
+/** rdf:li values inside an element (e.g. "dc:subject") */
+function readListItems(xml: string, element: string): string[] {
+  const block = new RegExp(`<${element}\\b[^>]*>([\\s\\S]*?)</${element}>`).exec(xml);
+  if (!block) return [];
+  const items: string[] = [];
+  for (const match of block[1].matchAll(/<rdf:li\b[^>]*?(?:\/>|>([\s\S]*?)<\/rdf:li>)/g)) {
+    const value = normalizeLabel(unescapeXml(match[1] ?? ''));
+    if (value !== '') items.push(value);
+  }
+  return items;
+}
+
+/** Labels a node can be written as (label or displayName), as match keys */
+function nodeKeys(node: TagNode): string[] {
+  const displayName = node.data?.displayName;
+  const keys = [node.label];
+  if (typeof displayName === 'string' && displayName !== '') keys.push(displayName);
+  return keys.map((key) => normalizeLabel(key).toLowerCase());
+}
+
+/** Walk childrenOf from the root; null unless every level matches exactly one child */
+function resolvePath(index: TaxonomyIndex, labels: string[]): NodeId | null {
+  let parentId: NodeId | null = null;
+  for (const label of labels) {
+    const key = label.toLowerCase();
+    const matches: NodeId[] = (index.childrenOf.get(parentId) ?? []).filter((id) => {
+      const node = index.byId.get(id);
+      return node !== undefined && nodeKeys(node).includes(key);
+    });
+    if (matches.length !== 1) return null;
+    parentId = matches[0];
+  }
+  return parentId;
+}
+
+/**
+ * Read a selection back from an XMP sidecar.
+ *
+ * - Hierarchical paths resolving to a tag select it; paths ending at a
+ *   folder only name ancestors and are ignored
+ * - Flat keywords not covered by a resolved path (and leaves of paths that
+ *   did not resolve) are matched like pasted keywords
+ *
+ * @param index - The TaxonomyIndex
+ * @param xml - XMP document text
+ */
+export function importXmp(index: TaxonomyIndex, xml: string): XmpImportResult {
+  const nodeIds: NodeId[] = [];
+  const unmatched: string[] = [];
+  const covered = new Set<string>();
+  const flat: string[] = [];
+
+  const add = (nodeId: NodeId) => {
+    if (!nodeIds.includes(nodeId)) nodeIds.push(nodeId);
+  };
+
+  for (const path of readListItems(xml, 'lr:hierarchicalSubject')) {
+    const labels = path
+      .split(XMP_HIERARCHY_SEPARATOR)
+      .map((label) => normalizeLabel(label))
+      .filter((label) => label !== '');
+    if (labels.length === 0) continue;
+    const nodeId = resolvePath(index, labels);
+    if (nodeId === null) {
+      flat.push(labels[labels.length - 1]);
+      continue;
+    }
+    labels.forEach((label) => covered.add(label.toLowerCase()));
+    if (index.byId.get(nodeId)?.kind === 'tag') add(nodeId);
+  }
+
+  for (const subject of readListItems(xml, 'dc:subject')) {
+    if (!covered.has(subject.toLowerCase())) flat.push(subject);
+  }
+
+  if (flat.length > 0) {
+    const parsed = parseKeywords(index, flat.join('\n'), { separator: '\n' });
+    parsed.nodeIds.forEach(add);
+    for (const token of [...parsed.ambiguous.map((a) => a.token), ...parsed.unmatched]) {
+      if (!unmatched.includes(token)) unmatched.push(token);
+    }
+  }
+
+  return { nodeIds, unmatched };
+}
+
+/**
+ * Sidecar file name for an image ("photo.jpg" -> "photo.xmp").
+ */
+export function xmpFileName(imageName: string): string {
+  return `${stripExtension(imageName)}.xmp`;
+}
+
+/**
+ * Bundle XMP sidecars for many images into a ZIP (named by
+ * sidecarFileNames, so images sharing a stem do not collide).
+ *
+ * @param index - The TaxonomyIndex
+ * @param entries - Images with their selections (entry options are ignored)
+ * @param options - Label and hierarchy options shared by all entries
+ * @returns ZIP archive bytes
+ */
+export function exportXmpZip(
+  index: TaxonomyIndex,
+  entries: CaptionEntry[],
+  options: XmpExportOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const names = sidecarFileNames(entries.map((entry) => entry.imageName), '.xmp');
+  return createZip(
+    entries.map((entry, i) => ({
+      name: names[i],
+      data: exportXmp(index, entry.selectedIds, options),
+    }))
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * TagSelector Core - ZIP Writer
+ * Version: 1.3.1
+ *
+ * Minimal ZIP archive writer for bundling small text files (caption sets).
+ *
+ * - Entries are STORED (no compression); caption files are tiny
+ * - File names are written as UTF-8 (general purpose flag bit 11)
+ * - No ZIP64: archives must stay under 4 GiB and 65535 entries
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive ("/" separated) */
+  name: string;
+  /** File contents; strings are encoded as UTF-8 */
+  data: Uint8Array | string;
+  /** Modification time. Default: 1980-01-01 (keeps output deterministic) */
+  date?: Date;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * CRC-32 (IEEE 802.3), as used by ZIP.
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** MS-DOS time and date words */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive.
+ *
+ * @param entries - Files to store, in archive order
+ * @returns Archive bytes
+ * @throws Error on duplicate names or archives too large for plain ZIP
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const seen = new Set<string>();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  if (entries.length > 0xffff) {
+    throw new Error('Too many ZIP entries');
+  }
+
+  for (const entry of entries) {
+    if (seen.has(entry.name)) {
+      throw new Error(`Duplicate ZIP entry: ${entry.name}`);
+    }
+    seen.add(entry.name);
+
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+    const { time, date } = dosDateTime(entry.date ?? new Date(1980, 0, 1));
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true); // local file header signature
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, 0x0800, true); // flags: UTF-8 names
+    lv.setUint16(8, 0, true); // method: stored
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true); // compressed size
+    lv.setUint32(22, data.length, true); // uncompressed size
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true); // extra length
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true); // central directory signature
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    // extra length, comment length, disk number, internal/external attributes: 0
+    cv.setUint32(42, offset, true); // local header offset
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+    if (offset > 0xffffffff) {
+      throw new Error('ZIP archive too large');
+    }
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true); // end of central directory signature
+  ev.setUint16(8, entries.length, true); // entries on this disk
+  ev.setUint16(10, entries.length, true); // total entries
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true); // central directory offset
+
+  const out = new Uint8Array(offset + centralSize + end.length);
+  let pos = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,126 @@
+/**
+ * TagSelector Core - Co-occurrence Recommendations
+ * Version: 1.3.1
+ *
+ * Learns "frequently used with" suggestions from past selections.
+ *
+ * lift(A, B) = P(A and B) / (P(A) * P(B))
+ *            = count(A, B) * total / (count(A) * count(B))
+ *
+ * Lift above 1 means B shows up with A more often than chance. A candidate is
+ * scored by its best lift over the currently selected tags; pairs seen fewer
+ * than `minSupport` times are ignored so a single selection can't dominate.
+ */
+
+import type { NodeId } from '../models/node.js';
+
+export interface CooccurrenceModel {
+  /** Number of selections the model was built from */
+  total: number;
+  /** Selections containing each tag */
+  counts: Map<NodeId, number>;
+  /** Selections containing both tags (symmetric) */
+  pairs: Map<NodeId, Map<NodeId, number>>;
+}
+
+export interface CooccurrenceSuggestion {
+  tagId: NodeId;
+  /** Best lift over the selected tags */
+  lift: number;
+  /** Selections containing both the tag and `sourceId` */
+  support: number;
+  /** Selected tag giving the best lift */
+  sourceId: NodeId;
+}
+
+export interface CooccurrenceOptions {
+  /** Minimum pair count. Default: 2 */
+  minSupport?: number;
+  /** Minimum lift. Default: 1 (exclusive) */
+  minLift?: number;
+  /** Maximum number of suggestions. Default: unlimited */
+  limit?: number;
+}
+
+const DEFAULT_MIN_SUPPORT = 2;
+const DEFAULT_MIN_LIFT = 1;
+
+function addPair(pairs: Map<NodeId, Map<NodeId, number>>, a: NodeId, b: NodeId): void {
+  let row = pairs.get(a);
+  if (!row) {
+    row = new Map();
+    pairs.set(a, row);
+  }
+  row.set(b, (row.get(b) ?? 0) + 1);
+}
+
+/**
+ * Build a co-occurrence model from past selections.
+ * Duplicate tags within one selection count once.
+ */
+export function buildCooccurrenceModel(selections: Iterable<readonly NodeId[]>): CooccurrenceModel {
+  const counts = new Map<NodeId, number>();
+  const pairs = new Map<NodeId, Map<NodeId, number>>();
+  let total = 0;
+
+  for (const selection of selections) {
+    const ids = Array.from(new Set(selection));
+    if (ids.length === 0) continue;
+    total++;
+    for (const id of ids) {
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        addPair(pairs, ids[i], ids[j]);
+        addPair(pairs, ids[j], ids[i]);
+      }
+    }
+  }
+
+  return { total, counts, pairs };
+}
+
+/**
+ * Suggest tags that frequently co-occur with the selection, ranked by lift.
+ *
+ * Order: lift (desc), support (desc), tag ID (UTF-16) for determinism.
+ * Selected tags are never suggested.
+ */
+export function suggestByCooccurrence(
+  model: CooccurrenceModel,
+  selectedIds: Iterable<NodeId>,
+  options: CooccurrenceOptions = {}
+): CooccurrenceSuggestion[] {
+  const minSupport = options.minSupport ?? DEFAULT_MIN_SUPPORT;
+  const minLift = options.minLift ?? DEFAULT_MIN_LIFT;
+  const selected = new Set(selectedIds);
+  const best = new Map<NodeId, CooccurrenceSuggestion>();
+
+  for (const sourceId of selected) {
+    const row = model.pairs.get(sourceId);
+    const sourceCount = model.counts.get(sourceId);
+    if (!row || !sourceCount) continue;
+
+    for (const [tagId, support] of row) {
+      if (selected.has(tagId) || support < minSupport) continue;
+      const tagCount = model.counts.get(tagId) ?? 0;
+      if (tagCount === 0) continue;
+      const lift = (support * model.total) / (sourceCount * tagCount);
+      if (lift <= minLift) continue;
+
+      const current = best.get(tagId);
+      if (!current || lift > current.lift || (lift === current.lift && support > current.support)) {
+        best.set(tagId, { tagId, lift, support, sourceId });
+      }
+    }
+  }
+
+  const suggestions = Array.from(best.values()).sort((a, b) => {
+    if (a.lift !== b.lift) return b.lift - a.lift;
+    if (a.support !== b.support) return b.support - a.support;
+    return a.tagId < b.tagId ? -1 : a.tagId > b.tagId ? 1 : 0;
+  });
+
+  return options.limit !== undefined ? suggestions.slice(0, options.limit) : suggestions;
+}
@@ -0,0 +1,97 @@
+/**
+ * TagSelector Core - Taxonomy Diff
+ * Version: 1.3.1
+ *
+ * Summarize what changed between two versions of a taxonomy (e.g. a
+ * snapshot and the current state). Nodes are matched by id:
+ * - added / removed: present on one side only
+ * - renamed: label changed
+ * - moved: parentId changed
+ * - modified: any other field changed (data, aliases, order, ...)
+ *
+ * A node can be renamed, moved and modified at once; it is listed once per
+ * kind of change. meta.extensions is compared per key (rules, quickTrees,
+ * presets, ...); other meta fields are reported as 'meta'.
+ */
+
+import type { NodeId, TagNode } from '../models/node.js';
+import type { Taxonomy } from '../models/taxonomy.js';
+import { deepEqual } from './merge.js';
+
+export interface TaxonomyDiff {
+  added: NodeId[];
+  removed: NodeId[];
+  renamed: NodeId[];
+  moved: NodeId[];
+  modified: NodeId[];
+  /** Changed meta.extensions keys, plus 'meta' for other meta fields */
+  metaChanges: string[];
+}
+
+/** Shallow copy without the given keys */
+function omit(record: object, keys: string[]): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([key]) => !keys.includes(key)));
+}
+
+function extensionsOf(taxonomy: Taxonomy): Record<string, unknown> {
+  const extensions = (taxonomy.meta as Record<string, unknown> | undefined)?.extensions;
+  return extensions && typeof extensions === 'object' ? (extensions as Record<string, unknown>) : {};
+}
+
+/**
+ * Compare two taxonomies.
+ *
+ * @param before - Older version
+ * @param after - Newer version
+ * @returns Node IDs per kind of change, in `after` order (removed: `before` order)
+ */
+export function diffTaxonomies(before: Taxonomy, after: Taxonomy): TaxonomyDiff {
+  const beforeById = new Map<NodeId, TagNode>(before.nodes.map((n) => [n.id, n]));
+  const afterIds = new Set(after.nodes.map((n) => n.id));
+  const diff: TaxonomyDiff = {
+    added: [],
+    removed: before.nodes.filter((n) => !afterIds.has(n.id)).map((n) => n.id),
+    renamed: [],
+    moved: [],
+    modified: [],
+    metaChanges: [],
+  };
+
+  for (const node of after.nodes) {
+    const old = beforeById.get(node.id);
+    if (!old) {
+      diff.added.push(node.id);
+      continue;
+    }
+    if (old.label !== node.label) diff.renamed.push(node.id);
+    if (old.parentId !== node.parentId) diff.moved.push(node.id);
+    if (!deepEqual(omit(old, ['label', 'parentId']), omit(node, ['label', 'parentId']))) {
+      diff.modified.push(node.id);
+    }
+  }
+
+  if (!deepEqual(omit(before.meta ?? {}, ['extensions']), omit(after.meta ?? {}, ['extensions']))) {
+    diff.metaChanges.push('meta');
+  }
+
+  const oldExtensions = extensionsOf(before);
+  const extensions = extensionsOf(after);
+  const keys = new Set([...Object.keys(oldExtensions), ...Object.keys(extensions)]);
+  for (const key of [...keys].sort()) {
+    if (!deepEqual(oldExtensions[key], extensions[key])) diff.metaChanges.push(key);
+  }
+
+  return diff;
+}
+
+/** Whether a diff has no changes */
+export function isEmptyDiff(diff: TaxonomyDiff): boolean {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.renamed.length === 0 &&
+    diff.moved.length === 0 &&
+    diff.modified.length === 0 &&
+    diff.metaChanges.length === 0
+  );
+}
@@ -0,0 +1,204 @@
+/**
+ * TagSelector Core - Output Formatters
+ * Version: 1.3.1
+ *
+ * Pluggable registry of output formatters for sorted export sets.
+ *
+ * Built-in formatters:
+ * - mylio: comma-separated labels (same output as formatForMylio)
+ * - prompt: Stable Diffusion / ComfyUI prompt with (tag:1.2) weights
+ * - prompt-novelai: NovelAI prompt with {tag} / [tag] weights
+ * - lightroom: hierarchical keywords (Parent|Child|Tag), leaf paths only
+ * - json: JSON array of labels
+ *
+ * Formatters only turn sorted IDs into text. Computing the export set and
+ * sorting stay with computeExportSet / sortByUserOrder.
+ */
+
+import type { NodeId, TagNode } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+import { DEFAULT_SEPARATOR } from './format.js';
+import { formatPromptTerm } from './prompt-syntax.js';
+import type { PromptSyntax } from './prompt-syntax.js';
+
+/** Formatter ID used when none is specified */
+export const DEFAULT_FORMATTER_ID = 'mylio';
+
+export interface FormatOptions {
+  /** Separator between entries. Default: ", " (ignored by json) */
+  separator?: string;
+  /** Label to output for a node. Default: node.label */
+  labelOf?: (node: TagNode) => string;
+  /** Prompt weights per node (prompt formatters only). 1 or missing = unweighted */
+  weights?: ReadonlyMap<NodeId, number>;
+}
+
+/**
+ * An output formatter.
+ *
+ * `format` receives IDs already sorted by sortByUserOrder and must not
+ * reorder them. IDs missing from the index are skipped.
+ */
+export interface TagFormatter {
+  /** Unique ID (e.g. "mylio") */
+  id: string;
+  /** Human-readable name for pickers */
+  name: string;
+  format: (index: TaxonomyIndex, sortedIds: NodeId[], options: FormatOptions) => string;
+}
+
+function resolveLabels(
+  index: TaxonomyIndex,
+  sortedIds: NodeId[],
+  options: FormatOptions
+): Array<{ id: NodeId; label: string }> {
+  const labelOf = options.labelOf ?? ((node: TagNode) => node.label);
+  const entries: Array<{ id: NodeId; label: string }> = [];
+
+  for (const nodeId of sortedIds) {
+    const node = index.byId.get(nodeId);
+    if (node) {
+      entries.push({ id: nodeId, label: labelOf(node) });
+    }
+  }
+
+  return entries;
+}
+
+const mylioFormatter: TagFormatter = {
+  id: 'mylio',
+  name: 'Mylio',
+  format(index, sortedIds, options) {
+    return resolveLabels(index, sortedIds, options)
+      .map((e) => e.label)
+      .join(options.separator ?? DEFAULT_SEPARATOR);
+  },
+};
+
+function createPromptFormatter(id: string, name: string, syntax: PromptSyntax): TagFormatter {
+  return {
+    id,
+    name,
+    format(index, sortedIds, options) {
+      return resolveLabels(index, sortedIds, options)
+        .map(({ id: nodeId, label }) => formatPromptTerm(label, options.weights?.get(nodeId), syntax))
+        .join(options.separator ?? DEFAULT_SEPARATOR);
+    },
+  };
+}
+
+const promptFormatter = createPromptFormatter('prompt', 'Prompt (SD / ComfyUI)', 'a1111');
+
+const novelaiPromptFormatter = createPromptFormatter('prompt-novelai', 'Prompt (NovelAI)', 'novelai');
+
+/**
+ * Escape a label for a Lightroom keyword path, where "|" separates levels.
+ */
+export function escapeLightroomLabel(label: string): string {
+  return label.replace(/[\\|]/g, (ch) => `\\${ch}`);
+}
+
+const lightroomFormatter: TagFormatter = {
+  id: 'lightroom',
+  name: 'Lightroom',
+  format(index, sortedIds, options) {
+    const labelOf = options.labelOf ?? ((node: TagNode) => node.label);
+    const paths: string[] = [];
+
+    // A path already implies its ancestors: skip IDs that are an ancestor
+    // of another exported ID instead of emitting "A", "A|B", "A|B|C"
+    const ancestorIds = new Set<NodeId>();
+    for (const nodeId of sortedIds) {
+      let parentId = index.byId.get(nodeId)?.parentId ?? null;
+      while (parentId !== null && !ancestorIds.has(parentId)) {
+        ancestorIds.add(parentId);
+        parentId = index.byId.get(parentId)?.parentId ?? null;
+      }
+    }
+
+    for (const nodeId of sortedIds) {
+      if (!index.byId.has(nodeId) || ancestorIds.has(nodeId)) continue;
+
+      // Walk up to the root; folders are part of the hierarchy even
+      // though they are not exported on their own.
+      const segments: string[] = [];
+      let currentId: NodeId | null = nodeId;
+      while (currentId !== null) {
+        const node = index.byId.get(currentId);
+        if (!node) break;
+        segments.push(escapeLightroomLabel(labelOf(node)));
+        currentId = node.parentId;
+      }
+      paths.push(segments.reverse().join('|'));
+    }
+
+    return paths.join(options.separator ?? DEFAULT_SEPARATOR);
+  },
+};
+
+const jsonFormatter: TagFormatter = {
+  id: 'json',
+  name: 'JSON',
+  format(index, sortedIds, options) {
+    return JSON.stringify(resolveLabels(index, sortedIds, options).map((e) => e.label));
+  },
+};
+
+/**
+ * Built-in formatters, in picker order.
+ */
+export const BUILTIN_FORMATTERS: readonly TagFormatter[] = [
+  mylioFormatter,
+  promptFormatter,
+  novelaiPromptFormatter,
+  lightroomFormatter,
+  jsonFormatter,
+];
+
+const registry = new Map<string, TagFormatter>(
+  BUILTIN_FORMATTERS.map((f) => [f.id, f])
+);
+
+/**
+ * Register a formatter. Replaces any existing formatter with the same ID.
+ */
+export function registerFormatter(formatter: TagFormatter): void {
+  registry.set(formatter.id, formatter);
+}
+
+/**
+ * Look up a formatter by ID.
+ */
+export function getFormatter(id: string): TagFormatter | undefined {
+  return registry.get(id);
+}
+
+/**
+ * All registered formatters, in registration order.
+ */
+export function listFormatters(): TagFormatter[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Format sorted node IDs with a registered formatter.
+ *
+ * @param index - The TaxonomyIndex
+ * @param sortedIds - Array of node IDs (already sorted)
+ * @param formatterId - Registered formatter ID. Default: "mylio"
+ * @param options - Formatter options
+ * @returns Formatted string
+ * @throws Error if no formatter is registered under formatterId
+ */
+export function formatTags(
+  index: TaxonomyIndex,
+  sortedIds: NodeId[],
+  formatterId: string = DEFAULT_FORMATTER_ID,
+  options: FormatOptions = {}
+): string {
+  const formatter = registry.get(formatterId);
+  if (!formatter) {
+    throw new Error(`Unknown formatter: ${formatterId}`);
+  }
+  return formatter.format(index, sortedIds, options);
+}
@@ -9,6 +9,12 @@ export { computeClosure } from './closure.js';
 export { computeExportSet } from './export-set.js';
 export { sortByUserOrder } from './sort.js';
 export { formatForMylio } from './format.js';
+export { parseKeywords } from './parse.js';
+export { formatTags, registerFormatter, getFormatter, listFormatters } from './formatters.js';
+export { splitPromptBuckets, formatPromptExport } from './prompt.js';
 export { normalizeLabel } from './normalize.js';
 export { searchNodes } from './search.js';
-
+export { rankedSearch } from './ranked-search.js';
+export { mergeTaxonomies, mergeKeyedItems, mergeValues, deepEqual } from './merge.js';
+export { diffTaxonomies, isEmptyDiff } from './diff.js';
+export { buildCooccurrenceModel, suggestByCooccurrence } from './cooccurrence.js';
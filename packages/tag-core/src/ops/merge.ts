@@ -0,0 +1,421 @@
+/**
+ * TagSelector Core - Three-Way Merge
+ * Version: 1.3.1
+ *
+ * Merge two edited copies ("ours", "theirs") of a common ancestor ("base").
+ *
+ * Nodes are matched by id and merged field by field:
+ * - Changed on one side only -> take that side
+ * - Changed identically on both sides -> take it
+ * - Changed differently on both sides -> conflict
+ * - data is merged per key (data.color, data.aliases, ...)
+ *
+ * Presence:
+ * - Deleted on one side, unchanged on the other -> deleted
+ * - Deleted on one side, modified on the other -> conflict
+ * - Deleted on one side while the other side still has children under it -> conflict
+ * - Added on both sides with different content -> conflict
+ * - Concurrent moves that would form a cycle -> parentId conflict
+ *
+ * Unresolved conflicts take "ours" in the merged taxonomy (a node whose
+ * deletion conflicts with remaining children is kept). Pass
+ * `resolutions` (conflict id -> side) and merge again to apply choices.
+ * When a folder is deleted anyway, the nodes the other side still has under
+ * it move up to its nearest surviving ancestor (listed in `reparented`).
+ *
+ * Sibling order is renumbered 0, 1, 2, ... (normalizeOrder), so nodes added
+ * on both sides under one parent get distinct positions.
+ *
+ * meta.extensions is host-defined and is copied from "ours"; hosts merge
+ * their own extension collections with mergeKeyedItems / mergeValues.
+ */
+
+import type { NodeId, TagNode } from '../models/node.js';
+import type { Taxonomy } from '../models/taxonomy.js';
+import { normalizeOrder } from '../io/order-utils.js';
+
+export type MergeSide = 'ours' | 'theirs';
+
+/**
+ * - modify: both sides changed the same field / item differently
+ * - delete: one side deleted what the other side changed or still uses
+ * - add: both sides added the same ID with different content
+ */
+export type MergeConflictType = 'modify' | 'delete' | 'add';
+
+/**
+ * A conflict the user must resolve by picking a side.
+ * `undefined` in base / ours / theirs means "absent" (not added or deleted).
+ */
+export interface MergeConflict {
+  /** Stable key for MergeOptions.resolutions */
+  id: string;
+  /** 'node', 'meta', or the collection name passed to mergeKeyedItems */
+  scope: string;
+  /** Node ID, item ID or meta key */
+  key: string;
+  /** Conflicting field (e.g. 'label', 'data.color'); undefined for the whole node / item */
+  field?: string;
+  type: MergeConflictType;
+  base: unknown;
+  ours: unknown;
+  theirs: unknown;
+}
+
+export interface MergeOptions {
+  /** Chosen side per conflict id */
+  resolutions?: Readonly<Record<string, MergeSide>>;
+}
+
+export interface TaxonomyMergeResult {
+  /** Merged taxonomy (unresolved conflicts take "ours") */
+  taxonomy: Taxonomy;
+  /** Conflicts without a resolution */
+  conflicts: MergeConflict[];
+  /** Nodes moved up because the folder holding them was deleted */
+  reparented: NodeId[];
+}
+
+export interface KeyedMergeResult<T> {
+  items: T[];
+  conflicts: MergeConflict[];
+}
+
+/** Node fields merged as whole values (data is merged per key) */
+const NODE_FIELDS = ['label', 'parentId', 'kind', 'order', 'aliases', 'export', 'meta'] as const;
+
+/**
+ * Structural equality for JSON-like values (key order does not matter).
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => deepEqual(v, b[i]));
+  }
+  const ra = a as Record<string, unknown>;
+  const rb = b as Record<string, unknown>;
+  const keys = new Set([...Object.keys(ra), ...Object.keys(rb)]);
+  for (const key of keys) {
+    if (!deepEqual(ra[key], rb[key])) return false;
+  }
+  return true;
+}
+
+/**
+ * Three-way merge of one value.
+ *
+ * @returns The merged value, or `conflict: true` (value is then "ours")
+ */
+export function mergeValues<T>(
+  base: T,
+  ours: T,
+  theirs: T
+): { value: T; conflict: boolean } {
+  if (deepEqual(ours, theirs) || deepEqual(theirs, base)) return { value: ours, conflict: false };
+  if (deepEqual(ours, base)) return { value: theirs, conflict: false };
+  return { value: ours, conflict: true };
+}
+
+/**
+ * Merge one value, recording a conflict (or applying its resolution).
+ */
+function mergeTracked<T>(
+  conflict: Omit<MergeConflict, 'base' | 'ours' | 'theirs'>,
+  base: T,
+  ours: T,
+  theirs: T,
+  options: MergeOptions,
+  conflicts: MergeConflict[]
+): T {
+  const merged = mergeValues(base, ours, theirs);
+  if (!merged.conflict) return merged.value;
+
+  const side = options.resolutions?.[conflict.id];
+  if (side) return side === 'ours' ? ours : theirs;
+  conflicts.push({ ...conflict, base, ours, theirs });
+  return ours;
+}
+
+/**
+ * Three-way merge of an array of items with IDs (rules, quick trees, ...).
+ * Items are compared as whole values. Result order: "ours", then items
+ * only present in "theirs".
+ *
+ * @param scope - Collection name, used in conflict ids (`scope:itemId`)
+ * @param base - Items in the common ancestor
+ * @param ours - Items in our copy
+ * @param theirs - Items in their copy
+ * @param getId - Item ID accessor
+ * @param options - Merge options
+ */
+export function mergeKeyedItems<T>(
+  scope: string,
+  base: readonly T[],
+  ours: readonly T[],
+  theirs: readonly T[],
+  getId: (item: T) => string,
+  options: MergeOptions = {}
+): KeyedMergeResult<T> {
+  const baseById = new Map(base.map((item) => [getId(item), item]));
+  const oursById = new Map(ours.map((item) => [getId(item), item]));
+  const theirsById = new Map(theirs.map((item) => [getId(item), item]));
+
+  const ids = [...oursById.keys()];
+  for (const id of theirsById.keys()) {
+    if (!oursById.has(id)) ids.push(id);
+  }
+  // Deleted on our side but changed on theirs still needs a decision
+  for (const id of baseById.keys()) {
+    if (!ids.includes(id)) ids.push(id);
+  }
+
+  const conflicts: MergeConflict[] = [];
+  const items: T[] = [];
+  for (const id of ids) {
+    const b = baseById.get(id);
+    const o = oursById.get(id);
+    const t = theirsById.get(id);
+    const type: MergeConflictType =
+      b === undefined ? 'add' : o === undefined || t === undefined ? 'delete' : 'modify';
+    const value = mergeTracked({ id: `${scope}:${id}`, scope, key: id, type }, b, o, t, options, conflicts);
+    if (value !== undefined) items.push(value);
+  }
+
+  return { items, conflicts };
+}
+
+/**
+ * Merge one node present in base and both sides, field by field.
+ */
+function mergeNodeFields(
+  base: TagNode,
+  ours: TagNode,
+  theirs: TagNode,
+  options: MergeOptions,
+  conflicts: MergeConflict[]
+): TagNode {
+  const merged: Record<string, unknown> = { id: base.id };
+  const ctx = (field: string) => ({
+    id: `node:${base.id}:${field}`,
+    scope: 'node',
+    key: base.id,
+    field,
+    type: 'modify' as const,
+  });
+
+  for (const field of NODE_FIELDS) {
+    const value = mergeTracked(ctx(field), base[field], ours[field], theirs[field], options, conflicts);
+    if (value !== undefined) merged[field] = value;
+  }
+
+  // data: per key
+  const bd = base.data ?? {};
+  const od = ours.data ?? {};
+  const td = theirs.data ?? {};
+  const data: Record<string, unknown> = {};
+  const keys = [...new Set([...Object.keys(od), ...Object.keys(td), ...Object.keys(bd)])];
+  for (const key of keys) {
+    const value = mergeTracked(ctx(`data.${key}`), bd[key], od[key], td[key], options, conflicts);
+    if (value !== undefined) data[key] = value;
+  }
+  if (Object.keys(data).length > 0) merged.data = data;
+
+  return merged as unknown as TagNode;
+}
+
+/**
+ * Three-way merge of taxonomies by node id.
+ *
+ * @param base - Common ancestor
+ * @param ours - Our copy
+ * @param theirs - Their copy
+ * @param options - Merge options (conflict resolutions)
+ * @returns Merged taxonomy and unresolved conflicts
+ */
+export function mergeTaxonomies(
+  base: Taxonomy,
+  ours: Taxonomy,
+  theirs: Taxonomy,
+  options: MergeOptions = {}
+): TaxonomyMergeResult {
+  const conflicts: MergeConflict[] = [];
+  const baseById = new Map(base.nodes.map((n) => [n.id, n]));
+  const oursById = new Map(ours.nodes.map((n) => [n.id, n]));
+  const theirsById = new Map(theirs.nodes.map((n) => [n.id, n]));
+
+  // Node order: ours, then theirs-only additions, then base nodes deleted by us
+  const ids: NodeId[] = [...oursById.keys()];
+  for (const id of theirsById.keys()) {
+    if (!oursById.has(id)) ids.push(id);
+  }
+  for (const id of baseById.keys()) {
+    if (!oursById.has(id) && !theirsById.has(id)) continue;
+    if (!ids.includes(id)) ids.push(id);
+  }
+
+  const merged = new Map<NodeId, TagNode>();
+  // Nodes deleted by one side, kept only until we know nothing depends on them
+  const deletedBy = new Map<NodeId, MergeSide>();
+  const nodeConflict = (id: NodeId, type: MergeConflictType) => ({
+    id: `node:${id}`,
+    scope: 'node',
+    key: id,
+    type,
+  });
+
+  for (const id of ids) {
+    const b = baseById.get(id);
+    const o = oursById.get(id);
+    const t = theirsById.get(id);
+
+    if (o && t) {
+      if (b) {
+        merged.set(id, mergeNodeFields(b, o, t, options, conflicts));
+      } else {
+        const node = mergeTracked<TagNode | undefined>(nodeConflict(id, 'add'), undefined, o, t, options, conflicts);
+        if (node) merged.set(id, node);
+      }
+      continue;
+    }
+
+    const kept = o ?? t;
+    if (!kept) continue;
+    if (!b) {
+      // Added on one side
+      merged.set(id, kept);
+      continue;
+    }
+
+    // Deleted on one side
+    const deleter: MergeSide = o ? 'theirs' : 'ours';
+    if (!deepEqual(kept, b)) {
+      const node = mergeTracked(nodeConflict(id, 'delete'), b, o, t, options, conflicts);
+      if (node) merged.set(id, node);
+      continue;
+    }
+    const side = options.resolutions?.[`node:${id}`];
+    if (side === undefined) {
+      // Unchanged on the kept side: deleted unless children still need it
+      merged.set(id, kept);
+      deletedBy.set(id, deleter);
+    } else if (side !== deleter) {
+      merged.set(id, kept);
+    }
+  }
+
+  // Apply deletions whose node has no surviving children
+  const hasChildren = (id: NodeId) =>
+    [...merged.values()].some((n) => n.parentId === id && !deletedBy.has(n.id));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const id of deletedBy.keys()) {
+      if (!hasChildren(id)) {
+        merged.delete(id);
+        deletedBy.delete(id);
+        changed = true;
+      }
+    }
+  }
+  for (const [id, deleter] of deletedBy) {
+    const b = baseById.get(id);
+    conflicts.push({
+      ...nodeConflict(id, 'delete'),
+      base: b,
+      ours: deleter === 'ours' ? undefined : b,
+      theirs: deleter === 'theirs' ? undefined : b,
+    });
+  }
+
+  // Nodes whose parent was deleted move up to its nearest surviving ancestor
+  const reparented: NodeId[] = [];
+  const formerParent = (id: NodeId) =>
+    (oursById.get(id) ?? theirsById.get(id) ?? baseById.get(id))?.parentId ?? null;
+  for (const node of merged.values()) {
+    if (node.parentId === null || merged.has(node.parentId)) continue;
+    const known = baseById.has(node.parentId) || oursById.has(node.parentId) || theirsById.has(node.parentId);
+    if (!known) continue;
+    const seen = new Set<NodeId>();
+    let ancestor = formerParent(node.parentId);
+    while (ancestor !== null && !merged.has(ancestor) && !seen.has(ancestor)) {
+      seen.add(ancestor);
+      ancestor = formerParent(ancestor);
+    }
+    merged.set(node.id, { ...node, parentId: ancestor !== null && merged.has(ancestor) ? ancestor : null });
+    reparented.push(node.id);
+  }
+
+  // Concurrent moves forming a cycle: fall back to base parents and report
+  for (const node of merged.values()) {
+    const seen = new Set<NodeId>();
+    let current: NodeId | null = node.id;
+    while (current !== null && !seen.has(current)) {
+      seen.add(current);
+      current = merged.get(current)?.parentId ?? null;
+    }
+    if (current === null) continue;
+
+    // Walk the cycle itself (not the path leading into it)
+    const cycle: NodeId[] = [];
+    let member: NodeId = current;
+    do {
+      cycle.push(member);
+      member = merged.get(member)!.parentId!;
+    } while (member !== current);
+
+    for (const id of cycle) {
+      const n = merged.get(id)!;
+      const b = baseById.get(id);
+      const o = oursById.get(id);
+      const t = theirsById.get(id);
+      if (!b || !o || !t || n.parentId === b.parentId) continue;
+      const conflictId = `node:${id}:parentId`;
+      if (options.resolutions?.[conflictId] || conflicts.some((c) => c.id === conflictId)) continue;
+      conflicts.push({
+        id: conflictId,
+        scope: 'node',
+        key: id,
+        field: 'parentId',
+        type: 'modify',
+        base: b.parentId,
+        ours: o.parentId,
+        theirs: t.parentId,
+      });
+      merged.set(id, { ...n, parentId: b.parentId });
+    }
+  }
+
+  // meta (except host-defined extensions)
+  const baseMeta = (base.meta ?? {}) as Record<string, unknown>;
+  const oursMeta = (ours.meta ?? {}) as Record<string, unknown>;
+  const theirsMeta = (theirs.meta ?? {}) as Record<string, unknown>;
+  const meta: Record<string, unknown> = {};
+  const metaKeys = new Set([...Object.keys(oursMeta), ...Object.keys(theirsMeta), ...Object.keys(baseMeta)]);
+  for (const key of metaKeys) {
+    if (key === 'extensions') {
+      if (oursMeta.extensions !== undefined) meta.extensions = oursMeta.extensions;
+      continue;
+    }
+    const value = mergeTracked(
+      { id: `meta:${key}`, scope: 'meta', key, type: 'modify' },
+      baseMeta[key],
+      oursMeta[key],
+      theirsMeta[key],
+      options,
+      conflicts
+    );
+    if (value !== undefined) meta[key] = value;
+  }
+
+  const taxonomy: Taxonomy = normalizeOrder({
+    schemaVersion: ours.schemaVersion,
+    nodes: [...merged.values()],
+    ...(Object.keys(meta).length > 0 ? { meta: meta as Taxonomy['meta'] } : {}),
+  });
+
+  return { taxonomy, conflicts, reparented };
+}
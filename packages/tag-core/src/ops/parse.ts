@@ -0,0 +1,171 @@
+/**
+ * TagSelector Core - Parse Keywords
+ * Version: 1.3.1
+ *
+ * Inverse of formatForMylio: turns a keyword line or prompt back into node IDs.
+ *
+ * Each token is matched (via normalizeLabel, case-insensitive, "_" read as a
+ * space) against labels first, then displayNames and aliases:
+ * - exactly one node at the best field tier -> matched
+ * - several nodes at the best tier          -> ambiguous (caller picks)
+ * - no node                                 -> unmatched
+ *
+ * Prompt weight syntax is accepted: "(long hair:1.2)" matches "long hair"
+ * and reports weight 1.2.
+ */
+
+import type { NodeId, NodeKind, TagNode } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+import { normalizeLabel } from './normalize.js';
+import { parsePromptTerm } from './prompt-syntax.js';
+
+export type KeywordMatchField = 'label' | 'displayName' | 'alias';
+
+export interface KeywordMatch {
+  /** Token as written (weight syntax removed) */
+  token: string;
+  nodeId: NodeId;
+  field: KeywordMatchField;
+  /** Prompt weight, when the token had one */
+  weight?: number;
+}
+
+export interface AmbiguousKeyword {
+  token: string;
+  /** Nodes matching equally well, in taxonomy order */
+  candidates: NodeId[];
+  weight?: number;
+}
+
+export interface KeywordParseResult {
+  /** Matched node IDs, deduplicated, in text order */
+  nodeIds: NodeId[];
+  matched: KeywordMatch[];
+  ambiguous: AmbiguousKeyword[];
+  /** Tokens matching no node (deduplicated) */
+  unmatched: string[];
+}
+
+export interface KeywordParseOptions {
+  /**
+   * Separator between keywords. Default: commas and line breaks.
+   * Whitespace around tokens is ignored either way.
+   */
+  separator?: string;
+  /** Only match nodes of this kind. Default: 'tag' */
+  kind?: NodeKind;
+}
+
+/** Match key: normalized, lower-case, underscores as spaces */
+function matchKey(text: string): string {
+  return normalizeLabel(text.replace(/_/g, ' ')).toLowerCase();
+}
+
+function splitKeywords(text: string, separator: string | undefined): string[] {
+  const parts = separator ? text.split(separator) : text.split(/[,\r\n]+/);
+  return parts.map((part) => normalizeLabel(part)).filter((part) => part !== '');
+}
+
+function displayNameOf(node: TagNode): string | undefined {
+  const displayName = node.data?.displayName;
+  return typeof displayName === 'string' && displayName !== '' ? displayName : undefined;
+}
+
+function aliasesOf(node: TagNode): string[] {
+  const dataAliases = node.data?.aliases;
+  return [
+    ...(node.aliases ?? []),
+    ...(Array.isArray(dataAliases) ? dataAliases.filter((a): a is string => typeof a === 'string') : []),
+  ];
+}
+
+/**
+ * Lookup tables from match key to nodes, one per field tier.
+ * Nodes are added in taxonomy (sortPath) order so candidates are stable.
+ */
+function buildLookup(index: TaxonomyIndex, kind: NodeKind): Map<KeywordMatchField, Map<string, NodeId[]>> {
+  const lookup = new Map<KeywordMatchField, Map<string, NodeId[]>>([
+    ['label', new Map()],
+    ['displayName', new Map()],
+    ['alias', new Map()],
+  ]);
+  const add = (field: KeywordMatchField, text: string, nodeId: NodeId) => {
+    const table = lookup.get(field)!;
+    const key = matchKey(text);
+    if (key === '') return;
+    const ids = table.get(key);
+    if (!ids) {
+      table.set(key, [nodeId]);
+    } else if (!ids.includes(nodeId)) {
+      ids.push(nodeId);
+    }
+  };
+
+  const visit = (parentId: NodeId | null) => {
+    for (const id of index.childrenOf.get(parentId) ?? []) {
+      const node = index.byId.get(id);
+      if (!node) continue;
+      if (node.kind === kind) {
+        add('label', node.label, id);
+        const displayName = displayNameOf(node);
+        if (displayName) add('displayName', displayName, id);
+        for (const alias of aliasesOf(node)) add('alias', alias, id);
+      }
+      visit(id);
+    }
+  };
+  visit(null);
+
+  return lookup;
+}
+
+/**
+ * Parse a keyword string (or prompt) into node IDs.
+ *
+ * @param index - The TaxonomyIndex
+ * @param text - Pasted keywords, e.g. "beach, (sunny:1.2), long_hair"
+ * @param options - Separator and node kind
+ */
+export function parseKeywords(
+  index: TaxonomyIndex,
+  text: string,
+  options: KeywordParseOptions = {}
+): KeywordParseResult {
+  const lookup = buildLookup(index, options.kind ?? 'tag');
+  const result: KeywordParseResult = { nodeIds: [], matched: [], ambiguous: [], unmatched: [] };
+  const seenIds = new Set<NodeId>();
+  const seenUnmatched = new Set<string>();
+
+  for (const raw of splitKeywords(text, options.separator)) {
+    const { label, weight } = parsePromptTerm(raw);
+    const token = normalizeLabel(label);
+    if (token === '') continue;
+    const key = matchKey(token);
+    const extra = weight !== undefined ? { weight } : {};
+
+    let found = false;
+    for (const [field, table] of lookup) {
+      const candidates = table.get(key);
+      if (!candidates) continue;
+      found = true;
+      if (candidates.length === 1) {
+        const nodeId = candidates[0];
+        result.matched.push({ token, nodeId, field, ...extra });
+        if (!seenIds.has(nodeId)) {
+          seenIds.add(nodeId);
+          result.nodeIds.push(nodeId);
+        }
+      } else {
+        result.ambiguous.push({ token, candidates: [...candidates], ...extra });
+      }
+      break;
+    }
+
+    if (!found && !seenUnmatched.has(key)) {
+      seenUnmatched.add(key);
+      result.unmatched.push(token);
+    }
+  }
+
+  return result;
+}
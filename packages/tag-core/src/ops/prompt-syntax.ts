@@ -0,0 +1,111 @@
+/**
+ * TagSelector Core - Prompt Syntax
+ * Version: 1.3.1
+ *
+ * Weighted prompt terms for AI image generation.
+ *
+ * Supported syntaxes:
+ * - a1111: (tag:1.2), used by Stable Diffusion WebUI and ComfyUI
+ * - novelai: {tag} / [tag], each level multiplies the weight by 1.05
+ */
+
+export type PromptSyntax = 'a1111' | 'novelai';
+
+/** Weight multiplier of one NovelAI brace level */
+const NOVELAI_STEP = 1.05;
+
+/**
+ * Escape characters that have meaning in prompt weight syntax.
+ */
+export function escapePromptLabel(label: string): string {
+  return label.replace(/[\\()]/g, (ch) => `\\${ch}`);
+}
+
+/**
+ * Format a weight for prompt syntax: at most 2 decimals, no trailing zeros.
+ */
+function formatWeight(weight: number): string {
+  return String(Math.round(weight * 100) / 100);
+}
+
+/**
+ * Format a single prompt term with an optional weight.
+ *
+ * A missing, non-finite, non-positive or 1.0 weight produces the bare
+ * (escaped) label.
+ *
+ * @param label - Tag label
+ * @param weight - Weight (1 = neutral)
+ * @param syntax - Prompt syntax. Default: "a1111"
+ * @returns Prompt term
+ */
+export function formatPromptTerm(
+  label: string,
+  weight: number | undefined,
+  syntax: PromptSyntax = 'a1111'
+): string {
+  const isNeutral =
+    weight === undefined || !Number.isFinite(weight) || weight <= 0 || weight === 1;
+
+  if (syntax === 'novelai') {
+    if (isNeutral) return label;
+    const levels = Math.round(Math.log(weight) / Math.log(NOVELAI_STEP));
+    if (levels > 0) return '{'.repeat(levels) + label + '}'.repeat(levels);
+    if (levels < 0) return '['.repeat(-levels) + label + ']'.repeat(-levels);
+    return label;
+  }
+
+  const escaped = escapePromptLabel(label);
+  if (isNeutral) return escaped;
+  return `(${escaped}:${formatWeight(weight)})`;
+}
+
+/** Weight multiplier of one bare A1111 paren level: (tag) */
+const A1111_PAREN_STEP = 1.1;
+
+/**
+ * Undo escapePromptLabel.
+ */
+export function unescapePromptLabel(label: string): string {
+  return label.replace(/\\([\\()])/g, '$1');
+}
+
+/**
+ * Parse a single prompt term back into a label and weight (inverse of
+ * formatPromptTerm, accepting either syntax):
+ * - (tag:1.2) -> 1.2; (tag) / ((tag)) -> 1.1 per level
+ * - {tag} / [tag] -> 1.05 per level up / down
+ *
+ * Weights are rounded to 2 decimals; a neutral weight is returned as undefined.
+ *
+ * @param term - One prompt term (already split from the prompt)
+ * @returns Unescaped label and weight
+ */
+export function parsePromptTerm(term: string): { label: string; weight?: number } {
+  let text = term.trim();
+  let weight = 1;
+
+  const explicit = /^\((.+):\s*(\d+(?:\.\d+)?)\)$/s.exec(text);
+  if (explicit && !explicit[1].endsWith('\\')) {
+    text = explicit[1].trim();
+    weight = Number(explicit[2]);
+  } else {
+    // Bare paren levels: "(tag)" but not an escaped "\(tag\)"
+    while (text.length > 2 && text.startsWith('(') && text.endsWith(')') && !text.endsWith('\\)')) {
+      text = text.slice(1, -1).trim();
+      weight *= A1111_PAREN_STEP;
+    }
+    while (text.length > 2 && text.startsWith('{') && text.endsWith('}')) {
+      text = text.slice(1, -1).trim();
+      weight *= NOVELAI_STEP;
+    }
+    while (text.length > 2 && text.startsWith('[') && text.endsWith(']')) {
+      text = text.slice(1, -1).trim();
+      weight /= NOVELAI_STEP;
+    }
+  }
+
+  const rounded = Math.round(weight * 100) / 100;
+  const label = unescapePromptLabel(text);
+  return rounded === 1 || rounded <= 0 ? { label } : { label, weight: rounded };
+}
@@ -0,0 +1,83 @@
+/**
+ * TagSelector Core - Prompt Export
+ * Version: 1.3.1
+ *
+ * Positive/negative prompt buckets for AI image generation.
+ */
+
+import type { NodeId } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+import { computeExportSet } from './export-set.js';
+import { sortByUserOrder } from './sort.js';
+import { formatTags } from './formatters.js';
+import type { FormatOptions } from './formatters.js';
+
+export interface PromptBuckets {
+  /** Positive prompt IDs: selection closure, sorted */
+  positive: NodeId[];
+  /** Negative prompt IDs: only the negative tags themselves, sorted */
+  negative: NodeId[];
+}
+
+/**
+ * Split a selection into positive and negative prompt buckets.
+ *
+ * The positive bucket goes through the normal export pipeline (closure +
+ * shouldExport). Negative tags skip the ancestor closure: negating a tag
+ * must not negate the folders it lives in. A negative tag that is also an
+ * ancestor of a positive tag stays out of the positive closure, so no tag
+ * lands in both prompts.
+ *
+ * @param index - The TaxonomyIndex
+ * @param selectedIds - All selected node IDs (both buckets)
+ * @param negativeIds - Selected node IDs that belong to the negative bucket
+ * @returns Sorted positive and negative IDs
+ */
+export function splitPromptBuckets(
+  index: TaxonomyIndex,
+  selectedIds: Set<NodeId>,
+  negativeIds: ReadonlySet<NodeId>
+): PromptBuckets {
+  const positiveSelected = new Set<NodeId>();
+  const negativeSelected = new Set<NodeId>();
+  for (const nodeId of selectedIds) {
+    if (negativeIds.has(nodeId)) {
+      negativeSelected.add(nodeId);
+    } else {
+      positiveSelected.add(nodeId);
+    }
+  }
+
+  const positiveSet = computeExportSet(index, positiveSelected);
+  const negativeSet = computeExportSet(index, negativeSelected, { includeAncestors: false });
+  for (const nodeId of negativeSet) positiveSet.delete(nodeId);
+
+  return {
+    positive: sortByUserOrder(index, positiveSet),
+    negative: sortByUserOrder(index, negativeSet),
+  };
+}
+
+/**
+ * Run the export pipeline for both prompt buckets.
+ *
+ * @param index - The TaxonomyIndex
+ * @param selectedIds - All selected node IDs (both buckets)
+ * @param negativeIds - Selected node IDs that belong to the negative bucket
+ * @param formatterId - Registered formatter ID. Default: "prompt"
+ * @param options - Formatter options (weights, labelOf, separator)
+ * @returns Positive and negative output strings
+ */
+export function formatPromptExport(
+  index: TaxonomyIndex,
+  selectedIds: Set<NodeId>,
+  negativeIds: ReadonlySet<NodeId>,
+  formatterId: string = 'prompt',
+  options: FormatOptions = {}
+): { positive: string; negative: string } {
+  const buckets = splitPromptBuckets(index, selectedIds, negativeIds);
+  return {
+    positive: formatTags(index, buckets.positive, formatterId, options),
+    negative: formatTags(index, buckets.negative, formatterId, options),
+  };
+}
@@ -0,0 +1,273 @@
+/**
+ * TagSelector Core - Ranked Search
+ * Version: 1.3.1
+ *
+ * Scored search over label, displayName and aliases.
+ *
+ * Match kinds, best first:
+ * - exact:     whole text equals the query
+ * - prefix:    text starts with the query
+ * - substring: text contains the query
+ * - pinyin:    query spells the pinyin of consecutive characters (weiyi -> 卫衣)
+ * - initials:  query spells the pinyin initials (wy -> 卫衣)
+ * - fuzzy:     text (or a window of it) is within a small edit distance
+ *
+ * Pinyin needs a converter from the host (tag-core ships no dictionary).
+ * Without one, pinyin and initials matches are skipped.
+ */
+
+import type { NodeKind, TagNode } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+import { compareSortPaths } from './sort.js';
+
+/**
+ * Convert text to pinyin, one entry per character (code point).
+ * Non-Chinese characters should be returned unchanged.
+ */
+export type PinyinConverter = (text: string) => string[];
+
+export type SearchField = 'label' | 'displayName' | 'alias';
+
+export type SearchMatchKind = 'exact' | 'prefix' | 'substring' | 'pinyin' | 'initials' | 'fuzzy';
+
+/**
+ * Where and how a node matched.
+ * `ranges` are [start, end) UTF-16 offsets into `text`, for highlighting.
+ */
+export interface SearchMatch {
+  field: SearchField;
+  text: string;
+  kind: SearchMatchKind;
+  ranges: Array<[number, number]>;
+}
+
+export interface SearchResult {
+  node: TagNode;
+  /** Relevance score; higher is better */
+  score: number;
+  /** Best match for this node */
+  match: SearchMatch;
+}
+
+export interface RankedSearchOptions {
+  /** Pinyin converter. Default: none (pinyin matching disabled) */
+  pinyin?: PinyinConverter;
+  /** Only return nodes of this kind */
+  kind?: NodeKind;
+  /** Maximum number of results. Default: unlimited */
+  limit?: number;
+  /**
+   * Maximum edit distance for fuzzy matches.
+   * Default: 0 for queries up to 3 characters, 1 up to 6, else 2.
+   */
+  maxEditDistance?: number;
+}
+
+/** Base score of each match kind */
+const KIND_SCORES: Record<SearchMatchKind, number> = {
+  exact: 100,
+  prefix: 80,
+  substring: 60,
+  pinyin: 50,
+  initials: 40,
+  fuzzy: 30,
+};
+
+/** Penalty subtracted for matches in a less important field */
+const FIELD_PENALTIES: Record<SearchField, number> = {
+  label: 0,
+  displayName: 0,
+  alias: 5,
+};
+
+const CJK_PATTERN = /[\u3400-\u9fff\uf900-\ufaff]/;
+
+function defaultMaxEditDistance(queryLength: number): number {
+  if (queryLength <= 3) return 0;
+  if (queryLength <= 6) return 1;
+  return 2;
+}
+
+/**
+ * Collect searchable texts for a node (trimmed, non-empty).
+ * Aliases are read from both node.aliases and node.data.aliases.
+ */
+function getSearchTexts(node: TagNode): Array<{ field: SearchField; text: string }> {
+  const texts: Array<{ field: SearchField; text: string }> = [];
+  const push = (field: SearchField, value: unknown) => {
+    if (typeof value !== 'string') return;
+    const text = value.trim();
+    if (text && !texts.some((t) => t.text === text)) {
+      texts.push({ field, text });
+    }
+  };
+
+  push('label', node.label);
+  push('displayName', node.data?.displayName);
+  for (const alias of node.aliases ?? []) push('alias', alias);
+  const dataAliases = node.data?.aliases;
+  if (Array.isArray(dataAliases)) {
+    for (const alias of dataAliases) push('alias', alias);
+  }
+
+  return texts;
+}
+
+/**
+ * Levenshtein distance, bailing out once it exceeds `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+      rowMin = Math.min(rowMin, curr[j]);
+    }
+    if (rowMin > max) return max + 1;
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Match the query against the pinyin of consecutive characters.
+ * The last syllable may be partial (weiy -> 卫衣).
+ */
+function matchPinyin(
+  text: string,
+  query: string,
+  pinyin: PinyinConverter
+): { kind: 'pinyin' | 'initials'; range: [number, number] } | null {
+  if (!CJK_PATTERN.test(text)) return null;
+
+  const chars = Array.from(text);
+  const syllables = pinyin(text).map((s) => s.toLowerCase());
+  if (syllables.length !== chars.length) return null;
+
+  // UTF-16 offset of each code point, plus the end offset
+  const offsets = [0];
+  for (const ch of chars) offsets.push(offsets[offsets.length - 1] + ch.length);
+
+  // Full pinyin (greedy, per start position)
+  for (let start = 0; start < chars.length; start++) {
+    let pos = 0;
+    let i = start;
+    while (i < chars.length && pos < query.length) {
+      const syllable = syllables[i];
+      const rest = query.slice(pos);
+      if (rest.startsWith(syllable)) {
+        pos += syllable.length;
+        i++;
+      } else if (syllable.startsWith(rest)) {
+        pos = query.length;
+        i++;
+      } else {
+        break;
+      }
+    }
+    if (pos === query.length && i > start) {
+      return { kind: 'pinyin', range: [offsets[start], offsets[i]] };
+    }
+  }
+
+  // Initials
+  const initials = syllables.map((s) => s[0] ?? '').join('');
+  const at = initials.indexOf(query);
+  if (at >= 0 && query.length > 1) {
+    return { kind: 'initials', range: [offsets[at], offsets[at + query.length]] };
+  }
+
+  return null;
+}
+
+/**
+ * Find the best match of a query in one text, or null.
+ */
+function matchText(
+  text: string,
+  query: string,
+  options: RankedSearchOptions
+): { kind: SearchMatchKind; range: [number, number]; distance: number } | null {
+  const lower = text.toLowerCase();
+
+  if (lower === query) return { kind: 'exact', range: [0, text.length], distance: 0 };
+  if (lower.startsWith(query)) return { kind: 'prefix', range: [0, query.length], distance: 0 };
+  const at = lower.indexOf(query);
+  if (at >= 0) return { kind: 'substring', range: [at, at + query.length], distance: 0 };
+
+  if (options.pinyin) {
+    const compact = query.replace(/\s+/g, '');
+    const pinyinMatch = compact && matchPinyin(text, compact, options.pinyin);
+    if (pinyinMatch) return { ...pinyinMatch, distance: 0 };
+  }
+
+  const max = options.maxEditDistance ?? defaultMaxEditDistance(query.length);
+  if (max <= 0) return null;
+
+  // Whole text first, then windows of the query's length
+  let best: { range: [number, number]; distance: number } | null = null;
+  const whole = editDistance(query, lower, max);
+  if (whole <= max) best = { range: [0, text.length], distance: whole };
+  for (let start = 0; start + query.length <= lower.length; start++) {
+    const distance = editDistance(query, lower.slice(start, start + query.length), max);
+    if (distance <= max && (!best || distance < best.distance)) {
+      best = { range: [start, start + query.length], distance };
+    }
+  }
+  return best && { kind: 'fuzzy', ...best };
+}
+
+/**
+ * Search nodes and rank them by relevance.
+ *
+ * Each node is scored by its best match over label, displayName and
+ * aliases. Results are sorted by score (descending), then by user order.
+ *
+ * @param index - The TaxonomyIndex
+ * @param query - Search query string
+ * @param options - Search options
+ * @returns Ranked search results
+ */
+export function rankedSearch(
+  index: TaxonomyIndex,
+  query: string,
+  options: RankedSearchOptions = {}
+): SearchResult[] {
+  const q = query.trim().toLowerCase();
+  if (!q) {
+    return [];
+  }
+
+  const results: SearchResult[] = [];
+
+  for (const node of index.byId.values()) {
+    if (options.kind && node.kind !== options.kind) continue;
+
+    let best: SearchResult | null = null;
+    for (const { field, text } of getSearchTexts(node)) {
+      const m = matchText(text, q, options);
+      if (!m) continue;
+
+      const score = KIND_SCORES[m.kind] - FIELD_PENALTIES[field] - m.distance * 5;
+      if (!best || score > best.score) {
+        best = { node, score, match: { field, text, kind: m.kind, ranges: [m.range] } };
+      }
+    }
+
+    if (best) results.push(best);
+  }
+
+  results.sort((a, b) => {
+    if (a.score !== b.score) return b.score - a.score;
+    const pathA = index.sortPathCache.get(a.node.id) ?? [];
+    const pathB = index.sortPathCache.get(b.node.id) ?? [];
+    return compareSortPaths(pathA, pathB);
+  });
+
+  return options.limit !== undefined ? results.slice(0, options.limit) : results;
+}
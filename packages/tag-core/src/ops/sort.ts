@@ -24,7 +24,7 @@ import type { TaxonomyIndex } from '../models/index-types.js';
  * @param pathB - Second sortPath
  * @returns Negative if a < b, positive if a > b, zero if equal
  */
-function compareSortPaths(pathA: number[], pathB: number[]): number {
+export function compareSortPaths(pathA: number[], pathB: number[]): number {
   const minLen = Math.min(pathA.length, pathB.length);
 
   for (let i = 0; i < minLen; i++) {
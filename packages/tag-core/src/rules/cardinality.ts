@@ -0,0 +1,177 @@
+/**
+ * TagSelector Core - Folder Selection Policy
+ * Version: 1.3.1
+ *
+ * Per-folder limits on how many tags may be selected inside it, stored on the
+ * folder node as data.selectionPolicy:
+ * - single: radio behavior, picking a tag replaces the folder's current one
+ * - min / max: count range; going over max replaces the oldest picks
+ *
+ * A folder's members are the selected tags anywhere below it (nested folders
+ * included), in selection order.
+ */
+
+import type { NodeId, TagNode } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+
+/** Key of the policy in a folder's data */
+export const SELECTION_POLICY_KEY = 'selectionPolicy';
+
+export interface FolderSelectionPolicy {
+  /** Pick exactly one at a time (max 1, selecting replaces) */
+  single?: boolean;
+  /** Minimum selected tags (checked, not enforced) */
+  min?: number;
+  /** Maximum selected tags (enforced by replacing the oldest) */
+  max?: number;
+}
+
+export interface FolderPolicyViolation {
+  folderId: NodeId;
+  reason: 'too_few' | 'too_many';
+  /** Selected tags in the folder */
+  count: number;
+  min?: number;
+  max?: number;
+}
+
+function toCount(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+/**
+ * Read a folder's selection policy.
+ *
+ * Returns null for tags, folders without a policy, and policies that set
+ * nothing usable. Invalid counts are ignored, as are a max below min and a
+ * single-choice min above 1.
+ */
+export function getFolderSelectionPolicy(node: TagNode): FolderSelectionPolicy | null {
+  if (node.kind !== 'folder') return null;
+  const raw = node.data?.[SELECTION_POLICY_KEY];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const source = raw as Record<string, unknown>;
+  const policy: FolderSelectionPolicy = {};
+  if (source.single === true) policy.single = true;
+  const min = toCount(source.min);
+  if (min !== undefined && min > 0 && (!policy.single || min === 1)) policy.min = min;
+  const max = toCount(source.max);
+  if (!policy.single && max !== undefined && max > 0 && max >= (policy.min ?? 0)) policy.max = max;
+
+  return Object.keys(policy).length > 0 ? policy : null;
+}
+
+/**
+ * Effective maximum of a policy (1 for single-choice), undefined when unlimited.
+ */
+export function getPolicyMaxCount(policy: FolderSelectionPolicy): number | undefined {
+  return policy.single ? 1 : policy.max;
+}
+
+function isInside(nodeId: NodeId, folderId: NodeId, index: TaxonomyIndex): boolean {
+  let current = index.byId.get(nodeId)?.parentId ?? null;
+  const seen = new Set<NodeId>();
+  while (current !== null && !seen.has(current)) {
+    if (current === folderId) return true;
+    seen.add(current);
+    current = index.byId.get(current)?.parentId ?? null;
+  }
+  return false;
+}
+
+/**
+ * Selected tags below a folder, in selection order.
+ */
+export function getFolderMembers(
+  folderId: NodeId,
+  selectedIds: Iterable<NodeId>,
+  index: TaxonomyIndex
+): NodeId[] {
+  const members: NodeId[] = [];
+  for (const id of selectedIds) {
+    if (index.byId.get(id)?.kind === 'tag' && isInside(id, folderId, index)) {
+      members.push(id);
+    }
+  }
+  return members;
+}
+
+/**
+ * Ancestor folders of a node that have a selection policy (nearest first).
+ */
+function policyAncestors(
+  nodeId: NodeId,
+  index: TaxonomyIndex
+): Array<{ folderId: NodeId; policy: FolderSelectionPolicy }> {
+  const result: Array<{ folderId: NodeId; policy: FolderSelectionPolicy }> = [];
+  const seen = new Set<NodeId>();
+  let current = index.byId.get(nodeId)?.parentId ?? null;
+  while (current !== null && !seen.has(current)) {
+    seen.add(current);
+    const node = index.byId.get(current);
+    if (!node) break;
+    const policy = getFolderSelectionPolicy(node);
+    if (policy) result.push({ folderId: current, policy });
+    current = node.parentId;
+  }
+  return result;
+}
+
+/**
+ * Tags replaced when a tag is added to the selection.
+ *
+ * For every folder above the added tag whose max would be exceeded, the
+ * oldest members are displaced (single-choice: the current pick).
+ *
+ * @param selectedIds - Selection before the add (in selection order)
+ * @param addedId - Tag being selected
+ * @returns Tags to deselect (never contains addedId)
+ */
+export function getDisplacedByPolicy(
+  selectedIds: Iterable<NodeId>,
+  addedId: NodeId,
+  index: TaxonomyIndex
+): NodeId[] {
+  const selected = Array.from(selectedIds).filter((id) => id !== addedId);
+  const displaced = new Set<NodeId>();
+
+  for (const { folderId, policy } of policyAncestors(addedId, index)) {
+    const max = getPolicyMaxCount(policy);
+    if (max === undefined) continue;
+    const members = getFolderMembers(folderId, selected, index).filter((id) => !displaced.has(id));
+    const overflow = members.length + 1 - max;
+    for (const id of members.slice(0, Math.max(0, overflow))) {
+      displaced.add(id);
+    }
+  }
+
+  return Array.from(displaced);
+}
+
+/**
+ * Folders whose selected count is outside their policy.
+ *
+ * @returns Violations in taxonomy node order
+ */
+export function checkSelectionPolicies(
+  selectedIds: Iterable<NodeId>,
+  index: TaxonomyIndex
+): FolderPolicyViolation[] {
+  const selected = Array.from(selectedIds);
+  const violations: FolderPolicyViolation[] = [];
+
+  for (const node of index.taxonomy.nodes) {
+    const policy = getFolderSelectionPolicy(node);
+    if (!policy) continue;
+    const count = getFolderMembers(node.id, selected, index).length;
+    const max = getPolicyMaxCount(policy);
+    if (policy.min !== undefined && count < policy.min) {
+      violations.push({ folderId: node.id, reason: 'too_few', count, min: policy.min, max });
+    } else if (max !== undefined && count > max) {
+      violations.push({ folderId: node.id, reason: 'too_many', count, min: policy.min, max });
+    }
+  }
+
+  return violations;
+}
@@ -0,0 +1,214 @@
+/**
+ * TagSelector Core - Rule Enforcement
+ * Version: 1.3.1
+ *
+ * Runtime evaluation of rules against a selection:
+ * - computeRequiredTags: tags to auto-add (enforced REQUIRES, transitive)
+ * - computeExcludedTags: tags to hide / disable (enforced EXCLUDES, AT_MOST_ONE_OF)
+ * - evaluateRules: rules the selection does not satisfy
+ */
+
+import type { NodeId } from '../models/node.js';
+import type { Rule, RuleSeverity, RuleType, RuleViolation } from './types.js';
+
+/** Rule types whose trigger is optional */
+const GROUP_RULE_TYPES: ReadonlySet<RuleType> = new Set(['AT_MOST_ONE_OF', 'AT_LEAST_ONE_OF']);
+
+/**
+ * Whether a rule type must have a trigger tag.
+ */
+export function ruleNeedsTrigger(type: RuleType): boolean {
+  return !GROUP_RULE_TYPES.has(type);
+}
+
+/**
+ * Get a rule's severity (default: 'enforce').
+ */
+export function getRuleSeverity(rule: Rule): RuleSeverity {
+  return rule.severity ?? 'enforce';
+}
+
+function isEnforced(rule: Rule): boolean {
+  return getRuleSeverity(rule) === 'enforce';
+}
+
+/**
+ * Whether a rule applies to the selection: its trigger is selected, or
+ * (group rules without a trigger) anything is selected.
+ */
+function isRuleActive(rule: Rule, selectedIds: ReadonlySet<NodeId>): boolean {
+  if (rule.triggerTagId === null) {
+    return !ruleNeedsTrigger(rule.type) && selectedIds.size > 0;
+  }
+  return selectedIds.has(rule.triggerTagId);
+}
+
+/**
+ * Compute the REQUIRES closure for a trigger.
+ * Returns all tags that must be selected if the trigger is selected.
+ * Handles transitive REQUIRES (A REQUIRES B, B REQUIRES C => A requires {A, B, C}).
+ * Warn-only rules are ignored.
+ */
+export function computeRequiresClosure(triggerId: NodeId, rules: readonly Rule[]): Set<NodeId> {
+  const closure = new Set<NodeId>([triggerId]);
+  const queue = [triggerId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+
+    // Find all REQUIRES rules where current is the trigger
+    for (const rule of rules) {
+      if (rule.type === 'REQUIRES' && rule.triggerTagId === current && isEnforced(rule)) {
+        for (const targetId of rule.targetTagIds) {
+          if (!closure.has(targetId)) {
+            closure.add(targetId);
+            queue.push(targetId);
+          }
+        }
+      }
+    }
+  }
+
+  return closure;
+}
+
+/**
+ * Get all tags that a given tag excludes (directly, not transitively):
+ * its EXCLUDES targets plus its partners in trigger-less AT_MOST_ONE_OF groups.
+ * Warn-only rules are ignored.
+ */
+export function getExcludedTags(tagId: NodeId, rules: readonly Rule[]): Set<NodeId> {
+  const excluded = new Set<NodeId>();
+
+  for (const rule of rules) {
+    if (!isEnforced(rule)) continue;
+    if (rule.type === 'EXCLUDES' && rule.triggerTagId === tagId) {
+      for (const targetId of rule.targetTagIds) {
+        excluded.add(targetId);
+      }
+    } else if (
+      rule.type === 'AT_MOST_ONE_OF' &&
+      rule.triggerTagId === null &&
+      rule.targetTagIds.includes(tagId)
+    ) {
+      for (const member of rule.targetTagIds) {
+        if (member !== tagId) excluded.add(member);
+      }
+    }
+  }
+
+  return excluded;
+}
+
+/**
+ * Compute what tags should be auto-added given current selection and saved rules.
+ * Returns the set of tags to add (excluding already selected).
+ */
+export function computeRequiredTags(
+  selectedIds: ReadonlySet<NodeId>,
+  rules: readonly Rule[]
+): Set<NodeId> {
+  const toAdd = new Set<NodeId>();
+
+  // For each selected tag, compute its REQUIRES closure
+  for (const selectedId of selectedIds) {
+    const closure = computeRequiresClosure(selectedId, rules);
+    for (const required of closure) {
+      if (!selectedIds.has(required)) {
+        toAdd.add(required);
+      }
+    }
+  }
+
+  return toAdd;
+}
+
+/**
+ * Compute what tags should be hidden/disabled given current selection and saved rules.
+ * Returns the set of excluded tag IDs.
+ *
+ * EXCLUDES is BIDIRECTIONAL (mutual exclusion):
+ * - If A EXCLUDES B and A is selected → hide B
+ * - If A EXCLUDES B and B is selected → hide A (reverse direction)
+ *
+ * AT_MOST_ONE_OF (while active): a selected member hides the other members.
+ */
+export function computeExcludedTags(
+  selectedIds: ReadonlySet<NodeId>,
+  rules: readonly Rule[]
+): Set<NodeId> {
+  const excluded = new Set<NodeId>();
+
+  for (const rule of rules) {
+    if (!isEnforced(rule)) continue;
+
+    if (rule.type === 'EXCLUDES' && rule.triggerTagId) {
+      // Forward direction: A selected → hide A's targets
+      if (selectedIds.has(rule.triggerTagId)) {
+        for (const targetId of rule.targetTagIds) excluded.add(targetId);
+      }
+      // Reverse direction: B selected → hide the trigger
+      if (rule.targetTagIds.some((t) => selectedIds.has(t))) {
+        excluded.add(rule.triggerTagId);
+      }
+    } else if (rule.type === 'AT_MOST_ONE_OF' && isRuleActive(rule, selectedIds)) {
+      for (const member of rule.targetTagIds) {
+        if (!selectedIds.has(member)) continue;
+        for (const other of rule.targetTagIds) {
+          if (other !== member) excluded.add(other);
+        }
+      }
+    }
+  }
+
+  return excluded;
+}
+
+/**
+ * Find rules the selection does not satisfy.
+ *
+ * Enforced REQUIRES are not reported (they are auto-added). Everything else
+ * is reported for both severities, so a selection loaded from a preset or
+ * import that breaks an enforced rule is visible too.
+ *
+ * @param selectedIds - Current selection
+ * @param rules - Saved rules
+ * @returns Violations in rule order
+ */
+export function evaluateRules(
+  selectedIds: ReadonlySet<NodeId>,
+  rules: readonly Rule[]
+): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+
+  for (const rule of rules) {
+    if (!isRuleActive(rule, selectedIds)) continue;
+
+    const severity = getRuleSeverity(rule);
+    const selectedTargets = rule.targetTagIds.filter((t) => selectedIds.has(t));
+    const violation = (reason: RuleViolation['reason'], tagIds: NodeId[]) =>
+      violations.push({ ruleId: rule.id, ruleName: rule.name, type: rule.type, severity, reason, tagIds });
+
+    switch (rule.type) {
+      case 'REQUIRES': {
+        const missing = rule.targetTagIds.filter((t) => !selectedIds.has(t));
+        if (severity === 'warn' && missing.length > 0) violation('missing', missing);
+        break;
+      }
+      case 'EXCLUDES':
+        if (selectedTargets.length > 0) violation('excluded', selectedTargets);
+        break;
+      case 'AT_MOST_ONE_OF':
+        if (selectedTargets.length > 1) violation('too_many', selectedTargets);
+        break;
+      case 'REQUIRES_ANY_OF':
+      case 'AT_LEAST_ONE_OF':
+        if (rule.targetTagIds.length > 0 && selectedTargets.length === 0) {
+          violation('none_selected', [...rule.targetTagIds]);
+        }
+        break;
+    }
+  }
+
+  return violations;
+}
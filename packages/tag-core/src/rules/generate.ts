@@ -0,0 +1,225 @@
+/**
+ * TagSelector Core - Selection Generator
+ * Version: 1.3.1
+ *
+ * Generates selections for prompt exploration from folder constraints
+ * ("pick N tags below this folder"):
+ * - random:  seeded samples; the same seed always gives the same batch
+ * - product: every combination (tops x bottoms x ...), in taxonomy order
+ *
+ * Every generated selection satisfies the saved rules: enforced REQUIRES are
+ * closed over (targets added) and selections breaking an enforced EXCLUDES /
+ * AT_MOST_ONE_OF are rejected. Random picks avoid tags already excluded by
+ * earlier picks, so rejections stay rare.
+ */
+
+import type { NodeId } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+import { sortByUserOrder } from '../ops/sort.js';
+import type { Rule } from './types.js';
+import { computeRequiredTags, computeExcludedTags } from './enforce.js';
+import { findExclusionConflicts } from './provenance.js';
+
+export type GeneratorMode = 'random' | 'product';
+
+export interface GeneratorConstraint {
+  /** Folder to pick from (tags anywhere below it) */
+  folderId: NodeId;
+  /** Tags to pick from the folder. Default: 1 */
+  count?: number;
+}
+
+export interface GenerateOptions {
+  /** Default: 'random' */
+  mode?: GeneratorMode;
+  /** Random seed. Default: 0 */
+  seed?: number | string;
+  /** Random: selections to generate. Default: 10 */
+  samples?: number;
+  /** Product: maximum selections to return. Default: 1000 */
+  limit?: number;
+  /** Tags included in every selection */
+  baseIds?: readonly NodeId[];
+  /** Saved rules. Default: none */
+  rules?: readonly Rule[];
+}
+
+export interface GenerateResult {
+  /** Generated selections, each in user order and closed over REQUIRES */
+  selections: NodeId[][];
+  /** Candidates rejected for breaking an exclusion (or repeating a sample) */
+  rejected: number;
+  /**
+   * Product: the batch was cut short, either because more valid combinations
+   * exist than `limit` or because the search gave up (20 candidates per
+   * `limit`) with combinations left unchecked
+   */
+  truncated: boolean;
+}
+
+/** Random draws per requested sample before giving up */
+const ATTEMPTS_PER_SAMPLE = 20;
+
+/** Product: candidates checked per allowed selection before giving up */
+const MAX_CHECKS_PER_SELECTION = 20;
+
+/**
+ * Seeded PRNG (mulberry32). String seeds are hashed with FNV-1a.
+ *
+ * @returns Function returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: number | string): () => number {
+  let state: number;
+  if (typeof seed === 'string') {
+    state = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+      state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+    }
+  } else {
+    state = Math.floor(seed);
+  }
+  state >>>= 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Tags below a folder, in user order */
+function folderTags(index: TaxonomyIndex, folderId: NodeId): NodeId[] {
+  const ids = new Set<NodeId>();
+  const visit = (parentId: NodeId) => {
+    for (const id of index.childrenOf.get(parentId) ?? []) {
+      const node = index.byId.get(id);
+      if (!node) continue;
+      if (node.kind === 'tag') ids.add(id);
+      visit(id);
+    }
+  };
+  visit(folderId);
+  return sortByUserOrder(index, ids);
+}
+
+/** First size-k subset of n items as ascending indices: [0, 1, ..., k-1] */
+function firstCombination(k: number): number[] {
+  return Array.from({ length: k }, (_, i) => i);
+}
+
+/**
+ * Advance indices to the next size-k subset of n items, in lexicographic order.
+ * Wraps around to the first subset and returns false after the last one.
+ */
+function nextCombination(indices: number[], n: number): boolean {
+  const k = indices.length;
+  let i = k - 1;
+  while (i >= 0 && indices[i] === n - k + i) i--;
+  if (i < 0) {
+    indices.forEach((_, j) => (indices[j] = j));
+    return false;
+  }
+  indices[i]++;
+  for (let j = i + 1; j < k; j++) indices[j] = indices[j - 1] + 1;
+  return true;
+}
+
+/**
+ * Close a selection over REQUIRES and check it against exclusions.
+ *
+ * @returns The sorted selection, or null if it breaks an enforced exclusion
+ */
+function finalize(index: TaxonomyIndex, ids: Set<NodeId>, rules: readonly Rule[]): NodeId[] | null {
+  for (const id of computeRequiredTags(ids, rules)) ids.add(id);
+  if (findExclusionConflicts(ids, rules).length > 0) return null;
+  return sortByUserOrder(index, ids);
+}
+
+/**
+ * Generate selections from folder constraints.
+ *
+ * @param index - The TaxonomyIndex
+ * @param constraints - Folders to pick from, applied in order
+ * @param options - Mode, seed, sizes, base tags and rules
+ */
+export function generateSelections(
+  index: TaxonomyIndex,
+  constraints: readonly GeneratorConstraint[],
+  options: GenerateOptions = {}
+): GenerateResult {
+  const { mode = 'random', seed = 0, samples = 10, limit = 1000, baseIds = [], rules = [] } = options;
+  const pools = constraints.map((c) => ({
+    tags: folderTags(index, c.folderId),
+    count: Math.max(0, Math.floor(c.count ?? 1)),
+  }));
+  const result: GenerateResult = { selections: [], rejected: 0, truncated: false };
+  const seen = new Set<string>();
+
+  /** Finalized selection unless it breaks a rule or was generated before */
+  const candidate = (ids: Set<NodeId>): NodeId[] | null => {
+    const selection = finalize(index, ids, rules);
+    return selection && !seen.has(selection.join('\n')) ? selection : null;
+  };
+  const accept = (ids: Set<NodeId>) => {
+    const selection = candidate(ids);
+    if (!selection) {
+      result.rejected++;
+      return;
+    }
+    seen.add(selection.join('\n'));
+    result.selections.push(selection);
+  };
+
+  if (mode === 'random') {
+    const random = createSeededRandom(seed);
+    const target = Math.max(0, Math.floor(samples));
+    for (let attempt = 0; result.selections.length < target && attempt < target * ATTEMPTS_PER_SAMPLE; attempt++) {
+      const ids = new Set<NodeId>(baseIds);
+      for (const pool of pools) {
+        const closed = new Set([...ids, ...computeRequiredTags(ids, rules)]);
+        const excluded = computeExcludedTags(closed, rules);
+        const available = pool.tags.filter((id) => !ids.has(id) && !excluded.has(id));
+        // Partial Fisher-Yates: the first `count` entries are the picks
+        for (let i = 0; i < pool.count && i < available.length; i++) {
+          const j = i + Math.floor(random() * (available.length - i));
+          [available[i], available[j]] = [available[j], available[i]];
+          ids.add(available[i]);
+        }
+      }
+      accept(ids);
+    }
+    return result;
+  }
+
+  // Product: odometer over each constraint's combinations, each enumerated
+  // lazily as index tuples (the full product can be astronomically large)
+  if (pools.some((pool) => pool.count > pool.tags.length)) return result;
+  const positions = pools.map((pool) => firstCombination(pool.count));
+  const maxSelections = Math.max(0, Math.floor(limit));
+  const maxChecks = Math.max(maxSelections, 1) * MAX_CHECKS_PER_SELECTION;
+  for (let checks = 0; ; checks++) {
+    if (checks >= maxChecks) {
+      // Combinations are left unchecked
+      result.truncated = true;
+      break;
+    }
+    const ids = new Set<NodeId>(baseIds);
+    positions.forEach((indices, p) => indices.forEach((i) => ids.add(pools[p].tags[i])));
+    if (result.selections.length >= maxSelections) {
+      // One more valid selection means the batch was cut short
+      if (candidate(ids)) {
+        result.truncated = true;
+        break;
+      }
+    } else {
+      accept(ids);
+    }
+
+    let digit = positions.length - 1;
+    while (digit >= 0 && !nextCombination(positions[digit], pools[digit].tags.length)) digit--;
+    if (digit < 0) break;
+  }
+  return result;
+}
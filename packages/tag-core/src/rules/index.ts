@@ -0,0 +1,40 @@
+/**
+ * TagSelector Core - Rules
+ * Re-export rule types, validation and enforcement
+ */
+
+export type {
+  RuleType,
+  RuleSeverity,
+  Rule,
+  RuleValidationError,
+  RuleValidationWarning,
+  RuleViolation,
+} from './types.js';
+export type { TagProvenance, SelectionProvenance, ExclusionConflict } from './provenance.js';
+export type { FolderSelectionPolicy, FolderPolicyViolation } from './cardinality.js';
+export type {
+  GeneratorMode,
+  GeneratorConstraint,
+  GenerateOptions,
+  GenerateResult,
+} from './generate.js';
+export { validateRules } from './validate.js';
+export {
+  ruleNeedsTrigger,
+  getRuleSeverity,
+  computeRequiresClosure,
+  computeRequiredTags,
+  computeExcludedTags,
+  evaluateRules,
+} from './enforce.js';
+export { explainSelection, findExclusionConflicts, getRemovalSet } from './provenance.js';
+export {
+  SELECTION_POLICY_KEY,
+  getFolderSelectionPolicy,
+  getPolicyMaxCount,
+  getFolderMembers,
+  getDisplacedByPolicy,
+  checkSelectionPolicies,
+} from './cardinality.js';
+export { generateSelections, createSeededRandom } from './generate.js';
@@ -0,0 +1,217 @@
+/**
+ * TagSelector Core - Rule Provenance
+ * Version: 1.3.1
+ *
+ * Explains runtime enforcement: why a tag is (or will be) auto-added, why a
+ * tag is hidden, and which selected tags break an exclusion.
+ *
+ * A chain runs from the tag the user picked to the explained tag:
+ *   A REQUIRES B, B REQUIRES C, A selected -> C: chain [A, B, C]
+ *   ... and C EXCLUDES X                   -> X: chain [A, B, C, X]
+ *
+ * Only enforced rules are explained (warn-only rules change nothing).
+ */
+
+import type { NodeId } from '../models/node.js';
+import type { Rule, RuleType } from './types.js';
+import { computeRequiresClosure, getRuleSeverity } from './enforce.js';
+
+/** Why one tag is required or excluded */
+export interface TagProvenance {
+  ruleId: string;
+  ruleName: string;
+  ruleType: RuleType;
+  /** Selected (or auto-added) tag whose rule applies */
+  sourceId: NodeId;
+  /** From the user-picked tag to the explained tag */
+  chain: NodeId[];
+}
+
+export interface SelectionProvenance {
+  /** Auto-added (or about to be) tags: shortest chain from a user-picked tag */
+  required: Map<NodeId, TagProvenance>;
+  /** Hidden tags: every rule hiding them */
+  excluded: Map<NodeId, TagProvenance[]>;
+}
+
+/**
+ * Selected tags that break an enforced exclusion.
+ * Keeping one side means deselecting the tags of all other sides.
+ * - EXCLUDES: [[trigger], [selected targets]]
+ * - AT_MOST_ONE_OF: one side per selected member
+ */
+export interface ExclusionConflict {
+  ruleId: string;
+  ruleName: string;
+  ruleType: RuleType;
+  sides: NodeId[][];
+}
+
+function enforcedRules(rules: readonly Rule[]): Rule[] {
+  return rules.filter((r) => getRuleSeverity(r) === 'enforce');
+}
+
+/**
+ * Explain the enforced rules for a selection.
+ *
+ * @param selectedIds - Current selection (may already contain auto-added tags)
+ * @param rules - Saved rules
+ */
+export function explainSelection(
+  selectedIds: ReadonlySet<NodeId>,
+  rules: readonly Rule[]
+): SelectionProvenance {
+  const active = enforcedRules(rules);
+  const requires = active.filter((r) => r.type === 'REQUIRES' && r.triggerTagId !== null);
+
+  // User-picked tags first: selected tags no other selected tag requires
+  const requiredByOthers = new Set<NodeId>();
+  for (const id of selectedIds) {
+    for (const required of computeRequiresClosure(id, active)) {
+      if (required !== id) requiredByOthers.add(required);
+    }
+  }
+  const seeds = [
+    ...[...selectedIds].filter((id) => !requiredByOthers.has(id)),
+    ...[...selectedIds].filter((id) => requiredByOthers.has(id)),
+  ];
+
+  const required = new Map<NodeId, TagProvenance>();
+  for (const seed of seeds) {
+    // BFS over REQUIRES from this seed
+    const chains = new Map<NodeId, NodeId[]>([[seed, [seed]]]);
+    const queue = [seed];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const chain = chains.get(current)!;
+      for (const rule of requires) {
+        if (rule.triggerTagId !== current) continue;
+        for (const target of rule.targetTagIds) {
+          if (chains.has(target)) continue;
+          const next = [...chain, target];
+          chains.set(target, next);
+          queue.push(target);
+
+          const existing = required.get(target);
+          const seedIsPicked = !requiredByOthers.has(seed);
+          if (
+            target !== seed &&
+            (!existing || (seedIsPicked && next.length < existing.chain.length))
+          ) {
+            required.set(target, {
+              ruleId: rule.id,
+              ruleName: rule.name,
+              ruleType: rule.type,
+              sourceId: current,
+              chain: next,
+            });
+          }
+        }
+      }
+    }
+  }
+
+  const chainTo = (id: NodeId): NodeId[] => required.get(id)?.chain ?? [id];
+
+  const excluded = new Map<NodeId, TagProvenance[]>();
+  const addExcluded = (tagId: NodeId, rule: Rule, sourceId: NodeId) => {
+    const list = excluded.get(tagId) ?? [];
+    if (list.some((p) => p.ruleId === rule.id && p.sourceId === sourceId)) return;
+    list.push({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      ruleType: rule.type,
+      sourceId,
+      chain: [...chainTo(sourceId), tagId],
+    });
+    excluded.set(tagId, list);
+  };
+
+  for (const rule of active) {
+    if (rule.type === 'EXCLUDES' && rule.triggerTagId) {
+      if (selectedIds.has(rule.triggerTagId)) {
+        for (const target of rule.targetTagIds) addExcluded(target, rule, rule.triggerTagId);
+      }
+      for (const target of rule.targetTagIds) {
+        if (selectedIds.has(target)) addExcluded(rule.triggerTagId, rule, target);
+      }
+    } else if (rule.type === 'AT_MOST_ONE_OF') {
+      const isActive =
+        rule.triggerTagId === null ? selectedIds.size > 0 : selectedIds.has(rule.triggerTagId);
+      if (!isActive) continue;
+      for (const member of rule.targetTagIds) {
+        if (!selectedIds.has(member)) continue;
+        for (const other of rule.targetTagIds) {
+          if (other !== member) addExcluded(other, rule, member);
+        }
+      }
+    }
+  }
+
+  return { required, excluded };
+}
+
+/**
+ * Find enforced exclusions the selection breaks (e.g. after setSelection,
+ * a restored selection or an import).
+ *
+ * @param selectedIds - Current selection
+ * @param rules - Saved rules
+ */
+export function findExclusionConflicts(
+  selectedIds: ReadonlySet<NodeId>,
+  rules: readonly Rule[]
+): ExclusionConflict[] {
+  const conflicts: ExclusionConflict[] = [];
+
+  for (const rule of enforcedRules(rules)) {
+    const selectedTargets = rule.targetTagIds.filter((t) => selectedIds.has(t));
+    const base = { ruleId: rule.id, ruleName: rule.name, ruleType: rule.type };
+
+    if (rule.type === 'EXCLUDES' && rule.triggerTagId && selectedIds.has(rule.triggerTagId)) {
+      if (selectedTargets.length > 0) {
+        conflicts.push({ ...base, sides: [[rule.triggerTagId], selectedTargets] });
+      }
+    } else if (rule.type === 'AT_MOST_ONE_OF' && selectedTargets.length > 1) {
+      const isActive = rule.triggerTagId === null || selectedIds.has(rule.triggerTagId);
+      if (isActive) {
+        conflicts.push({ ...base, sides: selectedTargets.map((t) => [t]) });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Tags to deselect so that `tagIds` stay deselected: the tags themselves
+ * plus every tag on the REQUIRES chains that would re-add them.
+ *
+ * @param tagIds - Tags to remove
+ * @param selectedIds - Current selection
+ * @param rules - Saved rules
+ */
+export function getRemovalSet(
+  tagIds: readonly NodeId[],
+  selectedIds: ReadonlySet<NodeId>,
+  rules: readonly Rule[]
+): Set<NodeId> {
+  const active = enforcedRules(rules);
+  const removal = new Set<NodeId>(tagIds);
+
+  // Any selected tag whose REQUIRES closure contains a removed tag must go too
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const id of selectedIds) {
+      if (removal.has(id)) continue;
+      const closure = computeRequiresClosure(id, active);
+      if ([...removal].some((r) => closure.has(r))) {
+        removal.add(id);
+        changed = true;
+      }
+    }
+  }
+
+  return removal;
+}
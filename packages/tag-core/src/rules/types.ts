@@ -0,0 +1,105 @@
+/**
+ * TagSelector Core - Rule Types
+ * Version: 1.3.1
+ *
+ * Tag relationship rules between a trigger tag and target tags.
+ *
+ * Rule types:
+ * - REQUIRES:        trigger selected -> every target is added
+ * - EXCLUDES:        trigger and targets are mutually exclusive (both directions)
+ * - REQUIRES_ANY_OF: trigger selected -> at least one target must be selected
+ * - AT_MOST_ONE_OF:  targets form a mutual-exclusion group
+ * - AT_LEAST_ONE_OF: at least one target must be selected
+ *
+ * The two group types (AT_MOST_ONE_OF, AT_LEAST_ONE_OF) may omit the trigger;
+ * they then apply whenever anything is selected.
+ *
+ * Severity:
+ * - 'enforce' (default): REQUIRES auto-adds, EXCLUDES / AT_MOST_ONE_OF hide tags
+ * - 'warn': never changes the selection or hides tags, only reports violations
+ */
+
+import type { NodeId } from '../models/node.js';
+
+/** Rule type: what relationship exists between trigger and targets */
+export type RuleType =
+  | 'EXCLUDES'
+  | 'REQUIRES'
+  | 'REQUIRES_ANY_OF'
+  | 'AT_MOST_ONE_OF'
+  | 'AT_LEAST_ONE_OF';
+
+/** How a rule is applied */
+export type RuleSeverity = 'enforce' | 'warn';
+
+/** A single rule */
+export interface Rule {
+  /** Unique identifier */
+  id: string;
+  /** User-editable name */
+  name: string;
+  /** Trigger tag ID (A). Null if not set (allowed for group rules). */
+  triggerTagId: NodeId | null;
+  /** Rule type */
+  type: RuleType;
+  /** Target tag IDs (B, C, D...) */
+  targetTagIds: NodeId[];
+  /** Default: 'enforce' */
+  severity?: RuleSeverity;
+}
+
+/** Validation error with enough info for UI display */
+export interface RuleValidationError {
+  /** Error type for categorization */
+  errorType:
+    | 'EMPTY_NAME'
+    | 'NO_TRIGGER'
+    | 'TRIGGER_NOT_TAG'
+    | 'NO_TARGETS'
+    | 'TOO_FEW_TARGETS'
+    | 'TARGET_NOT_TAG'
+    | 'TRIGGER_IN_TARGETS'
+    | 'CONFLICT_REQUIRES_EXCLUDES'
+    | 'UNSATISFIABLE'
+    | 'TRIGGER_MISSING'
+    | 'TARGET_MISSING';
+  /** Rule ID */
+  ruleId: string;
+  /** Rule name (for display) */
+  ruleName: string;
+  /** Trigger tag label (if applicable) */
+  triggerLabel?: string;
+  /** Related target labels (if applicable) */
+  targetLabels?: string[];
+  /** Human-readable error message */
+  message: string;
+}
+
+/** Validation warning (non-blocking) */
+export interface RuleValidationWarning {
+  /** Warning type */
+  warningType: 'CROSS_TRIGGER_CONFLICT';
+  /** Related trigger labels */
+  triggerLabels: string[];
+  /** Conflicting tag labels */
+  conflictLabels: string[];
+  /** Human-readable warning message */
+  message: string;
+}
+
+/**
+ * A rule not satisfied by the current selection.
+ * - missing: REQUIRES targets not selected (warn rules only; enforced ones are auto-added)
+ * - excluded: EXCLUDES trigger and targets selected together
+ * - too_many: more than one AT_MOST_ONE_OF member selected
+ * - none_selected: no REQUIRES_ANY_OF / AT_LEAST_ONE_OF target selected
+ */
+export interface RuleViolation {
+  ruleId: string;
+  ruleName: string;
+  type: RuleType;
+  severity: RuleSeverity;
+  reason: 'missing' | 'excluded' | 'too_many' | 'none_selected';
+  /** Tags involved: missing / conflicting / candidate targets */
+  tagIds: NodeId[];
+}
@@ -0,0 +1,329 @@
+/**
+ * TagSelector Core - Rule Validation
+ * Version: 1.3.1
+ *
+ * Save-time validation of rules against a taxonomy:
+ * - Per rule: name, trigger, targets (exist, are tags)
+ * - Cross rule: REQUIRES/EXCLUDES conflicts, unsatisfiable REQUIRES chains
+ * - Warnings: trigger pairs whose closures exclude each other
+ *
+ * Messages are user-facing (Chinese), matching the web app.
+ */
+
+import type { NodeId } from '../models/node.js';
+import type { TaxonomyIndex } from '../models/index-types.js';
+import type { Rule, RuleValidationError, RuleValidationWarning } from './types.js';
+import { computeRequiresClosure, getExcludedTags, getRuleSeverity, ruleNeedsTrigger } from './enforce.js';
+
+/**
+ * Get tag label from index, or null if not found.
+ */
+function getTagLabel(index: TaxonomyIndex, tagId: NodeId): string | null {
+  const node = index.byId.get(tagId);
+  return node?.label ?? null;
+}
+
+/**
+ * Check if a node is a tag (not a folder).
+ */
+function isTag(index: TaxonomyIndex, nodeId: NodeId): boolean {
+  const node = index.byId.get(nodeId);
+  return node?.kind === 'tag';
+}
+
+/**
+ * Validate rules and return list of errors and warnings.
+ * Returns empty arrays if all rules are valid.
+ */
+export function validateRules(
+  rules: readonly Rule[],
+  index: TaxonomyIndex | null
+): { errors: RuleValidationError[]; warnings: RuleValidationWarning[] } {
+  const errors: RuleValidationError[] = [];
+  const warnings: RuleValidationWarning[] = [];
+  
+  if (!index) return { errors, warnings };
+  
+  // ========== Per-Rule Validation ==========
+  for (const rule of rules) {
+    // 1. Name must be non-empty
+    if (!rule.name.trim()) {
+      errors.push({
+        errorType: 'EMPTY_NAME',
+        ruleId: rule.id,
+        ruleName: rule.name || '(unnamed)',
+        message: '规则名称不能为空',
+      });
+    }
+    
+    // 2. Trigger must be set (optional for group rules)
+    const trigger = rule.triggerTagId;
+    if (!trigger && ruleNeedsTrigger(rule.type)) {
+      errors.push({
+        errorType: 'NO_TRIGGER',
+        ruleId: rule.id,
+        ruleName: rule.name,
+        message: '未设置触发标签',
+      });
+      continue; // Can't do more validation without trigger
+    }
+    
+    // 3. Trigger must exist in index (missing tag check)
+    if (trigger && !index.byId.has(trigger)) {
+      errors.push({
+        errorType: 'TRIGGER_MISSING',
+        ruleId: rule.id,
+        ruleName: rule.name,
+        triggerLabel: trigger,
+        message: `触发标签 "${trigger}" 不存在（可能已被删除）`,
+      });
+      continue; // Can't do more validation with missing trigger
+    }
+    
+    // 4. Trigger must be a tag (not folder)
+    if (trigger && !isTag(index, trigger)) {
+      const node = index.byId.get(trigger);
+      errors.push({
+        errorType: 'TRIGGER_NOT_TAG',
+        ruleId: rule.id,
+        ruleName: rule.name,
+        triggerLabel: node?.label ?? trigger,
+        message: `触发项 "${node?.label ?? trigger}" 不是标签（是文件夹）`,
+      });
+    }
+    const triggerLabel = trigger ? getTagLabel(index, trigger) ?? trigger : undefined;
+    
+    // 5. Must have at least one target
+    if (rule.targetTagIds.length === 0) {
+      errors.push({
+        errorType: 'NO_TARGETS',
+        ruleId: rule.id,
+        ruleName: rule.name,
+        triggerLabel,
+        message: '未设置目标标签',
+      });
+      continue;
+    }
+
+    // 5b. A mutual-exclusion group needs at least two members
+    if (rule.type === 'AT_MOST_ONE_OF' && rule.targetTagIds.length < 2) {
+      errors.push({
+        errorType: 'TOO_FEW_TARGETS',
+        ruleId: rule.id,
+        ruleName: rule.name,
+        triggerLabel,
+        message: '互斥组至少需要两个目标标签',
+      });
+    }
+    
+    // 6. Check for missing targets
+    const missingTargets: string[] = [];
+    const invalidTargets: string[] = [];
+    for (const targetId of rule.targetTagIds) {
+      if (!index.byId.has(targetId)) {
+        missingTargets.push(targetId);
+      } else if (!isTag(index, targetId)) {
+        const node = index.byId.get(targetId);
+        invalidTargets.push(node?.label ?? targetId);
+      }
+    }
+    if (missingTargets.length > 0) {
+      errors.push({
+        errorType: 'TARGET_MISSING',
+        ruleId: rule.id,
+        ruleName: rule.name,
+        triggerLabel,
+        targetLabels: missingTargets,
+        message: `目标标签不存在（可能已被删除）: ${missingTargets.join(', ')}`,
+      });
+    }
+    if (invalidTargets.length > 0) {
+      errors.push({
+        errorType: 'TARGET_NOT_TAG',
+        ruleId: rule.id,
+        ruleName: rule.name,
+        triggerLabel,
+        targetLabels: invalidTargets,
+        message: `目标项包含非标签: ${invalidTargets.join(', ')}`,
+      });
+    }
+    
+    // 7. Trigger should not be in targets (cleaner semantics)
+    if (trigger && rule.targetTagIds.includes(trigger)) {
+      errors.push({
+        errorType: 'TRIGGER_IN_TARGETS',
+        ruleId: rule.id,
+        ruleName: rule.name,
+        triggerLabel,
+        message: '触发标签不应包含在目标标签中',
+      });
+    }
+  }
+  
+  // ========== Cross-Rule Conflict Detection ==========
+  
+  // Only enforced rules can make a selection impossible; warn-only rules just report
+  const enforcedRules = rules.filter((r) => getRuleSeverity(r) === 'enforce');
+
+  // Build maps: trigger -> (required tags, excluded tags)
+  const triggerRequires = new Map<NodeId, Set<NodeId>>();
+  const triggerExcludes = new Map<NodeId, Set<NodeId>>();
+  
+  for (const rule of enforcedRules) {
+    if (!rule.triggerTagId || rule.targetTagIds.length === 0) continue;
+    
+    const trigger = rule.triggerTagId;
+    
+    if (rule.type === 'REQUIRES') {
+      if (!triggerRequires.has(trigger)) {
+        triggerRequires.set(trigger, new Set());
+      }
+      for (const t of rule.targetTagIds) {
+        triggerRequires.get(trigger)!.add(t);
+      }
+    } else if (rule.type === 'EXCLUDES') {
+      if (!triggerExcludes.has(trigger)) {
+        triggerExcludes.set(trigger, new Set());
+      }
+      for (const t of rule.targetTagIds) {
+        triggerExcludes.get(trigger)!.add(t);
+      }
+    }
+  }
+  
+  // 8. Direct conflict: A REQUIRES B AND A EXCLUDES B
+  for (const [trigger, requires] of triggerRequires) {
+    const excludes = triggerExcludes.get(trigger);
+    if (!excludes) continue;
+    
+    const conflicts = [...requires].filter(t => excludes.has(t));
+    if (conflicts.length > 0) {
+      const triggerLabel = getTagLabel(index, trigger) ?? trigger;
+      const conflictLabels = conflicts.map(t => getTagLabel(index, t) ?? t);
+      
+      errors.push({
+        errorType: 'CONFLICT_REQUIRES_EXCLUDES',
+        ruleId: '', // Cross-rule error
+        ruleName: `[冲突]`,
+        triggerLabel,
+        targetLabels: conflictLabels,
+        message: `"${triggerLabel}" 同时 REQUIRES 和 EXCLUDES: ${conflictLabels.join(', ')}`,
+      });
+    }
+  }
+  
+  // 9. Unsatisfiable: closure contains conflicting tags
+  // For each trigger, compute REQUIRES closure and check for conflicts
+  // (trigger-less AT_MOST_ONE_OF groups count as exclusions via getExcludedTags)
+  const validRules = enforcedRules.filter(r => r.targetTagIds.length > 0);
+  const allTriggers = new Set<NodeId>();
+  for (const rule of validRules) {
+    if (rule.triggerTagId && (rule.type === 'REQUIRES' || rule.type === 'EXCLUDES')) {
+      allTriggers.add(rule.triggerTagId);
+    }
+  }
+  
+  for (const trigger of allTriggers) {
+    const closure = computeRequiresClosure(trigger, validRules);
+    
+    // For each tag in closure, check if any of its EXCLUDES hits another closure member
+    for (const closureMember of closure) {
+      const excluded = getExcludedTags(closureMember, validRules);
+      
+      const conflictsInClosure = [...excluded].filter(e => closure.has(e));
+      if (conflictsInClosure.length > 0) {
+        const triggerLabel = getTagLabel(index, trigger) ?? trigger;
+        const memberLabel = getTagLabel(index, closureMember) ?? closureMember;
+        const conflictLabels = conflictsInClosure.map(t => getTagLabel(index, t) ?? t);
+        
+        errors.push({
+          errorType: 'UNSATISFIABLE',
+          ruleId: '',
+          ruleName: '[不可满足]',
+          triggerLabel,
+          targetLabels: conflictLabels,
+          message: `选择 "${triggerLabel}" 不可满足: 必选 "${memberLabel}" 会排除 ${conflictLabels.join(', ')} (也在必选链中)`,
+        });
+        break; // One error per trigger is enough
+      }
+    }
+  }
+  
+  // 10. Cross-trigger conflict detection (warning, not error)
+  // Check if selecting two different triggers could lead to conflicts
+  const validRulesForWarnings = enforcedRules.filter(r => 
+    r.triggerTagId && 
+    (r.type === 'REQUIRES' || r.type === 'EXCLUDES') &&
+    r.targetTagIds.length > 0 && 
+    index.byId.has(r.triggerTagId) &&
+    r.targetTagIds.every(t => index.byId.has(t))
+  );
+  
+  const triggerClosures = new Map<NodeId, Set<NodeId>>();
+  for (const rule of validRulesForWarnings) {
+    if (rule.triggerTagId && !triggerClosures.has(rule.triggerTagId)) {
+      triggerClosures.set(rule.triggerTagId, computeRequiresClosure(rule.triggerTagId, validRulesForWarnings));
+    }
+  }
+  
+  // Build EXCLUDES bidirectional map for conflict detection
+  const excludesMap = new Map<NodeId, Set<NodeId>>();
+  for (const rule of validRulesForWarnings) {
+    if (rule.type === 'EXCLUDES' && rule.triggerTagId) {
+      for (const targetId of rule.targetTagIds) {
+        // Bidirectional: A EXCLUDES B means both directions
+        if (!excludesMap.has(rule.triggerTagId)) {
+          excludesMap.set(rule.triggerTagId, new Set());
+        }
+        if (!excludesMap.has(targetId)) {
+          excludesMap.set(targetId, new Set());
+        }
+        excludesMap.get(rule.triggerTagId)!.add(targetId);
+        excludesMap.get(targetId)!.add(rule.triggerTagId);
+      }
+    }
+  }
+  
+  // Check all pairs of triggers for potential conflicts
+  const triggerArray = Array.from(triggerClosures.keys());
+  for (let i = 0; i < triggerArray.length; i++) {
+    for (let j = i + 1; j < triggerArray.length; j++) {
+      const triggerA = triggerArray[i];
+      const triggerB = triggerArray[j];
+      const closureA = triggerClosures.get(triggerA)!;
+      const closureB = triggerClosures.get(triggerB)!;
+      
+      // Check if any tag in closureA excludes any tag in closureB (or vice versa)
+      const conflicts: { tagA: NodeId; tagB: NodeId }[] = [];
+      for (const tagA of closureA) {
+        const excludesA = excludesMap.get(tagA);
+        if (excludesA) {
+          for (const tagB of closureB) {
+            if (excludesA.has(tagB)) {
+              conflicts.push({ tagA, tagB });
+            }
+          }
+        }
+      }
+      
+      if (conflicts.length > 0) {
+        const triggerALabel = getTagLabel(index, triggerA) ?? triggerA;
+        const triggerBLabel = getTagLabel(index, triggerB) ?? triggerB;
+        const conflictLabels = conflicts.map(c => {
+          const labelA = getTagLabel(index, c.tagA) ?? c.tagA;
+          const labelB = getTagLabel(index, c.tagB) ?? c.tagB;
+          return `${labelA} ⊘ ${labelB}`;
+        });
+        
+        warnings.push({
+          warningType: 'CROSS_TRIGGER_CONFLICT',
+          triggerLabels: [triggerALabel, triggerBLabel],
+          conflictLabels,
+          message: `同时选择 "${triggerALabel}" 和 "${triggerBLabel}" 可能导致冲突: ${conflictLabels.join(', ')}`,
+        });
+      }
+    }
+  }
+  
+  return { errors, warnings };
+}
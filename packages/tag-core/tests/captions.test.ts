@@ -0,0 +1,123 @@
+/**
+ * TagSelector Core - Caption Files and ZIP Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTaxonomyIndex,
+  crc32,
+  createZip,
+  formatCaption,
+  exportCaptionZip,
+  captionFileName,
+  sidecarFileNames,
+  exportXmpZip,
+  isCaptionImage,
+  parseKeywords,
+} from '../src/index.js';
+import type { Taxonomy } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'style', label: 'style', parentId: null, kind: 'folder', order: 0, export: true },
+    { id: 'anime', label: 'anime', parentId: 'style', kind: 'tag', order: 0 },
+    { id: 'hair', label: 'Hair', parentId: null, kind: 'folder', order: 1 },
+    { id: 'long', label: 'long hair', parentId: 'hair', kind: 'tag', order: 0 },
+    { id: 'smile', label: 'smile', parentId: null, kind: 'tag', order: 2 },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+
+/** Read the entries of a STORED zip written by createZip */
+function readZip(bytes: Uint8Array): Array<{ name: string; text: string; crc: number }> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const entries: Array<{ name: string; text: string; crc: number }> = [];
+  let pos = 0;
+  while (view.getUint32(pos, true) === 0x04034b50) {
+    const crc = view.getUint32(pos + 14, true);
+    const size = view.getUint32(pos + 18, true);
+    const nameLength = view.getUint16(pos + 26, true);
+    const name = decoder.decode(bytes.subarray(pos + 30, pos + 30 + nameLength));
+    const data = bytes.subarray(pos + 30 + nameLength, pos + 30 + nameLength + size);
+    entries.push({ name, text: decoder.decode(data), crc });
+    pos += 30 + nameLength + size;
+  }
+  return entries;
+}
+
+describe('crc32', () => {
+  it('matches known values', () => {
+    expect(crc32(new TextEncoder().encode(''))).toBe(0);
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+  });
+});
+
+describe('createZip', () => {
+  it('stores UTF-8 entries with a valid end record', () => {
+    const zip = createZip([
+      { name: 'a.txt', data: 'hello' },
+      { name: '图片.txt', data: '长发' },
+    ]);
+    expect(readZip(zip)).toEqual([
+      { name: 'a.txt', text: 'hello', crc: 0x3610a686 },
+      { name: '图片.txt', text: '长发', crc: crc32(new TextEncoder().encode('长发')) },
+    ]);
+    const end = new DataView(zip.buffer, zip.byteLength - 22);
+    expect(end.getUint32(0, true)).toBe(0x06054b50);
+    expect(end.getUint16(10, true)).toBe(2);
+  });
+
+  it('is deterministic without dates and rejects duplicate names', () => {
+    expect(createZip([{ name: 'a', data: 'x' }])).toEqual(createZip([{ name: 'a', data: 'x' }]));
+    expect(() => createZip([{ name: 'a', data: '' }, { name: 'a', data: '' }])).toThrow('Duplicate');
+  });
+});
+
+describe('captions', () => {
+  it('names caption files after the image', () => {
+    expect(captionFileName('img/001.png')).toBe('img/001.txt');
+    expect(captionFileName('photo.final.JPG')).toBe('photo.final.txt');
+    expect(captionFileName('.hidden')).toBe('.hidden.txt');
+    expect(isCaptionImage('A.WEBP')).toBe(true);
+    expect(isCaptionImage('a.txt')).toBe(false);
+  });
+
+  it('formats through the export pipeline', () => {
+    expect(formatCaption(index, ['smile', 'anime', 'long'])).toBe('style, anime, long hair, smile');
+    expect(formatCaption(index, ['long'], 'prompt', { weights: new Map([['long', 1.2]]) })).toBe(
+      '(long hair:1.2)'
+    );
+  });
+
+  it('exports a zip of captions that parse back to the selections', () => {
+    const zip = exportCaptionZip(index, [
+      { imageName: '1.png', selectedIds: ['anime', 'smile'] },
+      { imageName: '2.jpg', selectedIds: ['long'] },
+    ]);
+    const files = readZip(zip);
+    expect(files.map((f) => [f.name, f.text])).toEqual([
+      ['1.txt', 'style, anime, smile'],
+      ['2.txt', 'long hair'],
+    ]);
+    expect(parseKeywords(index, files[0].text).nodeIds).toEqual(['anime', 'smile']);
+  });
+
+  it('keeps image extensions when two images share a stem', () => {
+    expect(sidecarFileNames(['shot.jpg', 'shot.PNG', 'a/shot.png', 'other.png'], '.txt')).toEqual([
+      'shot.jpg.txt',
+      'shot.PNG.txt',
+      'a/shot.txt',
+      'other.txt',
+    ]);
+    const entries = [
+      { imageName: 'shot.jpg', selectedIds: ['smile'] },
+      { imageName: 'shot.png', selectedIds: ['long'] },
+    ];
+    expect(readZip(exportCaptionZip(index, entries)).map((f) => f.name)).toEqual(['shot.jpg.txt', 'shot.png.txt']);
+    expect(readZip(exportXmpZip(index, entries)).map((f) => f.name)).toEqual(['shot.jpg.xmp', 'shot.png.xmp']);
+  });
+});
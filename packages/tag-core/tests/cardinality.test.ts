@@ -0,0 +1,113 @@
+/**
+ * TagSelector Core - Folder Selection Policy Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTaxonomyIndex,
+  getFolderSelectionPolicy,
+  getFolderMembers,
+  getDisplacedByPolicy,
+  checkSelectionPolicies,
+} from '../src/index.js';
+import type { Taxonomy, TagNode } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'hair', label: 'Hair', parentId: null, kind: 'folder', order: 0 },
+    {
+      id: 'length',
+      label: 'Length',
+      parentId: 'hair',
+      kind: 'folder',
+      order: 0,
+      data: { selectionPolicy: { single: true, min: 1 } },
+    },
+    { id: 'short', label: 'short hair', parentId: 'length', kind: 'tag', order: 0 },
+    { id: 'long', label: 'long hair', parentId: 'length', kind: 'tag', order: 1 },
+    { id: 'very-long', label: 'very long hair', parentId: 'long', kind: 'tag', order: 0 },
+    {
+      id: 'accessories',
+      label: 'Accessories',
+      parentId: null,
+      kind: 'folder',
+      order: 1,
+      data: { selectionPolicy: { min: 1, max: 2 } },
+    },
+    { id: 'hat', label: 'hat', parentId: 'accessories', kind: 'tag', order: 0 },
+    { id: 'scarf', label: 'scarf', parentId: 'accessories', kind: 'tag', order: 1 },
+    { id: 'gloves', label: 'gloves', parentId: 'accessories', kind: 'tag', order: 2 },
+    { id: 'free', label: 'free', parentId: null, kind: 'tag', order: 2 },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+
+function folder(selectionPolicy: unknown): TagNode {
+  return { id: 'f', label: 'F', parentId: null, kind: 'folder', order: 0, data: { selectionPolicy } };
+}
+
+describe('getFolderSelectionPolicy', () => {
+  it('reads single-choice and count policies', () => {
+    expect(getFolderSelectionPolicy(index.byId.get('length')!)).toEqual({ single: true, min: 1 });
+    expect(getFolderSelectionPolicy(index.byId.get('accessories')!)).toEqual({ min: 1, max: 2 });
+  });
+
+  it('returns null for tags and folders without a policy', () => {
+    expect(getFolderSelectionPolicy(index.byId.get('hair')!)).toBeNull();
+    expect(getFolderSelectionPolicy({ ...index.byId.get('hat')!, data: { selectionPolicy: { single: true } } })).toBeNull();
+  });
+
+  it('ignores invalid counts', () => {
+    expect(getFolderSelectionPolicy(folder({ min: -1, max: 1.5 }))).toBeNull();
+    expect(getFolderSelectionPolicy(folder({ min: 3, max: 2 }))).toEqual({ min: 3 });
+    expect(getFolderSelectionPolicy(folder({ single: true, min: 2, max: 4 }))).toEqual({ single: true });
+    expect(getFolderSelectionPolicy(folder('single'))).toBeNull();
+  });
+});
+
+describe('getFolderMembers', () => {
+  it('lists selected tags below the folder in selection order', () => {
+    expect(getFolderMembers('hair', ['free', 'very-long', 'short'], index)).toEqual(['very-long', 'short']);
+  });
+});
+
+describe('getDisplacedByPolicy', () => {
+  it('replaces the current pick in a single-choice folder', () => {
+    expect(getDisplacedByPolicy(['short', 'hat'], 'long', index)).toEqual(['short']);
+  });
+
+  it('counts nested tags as members', () => {
+    expect(getDisplacedByPolicy(['long'], 'very-long', index)).toEqual(['long']);
+  });
+
+  it('replaces the oldest picks when max is exceeded', () => {
+    expect(getDisplacedByPolicy(['scarf', 'hat'], 'gloves', index)).toEqual(['scarf']);
+    expect(getDisplacedByPolicy(['hat'], 'gloves', index)).toEqual([]);
+  });
+
+  it('leaves folders without a max alone', () => {
+    expect(getDisplacedByPolicy(['hat', 'short'], 'free', index)).toEqual([]);
+  });
+});
+
+describe('checkSelectionPolicies', () => {
+  it('reports unmet minimums', () => {
+    expect(checkSelectionPolicies(['free'], index)).toEqual([
+      { folderId: 'length', reason: 'too_few', count: 0, min: 1, max: 1 },
+      { folderId: 'accessories', reason: 'too_few', count: 0, min: 1, max: 2 },
+    ]);
+  });
+
+  it('reports exceeded maximums', () => {
+    expect(checkSelectionPolicies(['short', 'long', 'hat'], index)).toEqual([
+      { folderId: 'length', reason: 'too_many', count: 2, min: 1, max: 1 },
+    ]);
+  });
+
+  it('passes a selection within every policy', () => {
+    expect(checkSelectionPolicies(['long', 'hat', 'scarf'], index)).toEqual([]);
+  });
+});
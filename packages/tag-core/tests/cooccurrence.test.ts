@@ -0,0 +1,64 @@
+/**
+ * TagSelector Core - Co-occurrence Recommendations Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildCooccurrenceModel, suggestByCooccurrence } from '../src/index.js';
+
+const history = [
+  ['beach', 'swimsuit', 'sunny'],
+  ['beach', 'swimsuit'],
+  ['beach', 'sunny'],
+  ['city', 'night', 'sunny'],
+  ['city', 'night'],
+  ['city', 'sunny'],
+  ['portrait', 'sunny'],
+  ['portrait'],
+];
+
+describe('buildCooccurrenceModel', () => {
+  it('counts selections, tags and symmetric pairs', () => {
+    const model = buildCooccurrenceModel(history);
+    expect(model.total).toBe(8);
+    expect(model.counts.get('sunny')).toBe(5);
+    expect(model.pairs.get('beach')?.get('swimsuit')).toBe(2);
+    expect(model.pairs.get('swimsuit')?.get('beach')).toBe(2);
+  });
+
+  it('counts duplicates within a selection once and skips empty ones', () => {
+    const model = buildCooccurrenceModel([['a', 'a', 'b'], []]);
+    expect(model.total).toBe(1);
+    expect(model.counts.get('a')).toBe(1);
+    expect(model.pairs.get('a')?.get('b')).toBe(1);
+  });
+});
+
+describe('suggestByCooccurrence', () => {
+  const model = buildCooccurrenceModel(history);
+
+  it('ranks by lift, not raw frequency', () => {
+    // swimsuit: 2*8/(3*2) = 2.67; sunny: 2*8/(3*5) = 1.07
+    const suggestions = suggestByCooccurrence(model, ['beach']);
+    expect(suggestions.map((s) => s.tagId)).toEqual(['swimsuit', 'sunny']);
+    expect(suggestions[0]).toMatchObject({ sourceId: 'beach', support: 2 });
+    expect(suggestions[0].lift).toBeCloseTo(8 / 3);
+  });
+
+  it('keeps the best lift over all selected tags', () => {
+    const suggestions = suggestByCooccurrence(model, ['beach', 'city']);
+    expect(suggestions.map((s) => s.tagId)).toEqual(['night', 'swimsuit', 'sunny']);
+    expect(suggestions.find((s) => s.tagId === 'sunny')?.sourceId).toBe('beach');
+  });
+
+  it('ignores pairs below minSupport and lift at or below minLift', () => {
+    expect(suggestByCooccurrence(model, ['portrait'])).toEqual([]);
+    expect(suggestByCooccurrence(model, ['portrait'], { minSupport: 1 })).toEqual([]);
+    expect(suggestByCooccurrence(model, ['beach'], { minLift: 2 }).map((s) => s.tagId)).toEqual(['swimsuit']);
+  });
+
+  it('never suggests selected tags and honors limit', () => {
+    expect(suggestByCooccurrence(model, ['beach', 'swimsuit']).map((s) => s.tagId)).toEqual(['sunny']);
+    expect(suggestByCooccurrence(model, ['beach'], { limit: 1 })).toHaveLength(1);
+  });
+});
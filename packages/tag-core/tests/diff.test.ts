@@ -0,0 +1,65 @@
+/**
+ * TagSelector Core - Taxonomy Diff Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffTaxonomies, isEmptyDiff } from '../src/index.js';
+import type { Taxonomy } from '../src/index.js';
+
+const before: Taxonomy = {
+  schemaVersion: '1.3.1',
+  meta: { name: 'Pack', extensions: { rules: { version: 1, savedRules: [] }, quickTrees: [] } },
+  nodes: [
+    { id: 'hair', label: 'Hair', parentId: null, kind: 'folder', order: 0 },
+    { id: 'eyes', label: 'Eyes', parentId: null, kind: 'folder', order: 1 },
+    { id: 'blonde', label: 'Blonde', parentId: 'hair', kind: 'tag', order: 0 },
+    { id: 'red', label: 'Red', parentId: 'hair', kind: 'tag', order: 1 },
+    { id: 'blue', label: 'Blue', parentId: 'eyes', kind: 'tag', order: 0 },
+  ],
+};
+
+describe('diffTaxonomies', () => {
+  it('reports no changes for an identical copy', () => {
+    const diff = diffTaxonomies(before, structuredClone(before));
+    expect(isEmptyDiff(diff)).toBe(true);
+  });
+
+  it('classifies node changes by kind', () => {
+    const after: Taxonomy = {
+      ...before,
+      nodes: [
+        { id: 'hair', label: 'Hair color', parentId: null, kind: 'folder', order: 0 },
+        { id: 'eyes', label: 'Eyes', parentId: null, kind: 'folder', order: 1 },
+        { id: 'blonde', label: 'Blonde', parentId: 'hair', kind: 'tag', order: 0, data: { color: 'yellow' } },
+        { id: 'blue', label: 'Blue', parentId: 'hair', kind: 'tag', order: 2 },
+        { id: 'green', label: 'Green', parentId: 'eyes', kind: 'tag', order: 0 },
+      ],
+    };
+
+    const diff = diffTaxonomies(before, after);
+
+    expect(diff.added).toEqual(['green']);
+    expect(diff.removed).toEqual(['red']);
+    expect(diff.renamed).toEqual(['hair']);
+    expect(diff.moved).toEqual(['blue']);
+    expect(diff.modified).toEqual(['blonde', 'blue']);
+    expect(diff.metaChanges).toEqual([]);
+  });
+
+  it('reports changed extension keys and other meta fields', () => {
+    const after: Taxonomy = {
+      ...before,
+      meta: {
+        name: 'Renamed pack',
+        extensions: {
+          rules: { version: 1, savedRules: [{ id: 'r1' }] },
+          quickTrees: [],
+          presets: { version: 1, presets: [] },
+        },
+      },
+    };
+
+    expect(diffTaxonomies(before, after).metaChanges).toEqual(['meta', 'presets', 'rules']);
+  });
+});
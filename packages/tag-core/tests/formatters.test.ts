@@ -0,0 +1,106 @@
+/**
+ * TagSelector Core - Output Formatter Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTaxonomyIndex,
+  computeExportSet,
+  sortByUserOrder,
+  formatForMylio,
+  formatTags,
+  getFormatter,
+  listFormatters,
+  registerFormatter,
+  escapePromptLabel,
+  escapeLightroomLabel,
+} from '../src/index.js';
+import type { Taxonomy } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'people', label: 'People', parentId: null, kind: 'folder', order: 0 },
+    { id: 'portrait', label: 'Portrait', parentId: 'people', kind: 'tag', order: 0 },
+    { id: 'smile', label: 'smile (soft)', parentId: 'portrait', kind: 'tag', order: 0 },
+    { id: 'scene', label: 'Scene', parentId: null, kind: 'folder', order: 1 },
+    { id: 'beach', label: 'Beach', parentId: 'scene', kind: 'tag', order: 0 },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+const sortedIds = sortByUserOrder(index, computeExportSet(index, new Set(['smile', 'beach'])));
+
+describe('formatTags', () => {
+  it('mylio matches formatForMylio', () => {
+    expect(formatTags(index, sortedIds, 'mylio')).toBe(formatForMylio(index, sortedIds));
+    expect(formatTags(index, sortedIds)).toBe('Portrait, smile (soft), Beach');
+  });
+
+  it('prompt escapes parentheses and applies weights', () => {
+    const weights = new Map([
+      ['portrait', 1],
+      ['smile', 1.2],
+      ['beach', 0.8],
+    ]);
+    expect(formatTags(index, sortedIds, 'prompt', { weights })).toBe(
+      'Portrait, (smile \\(soft\\):1.2), (Beach:0.8)'
+    );
+  });
+
+  it('lightroom builds leaf paths including folders', () => {
+    // Portrait is implied by People|Portrait|smile (soft)
+    expect(formatTags(index, sortedIds, 'lightroom')).toBe('People|Portrait|smile (soft), Scene|Beach');
+  });
+
+  it('lightroom escapes the level separator in labels', () => {
+    expect(escapeLightroomLabel('a|b\\c')).toBe('a\\|b\\\\c');
+    expect(formatTags(index, ['beach'], 'lightroom', { labelOf: (node) => `${node.label}|x` })).toBe(
+      'Scene\\|x|Beach\\|x'
+    );
+  });
+
+  it('json outputs an array of labels', () => {
+    const output = formatTags(index, sortedIds, 'json');
+    expect(JSON.parse(output)).toEqual(['Portrait', 'smile (soft)', 'Beach']);
+  });
+
+  it('uses labelOf and separator', () => {
+    const output = formatTags(index, sortedIds, 'mylio', {
+      separator: '; ',
+      labelOf: (node) => node.id,
+    });
+    expect(output).toBe('portrait; smile; beach');
+  });
+
+  it('throws for unknown formatters', () => {
+    expect(() => formatTags(index, sortedIds, 'nope')).toThrow('Unknown formatter: nope');
+  });
+});
+
+describe('formatter registry', () => {
+  it('lists built-ins in order', () => {
+    expect(listFormatters().map((f) => f.id).slice(0, 5)).toEqual([
+      'mylio',
+      'prompt',
+      'prompt-novelai',
+      'lightroom',
+      'json',
+    ]);
+  });
+
+  it('registers custom formatters', () => {
+    registerFormatter({
+      id: 'test-upper',
+      name: 'Upper',
+      format: (idx, ids) => ids.map((id) => idx.byId.get(id)!.label.toUpperCase()).join(' '),
+    });
+    expect(getFormatter('test-upper')?.name).toBe('Upper');
+    expect(formatTags(index, ['beach'], 'test-upper')).toBe('BEACH');
+  });
+
+  it('escapePromptLabel escapes backslashes too', () => {
+    expect(escapePromptLabel('a\\b(c)')).toBe('a\\\\b\\(c\\)');
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * TagSelector Core - Selection Generator Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTaxonomyIndex, generateSelections, createSeededRandom } from '../src/index.js';
+import type { Taxonomy, Rule } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'tops', label: 'tops', parentId: null, kind: 'folder', order: 0 },
+    { id: 'shirt', label: 'shirt', parentId: 'tops', kind: 'tag', order: 0 },
+    { id: 'hoodie', label: 'hoodie', parentId: 'tops', kind: 'tag', order: 1 },
+    { id: 'bikini-top', label: 'bikini top', parentId: 'tops', kind: 'tag', order: 2 },
+    { id: 'bottoms', label: 'bottoms', parentId: null, kind: 'folder', order: 1 },
+    { id: 'jeans', label: 'jeans', parentId: 'bottoms', kind: 'tag', order: 0 },
+    { id: 'skirt', label: 'skirt', parentId: 'bottoms', kind: 'tag', order: 1 },
+    { id: 'misc', label: 'misc', parentId: null, kind: 'folder', order: 2 },
+    { id: 'swimsuit', label: 'swimsuit', parentId: 'misc', kind: 'tag', order: 0 },
+    { id: 'beach', label: 'beach', parentId: 'misc', kind: 'tag', order: 1 },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+
+const rules: Rule[] = [
+  { id: 'r1', name: 'bikini needs beach', triggerTagId: 'bikini-top', type: 'REQUIRES', targetTagIds: ['beach'] },
+  { id: 'r2', name: 'no hoodie with skirt', triggerTagId: 'hoodie', type: 'EXCLUDES', targetTagIds: ['skirt'] },
+];
+
+const constraints = [{ folderId: 'tops' }, { folderId: 'bottoms' }];
+
+describe('createSeededRandom', () => {
+  it('is deterministic per seed', () => {
+    const a = createSeededRandom('spring');
+    const b = createSeededRandom('spring');
+    const c = createSeededRandom('autumn');
+    const seqA = [a(), a(), a()];
+    expect([b(), b(), b()]).toEqual(seqA);
+    expect([c(), c(), c()]).not.toEqual(seqA);
+    seqA.forEach((x) => expect(x).toBeGreaterThanOrEqual(0));
+    seqA.forEach((x) => expect(x).toBeLessThan(1));
+  });
+});
+
+describe('generateSelections - product', () => {
+  it('returns every combination in taxonomy order', () => {
+    const result = generateSelections(index, constraints, { mode: 'product' });
+    expect(result.selections).toEqual([
+      ['shirt', 'jeans'],
+      ['shirt', 'skirt'],
+      ['hoodie', 'jeans'],
+      ['hoodie', 'skirt'],
+      ['bikini-top', 'jeans'],
+      ['bikini-top', 'skirt'],
+    ]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('closes over REQUIRES and drops excluded combinations', () => {
+    const result = generateSelections(index, constraints, { mode: 'product', rules });
+    expect(result.selections).toEqual([
+      ['shirt', 'jeans'],
+      ['shirt', 'skirt'],
+      ['hoodie', 'jeans'],
+      ['bikini-top', 'jeans', 'beach'],
+      ['bikini-top', 'skirt', 'beach'],
+    ]);
+    expect(result.rejected).toBe(1);
+  });
+
+  it('picks combinations of several tags per folder', () => {
+    const result = generateSelections(index, [{ folderId: 'tops', count: 2 }], { mode: 'product' });
+    expect(result.selections).toEqual([
+      ['shirt', 'hoodie'],
+      ['shirt', 'bikini-top'],
+      ['hoodie', 'bikini-top'],
+    ]);
+  });
+
+  it('stops at the limit and reports truncation', () => {
+    const result = generateSelections(index, constraints, { mode: 'product', limit: 4 });
+    expect(result.selections).toHaveLength(4);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('enumerates large folders lazily up to the limit', () => {
+    const tags = Array.from({ length: 60 }, (_, i) => ({
+      id: `t${i}`,
+      label: `t${i}`,
+      parentId: 'big',
+      kind: 'tag' as const,
+      order: i,
+    }));
+    const big = buildTaxonomyIndex({
+      schemaVersion: '1.3.1',
+      nodes: [{ id: 'big', label: 'big', parentId: null, kind: 'folder', order: 0 }, ...tags],
+    });
+    const result = generateSelections(big, [{ folderId: 'big', count: 10 }], { mode: 'product', limit: 3 });
+    expect(result.selections).toEqual([
+      ['t0', 't1', 't2', 't3', 't4', 't5', 't6', 't7', 't8', 't9'],
+      ['t0', 't1', 't2', 't3', 't4', 't5', 't6', 't7', 't8', 't10'],
+      ['t0', 't1', 't2', 't3', 't4', 't5', 't6', 't7', 't8', 't11'],
+    ]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('gives up after a bounded number of rejected candidates', () => {
+    const tags = Array.from({ length: 40 }, (_, i) => ({
+      id: `t${i}`,
+      label: `t${i}`,
+      parentId: 'big',
+      kind: 'tag' as const,
+      order: i,
+    }));
+    const big = buildTaxonomyIndex({
+      schemaVersion: '1.3.1',
+      nodes: [{ id: 'big', label: 'big', parentId: null, kind: 'folder', order: 0 }, ...tags],
+    });
+    // t0 excludes t1..t39, so every subset with t0 is rejected, and the
+    // lexicographic order visits those first
+    const blocking: Rule[] = [
+      { id: 'x', name: 'x', triggerTagId: 't0', type: 'EXCLUDES', targetTagIds: tags.slice(1).map((t) => t.id) },
+    ];
+    const result = generateSelections(big, [{ folderId: 'big', count: 5 }], {
+      mode: 'product',
+      limit: 2,
+      rules: blocking,
+    });
+    expect(result.selections).toEqual([]);
+    expect(result.rejected).toBe(40);
+    expect(result.truncated).toBe(true);
+  });
+
+  it('returns nothing when a folder has fewer tags than requested', () => {
+    const result = generateSelections(index, [{ folderId: 'bottoms', count: 3 }], { mode: 'product' });
+    expect(result.selections).toEqual([]);
+    expect(result.truncated).toBe(false);
+  });
+
+  it('adds base tags to every selection', () => {
+    const result = generateSelections(index, [{ folderId: 'bottoms' }], { mode: 'product', baseIds: ['swimsuit'] });
+    expect(result.selections).toEqual([
+      ['jeans', 'swimsuit'],
+      ['skirt', 'swimsuit'],
+    ]);
+  });
+});
+
+describe('generateSelections - random', () => {
+  it('is reproducible for a seed', () => {
+    const a = generateSelections(index, constraints, { seed: 42, samples: 4 });
+    const b = generateSelections(index, constraints, { seed: 42, samples: 4 });
+    expect(a.selections).toEqual(b.selections);
+    expect(a.selections).toHaveLength(4);
+  });
+
+  it('produces distinct samples with one tag from each folder', () => {
+    const result = generateSelections(index, constraints, { seed: 'x', samples: 6 });
+    expect(new Set(result.selections.map((s) => s.join(','))).size).toBe(6);
+    for (const selection of result.selections) {
+      expect(selection.filter((id) => ['shirt', 'hoodie', 'bikini-top'].includes(id))).toHaveLength(1);
+      expect(selection.filter((id) => ['jeans', 'skirt'].includes(id))).toHaveLength(1);
+    }
+  });
+
+  it('never breaks the rules', () => {
+    const result = generateSelections(index, constraints, { seed: 7, samples: 5, rules });
+    expect(result.selections).toHaveLength(5);
+    for (const selection of result.selections) {
+      expect(selection.includes('hoodie') && selection.includes('skirt')).toBe(false);
+      if (selection.includes('bikini-top')) expect(selection).toContain('beach');
+    }
+  });
+
+  it('stops when no more distinct samples exist', () => {
+    const result = generateSelections(index, [{ folderId: 'bottoms' }], { seed: 1, samples: 5 });
+    expect(result.selections).toHaveLength(2);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * TagSelector Core - Three-Way Merge Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mergeTaxonomies, mergeKeyedItems, validateTaxonomy } from '../src/index.js';
+import type { Taxonomy, TagNode } from '../src/index.js';
+
+const base: Taxonomy = {
+  schemaVersion: '1.3.1',
+  meta: { name: 'Pack' },
+  nodes: [
+    { id: 'clothing', label: 'Clothing', parentId: null, kind: 'folder', order: 0 },
+    { id: 'tops', label: 'Tops', parentId: 'clothing', kind: 'folder', order: 0 },
+    { id: 'tshirt', label: 'T-shirt', parentId: 'tops', kind: 'tag', order: 0 },
+    { id: 'hoodie', label: 'Hoodie', parentId: 'tops', kind: 'tag', order: 1, data: { color: 'gray' } },
+    { id: 'shoes', label: 'Shoes', parentId: 'clothing', kind: 'folder', order: 1 },
+  ],
+};
+
+/** Copy of base with some nodes replaced, added (by id) or removed (null) */
+function edit(changes: Record<string, Partial<TagNode> | null>): Taxonomy {
+  const nodes = base.nodes
+    .filter((n) => changes[n.id] !== null)
+    .map((n) => (changes[n.id] ? { ...n, ...changes[n.id] } : n));
+  for (const [id, change] of Object.entries(changes)) {
+    if (change && !base.nodes.some((n) => n.id === id)) nodes.push(change as TagNode);
+  }
+  return { ...base, nodes };
+}
+
+const byId = (taxonomy: Taxonomy, id: string) => taxonomy.nodes.find((n) => n.id === id);
+
+describe('mergeTaxonomies', () => {
+  it('auto-merges non-conflicting field changes', () => {
+    const ours = edit({ tshirt: { label: 'Tee' } });
+    const theirs = edit({ tshirt: { aliases: ['tee'] }, hoodie: { parentId: 'clothing' } });
+
+    const { taxonomy, conflicts } = mergeTaxonomies(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(byId(taxonomy, 'tshirt')).toMatchObject({ label: 'Tee', aliases: ['tee'] });
+    expect(byId(taxonomy, 'hoodie')?.parentId).toBe('clothing');
+    expect(validateTaxonomy(taxonomy, { enforceTagLeaf: false }).valid).toBe(true);
+  });
+
+  it('merges data per key', () => {
+    const ours = edit({ hoodie: { data: { color: 'gray', displayName: '卫衣' } } });
+    const theirs = edit({ hoodie: { data: { color: 'black' } } });
+
+    const { taxonomy, conflicts } = mergeTaxonomies(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(byId(taxonomy, 'hoodie')?.data).toEqual({ color: 'black', displayName: '卫衣' });
+  });
+
+  it('reports conflicting edits and applies resolutions', () => {
+    const ours = edit({ tshirt: { label: 'Tee' } });
+    const theirs = edit({ tshirt: { label: 'T-Shirt' } });
+
+    const first = mergeTaxonomies(base, ours, theirs);
+    expect(first.conflicts).toEqual([
+      {
+        id: 'node:tshirt:label',
+        scope: 'node',
+        key: 'tshirt',
+        field: 'label',
+        type: 'modify',
+        base: 'T-shirt',
+        ours: 'Tee',
+        theirs: 'T-Shirt',
+      },
+    ]);
+    expect(byId(first.taxonomy, 'tshirt')?.label).toBe('Tee');
+
+    const resolved = mergeTaxonomies(base, ours, theirs, {
+      resolutions: { 'node:tshirt:label': 'theirs' },
+    });
+    expect(resolved.conflicts).toEqual([]);
+    expect(byId(resolved.taxonomy, 'tshirt')?.label).toBe('T-Shirt');
+  });
+
+  it('takes additions and clean deletions from either side', () => {
+    const ours = edit({
+      jeans: { id: 'jeans', label: 'Jeans', parentId: 'clothing', kind: 'tag', order: 2 },
+    });
+    const theirs = edit({ shoes: null });
+
+    const { taxonomy, conflicts } = mergeTaxonomies(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(byId(taxonomy, 'jeans')).toBeDefined();
+    expect(byId(taxonomy, 'shoes')).toBeUndefined();
+  });
+
+  it('reports delete / modify conflicts', () => {
+    const ours = edit({ hoodie: null });
+    const theirs = edit({ hoodie: { label: 'Zip hoodie' } });
+
+    const { conflicts } = mergeTaxonomies(base, ours, theirs);
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ id: 'node:hoodie', type: 'delete', ours: undefined });
+
+    const kept = mergeTaxonomies(base, ours, theirs, { resolutions: { 'node:hoodie': 'theirs' } });
+    expect(byId(kept.taxonomy, 'hoodie')?.label).toBe('Zip hoodie');
+  });
+
+  it('does not delete a folder the other side added children to', () => {
+    const ours = edit({ shoes: null });
+    const theirs = edit({
+      boots: { id: 'boots', label: 'Boots', parentId: 'shoes', kind: 'tag', order: 0 },
+    });
+
+    const first = mergeTaxonomies(base, ours, theirs);
+    expect(first.conflicts.map((c) => c.id)).toEqual(['node:shoes']);
+    expect(byId(first.taxonomy, 'shoes')).toBeDefined();
+    expect(byId(first.taxonomy, 'boots')).toBeDefined();
+
+    const deleted = mergeTaxonomies(base, ours, theirs, { resolutions: { 'node:shoes': 'ours' } });
+    expect(deleted.conflicts).toEqual([]);
+    expect(byId(deleted.taxonomy, 'shoes')).toBeUndefined();
+    // Their addition moves up instead of being dropped
+    expect(byId(deleted.taxonomy, 'boots')?.parentId).toBe('clothing');
+    expect(deleted.reparented).toEqual(['boots']);
+    expect(validateTaxonomy(deleted.taxonomy, { enforceTagLeaf: false }).valid).toBe(true);
+  });
+
+  it('renumbers sibling order after additions on both sides', () => {
+    const ours = edit({
+      jeans: { id: 'jeans', label: 'Jeans', parentId: 'clothing', kind: 'folder', order: 2 },
+    });
+    const theirs = edit({
+      hats: { id: 'hats', label: 'Hats', parentId: 'clothing', kind: 'folder', order: 2 },
+      socks: { id: 'socks', label: 'Socks', parentId: 'clothing', kind: 'folder', order: 7 },
+    });
+
+    const { taxonomy, conflicts, reparented } = mergeTaxonomies(base, ours, theirs);
+
+    expect(conflicts).toEqual([]);
+    expect(reparented).toEqual([]);
+    const children = taxonomy.nodes
+      .filter((n) => n.parentId === 'clothing')
+      .sort((a, b) => a.order - b.order)
+      .map((n) => [n.id, n.order]);
+    expect(children).toEqual([
+      ['tops', 0],
+      ['shoes', 1],
+      ['jeans', 2],
+      ['hats', 3],
+      ['socks', 4],
+    ]);
+  });
+
+  it('reports concurrent moves that form a cycle', () => {
+    const ours = edit({ tops: { parentId: 'shoes' } });
+    const theirs = edit({ shoes: { parentId: 'tops' } });
+
+    const { taxonomy, conflicts } = mergeTaxonomies(base, ours, theirs);
+
+    expect(conflicts.map((c) => c.id).sort()).toEqual(['node:shoes:parentId', 'node:tops:parentId']);
+    expect(validateTaxonomy(taxonomy, { enforceTagLeaf: false }).valid).toBe(true);
+  });
+
+  it('merges meta fields and keeps our extensions', () => {
+    const ours: Taxonomy = { ...base, meta: { name: 'Pack', extensions: { x: 1 } } as Taxonomy['meta'] };
+    const theirs: Taxonomy = { ...base, meta: { name: 'Pack', description: 'Shared' } };
+
+    const { taxonomy } = mergeTaxonomies(base, ours, theirs);
+
+    expect(taxonomy.meta).toEqual({ name: 'Pack', extensions: { x: 1 }, description: 'Shared' });
+  });
+});
+
+describe('mergeKeyedItems', () => {
+  const getId = (r: { id: string }) => r.id;
+
+  it('merges items by id', () => {
+    const b = [{ id: 'a', v: 1 }, { id: 'b', v: 1 }];
+    const o = [{ id: 'a', v: 2 }, { id: 'b', v: 1 }];
+    const t = [{ id: 'a', v: 1 }, { id: 'c', v: 1 }];
+
+    const { items, conflicts } = mergeKeyedItems('rules', b, o, t, getId);
+
+    expect(conflicts).toEqual([]);
+    expect(items).toEqual([{ id: 'a', v: 2 }, { id: 'c', v: 1 }]);
+  });
+
+  it('reports conflicting items', () => {
+    const b = [{ id: 'a', v: 1 }];
+    const o = [{ id: 'a', v: 2 }];
+    const t = [{ id: 'a', v: 3 }];
+
+    const { items, conflicts } = mergeKeyedItems('rules', b, o, t, getId);
+    expect(conflicts).toMatchObject([{ id: 'rules:a', scope: 'rules', key: 'a', type: 'modify' }]);
+    expect(items).toEqual([{ id: 'a', v: 2 }]);
+
+    const resolved = mergeKeyedItems('rules', b, o, t, getId, { resolutions: { 'rules:a': 'theirs' } });
+    expect(resolved.items).toEqual([{ id: 'a', v: 3 }]);
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * TagSelector Core - Schema Migration Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  migrateTaxonomyData,
+  importTaxonomy,
+  SCHEMA_MIGRATORS,
+  SCHEMA_VERSION,
+  UNVERSIONED,
+} from '../src/index.js';
+import type { SchemaMigrator, ExtensionMigrator } from '../src/index.js';
+
+const nodes = [
+  { id: 'f', label: 'Folder', parentId: null, kind: 'folder', order: 0 },
+  { id: 't', label: 'Tag', parentId: 'f', kind: 'tag', order: 0 },
+];
+
+describe('migrateTaxonomyData', () => {
+  it('leaves current data untouched', () => {
+    const data = { schemaVersion: SCHEMA_VERSION, nodes };
+    const { data: migrated, report } = migrateTaxonomyData(data);
+
+    expect(migrated).toBe(data);
+    expect(report).toEqual({
+      fromVersion: SCHEMA_VERSION,
+      toVersion: SCHEMA_VERSION,
+      steps: [],
+      changes: [],
+    });
+  });
+
+  it('stamps older patch versions of the current minor', () => {
+    const { data, report } = migrateTaxonomyData({ schemaVersion: '1.3.0', nodes });
+
+    expect((data as { schemaVersion: string }).schemaVersion).toBe(SCHEMA_VERSION);
+    expect(report.steps).toEqual([]);
+    expect(report.changes).toHaveLength(1);
+    expect(report.changes[0].path).toBe('schemaVersion');
+  });
+
+  it('upgrades unversioned files with the built-in chain', () => {
+    const { data, report } = migrateTaxonomyData({ nodes });
+
+    expect((data as { schemaVersion: string }).schemaVersion).toBe(SCHEMA_VERSION);
+    expect(report.fromVersion).toBe(UNVERSIONED);
+    expect(report.toVersion).toBe(SCHEMA_VERSION);
+    expect(report.steps.map((s) => s.target)).toEqual(['schema']);
+  });
+
+  it('runs a multi-step chain in order and does not mutate the input', () => {
+    const migrators: SchemaMigrator[] = [
+      ...SCHEMA_MIGRATORS,
+      {
+        from: '1.2',
+        to: '1.3',
+        description: 'color moves into data',
+        migrate: (data, ctx) => ({
+          ...data,
+          nodes: (data.nodes as Array<Record<string, unknown>>).map((node, i) => {
+            if (node.color === undefined) return node;
+            ctx.change(`nodes[${i}].data.color`, 'moved color into data');
+            const { color, ...rest } = node;
+            return { ...rest, data: { color } };
+          }),
+        }),
+      },
+      {
+        from: '1.1',
+        to: '1.2',
+        description: 'rename title to label',
+        migrate: (data) => ({
+          ...data,
+          nodes: (data.nodes as Array<Record<string, unknown>>).map(({ title, ...rest }) => ({
+            ...rest,
+            label: title,
+          })),
+        }),
+      },
+    ];
+
+    const input = {
+      schemaVersion: '1.1.4',
+      nodes: [
+        { id: 'f', title: 'Folder', parentId: null, kind: 'folder', order: 0 },
+        { id: 't', title: 'Tag', parentId: 'f', kind: 'tag', order: 0, color: 'red' },
+      ],
+    };
+    const snapshot = JSON.stringify(input);
+
+    const { data, report } = migrateTaxonomyData(input, { schemaMigrators: migrators });
+
+    expect(JSON.stringify(input)).toBe(snapshot);
+    expect(report.steps.map((s) => `${s.from}->${s.to}`)).toEqual(['1.1->1.2', '1.2->1.3']);
+    expect(report.changes.map((c) => c.path)).toEqual(['nodes[1].data.color', 'schemaVersion']);
+    expect(data).toEqual({
+      schemaVersion: SCHEMA_VERSION,
+      nodes: [
+        { id: 'f', label: 'Folder', parentId: null, kind: 'folder', order: 0 },
+        { id: 't', label: 'Tag', parentId: 'f', kind: 'tag', order: 0, data: { color: 'red' } },
+      ],
+    });
+  });
+
+  it('leaves versions without a migration path for validation to reject', () => {
+    const data = { schemaVersion: '2.0.0', nodes };
+    const { data: migrated, report } = migrateTaxonomyData(data);
+
+    expect(migrated).toBe(data);
+    expect(report.toVersion).toBe('2.0.0');
+  });
+
+  it('passes non-taxonomy input through', () => {
+    expect(migrateTaxonomyData(null).data).toBe(null);
+    expect(migrateTaxonomyData('x').data).toBe('x');
+  });
+
+  it('runs extension migrators by extension version', () => {
+    const extensionMigrators: ExtensionMigrator[] = [
+      {
+        key: 'rules',
+        from: 0,
+        to: 1,
+        description: 'wrap rule array',
+        migrate: (value) => ({ version: 1, savedRules: value }),
+      },
+      {
+        key: 'rules',
+        from: 1,
+        to: 2,
+        description: 'add enabled flag',
+        migrate: (value) => ({ ...(value as object), version: 2, enabled: true }),
+      },
+      {
+        key: 'ui',
+        from: 0,
+        to: 1,
+        description: 'unused',
+        migrate: () => {
+          throw new Error('should not run for missing keys');
+        },
+      },
+    ];
+
+    const input = {
+      schemaVersion: SCHEMA_VERSION,
+      meta: { name: 'Pack', extensions: { rules: [{ id: 'r1' }], quickTrees: [] } },
+      nodes,
+    };
+
+    const { data, report } = migrateTaxonomyData(input, { extensionMigrators });
+
+    expect(report.steps.map((s) => `${s.target}:${s.from}->${s.to}`)).toEqual([
+      'rules:0->1',
+      'rules:1->2',
+    ]);
+    expect((data as typeof input).meta).toEqual({
+      name: 'Pack',
+      extensions: {
+        rules: { version: 2, savedRules: [{ id: 'r1' }], enabled: true },
+        quickTrees: [],
+      },
+    });
+    expect(input.meta.extensions.rules).toEqual([{ id: 'r1' }]);
+  });
+});
+
+describe('importTaxonomy migration', () => {
+  it('imports unversioned files and reports the migration', () => {
+    const result = importTaxonomy(JSON.stringify({ nodes }));
+
+    expect(result.success).toBe(true);
+    expect(result.taxonomy?.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(result.migration?.fromVersion).toBe(UNVERSIONED);
+  });
+
+  it('still rejects incompatible versions', () => {
+    const result = importTaxonomy(JSON.stringify({ schemaVersion: '2.0.0', nodes }));
+
+    expect(result.success).toBe(false);
+    expect(result.errors?.[0].code).toBe('INVALID_SCHEMA_VERSION');
+    expect(result.migration?.steps).toEqual([]);
+  });
+});
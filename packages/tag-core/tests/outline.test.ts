@@ -0,0 +1,61 @@
+/**
+ * TagSelector Core - Indented Outline Import and Export Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { importOutline, exportOutline } from '../src/index.js';
+
+const outline = ['衣服/', '  上衣/', '    T恤', '    卫衣', '', '  裤装/', '    牛仔裤', '配饰/', ''].join('\n');
+
+describe('importOutline', () => {
+  it('builds the hierarchy from indentation', () => {
+    const result = importOutline(outline);
+    expect(result.success).toBe(true);
+
+    const nodes = result.taxonomy!.nodes;
+    const byLabel = new Map(nodes.map((n) => [n.label, n]));
+    expect(nodes).toHaveLength(7);
+    expect(byLabel.get('衣服')).toMatchObject({ parentId: null, kind: 'folder', order: 0 });
+    expect(byLabel.get('配饰')).toMatchObject({ parentId: null, kind: 'folder', order: 1 });
+    expect(byLabel.get('卫衣')).toMatchObject({
+      parentId: byLabel.get('上衣')!.id,
+      kind: 'tag',
+      order: 1,
+    });
+  });
+
+  it('generates the same IDs on every import', () => {
+    expect(importOutline(outline).taxonomy).toEqual(importOutline(outline).taxonomy);
+  });
+
+  it('accepts tab indentation', () => {
+    const result = importOutline('A/\n\tB\n');
+    expect(result.taxonomy!.nodes[1].parentId).toBe(result.taxonomy!.nodes[0].id);
+  });
+
+  it('reports indentation errors by line', () => {
+    const skipped = importOutline('A/\n    B\n');
+    expect(skipped.success).toBe(true);
+
+    const jump = importOutline('A/\n  B/\n      C\n');
+    expect(jump.success).toBe(false);
+    expect(jump.errors![0]).toMatchObject({ path: 'line 3', code: 'ORPHAN_NODE' });
+
+    const uneven = importOutline('A/\n  B\n   C\n');
+    expect(uneven.errors![0]).toMatchObject({ path: 'line 3', code: 'INVALID_TYPE' });
+  });
+
+  it('reports tags with children', () => {
+    const result = importOutline('A\n  B\n');
+    expect(result.success).toBe(false);
+    expect(result.errors![0].code).toBe('TAG_HAS_CHILDREN');
+  });
+});
+
+describe('exportOutline', () => {
+  it('round-trips', () => {
+    const result = importOutline(outline);
+    expect(exportOutline(result.taxonomy!)).toBe(outline.replace('\n\n', '\n'));
+  });
+});
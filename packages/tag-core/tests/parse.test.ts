@@ -0,0 +1,96 @@
+/**
+ * TagSelector Core - Parse Keywords Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTaxonomyIndex,
+  parseKeywords,
+  parsePromptTerm,
+  formatPromptTerm,
+  formatForMylio,
+} from '../src/index.js';
+import type { Taxonomy } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'scene', label: 'Scene', parentId: null, kind: 'folder', order: 0 },
+    { id: 'beach', label: 'beach', parentId: 'scene', kind: 'tag', order: 0, aliases: ['seaside'] },
+    {
+      id: 'city',
+      label: 'city',
+      parentId: 'scene',
+      kind: 'tag',
+      order: 1,
+      data: { displayName: '城市', aliases: ['urban'] },
+    },
+    { id: 'hair', label: 'Hair', parentId: null, kind: 'folder', order: 1 },
+    { id: 'long-hair', label: 'long hair', parentId: 'hair', kind: 'tag', order: 0 },
+    { id: 'bow-hair', label: 'bow', parentId: 'hair', kind: 'tag', order: 1 },
+    { id: 'dress', label: 'Dress', parentId: null, kind: 'folder', order: 2 },
+    { id: 'bow-dress', label: 'bow', parentId: 'dress', kind: 'tag', order: 0 },
+    { id: 'ribbon', label: 'ribbon', parentId: 'dress', kind: 'tag', order: 1, aliases: ['beach'] },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+
+describe('parsePromptTerm', () => {
+  it('round-trips formatPromptTerm in both syntaxes', () => {
+    for (const weight of [undefined, 1.2, 0.8]) {
+      expect(parsePromptTerm(formatPromptTerm('a (b)', weight))).toEqual(
+        weight === undefined ? { label: 'a (b)' } : { label: 'a (b)', weight }
+      );
+    }
+    expect(parsePromptTerm(formatPromptTerm('cat', 1.1, 'novelai'))).toEqual({ label: 'cat', weight: 1.1 });
+    expect(parsePromptTerm(formatPromptTerm('cat', 0.9, 'novelai'))).toEqual({ label: 'cat', weight: 0.91 });
+  });
+
+  it('reads bare A1111 parens as 1.1 per level', () => {
+    expect(parsePromptTerm('((cat))')).toEqual({ label: 'cat', weight: 1.21 });
+  });
+});
+
+describe('parseKeywords', () => {
+  it('inverts formatForMylio', () => {
+    const ids = ['beach', 'city', 'long-hair'];
+    expect(parseKeywords(index, formatForMylio(index, ids)).nodeIds).toEqual(ids);
+  });
+
+  it('matches labels, displayNames and aliases case-insensitively', () => {
+    const result = parseKeywords(index, 'BEACH, 城市, seaside\nlong_hair,  Long   Hair');
+    expect(result.nodeIds).toEqual(['beach', 'city', 'long-hair']);
+    expect(result.matched.map((m) => m.field)).toEqual(['label', 'displayName', 'alias', 'label', 'label']);
+    expect(result.ambiguous).toEqual([]);
+    expect(result.unmatched).toEqual([]);
+  });
+
+  it('prefers a label match over an alias match', () => {
+    expect(parseKeywords(index, 'beach').matched).toEqual([{ token: 'beach', nodeId: 'beach', field: 'label' }]);
+  });
+
+  it('reports ambiguous and unmatched tokens', () => {
+    const result = parseKeywords(index, 'bow, sunset, Sunset, (bow:1.3)');
+    expect(result.nodeIds).toEqual([]);
+    expect(result.ambiguous).toEqual([
+      { token: 'bow', candidates: ['bow-hair', 'bow-dress'] },
+      { token: 'bow', candidates: ['bow-hair', 'bow-dress'], weight: 1.3 },
+    ]);
+    expect(result.unmatched).toEqual(['sunset']);
+  });
+
+  it('keeps prompt weights and honors a custom separator', () => {
+    const result = parseKeywords(index, '(beach:1.2) | {city}', { separator: '|' });
+    expect(result.matched).toEqual([
+      { token: 'beach', nodeId: 'beach', field: 'label', weight: 1.2 },
+      { token: 'city', nodeId: 'city', field: 'label', weight: 1.05 },
+    ]);
+  });
+
+  it('matches folders only when asked', () => {
+    expect(parseKeywords(index, 'Hair').unmatched).toEqual(['Hair']);
+    expect(parseKeywords(index, 'Hair', { kind: 'folder' }).nodeIds).toEqual(['hair']);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * TagSelector Core - Prompt Export Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTaxonomyIndex,
+  formatPromptTerm,
+  splitPromptBuckets,
+  formatPromptExport,
+} from '../src/index.js';
+import type { Taxonomy } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'style', label: 'Style', parentId: null, kind: 'folder', order: 0, export: true },
+    { id: 'anime', label: 'anime', parentId: 'style', kind: 'tag', order: 0 },
+    { id: 'blurry', label: 'blurry', parentId: 'style', kind: 'tag', order: 1 },
+    { id: 'quality', label: 'Quality', parentId: null, kind: 'folder', order: 1 },
+    { id: 'lowres', label: 'lowres', parentId: 'quality', kind: 'tag', order: 0 },
+    { id: 'hat', label: 'hat', parentId: null, kind: 'tag', order: 2 },
+    { id: 'red-hat', label: 'red hat', parentId: 'hat', kind: 'tag', order: 0 },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+
+describe('formatPromptTerm', () => {
+  it('leaves neutral weights bare', () => {
+    expect(formatPromptTerm('cat', undefined)).toBe('cat');
+    expect(formatPromptTerm('cat', 1)).toBe('cat');
+    expect(formatPromptTerm('cat', 0)).toBe('cat');
+    expect(formatPromptTerm('cat (black)', undefined)).toBe('cat \\(black\\)');
+  });
+
+  it('formats a1111 weights', () => {
+    expect(formatPromptTerm('cat', 1.3)).toBe('(cat:1.3)');
+    expect(formatPromptTerm('cat', 0.755)).toBe('(cat:0.76)');
+  });
+
+  it('formats novelai weights as brace levels', () => {
+    expect(formatPromptTerm('cat', 1.05 * 1.05, 'novelai')).toBe('{{cat}}');
+    expect(formatPromptTerm('cat', 1 / 1.05, 'novelai')).toBe('[cat]');
+    expect(formatPromptTerm('cat', 1.01, 'novelai')).toBe('cat');
+  });
+});
+
+describe('splitPromptBuckets', () => {
+  it('applies closure to positive tags only', () => {
+    const buckets = splitPromptBuckets(
+      index,
+      new Set(['anime', 'blurry', 'lowres']),
+      new Set(['blurry', 'lowres'])
+    );
+    expect(buckets.positive).toEqual(['style', 'anime']);
+    expect(buckets.negative).toEqual(['blurry', 'lowres']);
+  });
+
+  it('keeps a negative ancestor of a positive tag out of the positive bucket', () => {
+    const buckets = splitPromptBuckets(index, new Set(['hat', 'red-hat']), new Set(['hat']));
+    expect(buckets.positive).toEqual(['red-hat']);
+    expect(buckets.negative).toEqual(['hat']);
+  });
+
+  it('ignores negative IDs that are not selected', () => {
+    const buckets = splitPromptBuckets(index, new Set(['anime']), new Set(['lowres']));
+    expect(buckets.negative).toEqual([]);
+  });
+});
+
+describe('formatPromptExport', () => {
+  it('produces positive and negative strings with weights', () => {
+    const output = formatPromptExport(
+      index,
+      new Set(['anime', 'lowres']),
+      new Set(['lowres']),
+      'prompt',
+      { weights: new Map([['anime', 1.2], ['lowres', 1.4]]) }
+    );
+    expect(output).toEqual({
+      positive: 'Style, (anime:1.2)',
+      negative: '(lowres:1.4)',
+    });
+  });
+});
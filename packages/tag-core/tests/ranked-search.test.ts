@@ -0,0 +1,85 @@
+/**
+ * TagSelector Core - Ranked Search Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTaxonomyIndex, rankedSearch } from '../src/index.js';
+import type { Taxonomy, PinyinConverter } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'tops', label: '上衣', parentId: null, kind: 'folder', order: 0 },
+    { id: 'hoodie', label: '卫衣', parentId: 'tops', kind: 'tag', order: 0, aliases: ['hoodie'] },
+    { id: 'shirt', label: 'Shirt', parentId: 'tops', kind: 'tag', order: 1 },
+    { id: 'tshirt', label: 'T-Shirt', parentId: 'tops', kind: 'tag', order: 2 },
+    { id: 'portrait', label: 'Portrait', parentId: null, kind: 'tag', order: 1, data: { displayName: 'Headshot' } },
+    { id: 'shirtless', label: 'Bare', parentId: null, kind: 'tag', order: 2, data: { aliases: ['shirtless'] } },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+
+// Minimal dictionary for the characters used above
+const DICT: Record<string, string> = { 上: 'shang', 衣: 'yi', 卫: 'wei' };
+const pinyin: PinyinConverter = (text) => Array.from(text).map((ch) => DICT[ch] ?? ch);
+
+describe('rankedSearch', () => {
+  it('returns nothing for an empty query', () => {
+    expect(rankedSearch(index, '  ')).toEqual([]);
+  });
+
+  it('ranks exact > prefix > substring', () => {
+    const results = rankedSearch(index, 'shirt');
+    expect(results.map((r) => [r.node.id, r.match.field, r.match.kind])).toEqual([
+      ['shirt', 'label', 'exact'],
+      ['shirtless', 'alias', 'prefix'],
+      ['tshirt', 'label', 'substring'],
+    ]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[2].match.ranges).toEqual([[2, 7]]);
+  });
+
+  it('matches displayName', () => {
+    const [result] = rankedSearch(index, 'head');
+    expect(result.node.id).toBe('portrait');
+    expect(result.match).toEqual({
+      field: 'displayName',
+      text: 'Headshot',
+      kind: 'prefix',
+      ranges: [[0, 4]],
+    });
+  });
+
+  it('matches full and partial pinyin', () => {
+    const [full] = rankedSearch(index, 'weiyi', { pinyin });
+    expect(full.node.id).toBe('hoodie');
+    expect(full.match).toMatchObject({ kind: 'pinyin', text: '卫衣', ranges: [[0, 2]] });
+
+    const partial = rankedSearch(index, 'yi', { pinyin }).map((r) => r.node.id);
+    expect(partial).toEqual(['tops', 'hoodie']);
+  });
+
+  it('matches pinyin initials', () => {
+    const [result] = rankedSearch(index, 'wy', { pinyin });
+    expect(result.node.id).toBe('hoodie');
+    expect(result.match.kind).toBe('initials');
+  });
+
+  it('skips pinyin without a converter', () => {
+    expect(rankedSearch(index, 'weiyi')).toEqual([]);
+  });
+
+  it('matches typos fuzzily', () => {
+    const [result] = rankedSearch(index, 'portriat');
+    expect(result.node.id).toBe('portrait');
+    expect(result.match.kind).toBe('fuzzy');
+    expect(rankedSearch(index, 'portriat', { maxEditDistance: 0 })).toEqual([]);
+  });
+
+  it('filters by kind and limits results', () => {
+    expect(rankedSearch(index, 'yi', { pinyin, kind: 'folder' }).map((r) => r.node.id)).toEqual(['tops']);
+    expect(rankedSearch(index, 'shirt', { limit: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * TagSelector Core - Rules Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTaxonomyIndex,
+  validateRules,
+  computeRequiresClosure,
+  computeRequiredTags,
+  computeExcludedTags,
+  evaluateRules,
+  explainSelection,
+  findExclusionConflicts,
+  getRemovalSet,
+} from '../src/index.js';
+import type { Taxonomy, Rule, RuleType } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'style', label: 'Style', parentId: null, kind: 'folder', order: 0 },
+    { id: 'a', label: 'A', parentId: 'style', kind: 'tag', order: 0 },
+    { id: 'b', label: 'B', parentId: 'style', kind: 'tag', order: 1 },
+    { id: 'c', label: 'C', parentId: 'style', kind: 'tag', order: 2 },
+    { id: 'd', label: 'D', parentId: 'style', kind: 'tag', order: 3 },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+
+function rule(
+  id: string,
+  type: RuleType,
+  triggerTagId: string | null,
+  targetTagIds: string[],
+  extra: Partial<Rule> = {}
+): Rule {
+  return { id, name: id, type, triggerTagId, targetTagIds, ...extra };
+}
+
+describe('computeRequiresClosure', () => {
+  it('follows REQUIRES transitively and ignores warn-only rules', () => {
+    const rules = [
+      rule('r1', 'REQUIRES', 'a', ['b']),
+      rule('r2', 'REQUIRES', 'b', ['c']),
+      rule('r3', 'REQUIRES', 'c', ['d'], { severity: 'warn' }),
+    ];
+    expect(computeRequiresClosure('a', rules)).toEqual(new Set(['a', 'b', 'c']));
+  });
+});
+
+describe('computeRequiredTags', () => {
+  it('returns unselected required tags', () => {
+    const rules = [rule('r1', 'REQUIRES', 'a', ['b', 'c'])];
+    expect(computeRequiredTags(new Set(['a', 'b']), rules)).toEqual(new Set(['c']));
+  });
+});
+
+describe('computeExcludedTags', () => {
+  it('applies EXCLUDES in both directions', () => {
+    const rules = [rule('r1', 'EXCLUDES', 'a', ['b'])];
+    expect(computeExcludedTags(new Set(['a']), rules)).toEqual(new Set(['b']));
+    expect(computeExcludedTags(new Set(['b']), rules)).toEqual(new Set(['a']));
+  });
+
+  it('hides the other members of an AT_MOST_ONE_OF group', () => {
+    const rules = [rule('g', 'AT_MOST_ONE_OF', null, ['a', 'b', 'c'])];
+    expect(computeExcludedTags(new Set(['b']), rules)).toEqual(new Set(['a', 'c']));
+    expect(computeExcludedTags(new Set(['d']), rules)).toEqual(new Set());
+  });
+
+  it('applies a triggered group only while the trigger is selected', () => {
+    const rules = [rule('g', 'AT_MOST_ONE_OF', 'd', ['a', 'b'])];
+    expect(computeExcludedTags(new Set(['a']), rules)).toEqual(new Set());
+    expect(computeExcludedTags(new Set(['a', 'd']), rules)).toEqual(new Set(['b']));
+  });
+
+  it('ignores warn-only rules', () => {
+    const rules = [rule('r1', 'EXCLUDES', 'a', ['b'], { severity: 'warn' })];
+    expect(computeExcludedTags(new Set(['a']), rules)).toEqual(new Set());
+  });
+});
+
+describe('evaluateRules', () => {
+  it('reports unmet REQUIRES_ANY_OF and AT_LEAST_ONE_OF', () => {
+    const rules = [
+      rule('any', 'REQUIRES_ANY_OF', 'a', ['b', 'c']),
+      rule('least', 'AT_LEAST_ONE_OF', null, ['c', 'd']),
+    ];
+    expect(evaluateRules(new Set(), rules)).toEqual([]);
+    expect(evaluateRules(new Set(['a']), rules).map((v) => [v.ruleId, v.reason, v.tagIds])).toEqual([
+      ['any', 'none_selected', ['b', 'c']],
+      ['least', 'none_selected', ['c', 'd']],
+    ]);
+    expect(evaluateRules(new Set(['a', 'c']), rules)).toEqual([]);
+  });
+
+  it('reports warn-only violations without enforcing them', () => {
+    const rules = [
+      rule('req', 'REQUIRES', 'a', ['b'], { severity: 'warn' }),
+      rule('ex', 'EXCLUDES', 'a', ['c'], { severity: 'warn' }),
+    ];
+    const violations = evaluateRules(new Set(['a', 'c']), rules);
+    expect(violations).toMatchObject([
+      { ruleId: 'req', severity: 'warn', reason: 'missing', tagIds: ['b'] },
+      { ruleId: 'ex', severity: 'warn', reason: 'excluded', tagIds: ['c'] },
+    ]);
+    expect(computeRequiredTags(new Set(['a']), rules)).toEqual(new Set());
+  });
+
+  it('reports more than one selected AT_MOST_ONE_OF member', () => {
+    const rules = [rule('g', 'AT_MOST_ONE_OF', null, ['a', 'b', 'c'])];
+    expect(evaluateRules(new Set(['a', 'c']), rules)).toMatchObject([
+      { ruleId: 'g', reason: 'too_many', tagIds: ['a', 'c'] },
+    ]);
+  });
+
+  it('does not report enforced REQUIRES', () => {
+    const rules = [rule('r1', 'REQUIRES', 'a', ['b'])];
+    expect(evaluateRules(new Set(['a']), rules)).toEqual([]);
+  });
+});
+
+describe('validateRules', () => {
+  const errorTypes = (rules: Rule[]) => validateRules(rules, index).errors.map((e) => e.errorType);
+
+  it('accepts valid rules of every type', () => {
+    expect(
+      errorTypes([
+        rule('r1', 'REQUIRES', 'a', ['b']),
+        rule('r2', 'EXCLUDES', 'c', ['d']),
+        rule('r3', 'REQUIRES_ANY_OF', 'a', ['c', 'd']),
+        rule('r4', 'AT_MOST_ONE_OF', null, ['b', 'd']),
+        rule('r5', 'AT_LEAST_ONE_OF', null, ['c']),
+      ])
+    ).toEqual([]);
+  });
+
+  it('requires a trigger except for group rules', () => {
+    expect(errorTypes([rule('r1', 'REQUIRES_ANY_OF', null, ['b'])])).toEqual(['NO_TRIGGER']);
+    expect(errorTypes([rule('r2', 'AT_LEAST_ONE_OF', null, ['b'])])).toEqual([]);
+  });
+
+  it('requires two members in a mutual-exclusion group', () => {
+    expect(errorTypes([rule('g', 'AT_MOST_ONE_OF', null, ['a'])])).toEqual(['TOO_FEW_TARGETS']);
+  });
+
+  it('reports missing and non-tag targets', () => {
+    expect(errorTypes([rule('r1', 'REQUIRES', 'a', ['gone', 'style'])])).toEqual([
+      'TARGET_MISSING',
+      'TARGET_NOT_TAG',
+    ]);
+  });
+
+  it('reports REQUIRES and EXCLUDES on the same target', () => {
+    expect(
+      errorTypes([rule('r1', 'REQUIRES', 'a', ['b']), rule('r2', 'EXCLUDES', 'a', ['b'])])
+    ).toContain('CONFLICT_REQUIRES_EXCLUDES');
+  });
+
+  it('reports a REQUIRES chain that breaks a mutual-exclusion group', () => {
+    expect(
+      errorTypes([
+        rule('r1', 'REQUIRES', 'a', ['b']),
+        rule('r2', 'REQUIRES', 'b', ['c']),
+        rule('g', 'AT_MOST_ONE_OF', null, ['b', 'c']),
+      ])
+    ).toContain('UNSATISFIABLE');
+  });
+
+  it('does not block saving on warn-only conflicts', () => {
+    expect(
+      errorTypes([
+        rule('r1', 'REQUIRES', 'a', ['b']),
+        rule('r2', 'EXCLUDES', 'a', ['b'], { severity: 'warn' }),
+      ])
+    ).toEqual([]);
+  });
+});
+
+describe('explainSelection', () => {
+  const rules = [
+    rule('r1', 'REQUIRES', 'a', ['b']),
+    rule('r2', 'REQUIRES', 'b', ['c']),
+    rule('r3', 'EXCLUDES', 'c', ['d']),
+  ];
+
+  it('explains auto-added tags with the chain from the picked tag', () => {
+    const { required } = explainSelection(new Set(['a', 'b', 'c']), rules);
+    expect(required.get('b')).toEqual({
+      ruleId: 'r1',
+      ruleName: 'r1',
+      ruleType: 'REQUIRES',
+      sourceId: 'a',
+      chain: ['a', 'b'],
+    });
+    expect(required.get('c')?.chain).toEqual(['a', 'b', 'c']);
+    expect(required.has('a')).toBe(false);
+  });
+
+  it('explains hidden tags through the REQUIRES chain', () => {
+    const { excluded } = explainSelection(new Set(['a', 'b', 'c']), rules);
+    expect(excluded.get('d')).toMatchObject([{ ruleId: 'r3', sourceId: 'c', chain: ['a', 'b', 'c', 'd'] }]);
+  });
+
+  it('explains the reverse direction of EXCLUDES and group members', () => {
+    const { excluded } = explainSelection(new Set(['d']), [
+      ...rules,
+      rule('g', 'AT_MOST_ONE_OF', null, ['d', 'a']),
+    ]);
+    expect(excluded.get('c')).toMatchObject([{ ruleId: 'r3', sourceId: 'd', chain: ['d', 'c'] }]);
+    expect(excluded.get('a')).toMatchObject([{ ruleId: 'g', sourceId: 'd' }]);
+  });
+});
+
+describe('findExclusionConflicts', () => {
+  it('finds broken EXCLUDES and AT_MOST_ONE_OF rules', () => {
+    const rules = [
+      rule('ex', 'EXCLUDES', 'a', ['b', 'c']),
+      rule('g', 'AT_MOST_ONE_OF', null, ['c', 'd']),
+      rule('soft', 'EXCLUDES', 'a', ['d'], { severity: 'warn' }),
+    ];
+    expect(findExclusionConflicts(new Set(['a', 'b']), rules)).toEqual([
+      { ruleId: 'ex', ruleName: 'ex', ruleType: 'EXCLUDES', sides: [['a'], ['b']] },
+    ]);
+    expect(findExclusionConflicts(new Set(['c', 'd']), rules)).toMatchObject([
+      { ruleId: 'g', sides: [['c'], ['d']] },
+    ]);
+    expect(findExclusionConflicts(new Set(['b', 'c']), rules)).toEqual([]);
+  });
+});
+
+describe('getRemovalSet', () => {
+  it('also removes tags whose REQUIRES would re-add a removed tag', () => {
+    const rules = [rule('r1', 'REQUIRES', 'a', ['b']), rule('r2', 'REQUIRES', 'b', ['c'])];
+    expect(getRemovalSet(['c'], new Set(['a', 'b', 'c', 'd']), rules)).toEqual(new Set(['c', 'b', 'a']));
+  });
+});
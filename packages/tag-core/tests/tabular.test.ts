@@ -0,0 +1,90 @@
+/**
+ * TagSelector Core - CSV / TSV Import and Export Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { importTabular, exportTabular } from '../src/index.js';
+import type { Taxonomy } from '../src/index.js';
+
+describe('importTabular', () => {
+  it('imports CSV with explicit IDs and all columns', () => {
+    const csv = [
+      'id,label,parent,kind,order,aliases,displayName,color',
+      'clothing,衣服,,folder,0,,,',
+      'hoodie,卫衣,clothing,tag,1,hoodie|sweatshirt,Hoodie,#ff0000',
+      'tee,"T恤",clothing,tag,0,,,',
+    ].join('\n');
+
+    const result = importTabular(csv, { name: 'Test' });
+    expect(result.success).toBe(true);
+    expect(result.taxonomy!.meta).toEqual({ name: 'Test' });
+    expect(result.taxonomy!.nodes[1]).toEqual({
+      id: 'hoodie',
+      label: '卫衣',
+      parentId: 'clothing',
+      kind: 'tag',
+      order: 1,
+      data: { aliases: ['hoodie', 'sweatshirt'], displayName: 'Hoodie', color: '#ff0000' },
+    });
+  });
+
+  it('generates deterministic IDs, kinds and orders', () => {
+    const tsv = ['label\tparent', 'Clothing\t', 'Hoodie\tClothing', 'Tee\tClothing'].join('\r\n');
+
+    const first = importTabular(tsv);
+    const second = importTabular(tsv);
+    expect(first.success).toBe(true);
+    expect(first.taxonomy).toEqual(second.taxonomy);
+
+    const [clothing, hoodie, tee] = first.taxonomy!.nodes;
+    expect(clothing.id).toMatch(/^f_[0-9a-f]{8}$/);
+    expect(clothing.kind).toBe('folder');
+    expect(hoodie.id).toMatch(/^t_[0-9a-f]{8}$/);
+    expect(hoodie.parentId).toBe(clothing.id);
+    expect([hoodie.order, tee.order]).toEqual([0, 1]);
+  });
+
+  it('reports validation errors', () => {
+    const result = importTabular('id,label,parent\na,A,missing\n');
+    expect(result.success).toBe(false);
+    expect(result.errors![0].code).toBe('ORPHAN_NODE');
+  });
+
+  it('requires a label column', () => {
+    const result = importTabular('id,name\na,A\n');
+    expect(result.success).toBe(false);
+    expect(result.errors![0]).toMatchObject({ path: 'line 1', code: 'MISSING_FIELD' });
+  });
+});
+
+describe('exportTabular', () => {
+  const taxonomy: Taxonomy = {
+    schemaVersion: '1.3.1',
+    nodes: [
+      { id: 'b', label: 'B "quoted"', parentId: null, kind: 'tag', order: 1 },
+      { id: 'a', label: 'A', parentId: null, kind: 'folder', order: 0 },
+      { id: 'a1', label: 'A1', parentId: 'a', kind: 'tag', order: 0, data: { aliases: ['x', 'y'] } },
+    ],
+  };
+
+  it('writes rows in user order with quoting', () => {
+    expect(exportTabular(taxonomy)).toBe(
+      [
+        'id,label,parent,kind,order,aliases,displayName,color',
+        'a,A,,folder,0,,,',
+        'a1,A1,a,tag,0,x|y,,',
+        'b,"B ""quoted""",,tag,1,,,',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('round-trips through importTabular', () => {
+    for (const delimiter of [',', '\t'] as const) {
+      const result = importTabular(exportTabular(taxonomy, { delimiter }));
+      expect(result.success).toBe(true);
+      expect(exportTabular(result.taxonomy!, { delimiter })).toBe(exportTabular(taxonomy, { delimiter }));
+    }
+  });
+});
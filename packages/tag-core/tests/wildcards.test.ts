@@ -0,0 +1,98 @@
+/**
+ * TagSelector Core - Wildcard and Dynamic Prompt Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildTaxonomyIndex,
+  exportWildcards,
+  exportWildcardZip,
+  formatDynamicPrompt,
+  wildcardName,
+} from '../src/index.js';
+import type { Taxonomy, TagNode } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'clothing', label: 'clothing', parentId: null, kind: 'folder', order: 0 },
+    { id: 'tops', label: 'tops', parentId: 'clothing', kind: 'folder', order: 0 },
+    { id: 'shirt', label: 'shirt', parentId: 'tops', kind: 'tag', order: 1 },
+    { id: 'hoodie', label: 'hoodie', parentId: 'tops', kind: 'tag', order: 0, data: { displayName: '卫衣' } },
+    { id: 'hidden', label: 'hidden', parentId: 'tops', kind: 'tag', order: 2, export: false },
+    { id: 'shoes', label: 'shoes', parentId: 'clothing', kind: 'tag', order: 1 },
+    { id: 'misc', label: 'a/b: misc', parentId: null, kind: 'folder', order: 1 },
+    { id: 'paren', label: 'smile (happy)', parentId: 'misc', kind: 'tag', order: 0 },
+    { id: 'pipe', label: 'black|white', parentId: 'misc', kind: 'tag', order: 1 },
+    { id: 'empty', label: 'empty', parentId: null, kind: 'folder', order: 2 },
+    { id: 'dup1', label: 'Colors', parentId: null, kind: 'folder', order: 3 },
+    { id: 'red', label: 'red', parentId: 'dup1', kind: 'tag', order: 0 },
+    { id: 'dup2', label: 'colors', parentId: null, kind: 'folder', order: 4 },
+    { id: 'blue', label: 'blue', parentId: 'dup2', kind: 'tag', order: 0 },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+const displayLabel = (node: TagNode) => (node.data?.displayName as string | undefined) ?? node.label;
+
+describe('exportWildcards', () => {
+  it('writes one file per folder with its exported subtree in user order', () => {
+    const files = exportWildcards(index);
+    const byName = new Map(files.map((f) => [f.name, f]));
+    expect(byName.get('clothing')?.lines).toEqual(['hoodie', 'shirt', 'shoes']);
+    expect(byName.get('clothing/tops')?.lines).toEqual(['hoodie', 'shirt']);
+    expect(byName.get('clothing/tops')?.path).toBe('clothing/tops.txt');
+  });
+
+  it('skips folders without exported tags', () => {
+    expect(exportWildcards(index).map((f) => f.name)).not.toContain('empty');
+  });
+
+  it('sanitizes paths and escapes prompt syntax', () => {
+    const misc = exportWildcards(index).find((f) => f.name === 'a_b_ misc');
+    expect(misc?.lines).toEqual(['smile \\(happy\\)', 'black|white']);
+  });
+
+  it('suffixes colliding folder names', () => {
+    const names = exportWildcards(index).map((f) => f.name);
+    expect(names).toContain('Colors');
+    expect(names).toContain('colors_2');
+  });
+
+  it('uses display labels for lines but primary labels for paths', () => {
+    const tops = exportWildcards(index, { labelOf: displayLabel }).find((f) => f.name === 'clothing/tops');
+    expect(tops?.lines).toEqual(['卫衣', 'shirt']);
+  });
+
+  it('can export a single subtree', () => {
+    expect(exportWildcards(index, { rootId: 'tops' }).map((f) => f.name)).toEqual(['clothing/tops']);
+  });
+
+  it('bundles files into a zip', () => {
+    const text = new TextDecoder().decode(exportWildcardZip(index));
+    expect(text).toContain('clothing/tops.txt');
+    expect(text).toContain('hoodie\nshirt\n');
+  });
+});
+
+describe('wildcardName', () => {
+  it('joins folder labels with slashes', () => {
+    expect(wildcardName(index, 'tops')).toBe('clothing/tops');
+  });
+});
+
+describe('formatDynamicPrompt', () => {
+  it('formats a folder as a variant', () => {
+    expect(formatDynamicPrompt(index, 'tops')).toBe('{hoodie|shirt}');
+    expect(formatDynamicPrompt(index, 'tops', { labelOf: displayLabel })).toBe('{卫衣|shirt}');
+  });
+
+  it('escapes braces and pipes', () => {
+    expect(formatDynamicPrompt(index, 'misc')).toBe('{smile \\(happy\\)|black\\|white}');
+  });
+
+  it('returns an empty string for a folder without exported tags', () => {
+    expect(formatDynamicPrompt(index, 'empty')).toBe('');
+  });
+});
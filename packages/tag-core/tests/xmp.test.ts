@@ -0,0 +1,132 @@
+/**
+ * TagSelector Core - XMP Sidecar Tests
+ * Version: 1.3.1
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildTaxonomyIndex, exportXmp, importXmp, exportXmpZip, xmpFileName } from '../src/index.js';
+import type { Taxonomy } from '../src/index.js';
+
+const taxonomy: Taxonomy = {
+  schemaVersion: '1.3.1',
+  nodes: [
+    { id: 'places', label: 'Places', parentId: null, kind: 'folder', order: 0 },
+    { id: 'beach', label: 'beach', parentId: 'places', kind: 'tag', order: 0 },
+    { id: 'city', label: 'city & town', parentId: 'places', kind: 'tag', order: 1 },
+    { id: 'people', label: 'People', parentId: null, kind: 'folder', order: 1 },
+    { id: 'family', label: 'family', parentId: 'people', kind: 'tag', order: 0 },
+    { id: 'mom', label: 'Mom', parentId: 'family', kind: 'tag', order: 0, data: { displayName: '妈妈' } },
+    { id: 'smile', label: 'smile', parentId: null, kind: 'tag', order: 2 },
+    { id: 'dup1', label: 'sunset', parentId: 'places', kind: 'tag', order: 2 },
+    { id: 'dup2', label: 'sunset', parentId: 'people', kind: 'tag', order: 1 },
+  ],
+};
+
+const index = buildTaxonomyIndex(taxonomy);
+
+/** rdf:li values of one element */
+function items(xml: string, element: string): string[] {
+  const block = new RegExp(`<${element}>([\\s\\S]*?)</${element}>`).exec(xml);
+  return block ? [...block[1].matchAll(/<rdf:li>(.*?)<\/rdf:li>/g)].map((m) => m[1]) : [];
+}
+
+describe('exportXmp', () => {
+  it('writes flat subjects from the export set in user order', () => {
+    const xml = exportXmp(index, ['smile', 'mom', 'beach']);
+    expect(items(xml, 'dc:subject')).toEqual(['beach', 'family', 'Mom', 'smile']);
+  });
+
+  it('writes pipe-joined hierarchical paths including folders', () => {
+    const xml = exportXmp(index, ['mom', 'smile']);
+    expect(items(xml, 'lr:hierarchicalSubject')).toEqual(['People|family', 'People|family|Mom', 'smile']);
+  });
+
+  it('escapes XML special characters', () => {
+    const xml = exportXmp(index, ['city']);
+    expect(xml).toContain('<rdf:li>city &amp; town</rdf:li>');
+    expect(xml).toContain('<rdf:li>Places|city &amp; town</rdf:li>');
+  });
+
+  it('can omit the hierarchy and use custom labels', () => {
+    const xml = exportXmp(index, ['mom'], {
+      hierarchical: false,
+      labelOf: (node) => (node.data?.displayName as string | undefined) ?? node.label,
+    });
+    expect(items(xml, 'dc:subject')).toEqual(['family', '妈妈']);
+    expect(xml).not.toContain('lr:hierarchicalSubject');
+  });
+
+  it('writes no bags for an empty selection', () => {
+    const xml = exportXmp(index, []);
+    expect(xml).toContain('<x:xmpmeta');
+    expect(xml).not.toContain('rdf:Bag');
+  });
+});
+
+describe('importXmp', () => {
+  it('round-trips a selection', () => {
+    const xml = exportXmp(index, ['mom', 'city', 'dup2']);
+    const result = importXmp(index, xml);
+    expect(new Set(result.nodeIds)).toEqual(new Set(['city', 'family', 'mom', 'dup2']));
+    expect(result.unmatched).toEqual([]);
+  });
+
+  it('uses paths to pick between tags sharing a label', () => {
+    const xml = exportXmp(index, ['dup1']);
+    expect(importXmp(index, xml).nodeIds).toEqual(['dup1']);
+  });
+
+  it('reads flat-only sidecars written by other tools', () => {
+    const xml = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF><rdf:Description>
+      <dc:subject><rdf:Bag><rdf:li>Beach</rdf:li><rdf:li>sunset</rdf:li><rdf:li>kayak</rdf:li></rdf:Bag></dc:subject>
+    </rdf:Description></rdf:RDF></x:xmpmeta>`;
+    const result = importXmp(index, xml);
+    expect(result.nodeIds).toEqual(['beach']);
+    expect(result.unmatched).toEqual(['sunset', 'kayak']);
+  });
+
+  it('falls back to the leaf of a path from another hierarchy', () => {
+    const xml = `<lr:hierarchicalSubject><rdf:Bag>
+      <rdf:li>Keywords|Expressions|smile</rdf:li>
+      <rdf:li>Places</rdf:li>
+    </rdf:Bag></lr:hierarchicalSubject>`;
+    const result = importXmp(index, xml);
+    expect(result.nodeIds).toEqual(['smile']);
+    expect(result.unmatched).toEqual([]);
+  });
+
+  it('matches display names in paths and decodes entities', () => {
+    const xml = `<lr:hierarchicalSubject><rdf:Bag>
+      <rdf:li>People|family|&#22920;&#22920;</rdf:li>
+    </rdf:Bag></lr:hierarchicalSubject>`;
+    expect(importXmp(index, xml).nodeIds).toEqual(['mom']);
+  });
+
+  it('keeps out-of-range character references as written', () => {
+    const xml = `<dc:subject><rdf:Bag>
+      <rdf:li>beach</rdf:li>
+      <rdf:li>&#x110000;</rdf:li>
+      <rdf:li>&#99999999;x</rdf:li>
+    </rdf:Bag></dc:subject>`;
+    const result = importXmp(index, xml);
+    expect(result.nodeIds).toEqual(['beach']);
+    expect(result.unmatched).toEqual(['&#x110000;', '&#99999999;x']);
+  });
+});
+
+describe('xmp sidecar files', () => {
+  it('names sidecars after the image', () => {
+    expect(xmpFileName('trip/IMG_001.JPG')).toBe('trip/IMG_001.xmp');
+  });
+
+  it('bundles one sidecar per image', () => {
+    const zip = exportXmpZip(index, [
+      { imageName: 'a.jpg', selectedIds: ['beach'] },
+      { imageName: 'b.png', selectedIds: ['smile'] },
+    ]);
+    const text = new TextDecoder().decode(zip);
+    expect(text).toContain('a.xmp');
+    expect(text).toContain('b.xmp');
+    expect(text).toContain('<rdf:li>Places|beach</rdf:li>');
+  });
+});